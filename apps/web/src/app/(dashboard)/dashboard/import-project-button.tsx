@@ -0,0 +1,75 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+
+/**
+ * Creates a project from a zip exported from another project
+ */
+export function ImportProjectButton() {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importBundle = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append("bundle", file);
+
+      const response = await fetch("/api/projects/import", {
+        method: "POST",
+        body: formData,
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to import project");
+      }
+
+      router.push(`/projects/${result.projectId}`);
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : "Failed to import project");
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".zip,application/zip"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = "";
+          if (file) {
+            importBundle(file);
+          }
+        }}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+        className="inline-flex h-10 items-center justify-center gap-2 rounded-md border border-input bg-background px-4 text-sm font-medium shadow-sm transition-colors hover:bg-accent hover:text-accent-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50"
+        title="Create a project from an exported zip"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12"
+          />
+        </svg>
+        {isImporting ? "Importing..." : "Import"}
+      </button>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+}
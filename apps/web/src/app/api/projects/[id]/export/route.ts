@@ -0,0 +1,80 @@
+/**
+ * Project Export API Route Handler
+ *
+ * GET - Download the project's files as a zip
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { workerFetch, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/export
+ *
+ * Streams a zip of the project's sandbox from the worker. The zip holds
+ * a `nexusgen.json` manifest with the specification, the prompt and
+ * models of the last generation, and a SHA-256 per file; it can be
+ * imported again through POST /api/projects/import.
+ *
+ * Returns:
+ * - 200: application/zip attachment
+ * - 401: Unauthorized
+ * - 404: Project not found, or nothing generated yet
+ * - 500: Internal server error
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const response = await workerFetch(`/projects/${id}/export`);
+
+    return new NextResponse(response.body, {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition':
+          response.headers.get('content-disposition') ?? `attachment; filename="${id}.zip"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Project export error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Project File Question API Route Handler
+ *
+ * POST - Ask the AI about a file of the project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { quotaService, QuotaExceededError, quotaErrorResponse } from '@/lib/quota';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const askSchema = z.object({
+  path: z.string().min(1).max(500),
+  question: z.string().trim().min(1).max(2000),
+});
+
+/**
+ * POST /api/projects/[id]/files/ask
+ *
+ * Body: `{ path, question }`. The coder agent answers from the file and
+ * the project's specification; the tokens count against the user's AI
+ * token quota.
+ *
+ * Returns:
+ * - 200: The answer as markdown, with the tokens used
+ * - 400: Invalid input, or a binary file
+ * - 401: Unauthorized
+ * - 402: AI token quota exceeded
+ * - 404: Project or file not found
+ * - 500: Internal server error
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const validated = askSchema.parse(await request.json());
+
+    await quotaService.assert(userId, 'aiTokens');
+
+    const { answer, totalTokens } = await workerRequest<{ answer: string; totalTokens: number }>(
+      `/projects/${id}/files/ask`,
+      {
+        method: 'POST',
+        body: JSON.stringify({ ...validated, userId }),
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      answer,
+      totalTokens,
+    });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error);
+    }
+
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Project file question error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
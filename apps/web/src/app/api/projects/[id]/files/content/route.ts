@@ -0,0 +1,167 @@
+/**
+ * Project File Content API Route Handler
+ *
+ * GET - Read a file of the project's sandbox
+ * PUT - Save a file edited in the code explorer
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface ProjectFileContent {
+  path: string;
+  size: number;
+  readOnly: boolean;
+  binary: boolean;
+  content?: string;
+}
+
+const writeFileSchema = z.object({
+  path: z.string().min(1).max(500),
+  content: z.string().max(1_000_000),
+});
+
+/**
+ * Whether the project exists and belongs to the user
+ */
+async function ownsProject(id: string, userId: string): Promise<boolean> {
+  if (!z.string().uuid().safeParse(id).success) {
+    return false;
+  }
+
+  const project = await prisma.project.findFirst({
+    where: { id, userId, deletedAt: null },
+    select: { id: true },
+  });
+
+  return project !== null;
+}
+
+function errorResponse(error: unknown, action: string): NextResponse {
+  if (error instanceof WorkerRequestError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Validation failed',
+        details: error.errors,
+      },
+      { status: 400 }
+    );
+  }
+
+  console.error(`Project file ${action} error:`, error);
+  return NextResponse.json(
+    { success: false, error: 'Internal server error' },
+    { status: 500 }
+  );
+}
+
+/**
+ * GET /api/projects/[id]/files/content?path=src/app/page.tsx
+ *
+ * Returns:
+ * - 200: The file; binary files and files over 1 MB have no content
+ * - 400: Missing or invalid path
+ * - 401: Unauthorized
+ * - 404: Project or file not found
+ * - 500: Internal server error
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    if (!(await ownsProject(id, userId))) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const path = request.nextUrl.searchParams.get('path');
+    if (!path) {
+      return NextResponse.json(
+        { success: false, error: 'path is required' },
+        { status: 400 }
+      );
+    }
+
+    const file = await workerRequest<ProjectFileContent>(
+      `/projects/${id}/files/content?path=${encodeURIComponent(path)}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      file,
+    });
+  } catch (error) {
+    return errorResponse(error, 'read');
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/files/content
+ *
+ * Body: `{ path, content }`. Creates the file when it does not exist.
+ * The change takes effect on the next build.
+ *
+ * Returns:
+ * - 200: The saved file
+ * - 400: Invalid input, or a read-only scaffold file
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    if (!(await ownsProject(id, userId))) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const validated = writeFileSchema.parse(await request.json());
+
+    const file = await workerRequest<ProjectFileContent>(`/projects/${id}/files/content`, {
+      method: 'PUT',
+      body: JSON.stringify(validated),
+    });
+
+    return NextResponse.json({
+      success: true,
+      file,
+    });
+  } catch (error) {
+    return errorResponse(error, 'save');
+  }
+}
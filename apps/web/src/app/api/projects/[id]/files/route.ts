@@ -0,0 +1,83 @@
+/**
+ * Project Files API Route Handler
+ *
+ * GET - List the files of the project's sandbox
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface ProjectFileEntry {
+  path: string;
+  size: number;
+  readOnly: boolean;
+}
+
+/**
+ * GET /api/projects/[id]/files
+ *
+ * Lists the sandbox files, sorted by path. Dependencies, build output and
+ * platform state are left out; scaffold files are marked read-only.
+ *
+ * Returns:
+ * - 200: Array of files with path, size and readOnly
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 502: Worker unreachable
+ * - 500: Internal server error
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const { files } = await workerRequest<{ files: ProjectFileEntry[] }>(
+      `/projects/${id}/files`
+    );
+
+    return NextResponse.json({
+      success: true,
+      files,
+    });
+  } catch (error) {
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Project files fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
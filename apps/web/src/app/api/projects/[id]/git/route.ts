@@ -0,0 +1,147 @@
+/**
+ * Project Git Remote API Route Handler
+ *
+ * GET - The remote the project's commits are pushed to
+ * PUT - Set or clear that remote
+ *
+ * The worker commits the project after every generation, edit and healing
+ * attempt and pushes each commit to the remote, authenticating with its
+ * own HTTPS token or SSH key.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { gitBranchSchema, gitProviderOf, gitRemoteSchema } from '@/lib/git';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const gitSettingsSchema = z.object({
+  gitRepo: gitRemoteSchema.nullable(),
+  gitBranch: gitBranchSchema.default('main'),
+});
+
+/**
+ * GET /api/projects/[id]/git
+ *
+ * Returns:
+ * - 200: `{ gitRepo, gitBranch, gitProvider }`; gitRepo is null when commits stay in the sandbox
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { gitRepo: true, gitBranch: true, gitProvider: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      git: project,
+    });
+  } catch (error) {
+    console.error('Get project git remote error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PUT /api/projects/[id]/git
+ *
+ * Body: `{ gitRepo, gitBranch? }`; a null gitRepo stops pushing. The next
+ * commit is pushed to the new remote; earlier ones go with it, since the
+ * branch is pushed whole.
+ *
+ * Returns:
+ * - 200: The saved remote
+ * - 400: Invalid remote or branch
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const validated = gitSettingsSchema.parse(await request.json());
+
+    const git = await prisma.project.update({
+      where: { id },
+      data: {
+        gitRepo: validated.gitRepo,
+        gitBranch: validated.gitBranch,
+        gitProvider: validated.gitRepo ? gitProviderOf(validated.gitRepo) : null,
+      },
+      select: { gitRepo: true, gitBranch: true, gitProvider: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      git,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Update project git remote error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
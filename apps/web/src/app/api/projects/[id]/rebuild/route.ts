@@ -0,0 +1,80 @@
+/**
+ * Project Rebuild API Route Handler
+ *
+ * POST - Build the project's sandbox as it is, e.g. after editing files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { addBuildJob } from '@/lib/queue';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/projects/[id]/rebuild
+ *
+ * Queues a build of the current sandbox with the same configuration a
+ * snapshot restore uses. Nothing is regenerated.
+ *
+ * Returns:
+ * - 202: Build queued, with the job ID
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await addBuildJob({
+      projectId: id,
+      userId,
+      config: {
+        buildCommand: 'npm run build',
+        outputDirectory: '.next',
+        installCommand: 'npm install',
+        environmentVariables: {},
+        nodeVersion: '20',
+      },
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Project rebuild error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Snapshot Restore API Route Handler
+ *
+ * POST - Reset the project's sandbox to a snapshot and rebuild it
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { addProjectRestoreJob } from '@/lib/queue';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string; snapshotId: string }>;
+}
+
+/**
+ * POST /api/projects/[id]/snapshots/[snapshotId]/restore
+ *
+ * Queues a job that writes the snapshot's files back to the sandbox,
+ * removes files the snapshot does not have, and builds the result.
+ *
+ * Returns:
+ * - 202: Restore queued, with the job ID
+ * - 401: Unauthorized
+ * - 404: Project or snapshot not found
+ * - 500: Internal server error
+ */
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, snapshotId } = await params;
+
+    const uuid = z.string().uuid();
+    const snapshot =
+      uuid.safeParse(id).success && uuid.safeParse(snapshotId).success
+        ? await prisma.versionSnapshot.findFirst({
+            where: { id: snapshotId, projectId: id, project: { userId } },
+            select: { id: true },
+          })
+        : null;
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, error: 'Snapshot not found' },
+        { status: 404 }
+      );
+    }
+
+    const job = await addProjectRestoreJob(id, userId, snapshot.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Snapshot restore error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
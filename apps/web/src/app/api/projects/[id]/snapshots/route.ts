@@ -0,0 +1,88 @@
+/**
+ * Project Snapshots API Route Handler
+ *
+ * GET - List the sandbox snapshots taken after each generation and healing attempt
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/snapshots
+ *
+ * Lists the project's snapshots, newest first. The file manifests are
+ * not included.
+ *
+ * Query parameters:
+ * - limit: Maximum number of snapshots (default 50, max 200)
+ *
+ * Returns:
+ * - 200: Array of snapshots with attempt, reason, file count and build outcome
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1),
+      200
+    );
+
+    const snapshots = await prisma.versionSnapshot.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        generationId: true,
+        attempt: true,
+        reason: true,
+        fileCount: true,
+        buildSucceeded: true,
+        buildError: true,
+        createdAt: true,
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      snapshots,
+    });
+  } catch (error) {
+    console.error('Snapshots fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Version Promote API Route Handler
+ *
+ * POST - Make a version current and redeploy its files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import type { DeploymentEnvironment } from '@nexusgen/types';
+import { getCurrentUserId } from '@/lib/auth';
+import { addProjectPromoteJob } from '@/lib/queue';
+import { QuotaExceededError, quotaErrorResponse } from '@/lib/quota';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string; versionId: string }>;
+}
+
+const promoteSchema = z.object({
+  environment: z.enum(['preview', 'staging', 'production']).optional(),
+});
+
+/**
+ * POST /api/projects/[id]/versions/[versionId]/promote
+ *
+ * Queues a job that restores the version's files to the sandbox, marks
+ * it current and deploys it.
+ *
+ * Request body (optional):
+ * - environment: `preview`, `staging` or `production`; defaults to the
+ *   environment of the project's last successful deployment, else `preview`
+ *
+ * Returns:
+ * - 202: Promotion queued, with the job ID and environment
+ * - 400: Validation error
+ * - 401: Unauthorized
+ * - 402: Deployment quota reached, with remaining allowances
+ * - 404: Project or version not found
+ * - 429: Too many deployments in flight, with Retry-After
+ * - 500: Internal server error
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id, versionId } = await params;
+
+    const uuid = z.string().uuid();
+    const version =
+      uuid.safeParse(id).success && uuid.safeParse(versionId).success
+        ? await prisma.projectVersion.findFirst({
+            where: { id: versionId, projectId: id, project: { userId } },
+            select: { id: true, version: true },
+          })
+        : null;
+    if (!version) {
+      return NextResponse.json(
+        { success: false, error: 'Version not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const validated = promoteSchema.parse(body);
+
+    let environment: DeploymentEnvironment | undefined = validated.environment;
+    if (!environment) {
+      const lastDeployment = await prisma.deployment.findFirst({
+        where: { projectId: id, status: 'DEPLOYED' },
+        orderBy: { createdAt: 'desc' },
+        select: { environment: true },
+      });
+      environment = promoteSchema.shape.environment.safeParse(
+        lastDeployment?.environment.toLowerCase()
+      ).data ?? 'preview';
+    }
+
+    const job = await addProjectPromoteJob(id, userId, version.id, environment);
+
+    return NextResponse.json(
+      {
+        success: true,
+        jobId: job.id,
+        version: version.version,
+        environment,
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error);
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Version promote error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
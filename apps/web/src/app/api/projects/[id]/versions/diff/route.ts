@@ -0,0 +1,100 @@
+/**
+ * Version Diff API Route Handler
+ *
+ * GET - Compare the files of two versions of a project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import type { VersionDiff } from '@nexusgen/types';
+import { getCurrentUserId } from '@/lib/auth';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const diffQuerySchema = z.object({
+  from: z.string().uuid(),
+  to: z.string().uuid(),
+});
+
+/**
+ * GET /api/projects/[id]/versions/diff
+ *
+ * Query parameters:
+ * - from: Version compared from (required)
+ * - to: Version compared to (required)
+ *
+ * Returns:
+ * - 200: Files added, modified and removed, with unified diffs of text files
+ * - 400: Missing or invalid version IDs
+ * - 401: Unauthorized
+ * - 404: Project or version not found
+ * - 500: Internal server error
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const { from, to } = diffQuerySchema.parse({
+      from: request.nextUrl.searchParams.get('from'),
+      to: request.nextUrl.searchParams.get('to'),
+    });
+
+    const diff = await workerRequest<VersionDiff>(
+      `/projects/${id}/versions/diff?${new URLSearchParams({ from, to })}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...diff,
+    });
+  } catch (error) {
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Version diff error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Project Versions API Route Handler
+ *
+ * GET - List the versions recorded after each generation that changed the project
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { z } from 'zod';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/projects/[id]/versions
+ *
+ * Lists the project's versions, newest first, each with its most recent
+ * deployment. The file manifests are not included.
+ *
+ * Query parameters:
+ * - limit: Maximum number of versions (default 50, max 200)
+ *
+ * Returns:
+ * - 200: Array of versions with number, changelog, latest/current flags
+ *   and last deployment
+ * - 401: Unauthorized
+ * - 404: Project not found
+ * - 500: Internal server error
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const project = z.string().uuid().safeParse(id).success
+      ? await prisma.project.findFirst({
+          where: { id, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(
+      Math.max(Number(request.nextUrl.searchParams.get('limit')) || 50, 1),
+      200
+    );
+
+    const versions = await prisma.projectVersion.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        version: true,
+        name: true,
+        changelog: true,
+        status: true,
+        isLatest: true,
+        isCurrent: true,
+        createdAt: true,
+        publishedAt: true,
+        deployments: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, status: true, environment: true, url: true, createdAt: true },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      success: true,
+      versions,
+    });
+  } catch (error) {
+    console.error('Versions fetch error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Project From Source API Route Handler
+ *
+ * POST - Create a project from an existing codebase and queue the
+ * generation that specifies it
+ *
+ * The codebase is a Git repository or a zip archive. Once imported, the
+ * project is edited with prompts like a generated one.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import { gitBranchSchema, gitRemoteSchema } from '@/lib/git';
+import {
+  addImportGenerationJob,
+  assertGenerationSlot,
+  type CodebaseSource,
+} from '@/lib/queue';
+import {
+  QuotaExceededError,
+  notifyQuotaWarning,
+  quotaErrorResponse,
+  quotaService,
+} from '@/lib/quota';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+import { z } from 'zod';
+
+/**
+ * Largest archive accepted, matching the worker's body limit
+ */
+const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Form fields, as strings; the archive file is checked separately
+ */
+const fromSourceSchema = z.discriminatedUnion('source', [
+  z.object({
+    source: z.literal('git'),
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(1000).optional(),
+    notes: z.string().trim().max(10000).optional(),
+    repoUrl: gitRemoteSchema,
+    branch: gitBranchSchema.optional(),
+  }),
+  z.object({
+    source: z.literal('archive'),
+    name: z.string().trim().min(1).max(100),
+    description: z.string().trim().max(1000).optional(),
+    notes: z.string().trim().max(10000).optional(),
+  }),
+]);
+
+interface SourceImportResult {
+  filesImported: number;
+  skippedFiles: number;
+  commit?: string;
+}
+
+/**
+ * URL-friendly form of a name, unique per user thanks to a random suffix
+ */
+function toSlug(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .slice(0, 60);
+
+  return `${base || 'imported-project'}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Remove a project whose creation failed, with any codebase imported into
+ * its sandbox, so it does not count against the project quota
+ */
+async function discardProject(projectId: string): Promise<void> {
+  try {
+    await workerRequest(`/projects/${projectId}/source`, { method: 'DELETE' });
+  } catch (error) {
+    console.error(`Failed to remove the sandbox of project ${projectId}:`, error);
+  }
+  await prisma.project.delete({ where: { id: projectId } });
+}
+
+/**
+ * Value of a text form field, with empty fields treated as missing
+ */
+function field(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+/**
+ * POST /api/projects/from-source
+ *
+ * Multipart form:
+ * - source: `git` or `archive`
+ * - name: Project name (required, 1-100 chars)
+ * - description: Project description (optional)
+ * - notes: What the codebase is and how it should be understood (optional)
+ * - repoUrl, branch: Repository to clone and its branch, for `git`; the
+ *   default branch when none is given
+ * - archive: Zip file of the codebase, for `archive`
+ *
+ * The project is created first so the worker has a sandbox to import
+ * into, and is removed again, sandbox included, if the codebase is
+ * rejected or its generation cannot be queued.
+ *
+ * Returns:
+ * - 201: Project created, with projectId and the number of files imported
+ * - 400: Validation error, or a codebase that cannot be imported
+ * - 401: Unauthorized
+ * - 402: Project or AI token quota reached, with remaining allowances
+ * - 429: Too many generations in flight, with Retry-After
+ * - 500: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const validated = fromSourceSchema.parse({
+      source: field(formData, 'source'),
+      name: field(formData, 'name'),
+      description: field(formData, 'description'),
+      notes: field(formData, 'notes'),
+      repoUrl: field(formData, 'repoUrl'),
+      branch: field(formData, 'branch'),
+    });
+
+    const archive = formData.get('archive');
+    if (validated.source === 'archive') {
+      if (!(archive instanceof File) || archive.size === 0) {
+        return NextResponse.json(
+          { success: false, error: 'A zip archive of the codebase is required' },
+          { status: 400 }
+        );
+      }
+      if (archive.size > MAX_ARCHIVE_BYTES) {
+        return NextResponse.json(
+          { success: false, error: `Archive exceeds ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Check quotas and the generation slot before creating anything, so
+    // a rejected request does not leave a project behind
+    const projectQuota = await quotaService.assert(userId, 'projects');
+    await assertGenerationSlot(userId);
+
+    const importedFrom =
+      validated.source === 'git' ? validated.repoUrl : (archive as File).name;
+
+    const project = await prisma.project.create({
+      data: {
+        name: validated.name,
+        slug: toSlug(validated.name),
+        description: validated.description,
+        userId,
+        status: 'DRAFT',
+        visibility: 'PRIVATE',
+        settings: {
+          prompt: validated.notes ?? null,
+          importedFrom,
+        },
+      },
+    });
+
+    let source: CodebaseSource;
+    let result: SourceImportResult;
+    try {
+      if (validated.source === 'git') {
+        result = await workerRequest<SourceImportResult>(`/projects/${project.id}/source/git`, {
+          method: 'POST',
+          body: JSON.stringify({ url: validated.repoUrl, branch: validated.branch }),
+        });
+        source = {
+          type: 'git',
+          url: validated.repoUrl,
+          branch: validated.branch,
+          commit: result.commit,
+        };
+      } else {
+        const file = archive as File;
+        result = await workerRequest<SourceImportResult>(`/projects/${project.id}/source/archive`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/zip' },
+          body: Buffer.from(await file.arrayBuffer()),
+        });
+        source = { type: 'archive', filename: file.name };
+      }
+
+      await addImportGenerationJob(project.id, userId, source, validated.notes);
+    } catch (error) {
+      await discardProject(project.id);
+      throw error;
+    }
+
+    await notifyQuotaWarning(userId, 'projects', projectQuota);
+
+    return NextResponse.json(
+      {
+        success: true,
+        projectId: project.id,
+        filesImported: result.filesImported,
+        skippedFiles: result.skippedFiles,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error);
+    }
+
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Validation failed',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Project creation from source error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Project Import API Route Handler
+ *
+ * POST - Create a project from a zip exported by GET /api/projects/[id]/export
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@nexusgen/database';
+import { getCurrentUserId } from '@/lib/auth';
+import {
+  QuotaExceededError,
+  notifyQuotaWarning,
+  quotaErrorResponse,
+  quotaService,
+} from '@/lib/quota';
+import { workerRequest, WorkerRequestError } from '@/lib/worker';
+
+/**
+ * Largest bundle accepted, matching the worker's body limit
+ */
+const MAX_BUNDLE_BYTES = 50 * 1024 * 1024;
+
+interface ImportResult {
+  project: {
+    id: string;
+    name?: string;
+    description?: string | null;
+    framework?: string | null;
+  };
+  filesImported: number;
+  specificationRestored: boolean;
+  warnings: string[];
+}
+
+/**
+ * URL-friendly form of a name, unique per user thanks to a random suffix
+ */
+function toSlug(name: string): string {
+  const base = name
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .slice(0, 60);
+
+  return `${base || 'imported-project'}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * POST /api/projects/import
+ *
+ * Multipart form with a `bundle` file. The project is created first so
+ * the worker has a sandbox to unpack into; it takes the name,
+ * description and framework recorded in the bundle, and is removed
+ * again if the bundle is rejected.
+ *
+ * Returns:
+ * - 201: Project created, with projectId and import warnings
+ * - 400: Missing, oversized or invalid bundle
+ * - 401: Unauthorized
+ * - 402: Project quota reached
+ * - 500: Internal server error
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await request.formData();
+    const bundle = formData.get('bundle');
+    if (!(bundle instanceof File) || bundle.size === 0) {
+      return NextResponse.json(
+        { success: false, error: 'A bundle zip file is required' },
+        { status: 400 }
+      );
+    }
+    if (bundle.size > MAX_BUNDLE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: `Bundle exceeds ${MAX_BUNDLE_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    const projectQuota = await quotaService.assert(userId, 'projects');
+
+    const fallbackName = bundle.name.replace(/\.zip$/i, '') || 'Imported project';
+    const project = await prisma.project.create({
+      data: {
+        name: fallbackName.slice(0, 100),
+        slug: toSlug(fallbackName),
+        userId,
+        status: 'DRAFT',
+        visibility: 'PRIVATE',
+        settings: {
+          importedFrom: bundle.name,
+        },
+      },
+    });
+
+    let result: ImportResult;
+    try {
+      result = await workerRequest<ImportResult>(`/projects/${project.id}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/zip' },
+        body: Buffer.from(await bundle.arrayBuffer()),
+      });
+    } catch (error) {
+      await prisma.project.delete({ where: { id: project.id } });
+      throw error;
+    }
+
+    const name = result.project.name?.slice(0, 100) || project.name;
+    await prisma.project.update({
+      where: { id: project.id },
+      data: {
+        name,
+        slug: name === project.name ? project.slug : toSlug(name),
+        description: result.project.description ?? undefined,
+        framework: result.project.framework ?? undefined,
+        status: 'ACTIVE',
+        settings: {
+          importedFrom: bundle.name,
+          sourceProjectId: result.project.id,
+        },
+      },
+    });
+
+    await notifyQuotaWarning(userId, 'projects', projectQuota);
+
+    return NextResponse.json(
+      {
+        success: true,
+        projectId: project.id,
+        filesImported: result.filesImported,
+        specificationRestored: result.specificationRestored,
+        warnings: result.warnings,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error);
+    }
+
+    if (error instanceof WorkerRequestError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Project import error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
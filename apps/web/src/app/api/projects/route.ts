@@ -8,7 +8,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@nexusgen/database';
 import { getCurrentUserId } from '@/lib/auth';
+import { isOwnUploadKey } from '@/lib/uploads';
 import { addFullAppGenerationJob } from '@/lib/queue';
+import {
+  QuotaExceededError,
+  notifyQuotaWarning,
+  quotaErrorResponse,
+  quotaService,
+} from '@/lib/quota';
 import { z } from 'zod';
 
 /**
@@ -30,12 +37,14 @@ const createProjectSchema = z.object({
  * - name: Project name (required, 1-100 chars)
  * - description: Project description (optional)
  * - prompt: User prompt for generation (required, 10-10000 chars)
- * - assetKeys: Array of asset keys (optional)
+ * - assetKeys: Storage keys of the user's own uploads (optional)
  *
  * Returns:
  * - 201: Project created successfully with projectId
  * - 400: Validation error
  * - 401: Unauthorized
+ * - 402: Project or AI token quota reached, with remaining allowances
+ * - 429: Too many generations in flight, with Retry-After
  * - 500: Internal server error
  */
 export async function POST(request: NextRequest) {
@@ -53,12 +62,24 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const validated = createProjectSchema.parse(body);
 
+    if (!validated.assetKeys.every((key) => isOwnUploadKey(key, userId))) {
+      return NextResponse.json(
+        { success: false, error: 'Assets must be your own uploads' },
+        { status: 400 }
+      );
+    }
+
     // Generate a URL-friendly slug from the project name
     const slug = validated.name
       .toLowerCase()
       .replace(/\s+/g, '-')
       .replace(/[^a-z0-9-]/g, '');
 
+    // Check quotas before creating anything, so a rejected request
+    // does not leave an empty project behind
+    const projectQuota = await quotaService.assert(userId, 'projects');
+    await quotaService.assert(userId, 'aiTokens');
+
     // Create project in database
     const project = await prisma.project.create({
       data: {
@@ -83,6 +104,8 @@ export async function POST(request: NextRequest) {
       validated.assetKeys
     );
 
+    await notifyQuotaWarning(userId, 'projects', projectQuota);
+
     return NextResponse.json(
       {
         success: true,
@@ -91,6 +114,10 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error);
+    }
+
     // Handle validation errors
     if (error instanceof z.ZodError) {
       return NextResponse.json(
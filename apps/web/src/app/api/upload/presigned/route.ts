@@ -4,6 +4,8 @@ import {
   getSignedUploadUrl,
   generateUuid,
 } from '@nexusgen/utils';
+import { getCurrentUserId } from '@/lib/auth';
+import { uploadKeyPrefix } from '@/lib/uploads';
 
 // ============ Types ============
 
@@ -24,6 +26,8 @@ interface ErrorResponse {
 
 // ============ Constants ============
 
+// Uploads are served from the public bucket, so nothing a browser would
+// render as a page or run as a script (HTML, JavaScript) is accepted
 const ALLOWED_CONTENT_TYPES = [
   'image/jpeg',
   'image/png',
@@ -31,6 +35,11 @@ const ALLOWED_CONTENT_TYPES = [
   'image/webp',
   'image/svg+xml',
   'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+  'text/typescript',
+  'text/css',
 ];
 
 const MAX_FILENAME_LENGTH = 255;
@@ -74,6 +83,11 @@ function getExtensionFromContentType(contentType: string): string {
     'image/webp': 'webp',
     'image/svg+xml': 'svg',
     'application/pdf': 'pdf',
+    'text/plain': 'txt',
+    'text/markdown': 'md',
+    'application/json': 'json',
+    'text/typescript': 'ts',
+    'text/css': 'css',
   };
   return mapping[contentType] || 'bin';
 }
@@ -81,7 +95,7 @@ function getExtensionFromContentType(contentType: string): string {
 /**
  * Generate a unique storage key for the uploaded file
  */
-function generateStorageKey(filename: string, contentType: string): string {
+function generateStorageKey(userId: string, filename: string, contentType: string): string {
   const uuid = generateUuid();
   const sanitizedFilename = sanitizeFilename(filename);
   const extension = getExtensionFromContentType(contentType);
@@ -89,9 +103,9 @@ function generateStorageKey(filename: string, contentType: string): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, '0');
 
-  // Format: uploads/YYYY/MM/uuid/filename.ext
-  // This structure allows for easy organization and cleanup
-  return `uploads/${year}/${month}/${uuid}/${sanitizedFilename}.${extension}`;
+  // Format: uploads/userId/YYYY/MM/uuid/filename.ext
+  // The user prefix lets generations check that assets are the user's own
+  return `${uploadKeyPrefix(userId)}${year}/${month}/${uuid}/${sanitizedFilename}.${extension}`;
 }
 
 // ============ Route Handler ============
@@ -100,6 +114,14 @@ export async function POST(
   request: NextRequest
 ): Promise<NextResponse<PresignedUrlResponse | ErrorResponse>> {
   try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
     // Parse request body
     let body: PresignedUrlRequest;
     try {
@@ -160,7 +182,7 @@ export async function POST(
     }
 
     // Generate unique storage key
-    const key = generateStorageKey(filename, contentType);
+    const key = generateStorageKey(userId, filename, contentType);
 
     // Generate presigned upload URL
     let uploadUrl: string;
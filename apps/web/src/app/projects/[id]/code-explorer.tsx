@@ -0,0 +1,282 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  Save,
+  Hammer,
+  Sparkles,
+  RefreshCw,
+  Loader2,
+  Lock,
+  Send
+} from 'lucide-react';
+import { CodeEditor } from '@/components/editor';
+import FileTree, { type FileTreeEntry } from './file-tree';
+
+interface OpenFile {
+  path: string;
+  readOnly: boolean;
+  binary: boolean;
+  /** Content as last loaded or saved */
+  savedContent: string;
+}
+
+interface CodeExplorerProps {
+  projectId: string;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const errorData = await response.json().catch(() => ({}));
+  return errorData.error || fallback;
+}
+
+export default function CodeExplorer({ projectId }: CodeExplorerProps) {
+  const [files, setFiles] = useState<FileTreeEntry[]>([]);
+  const [isLoadingFiles, setIsLoadingFiles] = useState(true);
+  const [openFile, setOpenFile] = useState<OpenFile | null>(null);
+  const [content, setContent] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [isAsking, setIsAsking] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const isDirty = openFile !== null && content !== openFile.savedContent;
+
+  const loadFiles = useCallback(async () => {
+    setIsLoadingFiles(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/files`);
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to load files'));
+      }
+      const result = await response.json();
+      setFiles(result.files ?? []);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load files');
+    } finally {
+      setIsLoadingFiles(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadFiles();
+  }, [loadFiles]);
+
+  const selectFile = useCallback(async (path: string) => {
+    if (isDirty && !window.confirm(`Discard unsaved changes to ${openFile?.path}?`)) {
+      return;
+    }
+
+    setError(null);
+    setStatus(null);
+    setAnswer(null);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/files/content?path=${encodeURIComponent(path)}`
+      );
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to open file'));
+      }
+      const { file } = await response.json();
+      setOpenFile({
+        path: file.path,
+        readOnly: file.readOnly || file.binary,
+        binary: file.binary,
+        savedContent: file.content ?? '',
+      });
+      setContent(file.content ?? '');
+    } catch (openError) {
+      setError(openError instanceof Error ? openError.message : 'Failed to open file');
+    }
+  }, [isDirty, openFile, projectId]);
+
+  const save = useCallback(async () => {
+    if (!openFile || openFile.readOnly || !isDirty || isSaving) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/files/content`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: openFile.path, content }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to save file'));
+      }
+      setOpenFile({ ...openFile, savedContent: content });
+      setStatus(`Saved ${openFile.path}; rebuild to see the change`);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save file');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [content, isDirty, isSaving, openFile, projectId]);
+
+  const rebuild = useCallback(async () => {
+    setIsRebuilding(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/rebuild`, { method: 'POST' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to start build'));
+      }
+      setStatus('Build queued; follow it in the build output');
+    } catch (rebuildError) {
+      setError(rebuildError instanceof Error ? rebuildError.message : 'Failed to start build');
+    } finally {
+      setIsRebuilding(false);
+    }
+  }, [projectId]);
+
+  const ask = useCallback(async () => {
+    if (!openFile || !question.trim()) {
+      return;
+    }
+
+    setIsAsking(true);
+    setError(null);
+    setAnswer(null);
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/files/ask`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path: openFile.path, question }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to get an answer'));
+      }
+      const result = await response.json();
+      setAnswer(result.answer);
+    } catch (askError) {
+      setError(askError instanceof Error ? askError.message : 'Failed to get an answer');
+    } finally {
+      setIsAsking(false);
+    }
+  }, [openFile, projectId, question]);
+
+  return (
+    <div className="h-full flex gap-4 min-h-0">
+      {/* File tree */}
+      <div className="w-64 flex-shrink-0 flex flex-col min-h-0">
+        <div className="flex-1 min-h-0 flex flex-col">
+          <FileTree
+            files={files}
+            selectedPath={openFile?.path}
+            onSelect={selectFile}
+            emptyMessage={isLoadingFiles ? 'Loading files...' : 'This project has no files yet'}
+          />
+        </div>
+        <button
+          onClick={loadFiles}
+          disabled={isLoadingFiles}
+          className="mt-2 flex items-center justify-center gap-2 px-3 py-1 text-sm text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoadingFiles ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Editor */}
+      <div className="flex-1 min-w-0 flex flex-col min-h-0">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="flex items-center gap-2 min-w-0 text-sm font-mono text-gray-300">
+            <span className="truncate">{openFile?.path ?? 'Select a file'}</span>
+            {isDirty && <span className="text-amber-400" title="Unsaved changes">●</span>}
+            {openFile?.readOnly && (
+              <span className="flex items-center gap-1 text-xs text-gray-500">
+                <Lock className="w-3 h-3" />
+                {openFile.binary ? 'Binary' : 'Read-only'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={save}
+              disabled={!isDirty || isSaving || openFile?.readOnly}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              title="Save (Ctrl+S)"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save
+            </button>
+            <button
+              onClick={rebuild}
+              disabled={isRebuilding}
+              className="flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+              title="Build the project as it is now"
+            >
+              {isRebuilding ? <Loader2 className="w-4 h-4 animate-spin" /> : <Hammer className="w-4 h-4" />}
+              Rebuild
+            </button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+        {status && !error && <p className="text-sm text-gray-400 mb-2">{status}</p>}
+
+        <div className="flex-1 min-h-0 rounded-xl border border-gray-800 overflow-hidden">
+          {openFile && !openFile.binary ? (
+            <CodeEditor
+              value={content}
+              onChange={setContent}
+              path={openFile.path}
+              readOnly={openFile.readOnly}
+              onSave={save}
+              className="h-full"
+            />
+          ) : (
+            <div className="h-full flex items-center justify-center bg-gray-900">
+              <p className="text-gray-500">
+                {openFile ? 'Binary or large files cannot be shown' : 'Select a file to view its code'}
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Ask AI */}
+        {openFile && !openFile.binary && (
+          <div className="mt-3 flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <Sparkles className="w-4 h-4 text-purple-400 flex-shrink-0" />
+              <input
+                value={question}
+                onChange={(event) => setQuestion(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    ask();
+                  }
+                }}
+                placeholder="Ask AI about this file..."
+                maxLength={2000}
+                className="flex-1 px-3 py-1.5 text-sm bg-gray-900 border border-gray-800 rounded-lg text-white placeholder-gray-500 outline-none focus:border-cyan-500"
+              />
+              <button
+                onClick={ask}
+                disabled={isAsking || !question.trim()}
+                className="p-2 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                title="Ask"
+              >
+                {isAsking ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+              </button>
+            </div>
+            {answer && (
+              <div className="max-h-48 overflow-y-auto px-4 py-3 text-sm text-gray-200 whitespace-pre-wrap bg-gray-900 border border-gray-800 rounded-xl">
+                {answer}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
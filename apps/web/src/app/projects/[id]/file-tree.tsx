@@ -0,0 +1,155 @@
+'use client';
+
+import { useMemo } from 'react';
+import { FolderTree, Folder, FileCode, Lock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+/**
+ * A file shown in the tree
+ */
+export interface FileTreeEntry {
+  path: string;
+  size: number;
+  /** Scaffold files the user cannot edit */
+  readOnly?: boolean;
+}
+
+interface FileTreeProps {
+  files: FileTreeEntry[];
+  /** File highlighted in the tree */
+  selectedPath?: string;
+  /** Makes files clickable */
+  onSelect?: (path: string) => void;
+  emptyMessage?: string;
+}
+
+interface TreeNode {
+  name: string;
+  path: string;
+  children: TreeNode[];
+  file?: FileTreeEntry;
+}
+
+/**
+ * Nest flat paths into directories, directories first, then by name
+ */
+function buildTree(files: FileTreeEntry[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [] };
+
+  for (const file of files) {
+    let node = root;
+    const parts = file.path.split('/');
+
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      let child = node.children.find((candidate) => candidate.name === part);
+      if (!child) {
+        child = { name: part, path, children: [] };
+        node.children.push(child);
+      }
+      if (index === parts.length - 1) {
+        child.file = file;
+      }
+      node = child;
+    });
+  }
+
+  const sort = (nodes: TreeNode[]): TreeNode[] =>
+    nodes
+      .map((node) => ({ ...node, children: sort(node.children) }))
+      .sort((a, b) => {
+        if (!a.file !== !b.file) {
+          return a.file ? 1 : -1;
+        }
+        return a.name.localeCompare(b.name);
+      });
+
+  return sort(root.children);
+}
+
+function TreeItem({
+  node,
+  depth,
+  selectedPath,
+  onSelect,
+}: {
+  node: TreeNode;
+  depth: number;
+  selectedPath?: string;
+  onSelect?: (path: string) => void;
+}) {
+  const selectable = node.file && onSelect;
+
+  return (
+    <li>
+      <div
+        className={cn(
+          'flex items-center gap-2 px-2 py-0.5 rounded text-sm font-mono',
+          node.path === selectedPath ? 'bg-cyan-500/10 text-cyan-300' : 'text-gray-300',
+          selectable && 'cursor-pointer hover:bg-gray-800'
+        )}
+        style={{ paddingLeft: `${depth * 12 + 8}px` }}
+        title={node.file ? `${node.file.path} (${node.file.size} bytes)` : node.path}
+        onClick={selectable ? () => onSelect(node.path) : undefined}
+      >
+        {node.file ? (
+          <FileCode className="w-4 h-4 flex-shrink-0 text-gray-500" />
+        ) : (
+          <Folder className="w-4 h-4 flex-shrink-0 text-cyan-400" />
+        )}
+        <span className="truncate">{node.name}</span>
+        {node.file?.readOnly && (
+          <Lock className="w-3 h-3 flex-shrink-0 text-gray-600" aria-label="Read-only" />
+        )}
+      </div>
+      {node.children.length > 0 && (
+        <ul>
+          {node.children.map((child) => (
+            <TreeItem
+              key={child.path}
+              node={child}
+              depth={depth + 1}
+              selectedPath={selectedPath}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function FileTree({
+  files,
+  selectedPath,
+  onSelect,
+  emptyMessage = 'No files yet',
+}: FileTreeProps) {
+  const tree = useMemo(() => buildTree(files), [files]);
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center gap-2 mb-3">
+        <FolderTree className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-semibold text-white">Files</h2>
+        {files.length > 0 && <span className="text-sm text-gray-500">{files.length}</span>}
+      </div>
+
+      {files.length === 0 ? (
+        <p className="text-sm text-gray-500">{emptyMessage}</p>
+      ) : (
+        <ul className="overflow-y-auto py-2 bg-gray-900 rounded-xl border border-gray-800">
+          {tree.map((node) => (
+            <TreeItem
+              key={node.path}
+              node={node}
+              depth={0}
+              selectedPath={selectedPath}
+              onSelect={onSelect}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
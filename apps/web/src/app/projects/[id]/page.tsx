@@ -34,6 +34,52 @@ async function getProject(id: string, userId: string) {
   return project;
 }
 
+async function getSnapshots(projectId: string) {
+  const snapshots = await prisma.versionSnapshot.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+    select: {
+      id: true,
+      attempt: true,
+      reason: true,
+      fileCount: true,
+      buildSucceeded: true,
+      buildError: true,
+      createdAt: true,
+    },
+  });
+
+  return snapshots.map((snapshot) => ({
+    ...snapshot,
+    createdAt: snapshot.createdAt.toISOString(),
+  }));
+}
+
+async function getVersions(projectId: string) {
+  const versions = await prisma.projectVersion.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+    select: {
+      id: true,
+      version: true,
+      name: true,
+      changelog: true,
+      isLatest: true,
+      isCurrent: true,
+      createdAt: true,
+      publishedAt: true,
+    },
+  });
+
+  return versions.map((version) => ({
+    ...version,
+    createdAt: version.createdAt.toISOString(),
+    publishedAt: version.publishedAt?.toISOString() ?? null,
+  }));
+}
+
 export default async function ProjectPage({ params }: PageProps) {
   const { id } = await params;
   const userId = await requireUserId();
@@ -43,6 +89,11 @@ export default async function ProjectPage({ params }: PageProps) {
     notFound();
   }
 
+  const [snapshots, versions] = await Promise.all([
+    getSnapshots(project.id),
+    getVersions(project.id),
+  ]);
+
   const latestDeployment = project.deployments[0];
   const initialDeploymentUrl = latestDeployment?.status === 'DEPLOYED'
     ? latestDeployment.url
@@ -52,7 +103,10 @@ export default async function ProjectPage({ params }: PageProps) {
     <Suspense fallback={<DashboardSkeleton />}>
       <ProjectDashboard
         project={project}
+        userId={userId}
         initialDeploymentUrl={initialDeploymentUrl}
+        initialSnapshots={snapshots}
+        initialVersions={versions}
       />
     </Suspense>
   );
@@ -10,9 +10,16 @@ import {
   Maximize2,
   Code2,
   Settings,
-  Share2
+  Share2,
+  Download,
+  GitCommitVertical
 } from 'lucide-react';
-import LiveLogs from '@/components/terminal/live-logs';
+import LiveLogs, { type GeneratedFileEvent } from '@/components/terminal/live-logs';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
+import SnapshotHistory, { type SnapshotSummary } from './snapshot-history';
+import VersionHistory, { type VersionSummary } from './version-history';
+import FileTree from './file-tree';
+import CodeExplorer from './code-explorer';
 
 interface Project {
   id: string;
@@ -24,19 +31,31 @@ interface Project {
 
 interface ProjectDashboardProps {
   project: Project;
+  userId: string;
   initialDeploymentUrl: string | null;
+  initialSnapshots: SnapshotSummary[];
+  initialVersions: VersionSummary[];
 }
 
-export default function ProjectDashboard({ project, initialDeploymentUrl }: ProjectDashboardProps) {
+export default function ProjectDashboard({ project, userId, initialDeploymentUrl, initialSnapshots, initialVersions }: ProjectDashboardProps) {
   const [deploymentUrl, setDeploymentUrl] = useState<string | null>(initialDeploymentUrl);
   const [isPreviewLoading, setIsPreviewLoading] = useState(!initialDeploymentUrl);
   const [previewKey, setPreviewKey] = useState(0);
+  const [generatedFiles, setGeneratedFiles] = useState<GeneratedFileEvent[]>([]);
+  const [activeTab, setActiveTab] = useState('preview');
 
   const handleDeploymentReady = useCallback((url: string) => {
     setDeploymentUrl(url);
     setIsPreviewLoading(false);
   }, []);
 
+  const handleFileGenerated = useCallback((file: GeneratedFileEvent) => {
+    // The first file of a generation starts a new tree
+    setGeneratedFiles(prev =>
+      file.filesGenerated === 1 ? [file] : [...prev.filter(f => f.path !== file.path), file]
+    );
+  }, []);
+
   const refreshPreview = () => {
     setPreviewKey(k => k + 1);
   };
@@ -56,6 +75,14 @@ export default function ProjectDashboard({ project, initialDeploymentUrl }: Proj
         </div>
 
         <div className="flex items-center gap-3">
+          <a
+            href={`/api/projects/${project.id}/export`}
+            download
+            className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
+            title="Export as zip"
+          >
+            <Download className="w-5 h-5" />
+          </a>
           <button className="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors">
             <Share2 className="w-5 h-5" />
           </button>
@@ -89,28 +116,62 @@ export default function ProjectDashboard({ project, initialDeploymentUrl }: Proj
               <TerminalIcon className="w-5 h-5 text-cyan-400" />
               <h2 className="text-lg font-semibold text-white">Live Build Output</h2>
             </div>
-            <div className="flex-1">
+            <div className="flex-1 min-h-0">
               <LiveLogs
                 projectId={project.id}
+                userId={userId}
                 onDeploymentReady={handleDeploymentReady}
+                onFileGenerated={handleFileGenerated}
+              />
+            </div>
+            <div className="mt-4 max-h-64 flex flex-col">
+              <FileTree
+                files={generatedFiles}
+                selectedPath={generatedFiles[generatedFiles.length - 1]?.path}
+                emptyMessage="Files appear here as they are generated"
+              />
+            </div>
+            <div className="mt-4 max-h-64 flex flex-col">
+              <SnapshotHistory
+                projectId={project.id}
+                initialSnapshots={initialSnapshots}
               />
             </div>
           </div>
         </motion.div>
 
-        {/* Right Panel - Preview */}
+        {/* Right Panel - Preview, Code and Versions */}
         <motion.div
           initial={{ opacity: 0, x: 20 }}
           animate={{ opacity: 1, x: 0 }}
           className="w-1/2 p-4"
         >
-          <div className="h-full flex flex-col">
+          <Tabs value={activeTab} onValueChange={setActiveTab} className="h-full flex flex-col">
             <div className="flex items-center justify-between mb-3">
-              <div className="flex items-center gap-2">
-                <Monitor className="w-5 h-5 text-cyan-400" />
-                <h2 className="text-lg font-semibold text-white">Live Preview</h2>
-              </div>
-              {deploymentUrl && (
+              <TabsList className="bg-gray-900 border border-gray-800">
+                <TabsTrigger
+                  value="preview"
+                  className="gap-2 text-gray-400 data-[state=active]:bg-gray-800 data-[state=active]:text-white"
+                >
+                  <Monitor className="w-4 h-4 text-cyan-400" />
+                  Live Preview
+                </TabsTrigger>
+                <TabsTrigger
+                  value="code"
+                  className="gap-2 text-gray-400 data-[state=active]:bg-gray-800 data-[state=active]:text-white"
+                >
+                  <Code2 className="w-4 h-4 text-cyan-400" />
+                  Code
+                </TabsTrigger>
+                <TabsTrigger
+                  value="versions"
+                  className="gap-2 text-gray-400 data-[state=active]:bg-gray-800 data-[state=active]:text-white"
+                >
+                  <GitCommitVertical className="w-4 h-4 text-cyan-400" />
+                  Versions
+                </TabsTrigger>
+              </TabsList>
+              {activeTab === 'preview' && deploymentUrl && (
                 <div className="flex items-center gap-2">
                   <button
                     onClick={refreshPreview}
@@ -129,7 +190,12 @@ export default function ProjectDashboard({ project, initialDeploymentUrl }: Proj
               )}
             </div>
 
-            <div className="flex-1 bg-gray-900 rounded-xl border border-gray-800 overflow-hidden relative">
+            {/* Both panels stay mounted so switching keeps the preview and unsaved edits */}
+            <TabsContent
+              value="preview"
+              forceMount
+              className="mt-0 flex-1 min-h-0 bg-gray-900 rounded-xl border border-gray-800 overflow-hidden relative data-[state=inactive]:hidden"
+            >
               {isPreviewLoading ? (
                 <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900">
                   <motion.div
@@ -182,8 +248,16 @@ export default function ProjectDashboard({ project, initialDeploymentUrl }: Proj
                   <p className="text-gray-500">No deployment available</p>
                 </div>
               )}
-            </div>
-          </div>
+            </TabsContent>
+
+            <TabsContent value="code" forceMount className="mt-0 flex-1 min-h-0 data-[state=inactive]:hidden">
+              <CodeExplorer projectId={project.id} />
+            </TabsContent>
+
+            <TabsContent value="versions" className="mt-0 flex-1 min-h-0">
+              <VersionHistory projectId={project.id} initialVersions={initialVersions} />
+            </TabsContent>
+          </Tabs>
         </motion.div>
       </div>
     </div>
@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import {
+  History,
+  CheckCircle2,
+  XCircle,
+  CircleDashed,
+  RotateCcw,
+  Loader2
+} from 'lucide-react';
+
+export interface SnapshotSummary {
+  id: string;
+  attempt: number;
+  reason: string | null;
+  fileCount: number;
+  buildSucceeded: boolean | null;
+  buildError: string | null;
+  createdAt: string;
+}
+
+interface SnapshotHistoryProps {
+  projectId: string;
+  initialSnapshots: SnapshotSummary[];
+}
+
+const REASON_LABELS: Record<string, string> = {
+  generation: 'Generated',
+  edit: 'Edited',
+  healing: 'Healing',
+  import: 'Imported',
+  'pre-restore': 'Before restore',
+};
+
+function describeSnapshot(snapshot: SnapshotSummary): string {
+  const label = REASON_LABELS[snapshot.reason ?? ''] ?? 'Snapshot';
+  return snapshot.attempt > 0 ? `${label} attempt ${snapshot.attempt}` : label;
+}
+
+function BuildStatus({ snapshot }: { snapshot: SnapshotSummary }) {
+  if (snapshot.buildSucceeded === true) {
+    return <CheckCircle2 className="w-4 h-4 text-green-400" aria-label="Build succeeded" />;
+  }
+  if (snapshot.buildSucceeded === false) {
+    return (
+      <span title={snapshot.buildError ?? undefined}>
+        <XCircle className="w-4 h-4 text-red-400" aria-label="Build failed" />
+      </span>
+    );
+  }
+  return <CircleDashed className="w-4 h-4 text-gray-500" aria-label="Not built" />;
+}
+
+export default function SnapshotHistory({ projectId, initialSnapshots }: SnapshotHistoryProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>(initialSnapshots);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const response = await fetch(`/api/projects/${projectId}/snapshots`);
+    if (response.ok) {
+      const result = await response.json();
+      setSnapshots(result.snapshots ?? []);
+    }
+  }, [projectId]);
+
+  const restore = useCallback(async (snapshotId: string) => {
+    setRestoringId(snapshotId);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/snapshots/${snapshotId}/restore`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to restore snapshot');
+      }
+
+      await refresh();
+    } catch (restoreError) {
+      console.error('Restore failed:', restoreError);
+      setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore snapshot');
+    } finally {
+      setRestoringId(null);
+    }
+  }, [projectId, refresh]);
+
+  return (
+    <div className="flex flex-col min-h-0">
+      <div className="flex items-center gap-2 mb-3">
+        <History className="w-5 h-5 text-cyan-400" />
+        <h2 className="text-lg font-semibold text-white">Snapshots</h2>
+      </div>
+
+      {error && <p className="text-sm text-red-400 mb-2">{error}</p>}
+
+      {snapshots.length === 0 ? (
+        <p className="text-sm text-gray-500">No snapshots yet</p>
+      ) : (
+        <ul className="overflow-y-auto divide-y divide-gray-800 bg-gray-900 rounded-xl border border-gray-800">
+          {snapshots.map((snapshot) => (
+            <li key={snapshot.id} className="flex items-center justify-between gap-3 px-4 py-2">
+              <div className="flex items-center gap-3 min-w-0">
+                <BuildStatus snapshot={snapshot} />
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{describeSnapshot(snapshot)}</p>
+                  <p className="text-xs text-gray-500">
+                    {snapshot.fileCount} files · {new Date(snapshot.createdAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              <button
+                onClick={() => restore(snapshot.id)}
+                disabled={restoringId !== null}
+                className="flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                title="Restore this snapshot and rebuild"
+              >
+                {restoringId === snapshot.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4" />
+                )}
+                Restore
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
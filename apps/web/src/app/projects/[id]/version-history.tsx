@@ -0,0 +1,223 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import {
+  GitCommitVertical,
+  GitCompare,
+  Rocket,
+  Loader2
+} from 'lucide-react';
+import type { VersionDiff, VersionFileChange } from '@nexusgen/types';
+
+export interface VersionSummary {
+  id: string;
+  version: string;
+  name: string | null;
+  changelog: string | null;
+  isLatest: boolean;
+  isCurrent: boolean;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+interface VersionHistoryProps {
+  projectId: string;
+  initialVersions: VersionSummary[];
+}
+
+const STATUS_STYLES: Record<VersionFileChange['status'], string> = {
+  added: 'text-green-400',
+  modified: 'text-yellow-400',
+  removed: 'text-red-400',
+};
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+') && !line.startsWith('+++')) return 'text-green-400 bg-green-500/10';
+  if (line.startsWith('-') && !line.startsWith('---')) return 'text-red-400 bg-red-500/10';
+  if (line.startsWith('@@')) return 'text-cyan-400';
+  return 'text-gray-400';
+}
+
+function FileDiff({ change }: { change: VersionFileChange }) {
+  return (
+    <details className="border-b border-gray-800 last:border-b-0">
+      <summary className="flex items-center gap-2 px-3 py-1.5 cursor-pointer text-sm hover:bg-gray-800/50">
+        <span className={`w-16 text-xs uppercase ${STATUS_STYLES[change.status]}`}>{change.status}</span>
+        <span className="text-gray-200 font-mono truncate">{change.path}</span>
+      </summary>
+      {change.diff ? (
+        <pre className="px-3 py-2 text-xs font-mono overflow-x-auto bg-gray-950">
+          {change.diff.split('\n').map((line, i) => (
+            <div key={i} className={diffLineClass(line)}>{line || ' '}</div>
+          ))}
+        </pre>
+      ) : (
+        <p className="px-3 py-2 text-xs text-gray-500">Binary or large file; no diff shown</p>
+      )}
+    </details>
+  );
+}
+
+export default function VersionHistory({ projectId, initialVersions }: VersionHistoryProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>(initialVersions);
+  const [fromId, setFromId] = useState<string>(initialVersions[1]?.id ?? '');
+  const [toId, setToId] = useState<string>(initialVersions[0]?.id ?? '');
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    const response = await fetch(`/api/projects/${projectId}/versions`);
+    if (response.ok) {
+      const result = await response.json();
+      setVersions(result.versions ?? []);
+    }
+  }, [projectId]);
+
+  const compare = useCallback(async () => {
+    setIsComparing(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/versions/diff?${new URLSearchParams({ from: fromId, to: toId })}`
+      );
+      const result = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to compare versions');
+      }
+
+      setDiff(result);
+    } catch (compareError) {
+      console.error('Compare failed:', compareError);
+      setError(compareError instanceof Error ? compareError.message : 'Failed to compare versions');
+    } finally {
+      setIsComparing(false);
+    }
+  }, [projectId, fromId, toId]);
+
+  const promote = useCallback(async (versionId: string) => {
+    setPromotingId(versionId);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/projects/${projectId}/versions/${versionId}/promote`,
+        { method: 'POST' }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to promote version');
+      }
+
+      await refresh();
+    } catch (promoteError) {
+      console.error('Promote failed:', promoteError);
+      setError(promoteError instanceof Error ? promoteError.message : 'Failed to promote version');
+    } finally {
+      setPromotingId(null);
+    }
+  }, [projectId, refresh]);
+
+  if (versions.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center bg-gray-900 rounded-xl border border-gray-800">
+        <p className="text-gray-500">Versions appear here after each generation</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col gap-3 min-h-0">
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-2 text-sm">
+        <GitCompare className="w-4 h-4 text-cyan-400" />
+        <select
+          value={fromId}
+          onChange={(e) => setFromId(e.target.value)}
+          className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1 text-gray-200"
+          aria-label="Compare from version"
+        >
+          <option value="">From…</option>
+          {versions.map((v) => (
+            <option key={v.id} value={v.id}>v{v.version}</option>
+          ))}
+        </select>
+        <span className="text-gray-500">→</span>
+        <select
+          value={toId}
+          onChange={(e) => setToId(e.target.value)}
+          className="bg-gray-900 border border-gray-800 rounded-lg px-2 py-1 text-gray-200"
+          aria-label="Compare to version"
+        >
+          <option value="">To…</option>
+          {versions.map((v) => (
+            <option key={v.id} value={v.id}>v{v.version}</option>
+          ))}
+        </select>
+        <button
+          onClick={compare}
+          disabled={!fromId || !toId || fromId === toId || isComparing}
+          className="flex items-center gap-1 px-3 py-1 text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {isComparing && <Loader2 className="w-4 h-4 animate-spin" />}
+          Compare
+        </button>
+      </div>
+
+      {diff && (
+        <div className="max-h-[50%] overflow-y-auto bg-gray-900 rounded-xl border border-gray-800">
+          <p className="px-3 py-2 text-xs text-gray-400 border-b border-gray-800">
+            v{diff.from.version} → v{diff.to.version} · {diff.changes.length} files changed
+          </p>
+          {diff.changes.map((change) => (
+            <FileDiff key={change.path} change={change} />
+          ))}
+        </div>
+      )}
+
+      <ol className="flex-1 overflow-y-auto bg-gray-900 rounded-xl border border-gray-800 divide-y divide-gray-800">
+        {versions.map((version) => (
+          <li key={version.id} className="flex gap-3 px-4 py-3">
+            <GitCommitVertical className="w-4 h-4 mt-1 shrink-0 text-cyan-400" />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-semibold text-white">v{version.version}</span>
+                {version.name && <span className="text-sm text-gray-300 truncate">{version.name}</span>}
+                {version.isLatest && (
+                  <span className="px-1.5 text-xs rounded bg-gray-800 text-gray-300">Latest</span>
+                )}
+                {version.isCurrent && (
+                  <span className="px-1.5 text-xs rounded bg-cyan-500/20 text-cyan-300">Current</span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500">{new Date(version.createdAt).toLocaleString()}</p>
+              {version.changelog && (
+                <p className="mt-1 text-sm text-gray-400 whitespace-pre-line">{version.changelog}</p>
+              )}
+            </div>
+            {!version.isCurrent && (
+              <button
+                onClick={() => promote(version.id)}
+                disabled={promotingId !== null}
+                className="self-start flex items-center gap-1 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-800 rounded-lg transition-colors disabled:opacity-50"
+                title="Make this version current and redeploy it"
+              >
+                {promotingId === version.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Rocket className="w-4 h-4" />
+                )}
+                Promote
+              </button>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
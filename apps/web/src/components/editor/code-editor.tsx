@@ -0,0 +1,206 @@
+'use client';
+
+import { useMemo, useRef, useCallback, type KeyboardEvent, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** File path; its extension picks the highlighting rules */
+  path: string;
+  readOnly?: boolean;
+  /** Called on Ctrl+S / Cmd+S */
+  onSave?: () => void;
+  className?: string;
+}
+
+type TokenType = 'comment' | 'string' | 'keyword' | 'number' | 'tag' | 'property';
+
+const TOKEN_COLORS: Record<TokenType, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-emerald-300',
+  keyword: 'text-purple-400',
+  number: 'text-amber-300',
+  tag: 'text-sky-400',
+  property: 'text-cyan-300',
+};
+
+const SCRIPT_KEYWORDS = [
+  'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue',
+  'default', 'delete', 'else', 'enum', 'export', 'extends', 'false', 'finally',
+  'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof',
+  'interface', 'let', 'new', 'null', 'of', 'private', 'protected', 'public',
+  'readonly', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'type', 'typeof', 'undefined', 'var', 'void', 'while', 'yield',
+];
+
+/**
+ * Tokenizers by language; each alternative is one capture group, in the
+ * order of the token types listed beside it
+ */
+const GRAMMARS: Record<string, { pattern: RegExp; types: TokenType[] }> = {
+  script: {
+    pattern: new RegExp(
+      [
+        /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.source,
+        /('(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*"|`(?:\\.|[^`\\])*`)/.source,
+        `\\b(${SCRIPT_KEYWORDS.join('|')})\\b`,
+        /\b(\d+(?:\.\d+)?)\b/.source,
+        /(<\/?[A-Za-z][\w.]*)/.source,
+      ].join('|'),
+      'g'
+    ),
+    types: ['comment', 'string', 'keyword', 'number', 'tag'],
+  },
+  json: {
+    pattern: /("(?:\\.|[^"\\\n])*"(?=\s*:))|("(?:\\.|[^"\\\n])*")|\b(true|false|null)\b|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/g,
+    types: ['property', 'string', 'keyword', 'number'],
+  },
+  css: {
+    pattern: /(\/\*[\s\S]*?\*\/)|('(?:\\.|[^'\\\n])*'|"(?:\\.|[^"\\\n])*")|(@[\w-]+)|(-?\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms)?)|([\w-]+(?=\s*:))/g,
+    types: ['comment', 'string', 'keyword', 'number', 'property'],
+  },
+  markup: {
+    pattern: /(<!--[\s\S]*?-->)|("(?:[^"\n])*")|(<\/?[A-Za-z][\w-]*|\/?>)/g,
+    types: ['comment', 'string', 'tag'],
+  },
+};
+
+const LANGUAGES: Record<string, keyof typeof GRAMMARS> = {
+  ts: 'script',
+  tsx: 'script',
+  js: 'script',
+  jsx: 'script',
+  mjs: 'script',
+  cjs: 'script',
+  json: 'json',
+  css: 'css',
+  scss: 'css',
+  html: 'markup',
+  svg: 'markup',
+  xml: 'markup',
+};
+
+/**
+ * Split source into plain text and coloured tokens
+ */
+function highlight(source: string, path: string): ReactNode[] {
+  const extension = path.split('.').pop()?.toLowerCase() ?? '';
+  const grammar = GRAMMARS[LANGUAGES[extension] ?? ''];
+  if (!grammar) {
+    return [source];
+  }
+
+  const nodes: ReactNode[] = [];
+  let last = 0;
+
+  for (const match of source.matchAll(grammar.pattern)) {
+    const index = match.index ?? 0;
+    const group = match.slice(1).findIndex((capture) => capture !== undefined);
+    if (group < 0) {
+      continue;
+    }
+
+    if (index > last) {
+      nodes.push(source.slice(last, index));
+    }
+    nodes.push(
+      <span key={index} className={TOKEN_COLORS[grammar.types[group]!]}>
+        {match[0]}
+      </span>
+    );
+    last = index + match[0].length;
+  }
+
+  nodes.push(source.slice(last));
+  return nodes;
+}
+
+/**
+ * Code editor with syntax highlighting
+ *
+ * A transparent textarea over a highlighted copy of its text, so editing
+ * keeps the browser's native caret, selection and undo.
+ */
+export function CodeEditor({ value, onChange, path, readOnly, onSave, className }: CodeEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const highlighted = useMemo(() => highlight(value, path), [value, path]);
+  const lineCount = useMemo(() => value.split('\n').length, [value]);
+
+  const syncScroll = useCallback((event: React.UIEvent<HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+      highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+    }
+    if (gutterRef.current) {
+      gutterRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  }, []);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent<HTMLTextAreaElement>) => {
+      if ((event.ctrlKey || event.metaKey) && event.key === 's') {
+        event.preventDefault();
+        onSave?.();
+        return;
+      }
+
+      if (event.key === 'Tab' && !readOnly) {
+        event.preventDefault();
+        const textarea = event.currentTarget;
+        const { selectionStart, selectionEnd } = textarea;
+        onChange(`${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`);
+        requestAnimationFrame(() => {
+          textarea.selectionStart = textarea.selectionEnd = selectionStart + 2;
+        });
+      }
+    },
+    [onChange, onSave, readOnly, value]
+  );
+
+  const textClasses = 'm-0 p-4 pl-14 font-mono text-sm leading-6 whitespace-pre';
+
+  return (
+    <div className={cn('relative overflow-hidden bg-gray-950', className)}>
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="absolute inset-y-0 left-0 w-10 py-4 text-right font-mono text-sm leading-6 text-gray-600 select-none overflow-hidden"
+      >
+        {Array.from({ length: lineCount }, (_, line) => (
+          <div key={line}>{line + 1}</div>
+        ))}
+      </div>
+      <pre
+        ref={highlightRef}
+        aria-hidden
+        className={cn(textClasses, 'absolute inset-0 overflow-hidden text-gray-200 pointer-events-none')}
+        style={{ tabSize: 2 }}
+      >
+        {highlighted}
+        {/* Keeps a trailing newline as tall as in the textarea */}
+        {'\n'}
+      </pre>
+      <textarea
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        onScroll={syncScroll}
+        onKeyDown={handleKeyDown}
+        readOnly={readOnly}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        autoCorrect="off"
+        aria-label={`Contents of ${path}`}
+        className={cn(
+          textClasses,
+          'absolute inset-0 w-full h-full resize-none overflow-auto bg-transparent text-transparent caret-cyan-300 outline-none selection:bg-cyan-500/30'
+        )}
+        style={{ tabSize: 2 }}
+      />
+    </div>
+  );
+}
+
+export default CodeEditor;
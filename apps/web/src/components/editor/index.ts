@@ -0,0 +1 @@
+export { CodeEditor } from './code-editor';
@@ -10,3 +10,4 @@ export * from "./layouts";
 export * from "./shared";
 export * from "./wizard";
 export * from "./terminal";
+export * from "./editor";
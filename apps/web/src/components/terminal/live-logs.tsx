@@ -12,22 +12,36 @@ import {
   Wrench,
   Rocket,
   Brain,
-  Activity
+  Activity,
+  FileCode
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { motion, AnimatePresence } from 'framer-motion';
 
 interface LogEntry {
   id: string;
-  type: 'thought' | 'build' | 'healing' | 'deployment' | 'progress' | 'error' | 'success' | 'system';
+  type: 'thought' | 'build' | 'healing' | 'deployment' | 'progress' | 'file' | 'error' | 'success' | 'system';
   message: string;
   timestamp: Date;
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * A file the coder wrote while generation streams in
+ */
+export interface GeneratedFileEvent {
+  path: string;
+  size: number;
+  /** Files written so far in this generation, including this one */
+  filesGenerated: number;
+}
+
 interface LiveLogsProps {
   projectId: string;
+  /** Owner of the project, whose socket may subscribe to it */
+  userId: string;
   onDeploymentReady?: (url: string) => void;
+  onFileGenerated?: (file: GeneratedFileEvent) => void;
 }
 
 const LOG_COLORS: Record<LogEntry['type'], string> = {
@@ -36,6 +50,7 @@ const LOG_COLORS: Record<LogEntry['type'], string> = {
   healing: 'text-yellow-400',
   deployment: 'text-blue-400',
   progress: 'text-green-400',
+  file: 'text-sky-400',
   error: 'text-red-400',
   success: 'text-emerald-400',
   system: 'text-gray-400',
@@ -47,6 +62,7 @@ const LOG_ICONS: Record<LogEntry['type'], React.ReactNode> = {
   healing: <Wrench className="w-4 h-4" />,
   deployment: <Rocket className="w-4 h-4" />,
   progress: <Activity className="w-4 h-4" />,
+  file: <FileCode className="w-4 h-4" />,
   error: <XCircle className="w-4 h-4" />,
   success: <CheckCircle2 className="w-4 h-4" />,
   system: <Terminal className="w-4 h-4" />,
@@ -65,7 +81,24 @@ interface WebSocketEventData {
   url?: string;
 }
 
-export function LiveLogs({ projectId, onDeploymentReady }: LiveLogsProps) {
+/**
+ * Events of the worker's `/ws` gateway, which wraps its payloads
+ */
+interface GatewayEnvelope<T> {
+  event: string;
+  data: T;
+  timestamp: string;
+}
+
+/**
+ * Acknowledgement of the gateway's authenticate and subscribe messages
+ */
+interface GatewayAck {
+  success: boolean;
+  error?: string;
+}
+
+export function LiveLogs({ projectId, userId, onDeploymentReady, onFileGenerated }: LiveLogsProps) {
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isConnected, setIsConnected] = useState(false);
   const [status, setStatus] = useState<ConnectionStatus>('idle');
@@ -85,8 +118,7 @@ export function LiveLogs({ projectId, onDeploymentReady }: LiveLogsProps) {
   useEffect(() => {
     // Connect to worker WebSocket
     const workerUrl = process.env.NEXT_PUBLIC_WORKER_URL || 'http://localhost:3001';
-    const socket = io(workerUrl, {
-      query: { projectId },
+    const socket = io(`${workerUrl}/ws`, {
       transports: ['websocket', 'polling'],
       reconnection: true,
       reconnectionAttempts: 5,
@@ -101,6 +133,23 @@ export function LiveLogs({ projectId, onDeploymentReady }: LiveLogsProps) {
         message: 'Connected to NexusGen Worker',
         timestamp: new Date(),
       });
+
+      // Project events are only sent once the socket is authenticated as the owner
+      socket.emit('authenticate', { userId }, (auth: GatewayAck) => {
+        if (!auth.success) {
+          addLog({ type: 'error', message: `Authentication failed: ${auth.error}`, timestamp: new Date() });
+          return;
+        }
+        socket.emit('subscribe:project', { projectId }, (subscription: GatewayAck) => {
+          if (!subscription.success) {
+            addLog({
+              type: 'error',
+              message: `Could not follow this project: ${subscription.error}`,
+              timestamp: new Date(),
+            });
+          }
+        });
+      });
     });
 
     socket.on('disconnect', (reason) => {
@@ -186,6 +235,20 @@ export function LiveLogs({ projectId, onDeploymentReady }: LiveLogsProps) {
       }
     });
 
+    // Files written while the coder streams its output
+    socket.on('file:generated', ({ data, timestamp }: GatewayEnvelope<GeneratedFileEvent & { projectId: string }>) => {
+      if (data.projectId === projectId) {
+        setStatus('generating');
+        addLog({
+          type: 'file',
+          message: `Generated ${data.path} (${data.size} chars)`,
+          timestamp: new Date(timestamp || Date.now()),
+          metadata: data as unknown as Record<string, unknown>,
+        });
+        onFileGenerated?.(data);
+      }
+    });
+
     // Deployment building
     socket.on('deployment:building', (data: WebSocketEventData) => {
       if (data.projectId === projectId) {
@@ -245,7 +308,7 @@ export function LiveLogs({ projectId, onDeploymentReady }: LiveLogsProps) {
     return () => {
       socket.disconnect();
     };
-  }, [projectId, addLog, onDeploymentReady]);
+  }, [projectId, userId, addLog, onDeploymentReady, onFileGenerated]);
 
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
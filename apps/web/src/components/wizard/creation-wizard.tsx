@@ -15,23 +15,50 @@ import {
   CheckCircle,
   X,
   AlertCircle,
+  GitBranch,
+  FileArchive,
+  Code,
 } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 import { cn } from '@/lib/utils';
 
 // ============ Schema & Types ============
 
-const wizardSchema = z.object({
-  name: z
-    .string()
-    .min(1, 'Project name is required')
-    .max(100, 'Project name must be less than 100 characters'),
-  description: z.string().max(500, 'Description must be less than 500 characters').optional(),
-  prompt: z
-    .string()
-    .min(10, 'Please provide more detail about your app (at least 10 characters)')
-    .max(10000, 'Prompt must be less than 10,000 characters'),
-});
+const wizardSchema = z
+  .object({
+    // A new app is described by the prompt; an existing codebase is imported
+    // and the prompt becomes optional notes about it
+    startFrom: z.enum(['prompt', 'codebase']),
+    codebaseSource: z.enum(['git', 'archive']),
+    repoUrl: z.string().trim().max(500, 'Repository URL must be less than 500 characters'),
+    branch: z
+      .string()
+      .trim()
+      .max(100, 'Branch must be less than 100 characters')
+      .regex(/^[\w./-]*$/, 'Invalid branch name'),
+    name: z
+      .string()
+      .min(1, 'Project name is required')
+      .max(100, 'Project name must be less than 100 characters'),
+    description: z.string().max(500, 'Description must be less than 500 characters').optional(),
+    prompt: z.string().max(10000, 'Prompt must be less than 10,000 characters'),
+  })
+  .superRefine((data, ctx) => {
+    if (data.startFrom === 'prompt' && data.prompt.length < 10) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['prompt'],
+        message: 'Please provide more detail about your app (at least 10 characters)',
+      });
+    }
+    if (data.startFrom === 'codebase' && data.codebaseSource === 'git' && !data.repoUrl) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['repoUrl'],
+        message: 'Repository URL is required',
+      });
+    }
+  });
 
 type WizardFormData = z.infer<typeof wizardSchema>;
 
@@ -63,10 +90,27 @@ const ALLOWED_FILE_TYPES = [
   'image/webp',
   'image/svg+xml',
   'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+  'text/typescript',
+  'text/css',
 ];
 
+// Browsers leave the type empty (or use a nonstandard one) for many text files
+const FILE_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  json: 'application/json',
+  ts: 'text/typescript',
+  tsx: 'text/typescript',
+  css: 'text/css',
+};
+
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
 const MAX_FILES = 10;
+const MAX_ARCHIVE_SIZE = 50 * 1024 * 1024; // 50MB, the import limit
 
 // ============ Animation Variants ============
 
@@ -105,6 +149,13 @@ function getFileExtension(filename: string): string {
   return filename.slice(((filename.lastIndexOf('.') - 1) >>> 0) + 2);
 }
 
+function resolveFileType(file: File): string {
+  if (ALLOWED_FILE_TYPES.includes(file.type)) {
+    return file.type;
+  }
+  return FILE_TYPES_BY_EXTENSION[getFileExtension(file.name).toLowerCase()] ?? file.type;
+}
+
 // ============ Step Components ============
 
 interface StepIndicatorProps {
@@ -162,11 +213,16 @@ export function CreationWizard() {
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [archiveFile, setArchiveFile] = useState<File | null>(null);
   const router = useRouter();
 
   const form = useForm<WizardFormData>({
     resolver: zodResolver(wizardSchema),
     defaultValues: {
+      startFrom: 'prompt',
+      codebaseSource: 'git',
+      repoUrl: '',
+      branch: '',
       name: '',
       description: '',
       prompt: '',
@@ -174,11 +230,17 @@ export function CreationWizard() {
     mode: 'onChange',
   });
 
-  const { register, handleSubmit, formState, watch, trigger } = form;
+  const { register, handleSubmit, formState, watch, trigger, setValue } = form;
   const { errors, isValid } = formState;
+  const isImport = watch('startFrom') === 'codebase';
+  const codebaseSource = watch('codebaseSource');
 
   // Navigation helpers
   const goNext = useCallback(async () => {
+    if (step === 1 && isImport && codebaseSource === 'git') {
+      const isStepValid = await trigger(['repoUrl', 'branch']);
+      if (!isStepValid) return;
+    }
     if (step === 2) {
       // Validate form fields before proceeding to review
       const isStepValid = await trigger(['name', 'prompt']);
@@ -186,7 +248,7 @@ export function CreationWizard() {
     }
     setDirection(1);
     setStep((s) => Math.min(s + 1, 3));
-  }, [step, trigger]);
+  }, [step, trigger, isImport, codebaseSource]);
 
   const goBack = useCallback(() => {
     setDirection(-1);
@@ -211,9 +273,13 @@ export function CreationWizard() {
 
     try {
       for (const file of fileArray) {
+        const fileType = resolveFileType(file);
+
         // Validate file type
-        if (!ALLOWED_FILE_TYPES.includes(file.type)) {
-          setUploadError(`File type not allowed: ${file.name}. Allowed types: images and PDFs`);
+        if (!ALLOWED_FILE_TYPES.includes(fileType)) {
+          setUploadError(
+            `File type not allowed: ${file.name}. Allowed types: images, PDFs, text, markdown, JSON and source files`
+          );
           continue;
         }
 
@@ -229,7 +295,7 @@ export function CreationWizard() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             filename: file.name,
-            contentType: file.type,
+            contentType: fileType,
           }),
         });
 
@@ -245,7 +311,7 @@ export function CreationWizard() {
           method: 'PUT',
           body: file,
           headers: {
-            'Content-Type': file.type,
+            'Content-Type': fileType,
           },
         });
 
@@ -259,7 +325,7 @@ export function CreationWizard() {
             key,
             name: file.name,
             size: file.size,
-            type: file.type,
+            type: fileType,
           },
         ]);
       }
@@ -271,6 +337,23 @@ export function CreationWizard() {
     }
   }, [uploadedFiles.length]);
 
+  // Archive selection handler
+  const handleArchiveSelect = useCallback((files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+
+    setUploadError(null);
+    if (getFileExtension(file.name).toLowerCase() !== 'zip') {
+      setUploadError(`Not a zip archive: ${file.name}`);
+      return;
+    }
+    if (file.size > MAX_ARCHIVE_SIZE) {
+      setUploadError(`Archive too large: ${file.name}. Maximum size is ${formatFileSize(MAX_ARCHIVE_SIZE)}`);
+      return;
+    }
+    setArchiveFile(file);
+  }, []);
+
   // Remove file handler
   const removeFile = useCallback((index: number) => {
     setUploadedFiles((prev) => prev.filter((_, i) => i !== index));
@@ -282,14 +365,36 @@ export function CreationWizard() {
     setSubmitError(null);
 
     try {
-      const response = await fetch('/api/projects', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          ...data,
-          assetKeys: uploadedFiles.map((f) => f.key),
-        }),
-      });
+      let response: Response;
+      if (data.startFrom === 'codebase') {
+        const formData = new FormData();
+        formData.append('source', data.codebaseSource);
+        formData.append('name', data.name);
+        formData.append('description', data.description ?? '');
+        formData.append('notes', data.prompt);
+        if (data.codebaseSource === 'git') {
+          formData.append('repoUrl', data.repoUrl);
+          formData.append('branch', data.branch);
+        } else if (archiveFile) {
+          formData.append('archive', archiveFile);
+        }
+
+        response = await fetch('/api/projects/from-source', {
+          method: 'POST',
+          body: formData,
+        });
+      } else {
+        response = await fetch('/api/projects', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: data.name,
+            description: data.description,
+            prompt: data.prompt,
+            assetKeys: uploadedFiles.map((f) => f.key),
+          }),
+        });
+      }
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
@@ -309,7 +414,7 @@ export function CreationWizard() {
     } finally {
       setIsSubmitting(false);
     }
-  }, [uploadedFiles, router]);
+  }, [uploadedFiles, archiveFile, router]);
 
   // Drag and drop handlers
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -323,8 +428,17 @@ export function CreationWizard() {
     handleFileUpload(e.dataTransfer.files);
   }, [handleFileUpload]);
 
+  const handleArchiveDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    handleArchiveSelect(e.dataTransfer.files);
+  }, [handleArchiveSelect]);
+
   // Check if can proceed to next step
-  const canProceed = step === 1 || (step === 2 && !errors.name && !errors.prompt && watch('name') && watch('prompt'));
+  const canProceed =
+    step === 1
+      ? !isImport || (codebaseSource === 'git' ? !!watch('repoUrl')?.trim() : !!archiveFile)
+      : step === 2 && !errors.name && !errors.prompt && watch('name') && (isImport || watch('prompt'));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-950 via-gray-900 to-gray-950 flex items-center justify-center p-4">
@@ -358,54 +472,192 @@ export function CreationWizard() {
                   custom={direction}
                   transition={{ duration: 0.3, ease: 'easeInOut' }}
                 >
+                  {/* Starting point */}
+                  <div className="grid grid-cols-2 gap-3 mb-8">
+                    {([
+                      { value: 'prompt', label: 'Describe a new app', icon: Sparkles },
+                      { value: 'codebase', label: 'Import existing code', icon: Code },
+                    ] as const).map(({ value, label, icon: Icon }) => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => setValue('startFrom', value, { shouldValidate: true })}
+                        className={cn(
+                          'flex items-center justify-center gap-2 px-4 py-3 rounded-lg border text-sm font-medium transition-all',
+                          watch('startFrom') === value
+                            ? 'bg-cyan-500/10 border-cyan-400 text-cyan-400'
+                            : 'bg-gray-800/50 border-gray-700 text-gray-400 hover:text-gray-200'
+                        )}
+                      >
+                        <Icon className="w-4 h-4" />
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+
                   <div className="text-center mb-6">
                     <div className="w-16 h-16 mx-auto mb-4 bg-cyan-500/10 rounded-full flex items-center justify-center">
-                      <Upload className="w-8 h-8 text-cyan-400" />
+                      {isImport ? <Code className="w-8 h-8 text-cyan-400" /> : <Upload className="w-8 h-8 text-cyan-400" />}
                     </div>
-                    <h2 className="text-2xl font-bold text-white mb-2">Upload Assets</h2>
+                    <h2 className="text-2xl font-bold text-white mb-2">{isImport ? 'Import Codebase' : 'Upload Assets'}</h2>
                     <p className="text-gray-400">
-                      Upload design files, images, or references (optional)
+                      {isImport
+                        ? 'Start from a Git repository or a zip of your project, then edit it with prompts'
+                        : 'Upload design files, images, or reference documents (optional)'}
                     </p>
                   </div>
 
-                  {/* Dropzone */}
-                  <div
-                    className={cn(
-                      'border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer',
-                      'hover:border-cyan-500/50 hover:bg-cyan-500/5',
-                      isUploading ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700'
-                    )}
-                    onDragOver={handleDragOver}
-                    onDrop={handleDrop}
-                  >
-                    <input
-                      type="file"
-                      multiple
-                      accept={ALLOWED_FILE_TYPES.join(',')}
-                      onChange={(e) => handleFileUpload(e.target.files)}
-                      className="hidden"
-                      id="file-upload"
-                      disabled={isUploading}
-                    />
-                    <label htmlFor="file-upload" className="cursor-pointer">
-                      {isUploading ? (
-                        <div className="flex flex-col items-center">
-                          <Loader2 className="w-8 h-8 animate-spin text-cyan-400 mb-2" />
-                          <p className="text-cyan-400">Uploading...</p>
-                        </div>
-                      ) : (
+                  {/* Dropzone, or the codebase to import */}
+                  {!isImport ? (
+                    <div
+                      className={cn(
+                        'border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer',
+                        'hover:border-cyan-500/50 hover:bg-cyan-500/5',
+                        isUploading ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700'
+                      )}
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                    >
+                      <input
+                        type="file"
+                        multiple
+                        accept={[
+                          ...ALLOWED_FILE_TYPES,
+                          ...Object.keys(FILE_TYPES_BY_EXTENSION).map((extension) => `.${extension}`),
+                        ].join(',')}
+                        onChange={(e) => handleFileUpload(e.target.files)}
+                        className="hidden"
+                        id="file-upload"
+                        disabled={isUploading}
+                      />
+                      <label htmlFor="file-upload" className="cursor-pointer">
+                        {isUploading ? (
+                          <div className="flex flex-col items-center">
+                            <Loader2 className="w-8 h-8 animate-spin text-cyan-400 mb-2" />
+                            <p className="text-cyan-400">Uploading...</p>
+                          </div>
+                        ) : (
+                          <>
+                            <Upload className="w-8 h-8 mx-auto mb-2 text-gray-500" />
+                            <p className="text-gray-400 mb-1">
+                              Drop files here or click to upload
+                            </p>
+                            <p className="text-gray-500 text-sm">
+                              Images, PDFs, markdown, text and JSON up to {formatFileSize(MAX_FILE_SIZE)}
+                            </p>
+                          </>
+                        )}
+                      </label>
+                    </div>
+                  ) : (
+                    <div className="space-y-5">
+                      {/* Source kind */}
+                      <div className="flex gap-2">
+                        {([
+                          { value: 'git', label: 'Git repository', icon: GitBranch },
+                          { value: 'archive', label: 'Zip archive', icon: FileArchive },
+                        ] as const).map(({ value, label, icon: Icon }) => (
+                          <button
+                            key={value}
+                            type="button"
+                            onClick={() => setValue('codebaseSource', value, { shouldValidate: true })}
+                            className={cn(
+                              'flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-all',
+                              codebaseSource === value
+                                ? 'bg-gray-800 text-white'
+                                : 'text-gray-500 hover:text-gray-300'
+                            )}
+                          >
+                            <Icon className="w-4 h-4" />
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+
+                      {codebaseSource === 'git' ? (
                         <>
-                          <Upload className="w-8 h-8 mx-auto mb-2 text-gray-500" />
-                          <p className="text-gray-400 mb-1">
-                            Drop files here or click to upload
-                          </p>
-                          <p className="text-gray-500 text-sm">
-                            Images and PDFs up to {formatFileSize(MAX_FILE_SIZE)}
-                          </p>
+                          {/* Repository URL */}
+                          <div>
+                            <label
+                              htmlFor="repo-url"
+                              className="block text-sm font-medium text-gray-300 mb-2"
+                            >
+                              Repository URL <span className="text-red-400">*</span>
+                            </label>
+                            <input
+                              id="repo-url"
+                              {...register('repoUrl')}
+                              className={cn(
+                                'w-full bg-gray-800/50 border rounded-lg px-4 py-3 text-white placeholder-gray-500',
+                                'focus:outline-none focus:ring-2 focus:ring-cyan-500/50 transition-all font-mono text-sm',
+                                errors.repoUrl ? 'border-red-500' : 'border-gray-700 focus:border-cyan-500'
+                              )}
+                              placeholder="https://github.com/acme/storefront.git"
+                            />
+                            {errors.repoUrl && (
+                              <p className="text-red-400 text-sm mt-1">{errors.repoUrl.message}</p>
+                            )}
+                          </div>
+
+                          {/* Branch */}
+                          <div>
+                            <label
+                              htmlFor="repo-branch"
+                              className="block text-sm font-medium text-gray-300 mb-2"
+                            >
+                              Branch <span className="text-gray-500">(optional)</span>
+                            </label>
+                            <input
+                              id="repo-branch"
+                              {...register('branch')}
+                              className={cn(
+                                'w-full bg-gray-800/50 border rounded-lg px-4 py-3 text-white placeholder-gray-500',
+                                'focus:outline-none focus:ring-2 focus:ring-cyan-500/50 transition-all font-mono text-sm',
+                                errors.branch ? 'border-red-500' : 'border-gray-700 focus:border-cyan-500'
+                              )}
+                              placeholder="Default branch"
+                            />
+                            {errors.branch && (
+                              <p className="text-red-400 text-sm mt-1">{errors.branch.message}</p>
+                            )}
+                          </div>
                         </>
+                      ) : (
+                        <div
+                          className={cn(
+                            'border-2 border-dashed rounded-xl p-8 text-center transition-all cursor-pointer',
+                            'hover:border-cyan-500/50 hover:bg-cyan-500/5',
+                            archiveFile ? 'border-cyan-500/50' : 'border-gray-700'
+                          )}
+                          onDragOver={handleDragOver}
+                          onDrop={handleArchiveDrop}
+                        >
+                          <input
+                            type="file"
+                            accept=".zip,application/zip"
+                            onChange={(e) => handleArchiveSelect(e.target.files)}
+                            className="hidden"
+                            id="archive-upload"
+                          />
+                          <label htmlFor="archive-upload" className="cursor-pointer">
+                            <FileArchive className="w-8 h-8 mx-auto mb-2 text-gray-500" />
+                            {archiveFile ? (
+                              <p className="text-gray-300">
+                                {archiveFile.name} - {formatFileSize(archiveFile.size)}
+                              </p>
+                            ) : (
+                              <>
+                                <p className="text-gray-400 mb-1">Drop a zip here or click to choose one</p>
+                                <p className="text-gray-500 text-sm">
+                                  Up to {formatFileSize(MAX_ARCHIVE_SIZE)}; node_modules and build output are skipped
+                                </p>
+                              </>
+                            )}
+                          </label>
+                        </div>
                       )}
-                    </label>
-                  </div>
+                    </div>
+                  )}
 
                   {/* Upload error */}
                   {uploadError && (
@@ -420,7 +672,7 @@ export function CreationWizard() {
                   )}
 
                   {/* Uploaded files list */}
-                  {uploadedFiles.length > 0 && (
+                  {!isImport && uploadedFiles.length > 0 && (
                     <div className="mt-4 space-y-2">
                       <p className="text-gray-400 text-sm mb-2">
                         {uploadedFiles.length} file{uploadedFiles.length !== 1 ? 's' : ''} uploaded
@@ -474,8 +726,12 @@ export function CreationWizard() {
                     <div className="w-16 h-16 mx-auto mb-4 bg-cyan-500/10 rounded-full flex items-center justify-center">
                       <Sparkles className="w-8 h-8 text-cyan-400" />
                     </div>
-                    <h2 className="text-2xl font-bold text-white mb-2">Describe Your Vision</h2>
-                    <p className="text-gray-400">Tell us what you want to build</p>
+                    <h2 className="text-2xl font-bold text-white mb-2">
+                      {isImport ? 'Describe Your Project' : 'Describe Your Vision'}
+                    </h2>
+                    <p className="text-gray-400">
+                      {isImport ? 'Name it and tell us what the code does' : 'Tell us what you want to build'}
+                    </p>
                   </div>
 
                   <div className="space-y-5">
@@ -531,7 +787,15 @@ export function CreationWizard() {
                         htmlFor="project-prompt"
                         className="block text-sm font-medium text-gray-300 mb-2"
                       >
-                        Your Prompt <span className="text-red-400">*</span>
+                        {isImport ? (
+                          <>
+                            Notes <span className="text-gray-500">(optional)</span>
+                          </>
+                        ) : (
+                          <>
+                            Your Prompt <span className="text-red-400">*</span>
+                          </>
+                        )}
                       </label>
                       <textarea
                         id="project-prompt"
@@ -543,7 +807,11 @@ export function CreationWizard() {
                           'font-mono text-sm leading-relaxed',
                           errors.prompt ? 'border-red-500' : 'border-gray-700 focus:border-cyan-500'
                         )}
-                        placeholder="Build me a modern e-commerce dashboard with product management, order tracking, analytics charts, and a dark mode UI. Include user authentication and integrate with Stripe for payments..."
+                        placeholder={
+                          isImport
+                            ? 'What the app is for, and anything the code does not make obvious: conventions, unfinished parts, which directories matter...'
+                            : 'Build me a modern e-commerce dashboard with product management, order tracking, analytics charts, and a dark mode UI. Include user authentication and integrate with Stripe for payments...'
+                        }
                       />
                       {errors.prompt && (
                         <p className="text-red-400 text-sm mt-1">{errors.prompt.message}</p>
@@ -594,35 +862,53 @@ export function CreationWizard() {
 
                     {/* Prompt Preview */}
                     <div>
-                      <span className="text-gray-500 text-sm block mb-1">Prompt Preview</span>
+                      <span className="text-gray-500 text-sm block mb-1">{isImport ? 'Notes' : 'Prompt Preview'}</span>
                       <p className="text-gray-300 font-mono text-sm line-clamp-4 bg-gray-900/50 rounded-lg p-3">
-                        {watch('prompt') || <span className="text-gray-500 italic">No prompt</span>}
+                        {watch('prompt') || <span className="text-gray-500 italic">{isImport ? 'No notes' : 'No prompt'}</span>}
                       </p>
                     </div>
 
-                    {/* Attached Files */}
-                    <div>
-                      <span className="text-gray-500 text-sm block mb-1">Attached Files</span>
-                      <div className="flex items-center gap-2">
-                        <FileText className="w-4 h-4 text-cyan-400" />
-                        <p className="text-gray-300">
-                          {uploadedFiles.length} file{uploadedFiles.length !== 1 ? 's' : ''} attached
-                        </p>
+                    {/* Codebase, or attached files */}
+                    {isImport ? (
+                      <div>
+                        <span className="text-gray-500 text-sm block mb-1">Codebase</span>
+                        <div className="flex items-center gap-2 min-w-0">
+                          {codebaseSource === 'git' ? (
+                            <GitBranch className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+                          ) : (
+                            <FileArchive className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+                          )}
+                          <p className="text-gray-300 font-mono text-sm truncate">
+                            {codebaseSource === 'git'
+                              ? `${watch('repoUrl')}${watch('branch') ? ` @ ${watch('branch')}` : ''}`
+                              : archiveFile?.name}
+                          </p>
+                        </div>
                       </div>
-                      {uploadedFiles.length > 0 && (
-                        <div className="mt-2 flex flex-wrap gap-2">
-                          {uploadedFiles.map((file, i) => (
-                            <span
-                              key={`review-${file.key}-${i}`}
-                              className="inline-flex items-center gap-1 px-2 py-1 bg-gray-800 rounded text-xs text-gray-400"
-                            >
-                              <FileText className="w-3 h-3" />
-                              {file.name}
-                            </span>
-                          ))}
+                    ) : (
+                      <div>
+                        <span className="text-gray-500 text-sm block mb-1">Attached Files</span>
+                        <div className="flex items-center gap-2">
+                          <FileText className="w-4 h-4 text-cyan-400" />
+                          <p className="text-gray-300">
+                            {uploadedFiles.length} file{uploadedFiles.length !== 1 ? 's' : ''} attached
+                          </p>
                         </div>
-                      )}
-                    </div>
+                        {uploadedFiles.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {uploadedFiles.map((file, i) => (
+                              <span
+                                key={`review-${file.key}-${i}`}
+                                className="inline-flex items-center gap-1 px-2 py-1 bg-gray-800 rounded text-xs text-gray-400"
+                              >
+                                <FileText className="w-3 h-3" />
+                                {file.name}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    )}
                   </div>
 
                   {/* Submit error */}
@@ -663,7 +949,7 @@ export function CreationWizard() {
                 <button
                   type="button"
                   onClick={goNext}
-                  disabled={step === 2 && !canProceed}
+                  disabled={!canProceed}
                   className={cn(
                     'flex items-center gap-2 px-6 py-3 rounded-lg font-medium transition-all',
                     'bg-gradient-to-r from-cyan-500 to-blue-500 text-white',
@@ -677,7 +963,7 @@ export function CreationWizard() {
               ) : (
                 <button
                   type="submit"
-                  disabled={isSubmitting || !isValid}
+                  disabled={isSubmitting || !isValid || (isImport && codebaseSource === 'archive' && !archiveFile)}
                   className={cn(
                     'flex items-center gap-2 px-8 py-3 rounded-lg font-medium transition-all',
                     'bg-gradient-to-r from-green-500 to-emerald-500 text-white',
@@ -693,7 +979,7 @@ export function CreationWizard() {
                   ) : (
                     <>
                       <Sparkles className="w-4 h-4" />
-                      Generate App
+                      {isImport ? 'Import Codebase' : 'Generate App'}
                     </>
                   )}
                 </button>
@@ -704,7 +990,7 @@ export function CreationWizard() {
 
         {/* Step labels */}
         <div className="flex justify-between mt-4 px-4 text-xs text-gray-500">
-          <span className={cn(step === 1 && 'text-cyan-400')}>Upload</span>
+          <span className={cn(step === 1 && 'text-cyan-400')}>{isImport ? 'Source' : 'Upload'}</span>
           <span className={cn(step === 2 && 'text-cyan-400')}>Describe</span>
           <span className={cn(step === 3 && 'text-cyan-400')}>Review</span>
         </div>
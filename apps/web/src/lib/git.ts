@@ -0,0 +1,61 @@
+/**
+ * Git Remotes
+ *
+ * Validation shared by the routes that take a Git remote from the user:
+ * the remote a project is pushed to and the repository it is imported
+ * from. The worker applies the same rules before running git.
+ */
+
+import { z } from 'zod';
+
+const REMOTE_PATTERNS = [
+  /^https:\/\/[^\s]+$/,
+  /^ssh:\/\/[^\s]+$/,
+  // scp-style, e.g. git@github.com:owner/repo.git
+  /^\w[\w.-]*@[\w.-]+:[^\s]+$/,
+];
+
+/**
+ * Absolute paths and file:// URLs, e.g. a bare repository for testing;
+ * only accepted when the worker allows them too
+ */
+const LOCAL_REMOTE_PATTERN = /^(\/|file:\/\/\/)[^\s]*$/;
+
+const PROVIDERS: Record<string, string> = {
+  'github.com': 'github',
+  'gitlab.com': 'gitlab',
+  'bitbucket.org': 'bitbucket',
+};
+
+/**
+ * An https://, ssh:// or user@host:path remote without credentials
+ */
+export const gitRemoteSchema = z
+  .string()
+  .trim()
+  .max(500)
+  .refine(
+    (remote) =>
+      REMOTE_PATTERNS.some((pattern) => pattern.test(remote)) ||
+      (process.env.GIT_ALLOW_LOCAL_REMOTES === 'true' && LOCAL_REMOTE_PATTERN.test(remote)),
+    'Use an https://, ssh:// or user@host:path remote'
+  )
+  .refine(
+    (remote) => !/^https:\/\/[^/@]+@/.test(remote),
+    'Do not put credentials in the remote URL'
+  );
+
+export const gitBranchSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .regex(/^(?!-|\/)(?!.*(\.\.|\/\/|@\{|\.lock$|\/$|\.$))[\w./-]+$/, 'Invalid branch name');
+
+/**
+ * Hosting provider of a remote, when it is a known one
+ */
+export function gitProviderOf(remote: string): string | null {
+  const host = /^(?:https:\/\/|ssh:\/\/(?:[^@/]+@)?|[^@]+@)([^/:]+)/.exec(remote)?.[1];
+  return (host && PROVIDERS[host.toLowerCase()]) ?? null;
+}
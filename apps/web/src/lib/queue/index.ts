@@ -11,11 +11,15 @@ export {
   addProjectCreateJob,
   addProjectUpdateJob,
   addProjectDeleteJob,
+  addProjectRestoreJob,
+  addProjectPromoteJob,
   // Generation jobs
   addGenerationJob,
   addComponentGenerationJob,
   addPageGenerationJob,
   addFullAppGenerationJob,
+  addImportGenerationJob,
+  assertGenerationSlot,
   // Build jobs
   addBuildJob,
   // Deploy jobs
@@ -46,6 +50,7 @@ export {
   type GenerationJobData,
   type GenerationConfig,
   type GenerationType,
+  type CodebaseSource,
   type BuildJobData,
   type DeployJobData,
   type DeploymentEnvironment,
@@ -15,6 +15,7 @@ import {
   GenerationJobData,
   GenerationConfig,
   GenerationType,
+  CodebaseSource,
   BuildJobData,
   DeployJobData,
   DeploymentEnvironment,
@@ -23,6 +24,7 @@ import {
   NotificationJobData,
   NotificationType,
 } from '@nexusgen/types';
+import { assertJobSlot, notifyQuotaWarning, quotaService } from '../quota';
 
 // ============================================
 // Redis Connection
@@ -235,6 +237,54 @@ export async function addProjectDeleteJob(
   );
 }
 
+/**
+ * Add a job that resets the project's sandbox to a snapshot and rebuilds it
+ */
+export async function addProjectRestoreJob(
+  projectId: string,
+  userId: string,
+  snapshotId: string,
+  options?: JobsOptions
+): Promise<Job<ProjectJobData>> {
+  return addProjectJob(
+    {
+      projectId,
+      userId,
+      action: 'restore',
+      payload: { snapshotId },
+    },
+    options
+  );
+}
+
+/**
+ * Add a job that makes a version current and deploys its files
+ *
+ * Throws a QuotaExceededError when the user's deployment allowance is used
+ * up (402) or too many deployments are already in flight (429).
+ */
+export async function addProjectPromoteJob(
+  projectId: string,
+  userId: string,
+  versionId: string,
+  environment: DeploymentEnvironment = 'preview',
+  options?: JobsOptions
+): Promise<Job<ProjectJobData>> {
+  const quota = await quotaService.assert(userId, 'deployments');
+  await assertJobSlot(getQueue(QueueName.DEPLOY), userId, 'deploy');
+  await notifyQuotaWarning(userId, 'deployments', quota);
+
+  return addProjectJob(
+    {
+      projectId,
+      userId,
+      action: 'promote',
+      payload: { versionId, environment },
+    },
+    options
+  );
+}
+
 // ============================================
 // Generation Jobs
 // ============================================
@@ -318,6 +368,9 @@ export async function addPageGenerationJob(
 
 /**
  * Add a full app generation job
+ *
+ * Throws a QuotaExceededError when the user's AI token allowance is used
+ * up (402) or too many generations are already in flight (429).
  */
 export async function addFullAppGenerationJob(
   projectId: string,
@@ -327,6 +380,8 @@ export async function addFullAppGenerationJob(
   config?: GenerationConfig,
   options?: JobsOptions
 ): Promise<Job<GenerationJobData>> {
+  await assertGenerationSlot(userId);
+
   return addGenerationJob(
     {
       projectId,
@@ -340,6 +395,48 @@ export async function addFullAppGenerationJob(
   );
 }
 
+/**
+ * Check that the user could queue a generation now, before doing work
+ * the generation depends on
+ *
+ * Throws a QuotaExceededError when the user's AI token allowance is used
+ * up (402) or too many generations are already in flight (429). The AI
+ * token warning is left to the worker, which knows how many tokens the
+ * generation used.
+ */
+export async function assertGenerationSlot(userId: string): Promise<void> {
+  await quotaService.assert(userId, 'aiTokens');
+  await assertJobSlot(getQueue(QueueName.GENERATION), userId, 'generation');
+}
+
+/**
+ * Add a job that specifies a project from the codebase imported into its
+ * sandbox, so it can be edited like a generated one
+ *
+ * Throws a QuotaExceededError when the user's AI token allowance is used
+ * up (402) or too many generations are already in flight (429).
+ */
+export async function addImportGenerationJob(
+  projectId: string,
+  userId: string,
+  source: CodebaseSource,
+  notes?: string,
+  options?: JobsOptions
+): Promise<Job<GenerationJobData>> {
+  await assertGenerationSlot(userId);
+
+  return addGenerationJob(
+    {
+      projectId,
+      userId,
+      prompt: notes ?? '',
+      type: 'import',
+      source,
+    },
+    { priority: 10, ...options }
+  );
+}
+
 // ============================================
 // Build Jobs
 // ============================================
@@ -381,6 +478,9 @@ export async function addBuildJob(
 
 /**
  * Add a deploy job to the queue
+ *
+ * Throws a QuotaExceededError when the user's deployment allowance is used
+ * up (402) or too many deployments are already in flight (429).
  */
 export async function addDeployJob(
   data: Omit<DeployJobData, 'deploymentId' | 'createdAt'> & {
@@ -391,6 +491,10 @@ export async function addDeployJob(
   const queue = getQueue(QueueName.DEPLOY);
   const config = QUEUE_CONFIGS[QueueName.DEPLOY];
 
+  const quota = await quotaService.assert(data.userId, 'deployments');
+  await assertJobSlot(queue, data.userId, 'deploy');
+  await notifyQuotaWarning(data.userId, 'deployments', quota);
+
   const deploymentId = data.deploymentId || generateJobId('deploy');
 
   const jobData: DeployJobData = {
@@ -721,6 +825,7 @@ export type {
   GenerationJobData,
   GenerationConfig,
   GenerationType,
+  CodebaseSource,
   BuildJobData,
   DeployJobData,
   DeploymentEnvironment,
@@ -0,0 +1,116 @@
+/**
+ * Subscription Quotas
+ *
+ * Quota checks for the web API. Subscription limits are enforced with the
+ * checker and usage source shared with the worker from @nexusgen/utils; the
+ * number of jobs a user may have in flight comes from RATE_LIMIT_CONFIG.
+ */
+
+import { NextResponse } from 'next/server';
+import type { Queue } from 'bullmq';
+import { prisma, NotificationType } from '@nexusgen/database';
+import { RATE_LIMIT_CONFIG } from '@nexusgen/config';
+import type { QuotaCheckResult, QuotaResource } from '@nexusgen/types';
+import {
+  QuotaExceededError,
+  QuotaService,
+  createQuotaUsageSource,
+  getQuotaWarning,
+} from '@nexusgen/utils';
+
+/**
+ * Job kinds limited by RATE_LIMIT_CONFIG.maxConcurrentJobs
+ */
+export type QuotaJobKind = 'generation' | 'deploy';
+
+/**
+ * Job states that count as in flight
+ */
+const IN_FLIGHT_STATES = ['waiting', 'active', 'delayed', 'prioritized'] as const;
+
+/**
+ * Plans and usage read through the web app's Prisma client
+ */
+const prismaQuotaSource = createQuotaUsageSource(prisma);
+
+/**
+ * Quota checker backed by the web app's Prisma client
+ */
+export const quotaService = new QuotaService(prismaQuotaSource);
+
+// ============================================
+// Enforcement
+// ============================================
+
+/**
+ * Reject with RATE_LIMITED (429) when the user already has as many jobs of
+ * this kind queued or running as their tier allows
+ */
+export async function assertJobSlot(
+  queue: Queue,
+  userId: string,
+  kind: QuotaJobKind
+): Promise<void> {
+  const plan = await prismaQuotaSource.getPlan(userId);
+  const tierKey = plan.tier.toLowerCase() as keyof typeof RATE_LIMIT_CONFIG.maxConcurrentJobs;
+  const limit = RATE_LIMIT_CONFIG.maxConcurrentJobs[tierKey][kind];
+
+  const jobs = await queue.getJobs([...IN_FLIGHT_STATES]);
+  const inFlight = jobs.filter((job) => job?.data?.userId === userId).length;
+
+  if (inFlight >= limit) {
+    throw new QuotaExceededError({
+      success: false,
+      error: `The ${plan.tier} plan allows ${limit} ${kind} job(s) at a time`,
+      code: 'RATE_LIMITED',
+      tier: plan.tier,
+      allowances: await quotaService.getAllowances(userId),
+      retryAfterSeconds: RATE_LIMIT_CONFIG.jobRetryAfterSeconds,
+    });
+  }
+}
+
+/**
+ * Notify the user when using `amount` more of a resource crosses the
+ * warning threshold of a check
+ */
+export async function notifyQuotaWarning(
+  userId: string,
+  resource: QuotaResource,
+  result: QuotaCheckResult,
+  amount = 1
+): Promise<void> {
+  const warning = getQuotaWarning(resource, result, amount);
+  if (!warning) {
+    return;
+  }
+
+  try {
+    await prisma.notification.create({
+      data: {
+        userId,
+        type: NotificationType.QUOTA_WARNING,
+        title: warning.title,
+        message: warning.message,
+        link: '/settings/billing',
+        metadata: warning.metadata,
+      },
+    });
+  } catch (error) {
+    console.error('[Quota] Failed to create quota warning:', error);
+  }
+}
+
+/**
+ * JSON response for a quota error, with Retry-After for rate limits
+ */
+export function quotaErrorResponse(error: QuotaExceededError): NextResponse {
+  const headers: Record<string, string> = {};
+  if (error.body.retryAfterSeconds) {
+    headers['Retry-After'] = String(error.body.retryAfterSeconds);
+  }
+
+  return NextResponse.json(error.body, { status: error.status, headers });
+}
+
+export { QuotaExceededError };
@@ -0,0 +1,23 @@
+/**
+ * Upload Keys
+ *
+ * Storage keys of user uploads. Every key is under its uploader's prefix,
+ * so a key in a request can be checked against the signed-in user; the
+ * worker reads assets from that prefix only.
+ */
+
+import path from 'path';
+
+/**
+ * Storage prefix of a user's uploads
+ */
+export function uploadKeyPrefix(userId: string): string {
+  return `uploads/${userId}/`;
+}
+
+/**
+ * Whether a storage key is one of the user's uploads
+ */
+export function isOwnUploadKey(key: string, userId: string): boolean {
+  return path.posix.normalize(key) === key && key.startsWith(uploadKeyPrefix(userId));
+}
@@ -0,0 +1,73 @@
+/**
+ * Worker API Client
+ *
+ * Server-side calls to the worker's internal HTTP endpoints, for data that
+ * lives on the worker's disk (project sandboxes). Callers authenticate the
+ * user and check project ownership first; the worker trusts any request
+ * carrying WORKER_INTERNAL_TOKEN.
+ */
+
+const DEFAULT_WORKER_API_URL = 'http://localhost:3001/api/v1';
+
+/**
+ * A worker response other than 2xx, or a worker that could not be reached
+ */
+export class WorkerRequestError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status of the worker response; 502 when there was none */
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'WorkerRequestError';
+  }
+}
+
+/**
+ * Call a worker endpoint and return the response as is, for streamed bodies
+ *
+ * @param path - Path below the worker's API prefix, e.g. `/projects/1/files`
+ * @throws WorkerRequestError with the worker's status and message
+ */
+export async function workerFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const baseUrl = process.env.WORKER_API_URL || DEFAULT_WORKER_API_URL;
+  const headers = new Headers(init.headers);
+  headers.set('x-internal-token', process.env.WORKER_INTERNAL_TOKEN ?? '');
+  if (typeof init.body === 'string' && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, { ...init, headers, cache: 'no-store' });
+  } catch (error) {
+    throw new WorkerRequestError(
+      `Worker unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      502
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    // Nest error bodies carry a message string, or a list of validation messages
+    const message = (body as { message?: string | string[] } | null)?.message;
+    throw new WorkerRequestError(
+      Array.isArray(message) ? message.join(', ') : message || `Worker responded ${response.status}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+/**
+ * Call a worker endpoint and parse its JSON response
+ *
+ * @param path - Path below the worker's API prefix, e.g. `/projects/1/files`
+ * @throws WorkerRequestError with the worker's status and message
+ */
+export async function workerRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await workerFetch(path, init);
+
+  return (await response.json().catch(() => null)) as T;
+}
@@ -6,10 +6,17 @@
  */
 
 import { Logger } from '@nestjs/common';
-import { generateText } from 'ai';
 import {
-  getLanguageModel,
+  generateObject,
+  generateText,
+  NoObjectGeneratedError,
+  type CoreMessage,
+  type LanguageModelUsage,
+} from 'ai';
+import {
+  supportsImageInput,
   type AIModelConfig,
+  type FallbackLanguageModel,
   DEFAULT_MODEL_CONFIGS,
 } from '@nexusgen/ai';
 
@@ -18,13 +25,39 @@ import {
   ARCHITECT_USER_PROMPT_TEMPLATE,
   ARCHITECT_RETRY_PROMPT,
 } from './prompts/system.prompt';
+import {
+  ARCHITECT_EDIT_SYSTEM_PROMPT,
+  ARCHITECT_EDIT_USER_PROMPT_TEMPLATE,
+} from './prompts/edit.prompt';
+import {
+  ARCHITECT_REVERSE_ENGINEER_SYSTEM_PROMPT,
+  ARCHITECT_REVERSE_ENGINEER_USER_PROMPT_TEMPLATE,
+} from './prompts/reverse-engineer.prompt';
+import {
+  ARCHITECT_ASSET_ANALYSIS_SYSTEM_PROMPT,
+  ARCHITECT_ASSET_ANALYSIS_USER_PROMPT_TEMPLATE,
+} from './prompts/asset-analysis.prompt';
+import {
+  ARCHITECT_DOCUMENT_SUMMARY_SYSTEM_PROMPT,
+  ARCHITECT_DOCUMENT_SUMMARY_USER_PROMPT_TEMPLATE,
+} from './prompts/document-summary.prompt';
+import { allocateBudget, chunkText, estimateTokens, truncateToTokens } from './documents';
+import { applySpecificationDelta } from './spec-delta';
+import {
+  assetAnalysisSchema,
+  createSpecificationDeltaSchema,
+  technicalSpecificationSchema,
+} from './schema';
+import { createFallbackModel } from '../model-fallback';
+import { describeStructuredOutputError } from '../structured-output';
+import type { UsageTracker } from '../usage-tracker';
 import {
   type TechnicalSpecification,
+  type CodebaseContext,
   type UploadedAsset,
+  type ReferenceDocument,
   type ArchitectAgentResponse,
-  type ValidationResult,
-  type ValidationError,
-  type ValidationWarning,
+  type ArchitectEditResponse,
 } from './types';
 
 /**
@@ -33,8 +66,12 @@ import {
 export interface ArchitectAgentConfig {
   /** AI model configuration */
   modelConfig?: Partial<AIModelConfig>;
-  /** Maximum number of retries for JSON parsing */
+  /** Models tried in order when a call to the primary model fails */
+  fallbackModels?: AIModelConfig[];
+  /** Maximum number of retries when the output fails schema validation */
   maxRetries?: number;
+  /** Tokens of document text given to the model; longer documents are summarised */
+  documentTokenBudget?: number;
   /** Enable detailed logging */
   verbose?: boolean;
 }
@@ -48,10 +85,22 @@ const DEFAULT_CONFIG: Required<ArchitectAgentConfig> = {
     temperature: 0.3, // Lower temperature for more consistent structured output
     maxTokens: 8192, // Larger context for comprehensive specs
   },
+  fallbackModels: [],
   maxRetries: 3,
+  documentTokenBudget: 12_000,
   verbose: false,
 };
 
+/**
+ * Size of the parts a long document is summarised in
+ */
+const DOCUMENT_CHUNK_TOKENS = 4_000;
+
+/**
+ * Most of a single document that is summarised; the rest is left out
+ */
+const MAX_SUMMARIZED_DOCUMENT_TOKENS = 80_000;
+
 /**
  * Architect Agent Class
  *
@@ -85,75 +134,54 @@ export class ArchitectAgent {
    *
    * @param prompt - The user's project description/requirements
    * @param assets - Optional uploaded assets (images, screenshots, etc.)
+   * @param usage - Optional tracker that receives the usage of every model call
    * @returns ArchitectAgentResponse with the technical specification
    */
   async analyze(
     prompt: string,
     assets?: UploadedAsset[],
+    usage?: UsageTracker,
   ): Promise<ArchitectAgentResponse> {
     const startTime = Date.now();
     let retries = 0;
     let lastError: Error | null = null;
-    let totalTokens = { prompt: 0, completion: 0, total: 0 };
+    let lastFeedback = '';
+    const totalTokens = { prompt: 0, completion: 0, total: 0 };
 
     this.logger.log(`Starting analysis for prompt: "${prompt.substring(0, 100)}..."`);
 
+    // Images go along as image parts when the model can see them
+    const images = this.acceptsImages ? (assets ?? []).filter((asset) => asset.data) : [];
+
     // Build asset descriptions if provided
-    const assetDescriptions = this.buildAssetDescriptions(assets);
+    const assetDescriptions = this.buildAssetDescriptions(assets, images);
+    const documents = this.buildReferenceDocuments(assets);
 
     // Build the user prompt
-    let userPrompt = ARCHITECT_USER_PROMPT_TEMPLATE(prompt, assetDescriptions);
+    let userPrompt = ARCHITECT_USER_PROMPT_TEMPLATE(prompt, assetDescriptions, documents);
 
     while (retries <= this.config.maxRetries) {
+      // Get the language model, with its fallbacks
+      const model = this.createModel();
+
       try {
         this.logger.debug(`Attempt ${retries + 1} of ${this.config.maxRetries + 1}`);
 
-        // Get the language model
-        const model = getLanguageModel(this.modelConfig);
-
-        // Call the AI
-        const response = await generateText({
+        // Generate the specification in the provider's structured-output mode
+        const response = await generateObject({
           model,
+          schema: technicalSpecificationSchema,
+          schemaName: 'TechnicalSpecification',
           system: ARCHITECT_SYSTEM_PROMPT,
-          prompt: userPrompt,
+          messages: this.buildMessages(userPrompt, images),
           temperature: this.modelConfig.temperature,
           maxTokens: this.modelConfig.maxTokens,
         });
 
         // Track token usage
-        if (response.usage) {
-          totalTokens.prompt += response.usage.promptTokens;
-          totalTokens.completion += response.usage.completionTokens;
-          totalTokens.total += response.usage.totalTokens;
-        }
-
-        this.logger.debug(`Received response with ${response.text.length} characters`);
+        this.addUsage(totalTokens, response.usage, usage, model, 'analyze', true);
 
-        // Parse and validate the response
-        const specification = this.parseResponse(response.text);
-        const validation = this.validateSpecification(specification);
-
-        if (!validation.valid) {
-          this.logger.warn(
-            `Specification validation failed: ${validation.errors.map((e) => e.message).join(', ')}`,
-          );
-
-          // If there are only warnings, we can proceed
-          if (validation.errors.length === 0) {
-            this.logger.log('Proceeding with warnings');
-          } else {
-            throw new Error(
-              `Invalid specification: ${validation.errors[0].message}`,
-            );
-          }
-        }
-
-        // Log warnings if any
-        if (validation.warnings.length > 0 && this.config.verbose) {
-          validation.warnings.forEach((warning) => {
-            this.logger.warn(`Validation warning: ${warning.message}`);
-          });
-        }
+        const specification = response.object;
 
         const durationMs = Date.now() - startTime;
         this.logger.log(`Analysis completed in ${durationMs}ms`);
@@ -172,16 +200,20 @@ export class ArchitectAgent {
         lastError = error as Error;
         retries++;
 
-        this.logger.error(
-          `Attempt ${retries} failed: ${lastError.message}`,
-          lastError.stack,
-        );
+        // Failed generations still consume tokens
+        if (NoObjectGeneratedError.isInstance(error)) {
+          this.addUsage(totalTokens, error.usage, usage, model, 'analyze', false);
+        }
+
+        const feedback = describeStructuredOutputError(error);
+        lastFeedback = feedback;
+        this.logger.error(`Attempt ${retries} failed: ${feedback}`, lastError.stack);
 
         if (retries <= this.config.maxRetries) {
           // Update the prompt with retry instructions
           userPrompt = ARCHITECT_RETRY_PROMPT(
-            ARCHITECT_USER_PROMPT_TEMPLATE(prompt, assetDescriptions),
-            lastError.message,
+            ARCHITECT_USER_PROMPT_TEMPLATE(prompt, assetDescriptions, documents),
+            feedback,
           );
 
           this.logger.log(`Retrying with error context...`);
@@ -202,6 +234,7 @@ export class ArchitectAgent {
         message: lastError?.message || 'Unknown error during analysis',
         details: {
           attempts: retries,
+          feedback: lastFeedback,
           lastError: lastError?.stack,
         },
       },
@@ -215,281 +248,512 @@ export class ArchitectAgent {
   }
 
   /**
-   * Build descriptions from uploaded assets
+   * Plan an edit to an existing project
+   *
+   * Produces a SpecificationDelta naming the files to create, modify or
+   * delete, and returns the stored specification with the delta applied.
+   *
+   * @param prompt - The user's change request
+   * @param spec - The specification the project was generated from
+   * @param filePaths - Paths of the files currently in the project
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @returns ArchitectEditResponse with the delta and updated specification
    */
-  private buildAssetDescriptions(assets?: UploadedAsset[]): string | undefined {
-    if (!assets || assets.length === 0) {
-      return undefined;
-    }
+  async planEdit(
+    prompt: string,
+    spec: TechnicalSpecification,
+    filePaths: string[],
+    usage?: UsageTracker,
+  ): Promise<ArchitectEditResponse> {
+    const startTime = Date.now();
+    let retries = 0;
+    let lastError: Error | null = null;
+    let lastFeedback = '';
+    const totalTokens = { prompt: 0, completion: 0, total: 0 };
 
-    return assets
-      .map((asset, index) => {
-        let description = `### Asset ${index + 1}: ${asset.filename}\n`;
-        description += `- Type: ${asset.mimeType}\n`;
-        description += `- URL: ${asset.url}\n`;
+    this.logger.log(`Planning edit for prompt: "${prompt.substring(0, 100)}..."`);
 
-        if (asset.description) {
-          description += `- Description: ${asset.description}\n`;
+    const basePrompt = ARCHITECT_EDIT_USER_PROMPT_TEMPLATE(prompt, spec, filePaths);
+    let userPrompt = basePrompt;
+    const deltaSchema = createSpecificationDeltaSchema(filePaths);
+
+    while (retries <= this.config.maxRetries) {
+      const model = this.createModel();
+
+      try {
+
+        const response = await generateObject({
+          model,
+          schema: deltaSchema,
+          schemaName: 'SpecificationDelta',
+          system: ARCHITECT_EDIT_SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: this.modelConfig.temperature,
+          maxTokens: this.modelConfig.maxTokens,
+        });
+
+        this.addUsage(totalTokens, response.usage, usage, model, 'plan-edit', true);
+
+        const delta = response.object;
+
+        const durationMs = Date.now() - startTime;
+        this.logger.log(`Edit planned in ${durationMs}ms: ${delta.files.length} file(s) affected`);
+
+        return {
+          success: true,
+          delta,
+          specification: applySpecificationDelta(spec, delta),
+          metadata: {
+            durationMs,
+            model: `${this.modelConfig.provider}/${this.modelConfig.model}`,
+            tokens: totalTokens,
+            retries,
+          },
+        };
+      } catch (error) {
+        lastError = error as Error;
+        retries++;
+
+        if (NoObjectGeneratedError.isInstance(error)) {
+          this.addUsage(totalTokens, error.usage, usage, model, 'plan-edit', false);
         }
 
-        if (asset.analysis) {
-          if (asset.analysis.detectedComponents?.length) {
-            description += `- Detected Components: ${asset.analysis.detectedComponents.join(', ')}\n`;
-          }
-          if (asset.analysis.layoutPatterns?.length) {
-            description += `- Layout Patterns: ${asset.analysis.layoutPatterns.join(', ')}\n`;
-          }
-          if (asset.analysis.colorPalette?.length) {
-            description += `- Color Palette: ${asset.analysis.colorPalette.join(', ')}\n`;
-          }
-          if (asset.analysis.insights) {
-            description += `- Insights: ${asset.analysis.insights}\n`;
-          }
+        const feedback = describeStructuredOutputError(error);
+        lastFeedback = feedback;
+        this.logger.error(`Edit planning attempt ${retries} failed: ${feedback}`);
+
+        if (retries <= this.config.maxRetries) {
+          userPrompt = ARCHITECT_RETRY_PROMPT(basePrompt, feedback);
         }
+      }
+    }
 
-        return description;
-      })
-      .join('\n');
+    return {
+      success: false,
+      error: {
+        code: 'EDIT_PLANNING_FAILED',
+        message: lastError?.message || 'Unknown error while planning edit',
+        details: {
+          attempts: retries,
+          feedback: lastFeedback,
+          lastError: lastError?.stack,
+        },
+      },
+      metadata: {
+        durationMs: Date.now() - startTime,
+        model: `${this.modelConfig.provider}/${this.modelConfig.model}`,
+        tokens: totalTokens,
+        retries,
+      },
+    };
   }
 
   /**
-   * Parse the AI response as JSON
+   * Write the specification of an existing codebase
+   *
+   * Used for imported projects, so they can be edited like generated ones.
+   *
+   * @param codebase - File tree and the content of the files that fit the budget
+   * @param userNotes - What the user said about the codebase, if anything
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @returns ArchitectAgentResponse with the technical specification
    */
-  private parseResponse(response: string): TechnicalSpecification {
-    // Try to extract JSON if wrapped in markdown code blocks
-    let jsonString = response.trim();
-
-    // Remove potential markdown code block markers
-    if (jsonString.startsWith('```json')) {
-      jsonString = jsonString.slice(7);
-    } else if (jsonString.startsWith('```')) {
-      jsonString = jsonString.slice(3);
-    }
+  async reverseEngineer(
+    codebase: CodebaseContext,
+    userNotes?: string,
+    usage?: UsageTracker,
+  ): Promise<ArchitectAgentResponse> {
+    const startTime = Date.now();
+    let retries = 0;
+    let lastError: Error | null = null;
+    let lastFeedback = '';
+    const totalTokens = { prompt: 0, completion: 0, total: 0 };
 
-    if (jsonString.endsWith('```')) {
-      jsonString = jsonString.slice(0, -3);
-    }
+    this.logger.log(
+      `Reverse-engineering a codebase of ${codebase.filePaths.length} files (${codebase.files.length} read)`,
+    );
 
-    jsonString = jsonString.trim();
+    const basePrompt = ARCHITECT_REVERSE_ENGINEER_USER_PROMPT_TEMPLATE(codebase, userNotes);
+    let userPrompt = basePrompt;
 
-    // Attempt to find JSON object boundaries if response has extra text
-    const firstBrace = jsonString.indexOf('{');
-    const lastBrace = jsonString.lastIndexOf('}');
+    while (retries <= this.config.maxRetries) {
+      const model = this.createModel();
 
-    if (firstBrace !== -1 && lastBrace !== -1 && firstBrace < lastBrace) {
-      jsonString = jsonString.slice(firstBrace, lastBrace + 1);
-    }
+      try {
+        const response = await generateObject({
+          model,
+          schema: technicalSpecificationSchema,
+          schemaName: 'TechnicalSpecification',
+          system: ARCHITECT_REVERSE_ENGINEER_SYSTEM_PROMPT,
+          prompt: userPrompt,
+          temperature: this.modelConfig.temperature,
+          maxTokens: this.modelConfig.maxTokens,
+        });
 
-    try {
-      const parsed = JSON.parse(jsonString);
-      return parsed as TechnicalSpecification;
-    } catch (error) {
-      const parseError = error as SyntaxError;
-
-      // Try to provide more helpful error message
-      const match = parseError.message.match(/position (\d+)/);
-      if (match) {
-        const position = parseInt(match[1], 10);
-        const context = jsonString.slice(
-          Math.max(0, position - 50),
-          Math.min(jsonString.length, position + 50),
-        );
-        throw new Error(
-          `JSON parse error at position ${position}: "${context}"... - ${parseError.message}`,
-        );
-      }
+        this.addUsage(totalTokens, response.usage, usage, model, 'reverse-engineer', true);
+
+        const durationMs = Date.now() - startTime;
+        this.logger.log(`Codebase specified in ${durationMs}ms`);
+
+        return {
+          success: true,
+          specification: response.object,
+          metadata: {
+            durationMs,
+            model: `${this.modelConfig.provider}/${this.modelConfig.model}`,
+            tokens: totalTokens,
+            retries,
+          },
+        };
+      } catch (error) {
+        lastError = error as Error;
+        retries++;
 
-      throw new Error(`Failed to parse JSON response: ${parseError.message}`);
+        if (NoObjectGeneratedError.isInstance(error)) {
+          this.addUsage(totalTokens, error.usage, usage, model, 'reverse-engineer', false);
+        }
+
+        const feedback = describeStructuredOutputError(error);
+        lastFeedback = feedback;
+        this.logger.error(`Reverse-engineering attempt ${retries} failed: ${feedback}`);
+
+        if (retries <= this.config.maxRetries) {
+          userPrompt = ARCHITECT_RETRY_PROMPT(basePrompt, feedback);
+        }
+      }
     }
+
+    return {
+      success: false,
+      error: {
+        code: 'REVERSE_ENGINEERING_FAILED',
+        message: lastError?.message || 'Unknown error while reading the codebase',
+        details: {
+          attempts: retries,
+          feedback: lastFeedback,
+          lastError: lastError?.stack,
+        },
+      },
+      metadata: {
+        durationMs: Date.now() - startTime,
+        model: `${this.modelConfig.provider}/${this.modelConfig.model}`,
+        tokens: totalTokens,
+        retries,
+      },
+    };
   }
 
   /**
-   * Validate the technical specification
+   * Describe uploaded images with the model
+   *
+   * Fills `analysis`, and `description` unless the user gave one, for each
+   * asset with image content. Assets the model fails on are returned
+   * unchanged, as are all of them when the model takes text only.
+   *
+   * @param assets - Uploaded assets, with `data` set on fetched images
+   * @param prompt - The user's request, so the analysis focuses on what matters
+   * @param usage - Optional tracker that receives the usage of every model call
    */
-  private validateSpecification(spec: TechnicalSpecification): ValidationResult {
-    const errors: ValidationError[] = [];
-    const warnings: ValidationWarning[] = [];
-
-    // Required top-level fields
-    if (!spec.projectName || typeof spec.projectName !== 'string') {
-      errors.push({
-        path: 'projectName',
-        message: 'projectName is required and must be a string',
-        expected: 'string',
-        actual: typeof spec.projectName,
-      });
-    }
+  async analyzeAssets(
+    assets: UploadedAsset[],
+    prompt: string,
+    usage?: UsageTracker,
+  ): Promise<UploadedAsset[]> {
+    const images = assets.filter((asset) => asset.data);
 
-    if (!spec.description || typeof spec.description !== 'string') {
-      errors.push({
-        path: 'description',
-        message: 'description is required and must be a string',
-        expected: 'string',
-        actual: typeof spec.description,
-      });
+    if (images.length === 0) {
+      return assets;
     }
 
-    if (!spec.projectStructure || !spec.projectStructure.root) {
-      errors.push({
-        path: 'projectStructure',
-        message: 'projectStructure with root directory is required',
-      });
+    if (!this.acceptsImages) {
+      this.logger.warn(
+        `${this.modelConfig.provider}/${this.modelConfig.model} takes text only; ${images.length} image(s) are described by filename`,
+      );
+      return assets;
     }
 
-    // Validate components array
-    if (!Array.isArray(spec.components)) {
-      errors.push({
-        path: 'components',
-        message: 'components must be an array',
-        expected: 'array',
-        actual: typeof spec.components,
-      });
-    } else {
-      spec.components.forEach((component, index) => {
-        if (!component.name) {
-          errors.push({
-            path: `components[${index}].name`,
-            message: `Component at index ${index} is missing name`,
-          });
-        }
-        if (!component.path) {
-          errors.push({
-            path: `components[${index}].path`,
-            message: `Component ${component.name || index} is missing path`,
-          });
-        }
-        if (!component.type || !['client', 'server', 'shared'].includes(component.type)) {
-          warnings.push({
-            path: `components[${index}].type`,
-            message: `Component ${component.name || index} has invalid type: ${component.type}`,
-            suggestion: 'Use "client", "server", or "shared"',
-          });
-        }
-        if (!Array.isArray(component.props)) {
-          warnings.push({
-            path: `components[${index}].props`,
-            message: `Component ${component.name || index} should have a props array`,
-            suggestion: 'Add an empty array [] if no props are needed',
-          });
-        }
-      });
-    }
+    const totals = { prompt: 0, completion: 0, total: 0 };
+    const analyzed: UploadedAsset[] = [];
 
-    // Validate pages array
-    if (!Array.isArray(spec.pages)) {
-      errors.push({
-        path: 'pages',
-        message: 'pages must be an array',
-        expected: 'array',
-        actual: typeof spec.pages,
-      });
-    } else {
-      spec.pages.forEach((page, index) => {
-        if (!page.route) {
-          errors.push({
-            path: `pages[${index}].route`,
-            message: `Page at index ${index} is missing route`,
-          });
-        }
-        if (!page.filePath) {
-          errors.push({
-            path: `pages[${index}].filePath`,
-            message: `Page ${page.route || index} is missing filePath`,
-          });
-        }
-        if (!page.metadata || !page.metadata.title) {
-          warnings.push({
-            path: `pages[${index}].metadata`,
-            message: `Page ${page.route || index} is missing metadata.title`,
-            suggestion: 'Add metadata for SEO',
-          });
+    for (const asset of assets) {
+      if (!asset.data) {
+        analyzed.push(asset);
+        continue;
+      }
+
+      const model = this.createModel();
+
+      try {
+        const response = await generateObject({
+          model,
+          schema: assetAnalysisSchema,
+          schemaName: 'AssetAnalysis',
+          system: ARCHITECT_ASSET_ANALYSIS_SYSTEM_PROMPT,
+          messages: this.buildMessages(
+            ARCHITECT_ASSET_ANALYSIS_USER_PROMPT_TEMPLATE(asset.filename, prompt),
+            [asset],
+          ),
+          temperature: 0.2,
+          maxTokens: 2048,
+        });
+
+        this.addUsage(totals, response.usage, usage, model, 'analyze-asset', true);
+
+        const { description, ...analysis } = response.object;
+        analyzed.push({ ...asset, description: asset.description ?? description, analysis });
+      } catch (error) {
+        if (NoObjectGeneratedError.isInstance(error)) {
+          this.addUsage(totals, error.usage, usage, model, 'analyze-asset', false);
         }
-      });
+
+        this.logger.warn(
+          `Could not analyze asset ${asset.filename}: ${describeStructuredOutputError(error)}`,
+        );
+        analyzed.push(asset);
+      }
     }
 
-    // Validate API routes array
-    if (!Array.isArray(spec.apiRoutes)) {
-      errors.push({
-        path: 'apiRoutes',
-        message: 'apiRoutes must be an array',
-        expected: 'array',
-        actual: typeof spec.apiRoutes,
-      });
-    } else {
-      spec.apiRoutes.forEach((route, index) => {
-        if (!route.path) {
-          errors.push({
-            path: `apiRoutes[${index}].path`,
-            message: `API route at index ${index} is missing path`,
-          });
-        }
-        if (!route.method || !['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].includes(route.method)) {
-          errors.push({
-            path: `apiRoutes[${index}].method`,
-            message: `API route ${route.path || index} has invalid method: ${route.method}`,
-          });
-        }
-        if (!Array.isArray(route.responses) || route.responses.length === 0) {
-          warnings.push({
-            path: `apiRoutes[${index}].responses`,
-            message: `API route ${route.path || index} should define response schemas`,
-          });
-        }
-      });
+    this.logger.log(`Analyzed ${images.length} image asset(s) using ${totals.total} tokens`);
+
+    return analyzed;
+  }
+
+  /**
+   * Fit the text of document assets into the document token budget
+   *
+   * Documents that fit are kept verbatim. Otherwise each document gets a
+   * share of the budget (small ones keep their full size) and those over
+   * their share are summarised part by part; a part the model fails on is
+   * cut to its share instead.
+   *
+   * @param assets - Uploaded assets, with `text` set on readable documents
+   * @param prompt - The user's request, so summaries keep what matters
+   * @param usage - Optional tracker that receives the usage of every model call
+   */
+  async condenseDocuments(
+    assets: UploadedAsset[],
+    prompt: string,
+    usage?: UsageTracker,
+  ): Promise<UploadedAsset[]> {
+    const documents = assets.filter((asset) => asset.text);
+    const sizes = documents.map((document) => estimateTokens(document.text!));
+    const budget = this.config.documentTokenBudget;
+
+    if (sizes.reduce((sum, size) => sum + size, 0) <= budget) {
+      return assets;
     }
 
-    // Validate dependencies array
-    if (!Array.isArray(spec.dependencies)) {
-      errors.push({
-        path: 'dependencies',
-        message: 'dependencies must be an array',
-        expected: 'array',
-        actual: typeof spec.dependencies,
-      });
+    const allotted = allocateBudget(sizes, budget);
+    const totals = { prompt: 0, completion: 0, total: 0 };
+    const condensed = new Map<UploadedAsset, UploadedAsset>();
+
+    for (const [index, document] of documents.entries()) {
+      if (sizes[index] <= allotted[index]) {
+        continue;
+      }
+
+      const text = await this.summarizeDocument(document, allotted[index], prompt, totals, usage);
+      condensed.set(document, { ...document, text, textSummarized: true });
     }
 
-    // Validate data models array
-    if (!Array.isArray(spec.dataModels)) {
-      errors.push({
-        path: 'dataModels',
-        message: 'dataModels must be an array',
-        expected: 'array',
-        actual: typeof spec.dataModels,
-      });
+    this.logger.log(
+      `Summarised ${condensed.size} of ${documents.length} document(s) into a ${budget} token budget using ${totals.total} tokens`,
+    );
+
+    return assets.map((asset) => condensed.get(asset) ?? asset);
+  }
+
+  /**
+   * Summarise a document in parts, within `maxTokens` overall
+   */
+  private async summarizeDocument(
+    document: UploadedAsset,
+    maxTokens: number,
+    prompt: string,
+    totals: { prompt: number; completion: number; total: number },
+    usage?: UsageTracker,
+  ): Promise<string> {
+    let text = document.text!;
+
+    if (estimateTokens(text) > MAX_SUMMARIZED_DOCUMENT_TOKENS) {
+      this.logger.warn(
+        `Document ${document.filename} is over ${MAX_SUMMARIZED_DOCUMENT_TOKENS} tokens; only its beginning is summarised`,
+      );
+      text = truncateToTokens(text, MAX_SUMMARIZED_DOCUMENT_TOKENS);
     }
 
-    // Validate env variables array
-    if (!Array.isArray(spec.envVariables)) {
-      errors.push({
-        path: 'envVariables',
-        message: 'envVariables must be an array',
-        expected: 'array',
-        actual: typeof spec.envVariables,
-      });
+    const chunks = chunkText(text, DOCUMENT_CHUNK_TOKENS);
+    // Parts are joined by a blank line, about one token each
+    const partTokens = Math.max(1, Math.floor((maxTokens - chunks.length) / chunks.length));
+    const parts: string[] = [];
+
+    for (const [index, chunk] of chunks.entries()) {
+      const model = this.createModel();
+
+      try {
+        const response = await generateText({
+          model,
+          system: ARCHITECT_DOCUMENT_SUMMARY_SYSTEM_PROMPT,
+          prompt: ARCHITECT_DOCUMENT_SUMMARY_USER_PROMPT_TEMPLATE(
+            document.filename,
+            index + 1,
+            chunks.length,
+            chunk,
+            // About three words per four tokens
+            Math.max(20, Math.floor(partTokens * 0.75)),
+            prompt,
+          ),
+          temperature: 0.2,
+          maxTokens: Math.max(64, partTokens),
+        });
+
+        this.addUsage(totals, response.usage, usage, model, 'summarize-document', true);
+        parts.push(truncateToTokens(response.text.trim(), partTokens));
+      } catch (error) {
+        this.logger.warn(
+          `Could not summarise part ${index + 1} of ${document.filename}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+        parts.push(truncateToTokens(chunk, partTokens));
+      }
     }
 
-    // Additional warnings for completeness
-    if (spec.components.length === 0) {
-      warnings.push({
-        path: 'components',
-        message: 'No components defined',
-        suggestion: 'Most applications need at least some components',
-      });
+    return parts.join('\n\n');
+  }
+
+  /**
+   * Whether the configured model can be sent images
+   */
+  private get acceptsImages(): boolean {
+    return supportsImageInput(this.modelConfig);
+  }
+
+  /**
+   * A single user message with the text followed by the images, in order
+   */
+  private buildMessages(text: string, images: UploadedAsset[]): CoreMessage[] {
+    return [
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text },
+          ...images.map((image) => ({
+            type: 'image' as const,
+            image: image.data!,
+            mimeType: image.mimeType,
+          })),
+        ],
+      },
+    ];
+  }
+
+  /**
+   * The model for one call: the configured model, then its fallbacks
+   */
+  private createModel(): FallbackLanguageModel {
+    return createFallbackModel(this.modelConfig, this.config.fallbackModels, this.logger);
+  }
+
+  /**
+   * Add the usage of one model call to the running totals and the tracker
+   *
+   * @param model - The model the call was made with; usage is recorded
+   * against the model of its chain that served it
+   */
+  private addUsage(
+    totals: { prompt: number; completion: number; total: number },
+    usage: LanguageModelUsage | undefined,
+    tracker: UsageTracker | undefined,
+    model: FallbackLanguageModel,
+    operation: string,
+    success: boolean,
+  ): void {
+    if (!usage) {
+      return;
     }
+    totals.prompt += usage.promptTokens;
+    totals.completion += usage.completionTokens;
+    totals.total += usage.totalTokens;
+    tracker?.record(
+      'architect',
+      operation,
+      model.servedBy ?? model.requested,
+      usage,
+      success,
+      model.requested,
+    );
+  }
+
+  /**
+   * Reference documents from the text of document assets
+   *
+   * Text is cut to the document budget here too, for callers that did not
+   * condense the documents first.
+   */
+  private buildReferenceDocuments(assets?: UploadedAsset[]): ReferenceDocument[] {
+    const documents = (assets ?? []).filter((asset) => asset.text);
+    const allotted = allocateBudget(
+      documents.map((document) => estimateTokens(document.text!)),
+      this.config.documentTokenBudget,
+    );
+
+    return documents.map((document, index) => ({
+      filename: document.filename,
+      content: truncateToTokens(document.text!, allotted[index]),
+      summarized: !!document.textSummarized,
+    }));
+  }
 
-    if (spec.pages.length === 0) {
-      warnings.push({
-        path: 'pages',
-        message: 'No pages defined',
-        suggestion: 'At least a home page should be defined',
-      });
+  /**
+   * Build descriptions from uploaded assets
+   *
+   * @param images - Assets attached to the message as images, in order
+   */
+  private buildAssetDescriptions(
+    assets?: UploadedAsset[],
+    images: UploadedAsset[] = [],
+  ): string | undefined {
+    if (!assets || assets.length === 0) {
+      return undefined;
     }
 
-    return {
-      valid: errors.length === 0,
-      errors,
-      warnings,
-    };
+    const documents = assets.filter((asset) => asset.text);
+
+    return assets
+      .map((asset, index) => {
+        let description = `### Asset ${index + 1}: ${asset.filename}\n`;
+        description += `- Type: ${asset.mimeType}\n`;
+        description += `- URL: ${asset.url}\n`;
+
+        if (images.includes(asset)) {
+          description += `- Attached: image ${images.indexOf(asset) + 1} of ${images.length}; match its layout, components and colours\n`;
+        }
+
+        if (documents.includes(asset)) {
+          description += `- Content: see Reference Document ${documents.indexOf(asset) + 1}\n`;
+        }
+
+        if (asset.description) {
+          description += `- Description: ${asset.description}\n`;
+        }
+
+        if (asset.analysis) {
+          if (asset.analysis.detectedComponents?.length) {
+            description += `- Detected Components: ${asset.analysis.detectedComponents.join(', ')}\n`;
+          }
+          if (asset.analysis.layoutPatterns?.length) {
+            description += `- Layout Patterns: ${asset.analysis.layoutPatterns.join(', ')}\n`;
+          }
+          if (asset.analysis.colorPalette?.length) {
+            description += `- Color Palette: ${asset.analysis.colorPalette.join(', ')}\n`;
+          }
+          if (asset.analysis.insights) {
+            description += `- Insights: ${asset.analysis.insights}\n`;
+          }
+        }
+
+        return description;
+      })
+      .join('\n');
   }
 
   /**
@@ -0,0 +1,88 @@
+/**
+ * Codebase Context
+ *
+ * Chooses what the architect reads of an imported codebase. Every path is
+ * listed; file content is added in order of how much it says about the
+ * application (manifest and docs, then configuration, routes, components
+ * and the rest) until the token budget is spent.
+ */
+
+import { estimateTokens, truncateToTokens } from './documents';
+import type { CodebaseContext, CodebaseFile } from './types';
+
+/**
+ * Files whose content is worth reading; lockfiles, assets and build
+ * output are listed by path only
+ */
+const TEXT_FILE = /\.(tsx?|jsx?|mjs|cjs|vue|svelte|astro|json|md|mdx|css|scss|html|prisma|graphql|gql|sql|ya?ml|toml)$/i;
+
+const SKIPPED_FILE =
+  /(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lockb)$|\.min\.(js|css)$|\.map$|\.d\.ts$/;
+
+const TEST_FILE = /(^|\/)(__tests__|__mocks__|e2e|cypress)\/|\.(test|spec|stories)\.[jt]sx?$/;
+
+/**
+ * Path patterns in reading order; a file takes the first rank it matches
+ */
+const RANKS: RegExp[] = [
+  /^package\.json$/,
+  /^readme(\.md)?$/i,
+  /^(next|vite|nuxt|svelte|astro|tailwind|postcss)\.config\.|^tsconfig\.json$|^\.env\.example$/,
+  /(^|\/)schema\.prisma$|(^|\/)(models?|schema|db|types)\//,
+  /(^|\/)app\/(.*\/)?(layout|page|route)\.[jt]sx?$|(^|\/)pages\//,
+  /(^|\/)(routes|api|server|controllers?)\//,
+  /(^|\/)components?\//,
+  /(^|\/)(lib|utils|hooks|services|store)\//,
+];
+
+/**
+ * Longest single file given to the architect, in tokens
+ */
+const MAX_FILE_TOKENS = 3_000;
+
+/**
+ * Select the files of a codebase to show within `budget` tokens
+ *
+ * @param filePaths - Every file of the codebase, relative to its root
+ * @param readFile - Reads one file; undefined for binary or unreadable files
+ * @param budget - Tokens of file content the architect is given
+ */
+export async function collectCodebaseContext(
+  filePaths: string[],
+  readFile: (filePath: string) => Promise<string | undefined>,
+  budget: number,
+): Promise<CodebaseContext> {
+  const candidates = filePaths
+    .filter((filePath) => TEXT_FILE.test(filePath) && !SKIPPED_FILE.test(filePath) && !TEST_FILE.test(filePath))
+    .map((filePath) => ({ filePath, rank: rankOf(filePath) }))
+    .sort((a, b) => a.rank - b.rank || depth(a.filePath) - depth(b.filePath) || a.filePath.localeCompare(b.filePath));
+
+  const files: CodebaseFile[] = [];
+  let remaining = budget;
+
+  for (const { filePath } of candidates) {
+    if (remaining < 100) {
+      break;
+    }
+
+    const content = await readFile(filePath);
+    if (content === undefined || !content.trim()) {
+      continue;
+    }
+
+    const shown = truncateToTokens(content, Math.min(MAX_FILE_TOKENS, remaining));
+    files.push({ path: filePath, content: shown, truncated: shown !== content });
+    remaining -= estimateTokens(shown);
+  }
+
+  return { filePaths, files };
+}
+
+function rankOf(filePath: string): number {
+  const rank = RANKS.findIndex((pattern) => pattern.test(filePath));
+  return rank === -1 ? RANKS.length : rank;
+}
+
+function depth(filePath: string): number {
+  return filePath.split('/').length;
+}
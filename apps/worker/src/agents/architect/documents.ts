@@ -0,0 +1,94 @@
+/**
+ * Document Context
+ *
+ * Token estimates, budgeting and chunking for the document text given to
+ * the architect. Estimates use four characters per token, which is close
+ * enough for English prose and code to plan a context budget.
+ */
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Rough token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a budget between documents of the given sizes
+ *
+ * Documents smaller than an equal share keep their full size; what they
+ * leave over is shared by the larger ones.
+ *
+ * @param sizes - Token estimate of each document
+ * @returns Tokens allotted to each document, in the same order
+ */
+export function allocateBudget(sizes: number[], budget: number): number[] {
+  const allotted = new Array<number>(sizes.length).fill(0);
+  const bySize = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size);
+
+  let remaining = budget;
+  bySize.forEach(({ size, index }, position) => {
+    const share = Math.floor(remaining / (bySize.length - position));
+    allotted[index] = Math.min(size, share);
+    remaining -= allotted[index];
+  });
+
+  return allotted;
+}
+
+/**
+ * Split text into chunks of at most `maxTokens`
+ *
+ * Chunks end at paragraph breaks where possible, then at line breaks, and
+ * only split inside a line when a single line is over the limit.
+ */
+export function chunkText(text: string, maxTokens: number): string[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = (piece: string, separator: string) => {
+    if (current && current.length + separator.length + piece.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? `${current}${separator}${piece}` : piece;
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    if (paragraph.length <= maxChars) {
+      push(paragraph, '\n\n');
+      continue;
+    }
+
+    for (const line of paragraph.split('\n')) {
+      for (let start = 0; start < line.length || start === 0; start += maxChars) {
+        push(line.slice(start, start + maxChars), '\n');
+      }
+    }
+  }
+
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+/**
+ * Cut text to at most `maxTokens`, at a line or word boundary when possible
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  if (text.length <= maxChars) {
+    return text;
+  }
+
+  const marker = '\n[... truncated]';
+  const cut = text.slice(0, Math.max(0, maxChars - marker.length));
+  const boundary = Math.max(cut.lastIndexOf('\n'), cut.lastIndexOf(' '));
+
+  return `${boundary > cut.length / 2 ? cut.slice(0, boundary) : cut}${marker}`;
+}
@@ -38,10 +38,19 @@ export type {
   GlobalStylesSpec,
   // Main Specification
   TechnicalSpecification,
+  // Incremental Edits
+  FileChangeSpec,
+  SpecificationDelta,
   // Assets
+  AssetAnalysis,
   UploadedAsset,
+  ReferenceDocument,
+  // Imported Codebases
+  CodebaseFile,
+  CodebaseContext,
   // Response Types
   ArchitectAgentResponse,
+  ArchitectEditResponse,
   // Validation
   ValidationResult,
   ValidationError,
@@ -57,10 +66,48 @@ export type {
 
 // Export prompts
 export {
+  ARCHITECT_OUTPUT_SCHEMA,
   ARCHITECT_SYSTEM_PROMPT,
   ARCHITECT_USER_PROMPT_TEMPLATE,
   ARCHITECT_RETRY_PROMPT,
 } from './prompts/system.prompt';
+export {
+  ARCHITECT_EDIT_SYSTEM_PROMPT,
+  ARCHITECT_EDIT_USER_PROMPT_TEMPLATE,
+} from './prompts/edit.prompt';
+export {
+  ARCHITECT_REVERSE_ENGINEER_SYSTEM_PROMPT,
+  ARCHITECT_REVERSE_ENGINEER_USER_PROMPT_TEMPLATE,
+} from './prompts/reverse-engineer.prompt';
+export {
+  ARCHITECT_ASSET_ANALYSIS_SYSTEM_PROMPT,
+  ARCHITECT_ASSET_ANALYSIS_USER_PROMPT_TEMPLATE,
+} from './prompts/asset-analysis.prompt';
+export {
+  ARCHITECT_DOCUMENT_SUMMARY_SYSTEM_PROMPT,
+  ARCHITECT_DOCUMENT_SUMMARY_USER_PROMPT_TEMPLATE,
+} from './prompts/document-summary.prompt';
+
+// Export schemas
+export {
+  technicalSpecificationSchema,
+  componentSpecSchema,
+  pageSpecSchema,
+  apiRouteSpecSchema,
+  dependencySpecSchema,
+  envVarSpecSchema,
+  createSpecificationDeltaSchema,
+  assetAnalysisSchema,
+} from './schema';
+
+// Export document context helpers
+export { estimateTokens, allocateBudget, chunkText, truncateToTokens } from './documents';
+
+// Export imported codebase helpers
+export { collectCodebaseContext } from './codebase';
+
+// Export delta helpers
+export { applySpecificationDelta } from './spec-delta';
 
 // Export agent class and factory
 export {
@@ -0,0 +1,401 @@
+/**
+ * Zod Schemas for Architect Agent Output
+ *
+ * Passed to the provider's structured-output (JSON) mode and used to
+ * validate what comes back. Each schema's output type is checked against
+ * the matching interface in ./types, so the two cannot drift apart.
+ *
+ * Backward compatibility fields (framework, styling, structure,
+ * designSystem) are not part of the schema and are never requested.
+ */
+
+import { z } from 'zod';
+import type {
+  ApiRouteSpec,
+  AssetAnalysis,
+  ComponentSpec,
+  DependencySpec,
+  DirectoryNode,
+  EnvVarSpec,
+  FileNode,
+  PageSpec,
+  SpecificationDelta,
+  TechnicalSpecification,
+} from './types';
+
+// ============================================
+// Project Structure
+// ============================================
+
+const fileNodeSchema: z.ZodType<FileNode> = z.object({
+  name: z.string().min(1),
+  type: z.literal('file'),
+  description: z.string().optional(),
+  category: z
+    .enum(['component', 'page', 'api', 'config', 'style', 'util', 'type', 'test', 'other'])
+    .optional(),
+});
+
+const directoryNodeSchema: z.ZodType<DirectoryNode> = z.lazy(() =>
+  z.object({
+    name: z.string().min(1),
+    type: z.literal('directory'),
+    children: z.array(z.union([directoryNodeSchema, fileNodeSchema])),
+    description: z.string().optional(),
+  }),
+);
+
+// ============================================
+// Components
+// ============================================
+
+const propSpecSchema = z.object({
+  name: z.string().min(1),
+  type: z.string(),
+  required: z.boolean(),
+  defaultValue: z.string().optional(),
+  description: z.string(),
+});
+
+const stateSpecSchema = z.object({
+  name: z.string().min(1),
+  type: z.string(),
+  initialValue: z.string(),
+  description: z.string(),
+});
+
+const eventHandlerSpecSchema = z.object({
+  name: z.string().min(1),
+  eventType: z.string(),
+  description: z.string(),
+  async: z.boolean(),
+});
+
+export const componentSpecSchema: z.ZodType<ComponentSpec, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().min(1),
+  path: z.string().min(1),
+  description: z.string(),
+  type: z.enum(['client', 'server', 'shared']),
+  isClientComponent: z.boolean().optional(),
+  props: z.array(propSpecSchema).default([]),
+  state: z.array(stateSpecSchema).optional(),
+  eventHandlers: z.array(eventHandlerSpecSchema).optional(),
+  dependencies: z.array(z.string()).default([]),
+  packageDependencies: z.array(z.string()).optional(),
+  styles: z
+    .object({
+      tailwindClasses: z.array(z.string()).optional(),
+      cssModulePath: z.string().optional(),
+    })
+    .optional(),
+  accessibility: z
+    .object({
+      ariaAttributes: z.array(z.string()).optional(),
+      keyboardNavigation: z.boolean().optional(),
+      screenReaderNotes: z.string().optional(),
+    })
+    .optional(),
+  testCases: z.array(z.string()).optional(),
+});
+
+// ============================================
+// Pages
+// ============================================
+
+const dataFetchingMethodSchema = z.enum([
+  'server-component',
+  'client-fetch',
+  'server-action',
+  'static',
+  'isr',
+]);
+
+export const pageSpecSchema: z.ZodType<PageSpec, z.ZodTypeDef, unknown> = z.object({
+  name: z.string().optional(),
+  route: z.string().min(1),
+  filePath: z.string().min(1),
+  description: z.string(),
+  isServerComponent: z.boolean().optional(),
+  components: z.array(z.string()).default([]),
+  dataFetching: z
+    .object({
+      method: dataFetchingMethodSchema,
+      type: dataFetchingMethodSchema.optional(),
+      source: z.string(),
+      caching: z
+        .object({
+          revalidate: z.number().optional(),
+          tags: z.array(z.string()).optional(),
+        })
+        .optional(),
+      errorHandling: z.enum(['error-boundary', 'fallback-ui', 'redirect', 'not-found']),
+      loadingState: z
+        .object({
+          useSuspense: z.boolean(),
+          skeletonComponent: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+  metadata: z.object({
+    title: z.string().min(1),
+    description: z.string(),
+    openGraph: z
+      .object({
+        title: z.string().optional(),
+        description: z.string().optional(),
+        images: z.array(z.string()).optional(),
+      })
+      .optional(),
+    additionalMeta: z.record(z.string()).optional(),
+  }),
+  layout: z.string().optional(),
+  params: z
+    .array(z.object({ name: z.string(), type: z.string(), description: z.string() }))
+    .optional(),
+  searchParams: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.string(),
+        required: z.boolean(),
+        description: z.string(),
+      }),
+    )
+    .optional(),
+  middleware: z.array(z.string()).optional(),
+  requiresAuth: z.boolean().optional(),
+  requiredRoles: z.array(z.string()).optional(),
+});
+
+// ============================================
+// API Routes
+// ============================================
+
+const responseBodySchema = z.object({
+  type: z.string(),
+  properties: z.record(z.object({ type: z.string(), description: z.string() })).optional(),
+});
+
+const paramSchema = z.object({
+  name: z.string(),
+  type: z.string(),
+  required: z.boolean(),
+  description: z.string(),
+});
+
+export const apiRouteSpecSchema: z.ZodType<ApiRouteSpec, z.ZodTypeDef, unknown> = z.object({
+  path: z.string().min(1),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']),
+  description: z.string(),
+  requestBody: z
+    .object({
+      contentType: z.enum(['application/json', 'multipart/form-data', 'text/plain']),
+      schema: z.object({
+        fields: z.array(paramSchema.extend({ validation: z.string().optional() })),
+      }),
+    })
+    .optional(),
+  responseBody: responseBodySchema.optional(),
+  responses: z
+    .array(
+      z.object({
+        statusCode: z.number().int(),
+        description: z.string(),
+        schema: responseBodySchema.optional(),
+      }),
+    )
+    .min(1),
+  queryParams: z.array(paramSchema).optional(),
+  pathParams: z
+    .array(z.object({ name: z.string(), type: z.string(), description: z.string() }))
+    .optional(),
+  requiresAuth: z.boolean(),
+  authentication: z.boolean().optional(),
+  requiredPermissions: z.array(z.string()).optional(),
+  rateLimit: z.object({ requests: z.number(), windowMs: z.number() }).optional(),
+  middleware: z.array(z.string()).optional(),
+});
+
+// ============================================
+// Dependencies, Data Models and Environment
+// ============================================
+
+export const dependencySpecSchema: z.ZodType<DependencySpec> = z.object({
+  name: z.string().min(1),
+  version: z.string().min(1),
+  devDependency: z.boolean(),
+  reason: z.string(),
+});
+
+const dataModelSpecSchema = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  fields: z.array(
+    z.object({
+      name: z.string().min(1),
+      type: z.string(),
+      required: z.boolean(),
+      unique: z.boolean().optional(),
+      defaultValue: z.string().optional(),
+      description: z.string(),
+      validation: z
+        .object({
+          min: z.number().optional(),
+          max: z.number().optional(),
+          pattern: z.string().optional(),
+          custom: z.string().optional(),
+        })
+        .optional(),
+    }),
+  ),
+  relations: z
+    .array(
+      z.object({
+        name: z.string(),
+        type: z.enum(['one-to-one', 'one-to-many', 'many-to-many']),
+        relatedModel: z.string(),
+        foreignKey: z.string().optional(),
+        description: z.string(),
+      }),
+    )
+    .optional(),
+  indexes: z
+    .array(z.object({ fields: z.array(z.string()), unique: z.boolean().optional() }))
+    .optional(),
+  timestamps: z.object({ createdAt: z.boolean(), updatedAt: z.boolean() }).optional(),
+});
+
+export const envVarSpecSchema: z.ZodType<EnvVarSpec> = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  required: z.boolean(),
+  example: z.string(),
+  category: z
+    .enum(['database', 'auth', 'api', 'feature-flag', 'third-party', 'other'])
+    .optional(),
+  sensitive: z.boolean().optional(),
+});
+
+const globalStylesSpecSchema = z.object({
+  cssReset: z.boolean().optional(),
+  theme: z
+    .object({
+      colors: z
+        .array(
+          z.object({
+            name: z.string(),
+            value: z.string(),
+            cssVariable: z.string().optional(),
+          }),
+        )
+        .optional(),
+      typography: z
+        .object({
+          fontFamily: z.array(z.string()),
+          fontSizes: z.record(z.string()),
+        })
+        .optional(),
+      spacing: z.record(z.string()).optional(),
+      borderRadius: z.record(z.string()).optional(),
+      shadows: z.record(z.string()).optional(),
+    })
+    .optional(),
+  darkMode: z.object({ enabled: z.boolean(), strategy: z.enum(['class', 'media']) }).optional(),
+  breakpoints: z.record(z.string()).optional(),
+});
+
+// ============================================
+// Technical Specification
+// ============================================
+
+export const technicalSpecificationSchema: z.ZodType<
+  TechnicalSpecification,
+  z.ZodTypeDef,
+  unknown
+> = z.object({
+  projectName: z.string().min(1),
+  description: z.string().min(1),
+  projectDescription: z.string().optional(),
+  technicalSummary: z.string(),
+  projectStructure: z.object({ root: directoryNodeSchema }),
+  components: z.array(componentSpecSchema),
+  pages: z.array(pageSpecSchema).min(1, 'At least a home page must be defined'),
+  apiRoutes: z.array(apiRouteSpecSchema),
+  dependencies: z.array(dependencySpecSchema),
+  dataModels: z.array(dataModelSpecSchema),
+  envVariables: z.array(envVarSpecSchema),
+  globalStyles: globalStylesSpecSchema.optional(),
+  config: z
+    .object({
+      nextConfig: z.record(z.unknown()).optional(),
+      tsConfig: z.record(z.unknown()).optional(),
+      tailwindConfig: z.record(z.unknown()).optional(),
+    })
+    .optional(),
+  implementationNotes: z.array(z.string()).optional(),
+  challenges: z.array(z.object({ challenge: z.string(), solution: z.string() })).optional(),
+});
+
+// ============================================
+// Incremental Edits
+// ============================================
+
+/**
+ * Schema for an edit plan against a project containing `filePaths`
+ *
+ * Files that are modified or deleted must already exist.
+ */
+export function createSpecificationDeltaSchema(
+  filePaths: string[],
+): z.ZodType<SpecificationDelta, z.ZodTypeDef, unknown> {
+  const existing = new Set(filePaths);
+
+  return z.object({
+    summary: z.string().min(1),
+    files: z
+      .array(
+        z.object({
+          path: z.string().min(1),
+          action: z.enum(['create', 'modify', 'delete']),
+          description: z.string(),
+        }),
+      )
+      .min(1)
+      .superRefine((files, ctx) => {
+        files.forEach((file, index) => {
+          if (file.action !== 'create' && !existing.has(file.path)) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, 'path'],
+              message: `Cannot ${file.action} ${file.path}: no such file. Use "create" or pick an existing path`,
+            });
+          }
+        });
+      }),
+    upsertComponents: z.array(componentSpecSchema).optional(),
+    removeComponents: z.array(z.string()).optional(),
+    upsertPages: z.array(pageSpecSchema).optional(),
+    removePages: z.array(z.string()).optional(),
+    upsertApiRoutes: z.array(apiRouteSpecSchema).optional(),
+    removeApiRoutes: z.array(z.string()).optional(),
+    addDependencies: z.array(dependencySpecSchema).optional(),
+    addEnvVariables: z.array(envVarSpecSchema).optional(),
+    implementationNotes: z.array(z.string()).optional(),
+  });
+}
+
+// ============================================
+// Asset Analysis
+// ============================================
+
+/**
+ * Schema for the analysis of one uploaded image
+ */
+export const assetAnalysisSchema: z.ZodType<AssetAnalysis & { description: string }> = z.object({
+  description: z.string(),
+  detectedComponents: z.array(z.string()),
+  layoutPatterns: z.array(z.string()),
+  colorPalette: z.array(z.string()),
+  insights: z.string(),
+});
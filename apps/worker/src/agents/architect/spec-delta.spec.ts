@@ -0,0 +1,141 @@
+import { applySpecificationDelta } from './spec-delta';
+import type {
+  ApiRouteSpec,
+  ComponentSpec,
+  DependencySpec,
+  PageSpec,
+  SpecificationDelta,
+  TechnicalSpecification,
+} from './types';
+
+function component(name: string, description = name): ComponentSpec {
+  return {
+    name,
+    path: `src/components/${name}.tsx`,
+    description,
+    type: 'client',
+    props: [],
+    dependencies: [],
+  };
+}
+
+function page(route: string, description = route): PageSpec {
+  return {
+    route,
+    filePath: `src/app${route}/page.tsx`,
+    description,
+    components: [],
+    metadata: { title: route, description: route },
+  };
+}
+
+function apiRoute(method: ApiRouteSpec['method'], path: string): ApiRouteSpec {
+  return { method, path, description: `${method} ${path}`, responses: [], requiresAuth: false };
+}
+
+function dependency(name: string, devDependency = false): DependencySpec {
+  return { name, version: '^1.0.0', devDependency, reason: name };
+}
+
+function specification(overrides: Partial<TechnicalSpecification> = {}): TechnicalSpecification {
+  return {
+    projectName: 'todo-app',
+    description: 'A todo app',
+    technicalSummary: 'Next.js app router',
+    components: [component('TodoList'), component('TodoItem')],
+    pages: [page('/'), page('/about')],
+    apiRoutes: [apiRoute('GET', '/api/todos'), apiRoute('POST', '/api/todos')],
+    dependencies: [dependency('zod')],
+    dataModels: [],
+    envVariables: [{ name: 'DATABASE_URL', description: 'Database', required: true, example: '' }],
+    ...overrides,
+  } as TechnicalSpecification;
+}
+
+function delta(overrides: Partial<SpecificationDelta>): SpecificationDelta {
+  return { summary: 'Change', files: [], ...overrides };
+}
+
+describe('applySpecificationDelta', () => {
+  it('replaces entries with a matching key and appends new ones', () => {
+    const updated = applySpecificationDelta(
+      specification(),
+      delta({
+        upsertComponents: [component('TodoItem', 'With a checkbox'), component('TodoFilter')],
+        upsertPages: [page('/settings')],
+      }),
+    );
+
+    expect(updated.components.map((c) => [c.name, c.description])).toEqual([
+      ['TodoList', 'TodoList'],
+      ['TodoItem', 'With a checkbox'],
+      ['TodoFilter', 'TodoFilter'],
+    ]);
+    expect(updated.pages.map((p) => p.route)).toEqual(['/', '/about', '/settings']);
+  });
+
+  it('removes components, pages and API routes', () => {
+    const updated = applySpecificationDelta(
+      specification(),
+      delta({ removeComponents: ['TodoItem'], removePages: ['/about'], removeApiRoutes: ['/api/todos'] }),
+    );
+
+    expect(updated.components.map((c) => c.name)).toEqual(['TodoList']);
+    expect(updated.pages.map((p) => p.route)).toEqual(['/']);
+    expect(updated.apiRoutes).toEqual([]);
+  });
+
+  it('keys API routes by method and path', () => {
+    const updated = applySpecificationDelta(
+      specification(),
+      delta({ upsertApiRoutes: [apiRoute('DELETE', '/api/todos'), apiRoute('GET', '/api/todos')] }),
+    );
+
+    expect(updated.apiRoutes.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'GET /api/todos',
+      'POST /api/todos',
+      'DELETE /api/todos',
+    ]);
+  });
+
+  it('adds dependencies and environment variables', () => {
+    const updated = applySpecificationDelta(
+      specification(),
+      delta({
+        addDependencies: [dependency('date-fns'), { ...dependency('zod'), version: '^3.0.0' }],
+        addEnvVariables: [{ name: 'API_KEY', description: 'Key', required: false, example: 'abc' }],
+      }),
+    );
+
+    expect(updated.dependencies).toEqual([{ ...dependency('zod'), version: '^3.0.0' }, dependency('date-fns')]);
+    expect(updated.envVariables.map((v) => v.name)).toEqual(['DATABASE_URL', 'API_KEY']);
+  });
+
+  it('adds dependencies to legacy name-to-version maps', () => {
+    const updated = applySpecificationDelta(
+      specification({ dependencies: { production: { zod: '^3.0.0' }, development: {} } }),
+      delta({ addDependencies: [dependency('date-fns'), dependency('vitest', true)] }),
+    );
+
+    expect(updated.dependencies).toEqual({
+      production: { zod: '^3.0.0', 'date-fns': '^1.0.0' },
+      development: { vitest: '^1.0.0' },
+    });
+  });
+
+  it('leaves the input specification untouched', () => {
+    const spec = specification();
+    const before = JSON.parse(JSON.stringify(spec));
+
+    applySpecificationDelta(
+      spec,
+      delta({
+        upsertComponents: [component('TodoItem', 'Changed')],
+        removePages: ['/'],
+        addDependencies: [dependency('date-fns')],
+      }),
+    );
+
+    expect(spec).toEqual(before);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Specification Delta Helpers
+ *
+ * Applies the change planned by the Architect Agent for a follow-up
+ * prompt to the stored Technical Specification.
+ */
+
+import type {
+  DependencySpec,
+  SpecificationDelta,
+  TechnicalSpecification,
+} from './types';
+
+/**
+ * Replace entries with a matching key, append the rest
+ */
+function upsert<T>(items: T[], updates: T[] | undefined, key: (item: T) => string): T[] {
+  if (!updates || updates.length === 0) {
+    return items;
+  }
+
+  const result = [...items];
+  for (const update of updates) {
+    const index = result.findIndex((item) => key(item) === key(update));
+    if (index === -1) {
+      result.push(update);
+    } else {
+      result[index] = update;
+    }
+  }
+  return result;
+}
+
+function addDependencies(
+  dependencies: TechnicalSpecification['dependencies'],
+  additions: DependencySpec[] | undefined,
+): TechnicalSpecification['dependencies'] {
+  if (!additions || additions.length === 0) {
+    return dependencies;
+  }
+
+  if (Array.isArray(dependencies)) {
+    return upsert(dependencies, additions, (d) => d.name);
+  }
+
+  // Legacy format: name -> version maps
+  const production = { ...dependencies.production };
+  const development = { ...dependencies.development };
+  for (const dependency of additions) {
+    (dependency.devDependency ? development : production)[dependency.name] = dependency.version;
+  }
+  return { production, development };
+}
+
+/**
+ * Apply a specification delta, returning the updated specification
+ *
+ * The input specification is not modified. The delta's implementation
+ * notes only apply to the edit itself and are not carried over.
+ */
+export function applySpecificationDelta(
+  spec: TechnicalSpecification,
+  delta: SpecificationDelta,
+): TechnicalSpecification {
+  const removedComponents = new Set(delta.removeComponents ?? []);
+  const removedPages = new Set(delta.removePages ?? []);
+  const removedApiRoutes = new Set(delta.removeApiRoutes ?? []);
+
+  return {
+    ...spec,
+    components: upsert(
+      spec.components.filter((c) => !removedComponents.has(c.name)),
+      delta.upsertComponents,
+      (c) => c.name,
+    ),
+    pages: upsert(
+      spec.pages.filter((p) => !removedPages.has(p.route)),
+      delta.upsertPages,
+      (p) => p.route,
+    ),
+    apiRoutes: upsert(
+      spec.apiRoutes.filter((r) => !removedApiRoutes.has(r.path)),
+      delta.upsertApiRoutes,
+      (r) => `${r.method} ${r.path}`,
+    ),
+    dependencies: addDependencies(spec.dependencies, delta.addDependencies),
+    envVariables: upsert(spec.envVariables, delta.addEnvVariables, (v) => v.name),
+  };
+}
@@ -633,10 +633,72 @@ export interface TechnicalSpecification {
   designSystem?: DesignSystemConfig;
 }
 
+// ============================================
+// Incremental Edit Types
+// ============================================
+
+/**
+ * A file the Coder Agent has to touch to apply an edit
+ */
+export interface FileChangeSpec {
+  /** File path relative to the project root */
+  path: string;
+  /** What happens to the file */
+  action: 'create' | 'modify' | 'delete';
+  /** What needs to change in this file */
+  description: string;
+}
+
+/**
+ * Change to an existing Technical Specification for a follow-up prompt
+ *
+ * `upsert*` entries replace the entry with the same name (components),
+ * route (pages) or method and path (API routes), or are appended.
+ * `remove*` entries list the names/routes/paths to drop.
+ */
+export interface SpecificationDelta {
+  /** One-line summary of the change */
+  summary: string;
+  /** Files to create, modify or delete */
+  files: FileChangeSpec[];
+  /** Components to add or replace */
+  upsertComponents?: ComponentSpec[];
+  /** Names of components to remove */
+  removeComponents?: string[];
+  /** Pages to add or replace */
+  upsertPages?: PageSpec[];
+  /** Routes of pages to remove */
+  removePages?: string[];
+  /** API routes to add or replace */
+  upsertApiRoutes?: ApiRouteSpec[];
+  /** Paths of API routes to remove */
+  removeApiRoutes?: string[];
+  /** Dependencies to add */
+  addDependencies?: DependencySpec[];
+  /** Environment variables to add */
+  addEnvVariables?: EnvVarSpec[];
+  /** Extra notes for the Coder Agent */
+  implementationNotes?: string[];
+}
+
 // ============================================
 // Uploaded Asset Types
 // ============================================
 
+/**
+ * What a vision model saw in an uploaded image
+ */
+export interface AssetAnalysis {
+  /** Detected UI components */
+  detectedComponents?: string[];
+  /** Detected layout patterns */
+  layoutPatterns?: string[];
+  /** Color palette extracted */
+  colorPalette?: string[];
+  /** Additional insights */
+  insights?: string;
+}
+
 /**
  * Uploaded asset (image, screenshot, etc.)
  */
@@ -652,16 +714,45 @@ export interface UploadedAsset {
   /** Asset description (from user or AI analysis) */
   description?: string;
   /** Analysis result if AI-analyzed */
-  analysis?: {
-    /** Detected UI components */
-    detectedComponents?: string[];
-    /** Detected layout patterns */
-    layoutPatterns?: string[];
-    /** Color palette extracted */
-    colorPalette?: string[];
-    /** Additional insights */
-    insights?: string;
-  };
+  analysis?: AssetAnalysis;
+  /** Image content, when it could be fetched; sent to vision-capable models */
+  data?: Uint8Array;
+  /** Text extracted from a document asset (PDF, markdown, JSON, ...) */
+  text?: string;
+  /** Whether `text` was summarised to fit the context budget */
+  textSummarized?: boolean;
+}
+
+/**
+ * Document text given to the architect as a labelled context section
+ */
+export interface ReferenceDocument {
+  /** Filename the document was uploaded under */
+  filename: string;
+  /** Extracted text, or its summary */
+  content: string;
+  /** Whether `content` is a summary of the document */
+  summarized: boolean;
+}
+
+/**
+ * A file of an imported codebase as shown to the architect
+ */
+export interface CodebaseFile {
+  /** Path relative to the project root */
+  path: string;
+  content: string;
+  /** Whether `content` was cut to fit the context budget */
+  truncated: boolean;
+}
+
+/**
+ * What the architect sees of an imported codebase: every path, and the
+ * content of the files that fit the context budget
+ */
+export interface CodebaseContext {
+  filePaths: string[];
+  files: CodebaseFile[];
 }
 
 // ============================================
@@ -699,6 +790,16 @@ export interface ArchitectAgentResponse {
   };
 }
 
+/**
+ * Architect Agent response for an incremental edit
+ *
+ * `specification` holds the stored specification with the delta applied.
+ */
+export interface ArchitectEditResponse extends ArchitectAgentResponse {
+  /** The planned change */
+  delta?: SpecificationDelta;
+}
+
 // ============================================
 // Validation Types
 // ============================================
@@ -0,0 +1,121 @@
+import { Logger } from '@nestjs/common';
+import { readFileSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { TechnicalSpecification } from '../../types';
+import { SandboxFileWriter } from '../../utils';
+import { CoderAgent } from './coder.agent';
+
+type GeneratedFiles = { files: Array<{ path: string; content: string }> };
+
+/**
+ * Stands in for the model calls: streams each attempt's files as
+ * `streamModel` does, every file but the last before the attempt ends,
+ * then accepts the last attempt or fails like `callModel` after its retries
+ */
+function scriptAttempts(attempts: GeneratedFiles[], acceptLast = true): void {
+  const prototype = CoderAgent.prototype as unknown as {
+    callModel: (...args: unknown[]) => Promise<unknown>;
+  };
+
+  jest.spyOn(prototype, 'callModel').mockImplementation(async (...args) => {
+    const accept = args[6] as (object: GeneratedFiles) => unknown;
+    const onPartial = args[7] as (partial: GeneratedFiles) => Promise<void>;
+
+    for (const attempt of attempts) {
+      await onPartial(attempt);
+    }
+    if (!acceptLast) {
+      throw new Error(`AI call failed after ${attempts.length} attempts: invalid output`);
+    }
+    return accept(attempts[attempts.length - 1]);
+  });
+}
+
+/**
+ * The specification the scripted architect in `fixtures/ai` responds with
+ */
+function loadSpecification(): TechnicalSpecification {
+  const scripted = JSON.parse(
+    readFileSync(path.join(__dirname, '../../../fixtures/ai/scripted.json'), 'utf-8'),
+  ) as Array<{ text: string }>;
+  return JSON.parse(scripted[0].text) as TechnicalSpecification;
+}
+
+describe('CoderAgent', () => {
+  const spec = loadSpecification();
+  let basePath: string;
+  let fileWriter: SandboxFileWriter;
+  let coder: CoderAgent;
+
+  const read = (filePath: string) =>
+    fs.readFile(path.join(basePath, 'project', filePath), 'utf-8').catch(() => null);
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'nexusgen-coder-'));
+    fileWriter = new SandboxFileWriter({ basePath });
+    coder = new CoderAgent(fileWriter, { modelConfig: { provider: 'mock', model: 'offline' } });
+
+    await fileWriter.initializeProject('project');
+    await fileWriter.writeFile('project', 'src/app/page.tsx', 'original page');
+    await fileWriter.writeFile('project', 'src/app/layout.tsx', 'original layout');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('puts back the files a rejected attempt streamed that the accepted one did not', async () => {
+    scriptAttempts([
+      {
+        files: [
+          { path: 'src/app/page.tsx', content: 'rejected page' },
+          { path: 'src/app/layout.tsx', content: 'rejected layout' },
+          { path: 'src/lib/rejected.ts', content: 'rejected' },
+          { path: 'package.json', content: '{' },
+        ],
+      },
+      {
+        files: [
+          { path: 'src/app/layout.tsx', content: 'accepted layout' },
+          { path: 'package.json', content: '{}' },
+        ],
+      },
+    ]);
+
+    const output = await coder.generate(spec, 'project');
+
+    expect(output.files.map((file) => file.path)).toEqual(['src/app/layout.tsx', 'package.json']);
+    expect(await read('src/app/page.tsx')).toBe('original page');
+    expect(await read('src/app/layout.tsx')).toBe('accepted layout');
+    expect(await read('src/lib/rejected.ts')).toBeNull();
+    expect(await read('package.json')).toBe('{}');
+  });
+
+  it('puts back every streamed file when all attempts fail', async () => {
+    scriptAttempts(
+      [
+        {
+          files: [
+            { path: 'src/app/page.tsx', content: 'rejected page' },
+            { path: 'src/lib/rejected.ts', content: 'rejected' },
+            { path: 'package.json', content: '{' },
+          ],
+        },
+      ],
+      false,
+    );
+
+    await expect(coder.generate(spec, 'project')).rejects.toThrow('Code generation failed');
+
+    expect(await read('src/app/page.tsx')).toBe('original page');
+    expect(await read('src/app/layout.tsx')).toBe('original layout');
+    expect(await read('src/lib/rejected.ts')).toBeNull();
+  });
+});
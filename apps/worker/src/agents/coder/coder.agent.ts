@@ -1,27 +1,78 @@
 import { Logger } from '@nestjs/common';
-import { generateText } from 'ai';
-import { getLanguageModel, type AIModelConfig } from '@nexusgen/ai';
+import {
+  generateObject,
+  generateText,
+  streamObject,
+  NoObjectGeneratedError,
+  type DeepPartial,
+  type LanguageModel,
+  type LanguageModelUsage,
+} from 'ai';
+import type { z } from 'zod';
+import type { AIModelConfig } from '@nexusgen/ai';
 import { CODER_SYSTEM_PROMPT } from './prompts/system.prompt';
+import { CODER_FIX_SYSTEM_PROMPT, CODER_FIX_USER_PROMPT_TEMPLATE } from './prompts/fix.prompt';
+import { CODER_EXPLAIN_SYSTEM_PROMPT, CODER_EXPLAIN_USER_PROMPT_TEMPLATE } from './prompts/explain.prompt';
+import { filePatchesSchema, generatedFilesSchema } from './schema';
+import { applyFilePatch } from './patches';
+import { executePlan, planGeneration, type GenerationGroup } from './generation-plan';
+import { formatSignatures } from './signatures';
 import {
   type TechnicalSpecification,
+  type SpecificationDelta,
   type GeneratedFile,
   type CoderOutput,
   type CodeGenerationContext,
   type ChunkConfig,
+  type FixRequest,
+  type ExplainRequest,
+  type FileGeneratedListener,
   DEFAULT_CHUNK_CONFIG,
 } from './types';
+import { describeStructuredOutputError } from '../structured-output';
+import { createFallbackModel } from '../model-fallback';
+import type { UsageAgent, UsageTracker } from '../usage-tracker';
 import { SandboxFileWriter } from '../../utils/file-writer';
 
 export interface CoderAgentOptions {
   modelConfig?: Partial<AIModelConfig>;
-  chunkConfig?: ChunkConfig;
+  /** Models tried in order when a call to the primary model fails */
+  fallbackModels?: AIModelConfig[];
+  /** Agent the model calls are recorded under; `fixer` for healing */
+  agent?: Extract<UsageAgent, 'coder' | 'fixer'>;
+  chunkConfig?: Partial<ChunkConfig>;
   maxRetries?: number;
 }
 
+/**
+ * Where files are written while a generation streams in
+ */
+interface FileStreamTarget {
+  projectId: string;
+  onFileGenerated?: FileGeneratedListener;
+  /** Whether a file may be written; files it refuses are dropped */
+  accept?: (filePath: string) => boolean;
+}
+
+/**
+ * Arguments shared by generateObject and streamObject
+ */
+interface ObjectRequest<T> {
+  model: LanguageModel;
+  schema: z.ZodType<T>;
+  schemaName: string;
+  system: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
 export class CoderAgent {
   private readonly logger = new Logger(CoderAgent.name);
   private readonly fileWriter: SandboxFileWriter;
   private readonly modelConfig: AIModelConfig;
+  private readonly fallbackModels: AIModelConfig[];
+  private readonly agent: Extract<UsageAgent, 'coder' | 'fixer'>;
   private readonly chunkConfig: ChunkConfig;
   private readonly maxRetries: number;
 
@@ -30,8 +81,10 @@ export class CoderAgent {
     options: CoderAgentOptions = {},
   ) {
     this.fileWriter = fileWriter;
-    this.chunkConfig = options.chunkConfig ?? DEFAULT_CHUNK_CONFIG;
+    this.chunkConfig = { ...DEFAULT_CHUNK_CONFIG, ...options.chunkConfig };
     this.maxRetries = options.maxRetries ?? 3;
+    this.fallbackModels = options.fallbackModels ?? [];
+    this.agent = options.agent ?? 'coder';
 
     this.modelConfig = {
       provider: 'openai',
@@ -42,9 +95,24 @@ export class CoderAgent {
     } as AIModelConfig;
   }
 
+  /**
+   * Generate the files for a specification into the project's sandbox
+   *
+   * The model's output is streamed: each file is written to the sandbox
+   * as soon as it is complete, before the rest of the response arrives.
+   *
+   * @param spec - The specification to implement
+   * @param projectId - The project whose sandbox is written
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @param operation - Label for the recorded calls, e.g. `fix` for healing
+   * @param onFileGenerated - Called after each file is written
+   */
   async generate(
     spec: TechnicalSpecification,
     projectId: string,
+    usage?: UsageTracker,
+    operation: string = 'generate',
+    onFileGenerated?: FileGeneratedListener,
   ): Promise<CoderOutput> {
     this.logger.log(`Starting code generation for project: ${projectId}`);
 
@@ -53,19 +121,18 @@ export class CoderAgent {
 
       const context: CodeGenerationContext = { spec };
       const isLargeProject = this.isLargeProject(spec);
+      const target: FileStreamTarget = { projectId, onFileGenerated };
 
       let files: GeneratedFile[];
 
       if (isLargeProject) {
         this.logger.log('Large project detected, using chunked generation');
-        files = await this.generateInChunks(context, projectId);
+        files = await this.generateInChunks(context, target, usage, operation);
       } else {
         this.logger.log('Generating all files in single request');
-        files = await this.generateAllFiles(context);
+        files = await this.generateAllFiles(context, target, usage, operation);
       }
 
-      await this.fileWriter.writeFiles(projectId, files);
-
       const summary = this.generateSummary(files, spec);
 
       this.logger.log(`Code generation completed: ${files.length} files generated`);
@@ -80,60 +147,467 @@ export class CoderAgent {
     }
   }
 
-  private async generateAllFiles(context: CodeGenerationContext): Promise<GeneratedFile[]> {
+  /**
+   * Apply a planned edit to an existing project
+   *
+   * Only the files named in the delta are generated; files marked for
+   * deletion are removed from the sandbox. Everything else is left as is.
+   *
+   * @param spec - The specification with the delta applied
+   * @param delta - The change planned by the Architect Agent
+   * @param currentFiles - Current contents of the files being modified
+   * @param projectId - The project whose sandbox is edited
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @param operation - Label for the recorded calls, e.g. `review-fix`
+   */
+  async edit(
+    spec: TechnicalSpecification,
+    delta: SpecificationDelta,
+    currentFiles: GeneratedFile[],
+    projectId: string,
+    usage?: UsageTracker,
+    operation: string = 'edit',
+  ): Promise<CoderOutput> {
+    this.logger.log(`Applying edit to project ${projectId}: ${delta.summary}`);
+
+    try {
+      const targets = delta.files.filter((f) => f.action !== 'delete');
+      const targetPaths = new Set(targets.map((f) => f.path));
+      let files: GeneratedFile[] = [];
+
+      if (targets.length > 0) {
+        const generated = await this.callAI(
+          this.buildEditPrompt(spec, delta, currentFiles),
+          usage,
+          operation,
+        );
+
+        // Files outside the plan would be unreviewed rewrites
+        files = generated.filter((file) => {
+          if (!targetPaths.has(file.path)) {
+            this.logger.warn(`Ignoring unplanned file from edit: ${file.path}`);
+            return false;
+          }
+          return true;
+        });
+
+        const missing = targets.filter((t) => !files.some((f) => f.path === t.path));
+        if (missing.length > 0) {
+          this.logger.warn(`Edit did not return: ${missing.map((t) => t.path).join(', ')}`);
+        }
+
+        await this.fileWriter.writeFiles(projectId, files);
+      }
+
+      const deletedFiles = delta.files.filter((f) => f.action === 'delete').map((f) => f.path);
+      for (const filePath of deletedFiles) {
+        await this.fileWriter.deleteFile(projectId, filePath);
+      }
+
+      this.logger.log(
+        `Edit completed: ${files.length} files written, ${deletedFiles.length} deleted`,
+      );
+
+      return {
+        files,
+        deletedFiles,
+        summary: `${delta.summary} (${files.length} files written, ${deletedFiles.length} deleted)`,
+      };
+    } catch (error) {
+      this.logger.error(`Code edit failed: ${error}`);
+      throw new Error(`Code edit failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Fix a failed build with targeted edits
+   *
+   * The model sees the error and the files involved and answers with
+   * search/replace patches. Patches that do not apply are sent back as
+   * feedback for the next attempt. Only the given files are changed, and
+   * only the listed missing files are created.
+   *
+   * @param request - The error report and the files involved
+   * @param projectId - The project whose sandbox is patched
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @param operation - Label for the recorded calls
+   * @returns The changed files with their complete new content
+   */
+  async fix(
+    request: FixRequest,
+    projectId: string,
+    usage?: UsageTracker,
+    operation: string = 'fix',
+  ): Promise<CoderOutput> {
+    this.logger.log(`Fixing ${request.files.length} files of project ${projectId}`);
+
+    const current = new Map(request.files.map((file) => [file.path, file.content]));
+    const creatable = new Set(request.missingFiles ?? []);
+
+    try {
+      const { files, summary } = await this.callModel(
+        filePatchesSchema,
+        'FilePatches',
+        CODER_FIX_SYSTEM_PROMPT,
+        CODER_FIX_USER_PROMPT_TEMPLATE(request),
+        usage,
+        operation,
+        (object) => {
+          const patched = new Map<string, string>();
+
+          for (const patch of object.patches) {
+            if (!current.has(patch.path)) {
+              this.logger.warn(`Ignoring patch to a file that was not provided: ${patch.path}`);
+              continue;
+            }
+            const base = patched.get(patch.path) ?? current.get(patch.path)!;
+            patched.set(patch.path, applyFilePatch(base, patch));
+          }
+
+          for (const file of object.newFiles) {
+            const missing =
+              creatable.has(file.path) || creatable.has(file.path.replace(/\.[^/.]+$/, ''));
+            if (!missing || current.has(file.path)) {
+              this.logger.warn(`Ignoring new file that was not missing: ${file.path}`);
+              continue;
+            }
+            patched.set(file.path, file.content);
+          }
+
+          const changed = [...patched]
+            .filter(([filePath, content]) => current.get(filePath) !== content)
+            .map(([filePath, content]) => ({ path: filePath, content }));
+
+          if (changed.length === 0) {
+            throw new Error('The patches changed no file. Edit the files shown to fix the error.');
+          }
+
+          return { files: changed, summary: object.summary };
+        },
+      );
+
+      await this.fileWriter.writeFiles(projectId, files);
+
+      this.logger.log(`Fix completed: ${files.length} files changed`);
+
+      return { files, summary };
+    } catch (error) {
+      this.logger.error(`Code fix failed: ${error}`);
+      throw new Error(`Code fix failed: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Answer a question about one file of a project
+   *
+   * Nothing is written; the answer is markdown for the user to read.
+   *
+   * @param request - The file, its project and the question
+   * @param usage - Optional tracker that receives the usage of the model call
+   * @param operation - Label for the recorded call
+   */
+  async explain(
+    request: ExplainRequest,
+    usage?: UsageTracker,
+    operation: string = 'explain',
+  ): Promise<string> {
+    const model = createFallbackModel(this.modelConfig, this.fallbackModels, this.logger);
+
+    try {
+      const response = await generateText({
+        model,
+        system: CODER_EXPLAIN_SYSTEM_PROMPT,
+        prompt: CODER_EXPLAIN_USER_PROMPT_TEMPLATE(request),
+        temperature: this.modelConfig.temperature,
+        maxTokens: this.modelConfig.maxTokens,
+      });
+
+      usage?.record(
+        this.agent,
+        operation,
+        model.servedBy ?? model.requested,
+        response.usage,
+        true,
+        model.requested,
+      );
+
+      return response.text.trim();
+    } catch (error) {
+      this.logger.error(`Explaining ${request.file.path} failed: ${error}`);
+      throw new Error(`Explaining ${request.file.path} failed: ${(error as Error).message}`);
+    }
+  }
+
+  private async generateAllFiles(
+    context: CodeGenerationContext,
+    target: FileStreamTarget,
+    usage: UsageTracker | undefined,
+    operation: string,
+  ): Promise<GeneratedFile[]> {
     const prompt = this.buildPrompt(context.spec);
 
-    const response = await this.callAI(prompt);
-    return this.parseFilesFromResponse(response);
+    return this.callAI(prompt, usage, operation, target);
   }
 
+  /**
+   * Generate a large project as a plan of file groups
+   *
+   * Groups run concurrently once the groups they import from are done.
+   * A group's prompt carries the signatures of the files it uses rather
+   * than their bodies, and the paths other groups own so nothing is
+   * generated twice. A path the plan does not name belongs to the first
+   * group that writes it.
+   */
   private async generateInChunks(
     context: CodeGenerationContext,
-    projectId: string,
+    target: FileStreamTarget,
+    usage: UsageTracker | undefined,
+    operation: string,
   ): Promise<GeneratedFile[]> {
+    const plan = planGeneration(context.spec, this.chunkConfig);
     const allFiles: GeneratedFile[] = [];
-    const { priorityOrder } = this.chunkConfig;
 
-    for (const chunkType of priorityOrder) {
-      this.logger.log(`Generating ${chunkType} files...`);
+    if (plan.brokenCycles.length > 0) {
+      this.logger.warn(`Ignoring cyclic component dependencies: ${plan.brokenCycles.join(', ')}`);
+    }
+    this.logger.log(
+      `Planned ${plan.groups.length} groups, generating up to ${this.chunkConfig.concurrency} at a time`,
+    );
+
+    const plannedPaths = new Set<string>();
+    const owners = new Map<string, string>();
+    for (const group of plan.groups) {
+      for (const file of group.files) {
+        if (file.path) {
+          plannedPaths.add(file.path);
+          owners.set(file.path, group.id);
+        }
+      }
+    }
 
-      const chunkPrompt = this.buildChunkPrompt(context.spec, chunkType, allFiles);
-      const response = await this.callAI(chunkPrompt);
-      const chunkFiles = this.parseFilesFromResponse(response);
+    // Files each planned item produced, for the groups that depend on it
+    const outputs = new Map<string, GeneratedFile[]>();
 
-      if (chunkFiles.length > 0) {
-        await this.fileWriter.writeFiles(projectId, chunkFiles);
-        allFiles.push(...chunkFiles);
-        context.existingFiles = allFiles;
+    const claim = (groupId: string, filePath: string): boolean => {
+      const owner = owners.get(filePath);
+      if (owner !== undefined && owner !== groupId) {
+        return false;
       }
-    }
+      owners.set(filePath, groupId);
+      return true;
+    };
+
+    await executePlan(plan, this.chunkConfig.concurrency, async (group) => {
+      this.logger.log(`Generating ${group.kind} group ${group.id} (${group.files.length} item(s))...`);
+
+      const uses = new Set(group.files.flatMap((file) => file.dependsOn));
+      const dependencies = new Map(
+        [...uses].flatMap((id) => outputs.get(id) ?? []).map((file) => [file.path, file]),
+      );
+      const elsewhere = [...owners]
+        .filter(([filePath, owner]) => owner !== group.id && !dependencies.has(filePath))
+        .map(([filePath]) => filePath)
+        .sort();
+
+      const prompt = this.buildChunkPrompt(
+        context.spec,
+        group,
+        formatSignatures([...dependencies.values()], this.chunkConfig.maxInterfaceChars),
+        elsewhere,
+      );
+      const files = await this.callAI(prompt, usage, operation, {
+        ...target,
+        accept: (filePath) => claim(group.id, filePath),
+      });
+
+      const owned = files.filter((file) => owners.get(file.path) === group.id);
+      if (owned.length < files.length) {
+        this.logger.warn(
+          `Group ${group.id} returned files owned by other groups: ${files
+            .filter((file) => !owned.includes(file))
+            .map((file) => file.path)
+            .join(', ')}`,
+        );
+      }
+
+      for (const planned of group.files) {
+        outputs.set(
+          planned.id,
+          planned.path
+            ? owned.filter((file) => file.path === planned.path)
+            : owned.filter((file) => !plannedPaths.has(file.path)),
+        );
+      }
+      allFiles.push(...owned);
+    });
 
     return allFiles;
   }
 
-  private async callAI(userPrompt: string): Promise<string> {
+  /**
+   * Generate files, streaming them into the sandbox when a target is given
+   *
+   * A file is complete once the model has started the next one; the last
+   * file is written when the response ends. Files streamed by a rejected
+   * attempt that the accepted attempt did not produce are put back as they
+   * were: deleted when the attempt created them, restored when it
+   * overwrote them. When every attempt fails, all of them are put back.
+   */
+  private async callAI(
+    userPrompt: string,
+    usage: UsageTracker | undefined,
+    operation: string,
+    target?: FileStreamTarget,
+  ): Promise<GeneratedFile[]> {
+    const written = new Map<string, string>();
+    // Content before the first write of each path; null when it did not exist
+    const originals = new Map<string, string | null>();
+
+    const write = async (file: GeneratedFile): Promise<void> => {
+      if (!target || written.get(file.path) === file.content || target.accept?.(file.path) === false) {
+        return;
+      }
+
+      if (!originals.has(file.path)) {
+        originals.set(
+          file.path,
+          (await this.fileWriter.exists(target.projectId, file.path))
+            ? await this.fileWriter.readFile(target.projectId, file.path)
+            : null,
+        );
+      }
+
+      await this.fileWriter.writeFile(target.projectId, file.path, file.content);
+      written.set(file.path, file.content);
+      target.onFileGenerated?.(file);
+    };
+
+    const putBack = async (filePaths: string[]): Promise<void> => {
+      for (const filePath of filePaths) {
+        const original = originals.get(filePath);
+        if (!target || original === undefined) {
+          continue;
+        }
+
+        if (original === null) {
+          await this.fileWriter.deleteFile(target.projectId, filePath);
+        } else {
+          await this.fileWriter.writeFile(target.projectId, filePath, original);
+        }
+      }
+    };
+
+    let files: GeneratedFile[];
+    try {
+      files = await this.callModel(
+        generatedFilesSchema,
+        'GeneratedFiles',
+        CODER_SYSTEM_PROMPT,
+        userPrompt,
+        usage,
+        operation,
+        (object) => {
+          this.logger.log(`Received ${object.files.length} files from AI`);
+          return object.files;
+        },
+        target &&
+          (async (partial) => {
+            for (const file of (partial.files ?? []).slice(0, -1)) {
+              if (file?.path && typeof file.content === 'string') {
+                await write({ path: file.path, content: file.content });
+              }
+            }
+          }),
+      );
+    } catch (error) {
+      await putBack([...originals.keys()]);
+      throw error;
+    }
+
+    if (target) {
+      for (const file of files) {
+        await write(file);
+      }
+
+      const produced = new Set(files.map((file) => file.path));
+      await putBack([...originals.keys()].filter((filePath) => !produced.has(filePath)));
+    }
+
+    return files;
+  }
+
+  /**
+   * Generate an object and hand it to `accept`, retrying with feedback
+   *
+   * An error thrown by `accept` (e.g. a patch that does not apply) is
+   * treated like a schema violation: its message goes back to the model.
+   * With `onPartial` the object is streamed and each partial version is
+   * passed to it as it grows.
+   */
+  private async callModel<T, R>(
+    schema: z.ZodType<T>,
+    schemaName: string,
+    system: string,
+    userPrompt: string,
+    usage: UsageTracker | undefined,
+    operation: string,
+    accept: (object: T) => R,
+    onPartial?: (partial: DeepPartial<T>) => Promise<void>,
+  ): Promise<R> {
     let lastError: Error | null = null;
+    let prompt = userPrompt;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const model = createFallbackModel(this.modelConfig, this.fallbackModels, this.logger);
+
       try {
         this.logger.log(`AI call attempt ${attempt}/${this.maxRetries}`);
 
-        const model = getLanguageModel(this.modelConfig);
-
-        const { text } = await generateText({
+        const request: ObjectRequest<T> = {
           model,
-          system: CODER_SYSTEM_PROMPT,
-          prompt: userPrompt,
+          schema,
+          schemaName,
+          system,
+          prompt,
           temperature: this.modelConfig.temperature,
           maxTokens: this.modelConfig.maxTokens,
-        });
-
-        return text;
+        };
+
+        const { object, usage: callUsage } = onPartial
+          ? await this.streamModel(request, onPartial)
+          : await generateObject(request);
+
+        usage?.record(
+          this.agent,
+          operation,
+          model.servedBy ?? model.requested,
+          callUsage,
+          true,
+          model.requested,
+        );
+
+        return accept(object);
       } catch (error) {
-        lastError = error as Error;
-        this.logger.warn(`AI call failed (attempt ${attempt}): ${lastError.message}`);
+        // Output that failed validation was still billed
+        if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+          usage?.record(
+            this.agent,
+            operation,
+            model.servedBy ?? model.requested,
+            error.usage,
+            false,
+            model.requested,
+          );
+        }
+
+        const feedback = describeStructuredOutputError(error);
+        lastError = new Error(feedback);
+        this.logger.warn(`AI call failed (attempt ${attempt}): ${feedback}`);
 
         if (attempt < this.maxRetries) {
+          // Tell the model what was wrong with its previous output
+          prompt = `${userPrompt}\n\n## Previous Attempt Rejected\n${feedback}`;
+
           const delay = Math.pow(2, attempt) * 1000;
           await this.sleep(delay);
         }
@@ -143,6 +617,35 @@ export class CoderAgent {
     throw new Error(`AI call failed after ${this.maxRetries} attempts: ${lastError?.message}`);
   }
 
+  /**
+   * Stream an object, passing each partial version to `onPartial`
+   *
+   * Rejects like `generateObject` when the final object does not match
+   * the schema.
+   */
+  private async streamModel<T>(
+    request: ObjectRequest<T>,
+    onPartial: (partial: DeepPartial<T>) => Promise<void>,
+  ): Promise<{ object: T; usage: LanguageModelUsage }> {
+    let streamError: unknown;
+    const result = streamObject({
+      ...request,
+      onError: ({ error }) => {
+        streamError = error;
+      },
+    });
+
+    for await (const partial of result.partialObjectStream) {
+      await onPartial(partial);
+    }
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    return { object: await result.object, usage: await result.usage };
+  }
+
   private buildPrompt(spec: TechnicalSpecification): string {
     const sections: string[] = [];
 
@@ -192,29 +695,87 @@ Generate all the necessary files for this project. Include:
 6. Type definitions
 7. A .env.example file with all required environment variables
 
-Remember to output ONLY the JSON array of files.`);
+Remember to output ONLY the JSON object with the files array.`);
+
+    return sections.join('\n\n');
+  }
+
+  private buildEditPrompt(
+    spec: TechnicalSpecification,
+    delta: SpecificationDelta,
+    currentFiles: GeneratedFile[],
+  ): string {
+    const sections: string[] = [];
+
+    sections.push(`# Project: ${spec.projectName}`);
+    sections.push(`## Technical Summary\n${spec.technicalSummary}`);
+    sections.push(`## Change Request\n${delta.summary}`);
+    sections.push(
+      `## Files to Change\n${delta.files.map((f) => `- [${f.action}] ${f.path}: ${f.description}`).join('\n')}`,
+    );
+
+    if (delta.upsertComponents?.length) {
+      sections.push(`## Components\n${this.formatComponents(delta.upsertComponents)}`);
+    }
+
+    if (delta.upsertPages?.length) {
+      sections.push(`## Pages\n${this.formatPages(delta.upsertPages)}`);
+    }
+
+    if (delta.upsertApiRoutes?.length) {
+      sections.push(`## API Routes\n${this.formatApiRoutes(delta.upsertApiRoutes)}`);
+    }
+
+    sections.push(`## Dependencies\n${this.formatDependencies(spec.dependencies)}`);
+
+    if (delta.implementationNotes?.length) {
+      sections.push(`## Implementation Notes\n${delta.implementationNotes.map(n => `- ${n}`).join('\n')}`);
+    }
+
+    if (currentFiles.length > 0) {
+      sections.push(
+        `## Current File Contents\n${currentFiles.map((f) => `### ${f.path}\n\`\`\`\n${f.content}\n\`\`\``).join('\n\n')}`,
+      );
+    }
+
+    sections.push(`
+Output the complete new content of every file marked [create] or [modify] above, and no other files.
+Keep everything that is unrelated to the change request exactly as it is.
+
+Remember to output ONLY the JSON object with the files array.`);
 
     return sections.join('\n\n');
   }
 
   private buildChunkPrompt(
     spec: TechnicalSpecification,
-    chunkType: string,
-    existingFiles: GeneratedFile[],
+    group: GenerationGroup,
+    interfaces: string[],
+    elsewhere: string[],
   ): string {
-    const basePrompt = this.buildPrompt(spec);
+    const sections = [this.buildPrompt(spec)];
+
+    if (interfaces.length > 0) {
+      sections.push(
+        `## Files You Can Import\nThese files are already generated. Only their exported signatures are shown; import from them as declared:\n\n${interfaces.join('\n\n')}`,
+      );
+    }
 
-    const existingFilesList = existingFiles.length > 0
-      ? `\n\n## Already Generated Files\nThe following files have already been generated:\n${existingFiles.map(f => `- ${f.path}`).join('\n')}\n\nDo not regenerate these files.`
-      : '';
+    if (elsewhere.length > 0) {
+      sections.push(
+        `## Files Generated Separately\nThese files are generated by other requests. Do not generate them:\n${elsewhere.map((filePath) => `- ${filePath}`).join('\n')}`,
+      );
+    }
 
-    const chunkInstructions = this.getChunkInstructions(chunkType, spec);
+    sections.push(`## Current Focus: ${group.kind.toUpperCase()}\n${this.getChunkInstructions(group)}`);
 
-    return `${basePrompt}${existingFilesList}\n\n## Current Focus: ${chunkType.toUpperCase()}\n${chunkInstructions}`;
+    return sections.join('\n\n');
   }
 
-  private getChunkInstructions(chunkType: string, spec: TechnicalSpecification): string {
-    switch (chunkType) {
+  private getChunkInstructions(group: GenerationGroup): string {
+    const items = group.files.map((file) => `- ${file.description.split('\n').join('\n- ')}`).join('\n');
+
+    switch (group.kind) {
       case 'core':
         return `Generate ONLY the core configuration files:
 - package.json
@@ -227,20 +788,18 @@ Remember to output ONLY the JSON array of files.`);
 - Any essential type definitions`;
 
       case 'components':
-        return `Generate ONLY the component files:
-${spec.components.map(c => `- ${c.name} (${c.path}): ${c.description}`).join('\n')}
+        return `Generate ONLY these component files:
+${items}
 Include proper TypeScript interfaces and exports.`;
 
       case 'pages':
-        return `Generate ONLY the page files:
-${spec.pages.map(p => `- ${p.route} (${p.filePath}): ${p.description}`).join('\n')}
+        return `Generate ONLY these page files:
+${items}
 Include layout files if specified.`;
 
       case 'api':
-        return spec.apiRoutes.length > 0
-          ? `Generate ONLY the API route files:
-${spec.apiRoutes.map(r => `- ${r.method} ${r.path}: ${r.description}`).join('\n')}`
-          : 'No API routes to generate for this chunk.';
+        return `Generate ONLY the route files of these API routes:
+${items}`;
 
       case 'utils':
         return `Generate any remaining utility files:
@@ -373,49 +932,6 @@ ${developmentEntries.map(([name, version]) => `- ${name}@${version}`).join('\n')
     return parts.join('\n');
   }
 
-  private parseFilesFromResponse(response: string): GeneratedFile[] {
-    try {
-      let jsonContent = response.trim();
-
-      const jsonMatch = jsonContent.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonContent = jsonMatch[1].trim();
-      }
-
-      const arrayMatch = jsonContent.match(/\[[\s\S]*\]/);
-      if (arrayMatch) {
-        jsonContent = arrayMatch[0];
-      }
-
-      const parsed = JSON.parse(jsonContent);
-
-      if (!Array.isArray(parsed)) {
-        throw new Error('Response is not an array');
-      }
-
-      const files: GeneratedFile[] = [];
-
-      for (const item of parsed) {
-        if (typeof item.path !== 'string' || typeof item.content !== 'string') {
-          this.logger.warn(`Skipping invalid file entry: ${JSON.stringify(item)}`);
-          continue;
-        }
-
-        files.push({
-          path: item.path,
-          content: item.content,
-        });
-      }
-
-      this.logger.log(`Parsed ${files.length} files from AI response`);
-      return files;
-    } catch (error) {
-      this.logger.error(`Failed to parse AI response: ${error}`);
-      this.logger.debug(`Response content: ${response.substring(0, 500)}...`);
-      throw new Error(`Failed to parse generated files: ${(error as Error).message}`);
-    }
-  }
-
   private isLargeProject(spec: TechnicalSpecification): boolean {
     const totalItems =
       spec.components.length +
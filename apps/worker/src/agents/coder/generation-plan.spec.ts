@@ -0,0 +1,174 @@
+import type { ComponentSpec, PageSpec, TechnicalSpecification } from '../architect/types';
+import { executePlan, GenerationGroup, GenerationPlan, planGeneration } from './generation-plan';
+import { DEFAULT_CHUNK_CONFIG } from './types';
+
+function component(name: string, dependencies: string[] = []): ComponentSpec {
+  return {
+    name,
+    path: `src/components/${name}.tsx`,
+    description: name,
+    type: 'client',
+    props: [],
+    dependencies,
+  };
+}
+
+function page(route: string, components: string[]): PageSpec {
+  return {
+    route,
+    filePath: `src/app${route === '/' ? '' : route}/page.tsx`,
+    description: route,
+    components,
+    metadata: { title: route, description: route },
+  };
+}
+
+function specification(overrides: Partial<TechnicalSpecification>): TechnicalSpecification {
+  return {
+    projectName: 'todo-app',
+    description: 'A todo app',
+    technicalSummary: 'Next.js app router',
+    components: [],
+    pages: [],
+    apiRoutes: [],
+    dependencies: [],
+    dataModels: [],
+    envVariables: [],
+    ...overrides,
+  } as TechnicalSpecification;
+}
+
+function group(id: string, dependsOn: string[] = []): GenerationGroup {
+  return { id, kind: 'components', files: [], dependsOn, layer: 0 };
+}
+
+describe('planGeneration', () => {
+  it('layers files after the files they import', () => {
+    const plan = planGeneration(
+      specification({
+        components: [component('Card', ['Button', 'framer-motion']), component('Button')],
+        pages: [page('/', ['Card'])],
+        apiRoutes: [
+          { method: 'GET', path: '/api/todos', description: 'List', responses: [], requiresAuth: false },
+          { method: 'POST', path: '/api/todos', description: 'Create', responses: [], requiresAuth: false },
+        ],
+      }),
+      DEFAULT_CHUNK_CONFIG,
+    );
+
+    expect(plan.brokenCycles).toEqual([]);
+    expect(plan.groups.map((g) => [g.id, g.files.map((f) => f.id), g.dependsOn])).toEqual([
+      ['core-0-1', ['core'], []],
+      ['components-1-1', ['src/components/Button.tsx'], ['core-0-1']],
+      ['api-1-1', ['api:/api/todos'], ['core-0-1']],
+      ['components-2-1', ['src/components/Card.tsx'], ['core-0-1', 'components-1-1']],
+      ['pages-3-1', ['src/app/page.tsx'], ['core-0-1', 'components-2-1']],
+      [
+        'utils-4-1',
+        ['utils'],
+        ['core-0-1', 'components-2-1', 'components-1-1', 'pages-3-1', 'api-1-1'],
+      ],
+    ]);
+  });
+
+  it('gives the methods of a route path one file', () => {
+    const plan = planGeneration(
+      specification({
+        apiRoutes: [
+          { method: 'GET', path: '/api/todos', description: 'List', responses: [], requiresAuth: false },
+          { method: 'POST', path: '/api/todos', description: 'Create', responses: [], requiresAuth: false },
+        ],
+      }),
+      DEFAULT_CHUNK_CONFIG,
+    );
+
+    const api = plan.groups.find((g) => g.kind === 'api')!;
+    expect(api.files).toHaveLength(1);
+    expect(api.files[0]!.description).toBe('GET /api/todos: List\nPOST /api/todos: Create');
+  });
+
+  it('packs a layer into groups of at most maxFilesPerChunk', () => {
+    const plan = planGeneration(
+      specification({ components: [component('A'), component('B'), component('C')] }),
+      { ...DEFAULT_CHUNK_CONFIG, maxFilesPerChunk: 2 },
+    );
+
+    expect(plan.groups.filter((g) => g.kind === 'components').map((g) => [g.id, g.files.length])).toEqual([
+      ['components-1-1', 2],
+      ['components-1-2', 1],
+    ]);
+  });
+
+  it('breaks dependency cycles and reports the ignored edge', () => {
+    const plan = planGeneration(
+      specification({ components: [component('A', ['B']), component('B', ['A'])] }),
+      DEFAULT_CHUNK_CONFIG,
+    );
+
+    expect(plan.brokenCycles).toEqual(['src/components/B.tsx -> src/components/A.tsx']);
+    const layers = Object.fromEntries(plan.groups.flatMap((g) => g.files.map((f) => [f.id, g.layer])));
+    expect(layers['src/components/B.tsx']).toBe(1);
+    expect(layers['src/components/A.tsx']).toBe(2);
+  });
+
+  it('still generates kinds left out of the priority order', () => {
+    const plan = planGeneration(specification({ components: [component('A')] }), {
+      ...DEFAULT_CHUNK_CONFIG,
+      priorityOrder: ['core'],
+    });
+
+    expect(plan.groups.map((g) => g.kind)).toEqual(['core', 'components', 'utils']);
+  });
+});
+
+describe('executePlan', () => {
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  it('runs groups after their dependencies, at most `concurrency` at a time', async () => {
+    const plan: GenerationPlan = {
+      groups: [group('a'), group('b'), group('c'), group('d', ['a', 'b'])],
+      brokenCycles: [],
+    };
+    const finished: string[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    await executePlan(plan, 2, async ({ id, dependsOn }) => {
+      expect(dependsOn.every((dependency) => finished.includes(dependency))).toBe(true);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await tick();
+      active--;
+      finished.push(id);
+    });
+
+    expect(finished.sort()).toEqual(['a', 'b', 'c', 'd']);
+    expect(maxActive).toBe(2);
+  });
+
+  it('starts no group after a failure and throws the first error', async () => {
+    const plan: GenerationPlan = {
+      groups: [group('a'), group('b', ['a']), group('c', ['b'])],
+      brokenCycles: [],
+    };
+    const started: string[] = [];
+
+    await expect(
+      executePlan(plan, 1, async ({ id }) => {
+        started.push(id);
+        if (id === 'b') {
+          throw new Error('chunk b failed');
+        }
+      }),
+    ).rejects.toThrow('chunk b failed');
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('reports groups whose dependencies never complete', async () => {
+    const plan: GenerationPlan = { groups: [group('a', ['missing'])], brokenCycles: [] };
+
+    await expect(executePlan(plan, 1, async () => undefined)).rejects.toThrow(
+      'Generation groups never became ready: a',
+    );
+  });
+});
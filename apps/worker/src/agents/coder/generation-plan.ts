@@ -0,0 +1,280 @@
+/**
+ * Generation Plan
+ *
+ * Splits a large specification into groups of files that can be generated
+ * concurrently. Components, pages and API routes become nodes of a
+ * file-level dependency graph built from the specification (components a
+ * component or page uses); the graph is layered so a group only waits for
+ * the groups its files import from.
+ */
+
+import type { TechnicalSpecification } from '../architect/types';
+import type { ChunkConfig, ChunkType } from './types';
+
+/**
+ * A file, or for API routes one route path, to be generated
+ */
+export interface PlannedFile {
+  /** Unique key: the file path of components and pages */
+  id: string;
+  kind: ChunkType;
+  /** File path when the specification names one */
+  path?: string;
+  /** What to generate, one line for the prompt */
+  description: string;
+  /** Ids of planned files this one imports from */
+  dependsOn: string[];
+}
+
+export interface GenerationGroup {
+  id: string;
+  kind: ChunkType;
+  files: PlannedFile[];
+  /** Ids of the groups that must be generated first */
+  dependsOn: string[];
+  /** Layer of the dependency graph; the core files are layer 0 */
+  layer: number;
+}
+
+export interface GenerationPlan {
+  groups: GenerationGroup[];
+  /** Dependencies ignored because they form a cycle, as `from -> to` */
+  brokenCycles: string[];
+}
+
+/**
+ * Id of the node for configuration files and shared types
+ */
+const CORE_ID = 'core';
+
+/**
+ * Id of the node for hooks and helpers not named by the specification
+ */
+const UTILS_ID = 'utils';
+
+/**
+ * Build the dependency graph of a specification and group it for generation
+ *
+ * Every node depends on the core files. The utils node comes last and
+ * depends on everything, so it can fill in what the other groups import
+ * but nobody generated. Nodes of one layer and kind are packed into
+ * groups of at most `maxFilesPerChunk`.
+ */
+export function planGeneration(spec: TechnicalSpecification, config: ChunkConfig): GenerationPlan {
+  const nodes = new Map<string, PlannedFile>();
+  const componentIds = new Map(spec.components.map((component) => [component.name, component.path]));
+
+  nodes.set(CORE_ID, {
+    id: CORE_ID,
+    kind: 'core',
+    description: 'Configuration files, shared types and utilities',
+    dependsOn: [],
+  });
+
+  for (const component of spec.components) {
+    nodes.set(component.path, {
+      id: component.path,
+      kind: 'components',
+      path: component.path,
+      description: `${component.name} (${component.path}): ${component.description}`,
+      dependsOn: [CORE_ID, ...resolveComponents(component.dependencies, componentIds, component.path)],
+    });
+  }
+
+  for (const page of spec.pages) {
+    nodes.set(page.filePath, {
+      id: page.filePath,
+      kind: 'pages',
+      path: page.filePath,
+      description: `${page.route} (${page.filePath}): ${page.description}`,
+      dependsOn: [CORE_ID, ...resolveComponents(page.components, componentIds, page.filePath)],
+    });
+  }
+
+  // One node per route path: its methods share a route file
+  const routes = new Map<string, TechnicalSpecification['apiRoutes']>();
+  for (const route of spec.apiRoutes) {
+    routes.set(route.path, [...(routes.get(route.path) ?? []), route]);
+  }
+  for (const [routePath, handlers] of routes) {
+    nodes.set(`api:${routePath}`, {
+      id: `api:${routePath}`,
+      kind: 'api',
+      description: handlers.map((route) => `${route.method} ${route.path}: ${route.description}`).join('\n'),
+      dependsOn: [CORE_ID],
+    });
+  }
+
+  nodes.set(UTILS_ID, {
+    id: UTILS_ID,
+    kind: 'utils',
+    description: 'Remaining hooks, helpers, constants and type definitions',
+    dependsOn: [...nodes.keys()],
+  });
+
+  const { layers, brokenCycles } = assignLayers(nodes);
+
+  return { groups: packGroups(nodes, layers, config), brokenCycles };
+}
+
+/**
+ * Run the groups of a plan, each once the groups it depends on are done
+ *
+ * At most `concurrency` groups run at a time. After a failure no further
+ * group is started; the first error is thrown once running groups settle.
+ */
+export async function executePlan(
+  plan: GenerationPlan,
+  concurrency: number,
+  run: (group: GenerationGroup) => Promise<void>,
+): Promise<void> {
+  const pending = [...plan.groups];
+  const done = new Set<string>();
+  const running = new Map<string, Promise<void>>();
+  let failure: unknown;
+
+  while (pending.length > 0 || running.size > 0) {
+    if (failure === undefined) {
+      for (const group of [...pending]) {
+        if (running.size >= Math.max(1, concurrency)) {
+          break;
+        }
+        if (group.dependsOn.every((id) => done.has(id))) {
+          pending.splice(pending.indexOf(group), 1);
+          running.set(
+            group.id,
+            run(group)
+              .then(
+                () => {
+                  done.add(group.id);
+                },
+                (error: unknown) => {
+                  failure ??= error;
+                },
+              )
+              .finally(() => {
+                running.delete(group.id);
+              }),
+          );
+        }
+      }
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+
+    await Promise.race(running.values());
+  }
+
+  if (failure !== undefined) {
+    throw failure;
+  }
+  if (pending.length > 0) {
+    throw new Error(`Generation groups never became ready: ${pending.map((group) => group.id).join(', ')}`);
+  }
+}
+
+/**
+ * Paths of the named components, skipping unknown names (packages) and self-imports
+ */
+function resolveComponents(names: string[], componentIds: Map<string, string>, self: string): string[] {
+  return names
+    .map((name) => componentIds.get(name))
+    .filter((id): id is string => id !== undefined && id !== self);
+}
+
+/**
+ * Longest-path layering; an edge closing a cycle is ignored
+ */
+function assignLayers(nodes: Map<string, PlannedFile>): {
+  layers: Map<string, number>;
+  brokenCycles: string[];
+} {
+  const layers = new Map<string, number>();
+  const visiting = new Set<string>();
+  const brokenCycles: string[] = [];
+
+  const visit = (id: string): number => {
+    const known = layers.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+
+    visiting.add(id);
+    const node = nodes.get(id)!;
+    let layer = 0;
+
+    for (const dependency of node.dependsOn) {
+      if (!nodes.has(dependency)) {
+        continue;
+      }
+      if (visiting.has(dependency)) {
+        brokenCycles.push(`${id} -> ${dependency}`);
+        continue;
+      }
+      layer = Math.max(layer, visit(dependency) + 1);
+    }
+
+    visiting.delete(id);
+    layers.set(id, layer);
+    return layer;
+  };
+
+  for (const id of nodes.keys()) {
+    visit(id);
+  }
+
+  // Keep only the edges the layering honoured
+  for (const edge of brokenCycles) {
+    const [from, to] = edge.split(' -> ') as [string, string];
+    const node = nodes.get(from)!;
+    node.dependsOn = node.dependsOn.filter((dependency) => dependency !== to);
+  }
+
+  return { layers, brokenCycles };
+}
+
+function packGroups(
+  nodes: Map<string, PlannedFile>,
+  layers: Map<string, number>,
+  config: ChunkConfig,
+): GenerationGroup[] {
+  const groups: GenerationGroup[] = [];
+  const groupOf = new Map<string, GenerationGroup>();
+  const depth = Math.max(...layers.values());
+  const size = Math.max(1, config.maxFilesPerChunk);
+  // Kinds left out of a custom priority order still get generated, last
+  const kinds = [...new Set([...config.priorityOrder, ...[...nodes.values()].map((node) => node.kind)])];
+
+  for (let layer = 0; layer <= depth; layer++) {
+    for (const kind of kinds) {
+      const members = [...nodes.values()].filter(
+        (node) => node.kind === kind && layers.get(node.id) === layer,
+      );
+
+      for (let start = 0; start < members.length; start += size) {
+        const group: GenerationGroup = {
+          id: `${kind}-${layer}-${start / size + 1}`,
+          kind,
+          files: members.slice(start, start + size),
+          dependsOn: [],
+          layer,
+        };
+        groups.push(group);
+        group.files.forEach((file) => groupOf.set(file.id, group));
+      }
+    }
+  }
+
+  for (const group of groups) {
+    const dependencies = new Set(
+      group.files.flatMap((file) => file.dependsOn.map((id) => groupOf.get(id)?.id)),
+    );
+    dependencies.delete(group.id);
+    dependencies.delete(undefined);
+    group.dependsOn = [...dependencies] as string[];
+  }
+
+  return groups;
+}
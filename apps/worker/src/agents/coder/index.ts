@@ -12,6 +12,12 @@ export type {
   CoderOutput,
   CodeGenerationContext,
   ChunkConfig,
+  ChunkType,
+  FileEdit,
+  FilePatch,
+  FixRequest,
+  ExplainRequest,
+  FileGeneratedListener,
 } from './types';
 
 export { DEFAULT_CHUNK_CONFIG } from './types';
@@ -21,6 +27,27 @@ export type { TechnicalSpecification } from './types';
 
 // Export prompts
 export { CODER_SYSTEM_PROMPT } from './prompts/system.prompt';
+export { CODER_FIX_SYSTEM_PROMPT, CODER_FIX_USER_PROMPT_TEMPLATE } from './prompts/fix.prompt';
+export {
+  CODER_EXPLAIN_SYSTEM_PROMPT,
+  CODER_EXPLAIN_USER_PROMPT_TEMPLATE,
+} from './prompts/explain.prompt';
+
+// Export schemas
+export { generatedFilesSchema, filePatchesSchema } from './schema';
+
+// Export patch helpers
+export { applyFilePatch } from './patches';
+
+// Export chunked generation planning
+export {
+  planGeneration,
+  executePlan,
+  type GenerationPlan,
+  type GenerationGroup,
+  type PlannedFile,
+} from './generation-plan';
+export { extractSignatures, formatSignatures } from './signatures';
 
 // Export agent class and factory
 export {
@@ -0,0 +1,53 @@
+import { applyFilePatch } from './patches';
+
+const content = ['export function greet(name: string) {', "  return 'Hello ' + name;", '}', ''].join('\n');
+
+describe('applyFilePatch', () => {
+  it('applies edits in order, each against the previous result', () => {
+    const result = applyFilePatch(content, {
+      path: 'src/greet.ts',
+      edits: [
+        { search: "'Hello ' + name", replace: '`Hello ${name}`' },
+        { search: '`Hello ${name}`', replace: '`Hello, ${name}!`' },
+      ],
+    });
+
+    expect(result).toBe(
+      ['export function greet(name: string) {', '  return `Hello, ${name}!`;', '}', ''].join('\n'),
+    );
+  });
+
+  it('keeps replacement text literally', () => {
+    const result = applyFilePatch(content, {
+      path: 'src/greet.ts',
+      edits: [{ search: 'name: string', replace: "name = '$&'" }],
+    });
+
+    expect(result).toContain("greet(name = '$&')");
+  });
+
+  it('returns the content unchanged without edits', () => {
+    expect(applyFilePatch(content, { path: 'src/greet.ts', edits: [] })).toBe(content);
+  });
+
+  it('names the edit whose search text is missing', () => {
+    expect(() =>
+      applyFilePatch(content, {
+        path: 'src/greet.ts',
+        edits: [
+          { search: 'greet', replace: 'welcome' },
+          { search: 'greet', replace: 'hello' },
+        ],
+      }),
+    ).toThrow('Edit 2 for src/greet.ts: the search text was not found');
+  });
+
+  it('rejects search text that matches more than one place', () => {
+    expect(() =>
+      applyFilePatch(content, {
+        path: 'src/greet.ts',
+        edits: [{ search: 'name', replace: 'person' }],
+      }),
+    ).toThrow('Edit 1 for src/greet.ts: the search text matches more than one place');
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Patch Application
+ *
+ * Applies the search/replace edits of a fix to file contents. An edit
+ * that does not match exactly one place is an error, reported back to
+ * the model so it can quote the file more precisely.
+ */
+
+import type { FilePatch } from './types';
+
+/**
+ * Apply a patch's edits in order
+ *
+ * @throws Error naming the edit that did not apply
+ */
+export function applyFilePatch(content: string, patch: FilePatch): string {
+  let result = content;
+
+  patch.edits.forEach((edit, index) => {
+    const first = result.indexOf(edit.search);
+
+    if (first === -1) {
+      throw new Error(
+        `Edit ${index + 1} for ${patch.path}: the search text was not found. Copy it exactly from the current file content, including whitespace.`,
+      );
+    }
+
+    if (result.indexOf(edit.search, first + 1) !== -1) {
+      throw new Error(
+        `Edit ${index + 1} for ${patch.path}: the search text matches more than one place. Include more surrounding lines so it is unique.`,
+      );
+    }
+
+    result = result.slice(0, first) + edit.replace + result.slice(first + edit.search.length);
+  });
+
+  return result;
+}
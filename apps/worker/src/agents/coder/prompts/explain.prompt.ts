@@ -0,0 +1,35 @@
+/**
+ * Explain Prompt for the Coder Agent
+ *
+ * Used when a user asks about one file of a generated project from the
+ * code editor. The model answers in prose; nothing is written back.
+ */
+
+import type { ExplainRequest } from '../types';
+
+export const CODER_EXPLAIN_SYSTEM_PROMPT = `You are an Expert Full-Stack Developer helping the owner of a generated web application understand and change its code. You are given one file of the project, a short description of the project, and the user's question about the file.
+
+## Rules
+
+1. Answer the question about the file shown. Refer to functions, components and lines by name so the user can find them.
+2. When the user asks for a change, explain what to change and show only the lines involved as a short code block; do not repeat the whole file.
+3. Say so when the answer depends on files you were not shown instead of guessing their content.
+4. Be concise. Use markdown with short paragraphs and lists.`;
+
+/**
+ * Build the explain prompt
+ *
+ * @param request - The file, its project and the question
+ */
+export const CODER_EXPLAIN_USER_PROMPT_TEMPLATE = (request: ExplainRequest): string => {
+  const sections: string[] = [];
+
+  if (request.projectSummary) {
+    sections.push(`## Project\n${request.projectSummary}`);
+  }
+
+  sections.push(`## File: ${request.file.path}\n\`\`\`\n${request.file.content}\n\`\`\``);
+  sections.push(`## Question\n${request.question}`);
+
+  return sections.join('\n\n');
+};
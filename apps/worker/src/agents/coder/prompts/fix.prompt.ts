@@ -0,0 +1,53 @@
+/**
+ * Fix Prompt for the Coder Agent
+ *
+ * Used when a build or the static checks failed. The model sees the error
+ * and the current content of the files involved, and answers with small
+ * search/replace edits instead of regenerating files.
+ */
+
+import type { FixRequest } from '../types';
+
+export const CODER_FIX_SYSTEM_PROMPT = `You are an Expert Full-Stack Developer fixing a failed build of a generated web application. You are given the error output and the current content of the files involved. Fix the root cause with the smallest change that works.
+
+## Output Format
+
+Respond with a JSON object with:
+- patches: edits to existing files. Each patch has the file "path" and a list of "edits"; each edit has:
+  - search: a snippet copied exactly from the current file content, including indentation and line breaks, that appears exactly once in the file. Include a few surrounding lines when a line alone is not unique.
+  - replace: the text that takes its place
+- newFiles: complete content of files to create, only for paths listed under "Missing Files". Use an empty array otherwise.
+- summary: one sentence on what was wrong and what you changed
+
+## Rules
+
+1. Only patch the files shown under "Files". Any other file in your output is ignored.
+2. Edits of one patch are applied in order; a later edit must match the file after the earlier ones.
+3. Fix the cause of the error. Do not silence it with @ts-ignore, @ts-expect-error, eslint-disable comments or casts to any.
+4. A missing package is added to the "dependencies" of package.json, not worked around in code.
+5. Keep everything unrelated to the error exactly as it is.
+6. Do not change the Dockerfile, .dockerignore, docker/ files or the \`output: 'standalone'\` setting in next.config; the platform provides the container setup.
+7. Generate ONLY the JSON object, no additional text or explanations.`;
+
+/**
+ * Build the fix prompt
+ *
+ * @param request - The error report and the files involved
+ */
+export const CODER_FIX_USER_PROMPT_TEMPLATE = (request: FixRequest): string => {
+  const sections: string[] = [request.errorReport];
+
+  sections.push(
+    `## Files\n${request.files.map((f) => `### ${f.path}\n\`\`\`\n${f.content}\n\`\`\``).join('\n\n')}`,
+  );
+
+  if (request.missingFiles?.length) {
+    sections.push(
+      `## Missing Files\nThese paths are imported but do not exist. Create one (with the right extension, e.g. .ts or .tsx) only if the import is correct; otherwise fix the import:\n${request.missingFiles.map((p) => `- ${p}`).join('\n')}`,
+    );
+  }
+
+  sections.push('Fix the error above and return your patches.');
+
+  return sections.join('\n\n');
+};
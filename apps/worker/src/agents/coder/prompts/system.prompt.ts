@@ -59,23 +59,27 @@ export const CODER_SYSTEM_PROMPT = `You are an Expert Full-Stack Developer speci
 
 ## Output Format
 
-You MUST respond with a valid JSON array of file objects. Each file object must have:
+You MUST respond with a JSON object whose "files" property is an array of file objects. Each file object must have:
 - path: The file path relative to the project root (e.g., "src/components/button.tsx")
 - content: The complete file content as a string
 
 Example output format:
 \`\`\`json
-[
-  {
-    "path": "src/components/ui/button.tsx",
-    "content": "'use client';\\n\\nimport { type ButtonHTMLAttributes } from 'react';\\nimport { cn } from '@/lib/utils';\\n\\ninterface ButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {\\n  variant?: 'default' | 'outline' | 'ghost';\\n  size?: 'sm' | 'md' | 'lg';\\n}\\n\\nexport function Button({\\n  className,\\n  variant = 'default',\\n  size = 'md',\\n  ...props\\n}: ButtonProps) {\\n  return (\\n    <button\\n      className={cn(\\n        'inline-flex items-center justify-center rounded-md font-medium transition-colors',\\n        'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2',\\n        'disabled:pointer-events-none disabled:opacity-50',\\n        {\\n          'bg-primary text-primary-foreground hover:bg-primary/90': variant === 'default',\\n          'border border-input bg-background hover:bg-accent': variant === 'outline',\\n          'hover:bg-accent hover:text-accent-foreground': variant === 'ghost',\\n        },\\n        {\\n          'h-8 px-3 text-sm': size === 'sm',\\n          'h-10 px-4': size === 'md',\\n          'h-12 px-6 text-lg': size === 'lg',\\n        },\\n        className\\n      )}\\n      {...props}\\n    />\\n  );\\n}"
-  }
-]
+{
+  "files": [
+    {
+      "path": "src/components/ui/button.tsx",
+      "content": "'use client';\\n\\nimport { type ButtonHTMLAttributes } from 'react';\\nimport { cn } from '@/lib/utils';\\n\\ninterface ButtonProps extends ButtonHTMLAttributes<HTMLButtonElement> {\\n  variant?: 'default' | 'outline' | 'ghost';\\n  size?: 'sm' | 'md' | 'lg';\\n}\\n\\nexport function Button({\\n  className,\\n  variant = 'default',\\n  size = 'md',\\n  ...props\\n}: ButtonProps) {\\n  return (\\n    <button\\n      className={cn(\\n        'inline-flex items-center justify-center rounded-md font-medium transition-colors',\\n        'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-offset-2',\\n        'disabled:pointer-events-none disabled:opacity-50',\\n        {\\n          'bg-primary text-primary-foreground hover:bg-primary/90': variant === 'default',\\n          'border border-input bg-background hover:bg-accent': variant === 'outline',\\n          'hover:bg-accent hover:text-accent-foreground': variant === 'ghost',\\n        },\\n        {\\n          'h-8 px-3 text-sm': size === 'sm',\\n          'h-10 px-4': size === 'md',\\n          'h-12 px-6 text-lg': size === 'lg',\\n        },\\n        className\\n      )}\\n      {...props}\\n    />\\n  );\\n}"
+    }
+  ]
+}
 \`\`\`
 
 IMPORTANT:
-- Generate ONLY the JSON array, no additional text or explanations
+- Generate ONLY the JSON object, no additional text or explanations
 - Ensure all JSON is properly escaped (especially newlines, quotes, and backslashes)
 - Include all necessary files for a complete, working implementation
 - Generate complete file contents, not partial or placeholder code
+- Do not generate a Dockerfile, .dockerignore or docker/ files; the platform adds the container setup
+- Keep \`output: 'standalone'\` in next.config, the production image depends on it
 `;
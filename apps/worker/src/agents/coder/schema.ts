@@ -0,0 +1,41 @@
+/**
+ * Zod Schema for Coder Agent Output
+ *
+ * The Coder Agent returns its files wrapped in an object, since
+ * structured-output modes require an object at the top level. Fixes
+ * come back as search/replace patches instead of whole files.
+ */
+
+import { z } from 'zod';
+
+export const generatedFilesSchema = z.object({
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      content: z.string(),
+    }),
+  ),
+});
+
+export const filePatchesSchema = z.object({
+  patches: z.array(
+    z.object({
+      path: z.string().min(1),
+      edits: z
+        .array(
+          z.object({
+            search: z.string().min(1),
+            replace: z.string(),
+          }),
+        )
+        .min(1),
+    }),
+  ),
+  newFiles: z.array(
+    z.object({
+      path: z.string().min(1),
+      content: z.string(),
+    }),
+  ),
+  summary: z.string(),
+});
@@ -0,0 +1,99 @@
+import { extractSignatures, formatSignatures } from './signatures';
+
+const button = `'use client';
+
+import { useState } from 'react';
+
+export interface ButtonProps {
+  label: string;
+  variant?: 'primary' | 'secondary';
+}
+
+type Size =
+  | 'sm'
+  | 'lg';
+
+const internal = 1;
+
+export function Button({ label }: ButtonProps) {
+  const [pressed, setPressed] = useState(false);
+  return <button onClick={() => setPressed(!pressed)}>{label}</button>;
+}
+
+export const formatLabel = (
+  label: string,
+  size: Size,
+) => \`\${label} (\${size})\`;
+
+export const DEFAULT_LABEL = 'Click';
+`;
+
+describe('extractSignatures', () => {
+  it('keeps type declarations whole and the heads of exports', () => {
+    expect(extractSignatures({ path: 'src/components/button.tsx', content: button })).toBe(
+      [
+        'export interface ButtonProps {',
+        '  label: string;',
+        "  variant?: 'primary' | 'secondary';",
+        '}',
+        'type Size =',
+        "  | 'sm'",
+        "  | 'lg';",
+        'export function Button({ label }: ButtonProps) { ... }',
+        'export const formatLabel = (',
+        '  label: string,',
+        '  size: Size,',
+        ') => `${label} (${size})`;',
+        "export const DEFAULT_LABEL = 'Click';",
+      ].join('\n'),
+    );
+  });
+
+  it('lists the dependency names of package.json', () => {
+    const content = JSON.stringify({
+      dependencies: { next: '15.0.0', react: '19.0.0' },
+      devDependencies: {},
+    });
+
+    expect(extractSignatures({ path: 'package.json', content })).toBe(
+      ['dependencies: next, react', 'devDependencies: none'].join('\n'),
+    );
+  });
+
+  it('gives nothing for other files and unreadable manifests', () => {
+    expect(extractSignatures({ path: 'src/app/globals.css', content: 'body { margin: 0; }' })).toBe('');
+    expect(extractSignatures({ path: 'package.json', content: '{ not json' })).toBe('');
+  });
+
+  it('truncates long signatures', () => {
+    const content = Array.from({ length: 500 }, (_, i) => `export const value${i} = ${i};`).join('\n');
+    const signature = extractSignatures({ path: 'src/lib/values.ts', content });
+
+    expect(signature.length).toBeLessThanOrEqual(4_000 + '\n// ...'.length);
+    expect(signature.endsWith('\n// ...')).toBe(true);
+  });
+});
+
+describe('formatSignatures', () => {
+  const files = [
+    { path: 'src/lib/a.ts', content: 'export const a = 1;' },
+    { path: 'src/app/globals.css', content: 'body {}' },
+    { path: 'src/lib/b.ts', content: 'export const b = 2;' },
+  ];
+
+  it('gives each file a section with its signature', () => {
+    expect(formatSignatures(files, 1_000)).toEqual([
+      '### src/lib/a.ts\n```\nexport const a = 1;\n```',
+      '### src/app/globals.css',
+      '### src/lib/b.ts\n```\nexport const b = 2;\n```',
+    ]);
+  });
+
+  it('names files past the budget without their signature', () => {
+    expect(formatSignatures(files, 25)).toEqual([
+      '### src/lib/a.ts\n```\nexport const a = 1;\n```',
+      '### src/app/globals.css',
+      '### src/lib/b.ts',
+    ]);
+  });
+});
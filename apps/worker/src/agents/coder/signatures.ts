@@ -0,0 +1,157 @@
+/**
+ * Signatures
+ *
+ * Reduces generated files to what other files need in order to import
+ * them: exported declarations with their bodies left out, plus the type
+ * and interface declarations they refer to. Chunk prompts carry these
+ * instead of whole file bodies.
+ */
+
+import type { GeneratedFile } from './types';
+
+/**
+ * Files whose declarations are extracted
+ */
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs)$/;
+
+/**
+ * Declarations kept whole, exported or not: a props interface is the
+ * signature of the component using it
+ */
+const TYPE_DECLARATION = /^(export\s+)?(declare\s+)?(interface|type|enum)\s/;
+
+/**
+ * Declarations of which only the head is kept
+ */
+const EXPORTED_DECLARATION = /^export\s/;
+
+/**
+ * Longest signature kept per file
+ */
+const MAX_FILE_SIGNATURE_CHARS = 4_000;
+
+/**
+ * The importable surface of a file
+ *
+ * Source files give their type declarations and the heads of their
+ * exports; package.json gives its dependency names; other files give
+ * nothing, and are listed by path only.
+ */
+export function extractSignatures(file: GeneratedFile): string {
+  if (file.path.endsWith('package.json')) {
+    return describePackageJson(file.content);
+  }
+  if (!SOURCE_EXTENSIONS.test(file.path)) {
+    return '';
+  }
+
+  const lines = file.content.split('\n');
+  const kept: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+
+    if (TYPE_DECLARATION.test(line)) {
+      const end = findStatementEnd(lines, index);
+      kept.push(...lines.slice(index, end + 1));
+      index = end;
+    } else if (EXPORTED_DECLARATION.test(line)) {
+      const end = findHeadEnd(lines, index);
+      const head = lines.slice(index, end + 1).join('\n');
+      kept.push(head.trimEnd().endsWith('{') ? `${head} ... }` : head);
+      index = end;
+    }
+  }
+
+  const signature = kept.join('\n');
+  return signature.length > MAX_FILE_SIGNATURE_CHARS
+    ? `${signature.slice(0, MAX_FILE_SIGNATURE_CHARS)}\n// ...`
+    : signature;
+}
+
+/**
+ * Prompt sections with the signatures of files, within a character budget
+ *
+ * Files past the budget are named without their signature.
+ */
+export function formatSignatures(files: GeneratedFile[], maxChars: number): string[] {
+  const sections: string[] = [];
+  let chars = 0;
+
+  for (const file of files) {
+    const signature = extractSignatures(file);
+
+    if (!signature || chars + signature.length > maxChars) {
+      sections.push(`### ${file.path}`);
+      continue;
+    }
+
+    sections.push(`### ${file.path}\n\`\`\`\n${signature}\n\`\`\``);
+    chars += signature.length;
+  }
+
+  return sections;
+}
+
+/**
+ * Index of the line ending a declaration: its braces close and it does
+ * not continue (as a union type does) on the next line
+ */
+function findStatementEnd(lines: string[], start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < lines.length; index++) {
+    depth += braceBalance(lines[index]!);
+    const next = lines[index + 1]?.trim() ?? '';
+
+    if (depth <= 0 && !/^[|&=?:]/.test(next) && !/[=|&,(<]$/.test(lines[index]!.trim())) {
+      return index;
+    }
+  }
+
+  return lines.length - 1;
+}
+
+/**
+ * Index of the line ending the head of a declaration: the line opening
+ * its body, or ending it when there is none
+ */
+function findHeadEnd(lines: string[], start: number): number {
+  let parens = 0;
+
+  for (let index = start; index < lines.length; index++) {
+    const line = lines[index]!.trim();
+    parens += (line.match(/\(/g)?.length ?? 0) - (line.match(/\)/g)?.length ?? 0);
+
+    if (parens <= 0 && (line.endsWith('{') || line.endsWith(';') || line.endsWith('=>'))) {
+      return index;
+    }
+    if (parens <= 0 && !/[,(<=:]$/.test(line)) {
+      return index;
+    }
+  }
+
+  return lines.length - 1;
+}
+
+function braceBalance(line: string): number {
+  return (line.match(/\{/g)?.length ?? 0) - (line.match(/\}/g)?.length ?? 0);
+}
+
+function describePackageJson(content: string): string {
+  try {
+    const manifest = JSON.parse(content) as {
+      dependencies?: Record<string, string>;
+      devDependencies?: Record<string, string>;
+    };
+    const dependencies = Object.keys(manifest.dependencies ?? {});
+    const devDependencies = Object.keys(manifest.devDependencies ?? {});
+
+    return [
+      `dependencies: ${dependencies.join(', ') || 'none'}`,
+      `devDependencies: ${devDependencies.join(', ') || 'none'}`,
+    ].join('\n');
+  } catch {
+    return '';
+  }
+}
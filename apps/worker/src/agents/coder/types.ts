@@ -1,17 +1,59 @@
 import type { TechnicalSpecification } from '../architect/types';
 
-export type { TechnicalSpecification } from '../architect/types';
+export type { TechnicalSpecification, SpecificationDelta } from '../architect/types';
 
 export interface GeneratedFile {
   path: string;
   content: string;
 }
 
+/**
+ * Called with each file as soon as the stream completes it and it is written
+ */
+export type FileGeneratedListener = (file: GeneratedFile) => void;
+
 export interface CoderOutput {
   files: GeneratedFile[];
+  /** Paths removed from the sandbox (incremental edits only) */
+  deletedFiles?: string[];
   summary: string;
 }
 
+/**
+ * A search/replace edit; `search` must match exactly one place in the file
+ */
+export interface FileEdit {
+  search: string;
+  replace: string;
+}
+
+export interface FilePatch {
+  path: string;
+  edits: FileEdit[];
+}
+
+/**
+ * Input of a targeted build fix
+ */
+export interface FixRequest {
+  /** The error and what was tried before, as markdown */
+  errorReport: string;
+  /** Current contents of the files the fix may change */
+  files: GeneratedFile[];
+  /** Imported paths with no file, as imported; the fix may create them */
+  missingFiles?: string[];
+}
+
+/**
+ * A question about one file of a generated project
+ */
+export interface ExplainRequest {
+  file: GeneratedFile;
+  question: string;
+  /** Name and technical summary of the project, when known */
+  projectSummary?: string;
+}
+
 export interface CodeGenerationContext {
   spec: TechnicalSpecification;
   additionalInstructions?: string;
@@ -19,12 +61,21 @@ export interface CodeGenerationContext {
   targetDirectory?: string;
 }
 
+export type ChunkType = 'core' | 'components' | 'pages' | 'api' | 'utils';
+
 export interface ChunkConfig {
   maxFilesPerChunk: number;
-  priorityOrder: ('core' | 'components' | 'pages' | 'api' | 'utils')[];
+  /** Order in which groups of the same dependency layer are started */
+  priorityOrder: ChunkType[];
+  /** Most chunks generated at the same time */
+  concurrency: number;
+  /** Characters of dependency signatures included in a chunk prompt */
+  maxInterfaceChars: number;
 }
 
 export const DEFAULT_CHUNK_CONFIG: ChunkConfig = {
   maxFilesPerChunk: 10,
   priorityOrder: ['core', 'components', 'pages', 'api', 'utils'],
+  concurrency: 3,
+  maxInterfaceChars: 24_000,
 };
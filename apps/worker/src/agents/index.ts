@@ -33,8 +33,13 @@ export {
   type ThemeSpec,
   type GlobalStylesSpec,
   type TechnicalSpecification,
+  type FileChangeSpec,
+  type SpecificationDelta,
+  type AssetAnalysis,
   type UploadedAsset,
+  type CodebaseContext,
   type ArchitectAgentResponse,
+  type ArchitectEditResponse,
   type ValidationResult,
   type ValidationError,
   type ValidationWarning,
@@ -49,6 +54,23 @@ export {
   ARCHITECT_SYSTEM_PROMPT,
   ARCHITECT_USER_PROMPT_TEMPLATE,
   ARCHITECT_RETRY_PROMPT,
+  ARCHITECT_EDIT_SYSTEM_PROMPT,
+  ARCHITECT_EDIT_USER_PROMPT_TEMPLATE,
+  ARCHITECT_ASSET_ANALYSIS_SYSTEM_PROMPT,
+  ARCHITECT_ASSET_ANALYSIS_USER_PROMPT_TEMPLATE,
+  // Schemas
+  technicalSpecificationSchema,
+  componentSpecSchema,
+  pageSpecSchema,
+  apiRouteSpecSchema,
+  dependencySpecSchema,
+  envVarSpecSchema,
+  createSpecificationDeltaSchema,
+  assetAnalysisSchema,
+  // Delta helpers
+  applySpecificationDelta,
+  // Imported codebases
+  collectCodebaseContext,
   // Agent
   ArchitectAgent,
   createArchitectAgent,
@@ -61,3 +83,37 @@ export {
 // Generates code from Technical Specifications
 
 export * from './coder';
+
+// ============================================
+// Reviewer Agent
+// ============================================
+// Reviews generated code for completeness, security and accessibility
+
+export * from './reviewer';
+
+// ============================================
+// Structured Output
+// ============================================
+// Retry feedback for schema-validated generations
+
+export { describeStructuredOutputError, formatZodIssues } from './structured-output';
+
+// ============================================
+// Model Fallback
+// ============================================
+// Calls each agent's model through its fallback chain
+
+export { createFallbackModel } from './model-fallback';
+
+// ============================================
+// Usage Tracking
+// ============================================
+// Token usage and cost of every model call in a generation
+
+export {
+  UsageTracker,
+  type UsageAgent,
+  type CallTokenUsage,
+  type AgentCallUsage,
+  type UsageSummary,
+} from './usage-tracker';
@@ -0,0 +1,27 @@
+/**
+ * Model Fallback
+ *
+ * Shared by the agents to call their model through its fallback chain.
+ * A fresh model is created per call so `servedBy` tells which model of
+ * the chain answered that call.
+ */
+
+import type { Logger } from '@nestjs/common';
+import { FallbackLanguageModel, type AIModelConfig } from '@nexusgen/ai';
+
+/**
+ * Create the model for one call: the primary model, then its fallbacks
+ */
+export function createFallbackModel(
+  modelConfig: AIModelConfig,
+  fallbackModels: AIModelConfig[],
+  logger: Logger,
+): FallbackLanguageModel {
+  return new FallbackLanguageModel([modelConfig, ...fallbackModels], {
+    onFallback: (failed, error, next) => {
+      logger.warn(
+        `${failed.provider}/${failed.model} failed (${error instanceof Error ? error.message : 'Unknown error'}); falling back to ${next.provider}/${next.model}`,
+      );
+    },
+  });
+}
@@ -0,0 +1,84 @@
+import { Logger } from '@nestjs/common';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { SandboxFileWriter } from '../utils';
+import { ArchitectAgent } from './architect';
+import { CoderAgent } from './coder';
+import { UsageTracker } from './usage-tracker';
+
+/**
+ * The architect and coder served by the mock provider from the scripted
+ * responses in `fixtures/ai`, as a worker started with AI_MOCK_MODE=replay
+ * and no recorded fixtures would be
+ */
+const MOCK_MODEL = { provider: 'mock', model: 'offline' } as const;
+
+describe('offline generation', () => {
+  const env = { ...process.env };
+  let basePath: string;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    process.env.AI_MOCK_MODE = 'replay';
+    process.env.AI_MOCK_FIXTURES_DIR = path.join(__dirname, '../../fixtures/ai');
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'nexusgen-offline-'));
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('specifies and generates a project without a network', async () => {
+    const usage = new UsageTracker();
+    const architect = new ArchitectAgent({ modelConfig: MOCK_MODEL, maxRetries: 0 });
+    const coder = new CoderAgent(new SandboxFileWriter({ basePath }), {
+      modelConfig: MOCK_MODEL,
+      maxRetries: 1,
+    });
+
+    const analysis = await architect.analyze('A todo list I can use offline', undefined, usage);
+    expect(analysis.error).toBeUndefined();
+    expect(analysis.specification).toMatchObject({
+      projectName: 'offline-todo',
+      pages: [expect.objectContaining({ route: '/', components: ['TodoList'] })],
+    });
+
+    const written: string[] = [];
+    const output = await coder.generate(
+      analysis.specification!,
+      'offline-project',
+      usage,
+      'generate',
+      (file) => written.push(file.path),
+    );
+
+    const paths = ['package.json', 'src/app/layout.tsx', 'src/app/page.tsx', 'src/components/TodoList.tsx'];
+    expect(output.files.map((file) => file.path).sort()).toEqual(paths);
+    expect(written.sort()).toEqual(paths);
+    await expect(
+      fs.readFile(path.join(basePath, 'offline-project', 'src/app/page.tsx'), 'utf-8'),
+    ).resolves.toContain("import TodoList from '@/components/TodoList'");
+
+    const summary = usage.summarize();
+    expect(summary.calls.map((call) => [call.agent, call.model])).toEqual([
+      ['architect', 'mock/offline'],
+      ['coder', 'mock/offline'],
+    ]);
+    expect(summary.totalTokens).toBeGreaterThan(0);
+  });
+
+  it('fails the analysis when no fixture matches the prompt', async () => {
+    process.env.AI_MOCK_FIXTURES_DIR = basePath;
+    const architect = new ArchitectAgent({ modelConfig: MOCK_MODEL, maxRetries: 0 });
+
+    const analysis = await architect.analyze('A todo list I can use offline');
+
+    expect(analysis.success).toBe(false);
+    expect(analysis.error?.message).toContain('No mock fixture found');
+  });
+});
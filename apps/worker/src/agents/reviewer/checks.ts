@@ -0,0 +1,171 @@
+/**
+ * Deterministic Review Checks
+ *
+ * Checks that need no model call: files the specification asks for that
+ * were never generated, and credentials written into the source.
+ */
+
+import type { GeneratedFile, ReviewFinding, TechnicalSpecification } from './types';
+
+/**
+ * Credential formats that are never legitimate in generated source
+ */
+const SECRET_PATTERNS: { name: string; pattern: RegExp }[] = [
+  { name: 'OpenAI API key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}/ },
+  { name: 'Anthropic API key', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { name: 'AWS access key', pattern: /\bAKIA[0-9A-Z]{16}\b/ },
+  { name: 'GitHub token', pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/ },
+  { name: 'Slack token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { name: 'Stripe secret key', pattern: /\bsk_live_[A-Za-z0-9]{20,}/ },
+  { name: 'private key', pattern: /-----BEGIN (?:RSA |EC |OPENSSH )?PRIVATE KEY-----/ },
+];
+
+/**
+ * `apiKey = "..."` style assignments of a literal to a secret-looking name
+ */
+const SECRET_ASSIGNMENT =
+  /\b(?:api[_-]?key|secret|client[_-]?secret|password|passwd|auth[_-]?token|access[_-]?token)\b["']?\s*[:=]\s*["'`]([^"'`\s]{12,})["'`]/i;
+
+/**
+ * Literal values that are placeholders rather than credentials
+ */
+const PLACEHOLDER_VALUE = /^(?:your[_-]|<|\$\{|process\.env|import\.meta\.env|x{6,}|change[_-]?me|example|placeholder)/i;
+
+/**
+ * Files where example values are expected
+ */
+const SECRET_SCAN_EXCLUDES = [/(^|\/)\.env\.example$/, /(^|\/)README\.md$/i, /\.(test|spec)\.[jt]sx?$/];
+
+/**
+ * Find pages, components and API routes of the specification with no file
+ *
+ * @param spec - The specification the files were generated from
+ * @param files - Every source file of the project
+ */
+export function findMissingSpecFiles(
+  spec: TechnicalSpecification,
+  files: GeneratedFile[],
+): ReviewFinding[] {
+  const paths = new Set(files.map((file) => normalizePath(file.path)));
+  const findings: ReviewFinding[] = [];
+
+  for (const page of spec.pages) {
+    if (!paths.has(normalizePath(page.filePath))) {
+      findings.push({
+        category: 'completeness',
+        severity: 'high',
+        action: 'fix',
+        filePath: page.filePath,
+        message: `Page ${page.route} is missing: ${page.filePath} was not generated`,
+        suggestion: `Create ${page.filePath}: ${page.description}`,
+      });
+    }
+  }
+
+  for (const component of spec.components) {
+    if (!paths.has(normalizePath(component.path))) {
+      findings.push({
+        category: 'completeness',
+        severity: 'high',
+        action: 'fix',
+        filePath: component.path,
+        message: `Component ${component.name} is missing: ${component.path} was not generated`,
+        suggestion: `Create ${component.path}: ${component.description}`,
+      });
+    }
+  }
+
+  // Only Next.js maps API paths to files; other servers declare routes in code
+  if (spec.framework?.name !== 'nextjs') {
+    return findings;
+  }
+
+  // Route files go next to the pages, e.g. src/app/api/users/route.ts
+  const appDir =
+    spec.pages.map((page) => /^(.*?\bapp\/)/.exec(normalizePath(page.filePath))?.[1]).find(Boolean) ??
+    'src/app/';
+
+  for (const route of spec.apiRoutes) {
+    const routeFile = findRouteFile(route.path, files);
+
+    if (!routeFile) {
+      findings.push({
+        category: 'completeness',
+        severity: 'high',
+        action: 'fix',
+        filePath: `${appDir}${trimSlashes(route.path)}/route.ts`,
+        message: `API route ${route.method} ${route.path} has no route file`,
+        suggestion: `Implement ${route.method} ${route.path}: ${route.description}`,
+      });
+    } else if (!exportsMethod(routeFile.content, route.method)) {
+      findings.push({
+        category: 'completeness',
+        severity: 'high',
+        action: 'fix',
+        filePath: routeFile.path,
+        message: `API route ${route.path} does not export a ${route.method} handler`,
+        suggestion: `Export ${route.method} from ${routeFile.path}: ${route.description}`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Find credentials written into generated files
+ */
+export function findHardcodedSecrets(files: GeneratedFile[]): ReviewFinding[] {
+  const findings: ReviewFinding[] = [];
+
+  for (const file of files) {
+    if (SECRET_SCAN_EXCLUDES.some((pattern) => pattern.test(file.path))) {
+      continue;
+    }
+
+    const known = SECRET_PATTERNS.find(({ pattern }) => pattern.test(file.content));
+    const assignment = SECRET_ASSIGNMENT.exec(file.content);
+    const kind = known
+      ? known.name
+      : assignment && !PLACEHOLDER_VALUE.test(assignment[1])
+        ? 'hardcoded credential'
+        : undefined;
+
+    if (kind) {
+      findings.push({
+        category: 'security',
+        severity: 'critical',
+        action: 'fix',
+        filePath: file.path,
+        message: `Possible ${kind} in source`,
+        suggestion:
+          'Read the value from an environment variable and list it in .env.example instead',
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Find the Next.js route file serving an API path
+ */
+function findRouteFile(routePath: string, files: GeneratedFile[]): GeneratedFile | undefined {
+  const suffixes = ['ts', 'js'].map((ext) => `app/${trimSlashes(routePath)}/route.${ext}`);
+
+  return files.find((file) => suffixes.some((suffix) => normalizePath(file.path).endsWith(suffix)));
+}
+
+function exportsMethod(source: string, method: string): boolean {
+  return new RegExp(
+    `export\\s+(?:async\\s+)?(?:function\\s+${method}\\b|const\\s+${method}\\b)|export\\s*\\{[^}]*\\b${method}\\b`,
+  ).test(source);
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/^\.?\/+/, '');
+}
+
+function trimSlashes(routePath: string): string {
+  return routePath.replace(/^\/+|\/+$/g, '');
+}
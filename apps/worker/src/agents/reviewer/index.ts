@@ -0,0 +1,44 @@
+/**
+ * Reviewer Agent Module
+ *
+ * Exports all types, prompts, and the agent class for the Reviewer Agent.
+ * The Reviewer Agent checks generated code against the Technical
+ * Specification for completeness, security and accessibility, and
+ * writes the changelog of each new project version.
+ */
+
+// Export types
+export type {
+  ReviewFinding,
+  ReviewFindingAction,
+  ReviewFindingCategory,
+  ReviewFindingSeverity,
+  ReviewResult,
+  Changelog,
+  ChangelogRequest,
+} from './types';
+
+// Export prompts
+export {
+  REVIEWER_SYSTEM_PROMPT,
+  REVIEWER_USER_PROMPT_TEMPLATE,
+} from './prompts/system.prompt';
+export {
+  REVIEWER_CHANGELOG_SYSTEM_PROMPT,
+  REVIEWER_CHANGELOG_USER_PROMPT_TEMPLATE,
+} from './prompts/changelog.prompt';
+
+// Export schemas
+export { reviewSchema, reviewFindingSchema, changelogSchema } from './schema';
+
+// Export deterministic checks
+export { findMissingSpecFiles, findHardcodedSecrets } from './checks';
+
+// Export agent class and factory
+export {
+  ReviewerAgent,
+  createReviewerAgent,
+  isReviewedPath,
+  type ReviewerAgentOptions,
+  type ReviewOptions,
+} from './reviewer.agent';
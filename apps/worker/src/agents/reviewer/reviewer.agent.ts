@@ -0,0 +1,350 @@
+/**
+ * Reviewer Agent
+ *
+ * Reviews generated files against the Technical Specification before
+ * they are built: missing pages, components and API routes, security
+ * issues and accessibility. Produces structured findings; acting on them
+ * is up to the caller. Also writes the changelog of each new project
+ * version.
+ */
+
+import { Logger } from '@nestjs/common';
+import { generateObject, NoObjectGeneratedError } from 'ai';
+import type { AIModelConfig } from '@nexusgen/ai';
+import { REVIEWER_SYSTEM_PROMPT, REVIEWER_USER_PROMPT_TEMPLATE } from './prompts/system.prompt';
+import {
+  REVIEWER_CHANGELOG_SYSTEM_PROMPT,
+  REVIEWER_CHANGELOG_USER_PROMPT_TEMPLATE,
+} from './prompts/changelog.prompt';
+import { changelogSchema, reviewSchema } from './schema';
+import { findHardcodedSecrets, findMissingSpecFiles } from './checks';
+import type {
+  Changelog,
+  ChangelogRequest,
+  GeneratedFile,
+  ReviewFinding,
+  ReviewResult,
+  TechnicalSpecification,
+} from './types';
+import { describeStructuredOutputError } from '../structured-output';
+import { createFallbackModel } from '../model-fallback';
+import type { UsageTracker } from '../usage-tracker';
+
+export interface ReviewerAgentOptions {
+  modelConfig?: Partial<AIModelConfig>;
+  /** Models tried in order when a call to the primary model fails */
+  fallbackModels?: AIModelConfig[];
+  maxRetries?: number;
+  /** Maximum characters of file content sent to the model in one review */
+  maxReviewChars?: number;
+}
+
+export interface ReviewOptions {
+  /**
+   * Every source file of the project, for the completeness checks;
+   * defaults to the reviewed files
+   */
+  projectFiles?: GeneratedFile[];
+  /** Findings reported by an earlier review that the model need not repeat */
+  knownFindings?: ReviewFinding[];
+}
+
+/**
+ * Source files worth reviewing; configs, lockfiles and assets are skipped
+ */
+const REVIEWED_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs|html|vue|svelte)$/;
+
+/**
+ * Whether the reviewer reads a file
+ */
+export function isReviewedPath(filePath: string): boolean {
+  return REVIEWED_EXTENSIONS.test(filePath);
+}
+
+/**
+ * Files sent to the model first when not everything fits
+ */
+const REVIEW_PRIORITY: RegExp[] = [/(^|\/)api\//, /(^|\/)(app|pages)\//, /(^|\/)components\//];
+
+export class ReviewerAgent {
+  private readonly logger = new Logger(ReviewerAgent.name);
+  private readonly modelConfig: AIModelConfig;
+  private readonly fallbackModels: AIModelConfig[];
+  private readonly maxRetries: number;
+  private readonly maxReviewChars: number;
+
+  constructor(options: ReviewerAgentOptions = {}) {
+    this.maxRetries = options.maxRetries ?? 2;
+    this.maxReviewChars = options.maxReviewChars ?? 120_000;
+    this.fallbackModels = options.fallbackModels ?? [];
+
+    this.modelConfig = {
+      provider: 'openai',
+      model: 'gpt-4o',
+      temperature: 0.1,
+      maxTokens: 4096,
+      ...options.modelConfig,
+    } as AIModelConfig;
+  }
+
+  /**
+   * Review generated files
+   *
+   * The deterministic checks always run. When the model review fails the
+   * result carries their findings only, so a flaky review never fails a
+   * generation on its own.
+   *
+   * @param spec - The specification the files were generated from
+   * @param files - Files to review, e.g. only the changed files of an edit
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @param options - Project files for the completeness checks
+   */
+  async review(
+    spec: TechnicalSpecification,
+    files: GeneratedFile[],
+    usage?: UsageTracker,
+    options: ReviewOptions = {},
+  ): Promise<ReviewResult> {
+    const reviewed = files.filter((file) => isReviewedPath(file.path));
+    this.logger.log(`Reviewing ${reviewed.length} files of ${spec.projectName}`);
+
+    const checked = [
+      ...findMissingSpecFiles(spec, options.projectFiles ?? files),
+      ...findHardcodedSecrets(reviewed),
+    ];
+
+    let modelFindings: ReviewFinding[] = [];
+    let summary: string | undefined;
+
+    if (reviewed.length > 0) {
+      try {
+        const response = await this.callAI(
+          spec,
+          reviewed,
+          [...(options.knownFindings ?? []), ...checked],
+          usage,
+        );
+        modelFindings = response.findings;
+        summary = response.summary;
+      } catch (error) {
+        this.logger.warn(
+          `Model review skipped: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    const findings = this.dedupe([...checked, ...modelFindings]);
+    const passed = !findings.some((finding) => finding.action === 'block');
+
+    this.logger.log(
+      `Review ${passed ? 'passed' : 'blocked'} with ${findings.length} finding(s)`,
+    );
+
+    return {
+      passed,
+      findings,
+      summary: summary || this.summarize(findings),
+    };
+  }
+
+  /**
+   * Write the changelog of a new project version
+   *
+   * Diffs beyond the review budget are listed by path only.
+   *
+   * @param request - The changes since the previous version
+   * @param usage - Optional tracker that receives the usage of every model call
+   * @throws When no attempt produced a valid changelog
+   */
+  async describeChanges(request: ChangelogRequest, usage?: UsageTracker): Promise<Changelog> {
+    const diffs: string[] = [];
+    const otherChanges = [...request.otherChanges];
+    let chars = 0;
+
+    for (const diff of request.diffs) {
+      if (chars + diff.length > this.maxReviewChars) {
+        const filePath = /^\+\+\+ (?:b\/)?(.+)$/m.exec(diff)?.[1];
+        otherChanges.push(`changed ${filePath ?? 'a file'} (diff not shown)`);
+        continue;
+      }
+      diffs.push(diff);
+      chars += diff.length;
+    }
+
+    const userPrompt = REVIEWER_CHANGELOG_USER_PROMPT_TEMPLATE({ ...request, diffs, otherChanges });
+    let lastError: Error | null = null;
+    let prompt = userPrompt;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const model = createFallbackModel(this.modelConfig, this.fallbackModels, this.logger);
+
+      try {
+        const { object, usage: callUsage } = await generateObject({
+          model,
+          schema: changelogSchema,
+          schemaName: 'Changelog',
+          system: REVIEWER_CHANGELOG_SYSTEM_PROMPT,
+          prompt,
+          temperature: this.modelConfig.temperature,
+          maxTokens: this.modelConfig.maxTokens,
+        });
+
+        usage?.record(
+          'reviewer',
+          'changelog',
+          model.servedBy ?? model.requested,
+          callUsage,
+          true,
+          model.requested,
+        );
+
+        return object;
+      } catch (error) {
+        if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+          usage?.record(
+            'reviewer',
+            'changelog',
+            model.servedBy ?? model.requested,
+            error.usage,
+            false,
+            model.requested,
+          );
+        }
+
+        const feedback = describeStructuredOutputError(error);
+        lastError = new Error(feedback);
+        this.logger.warn(`Changelog call failed (attempt ${attempt}): ${feedback}`);
+
+        prompt = `${userPrompt}\n\n## Previous Attempt Rejected\n${feedback}`;
+      }
+    }
+
+    throw new Error(`Changelog failed after ${this.maxRetries} attempts: ${lastError?.message}`);
+  }
+
+  private async callAI(
+    spec: TechnicalSpecification,
+    files: GeneratedFile[],
+    knownFindings: ReviewFinding[],
+    usage: UsageTracker | undefined,
+  ): Promise<{ findings: ReviewFinding[]; summary: string }> {
+    const { included, omitted } = this.fitToBudget(files);
+    const userPrompt = REVIEWER_USER_PROMPT_TEMPLATE(
+      spec,
+      included,
+      knownFindings,
+      omitted.map((file) => file.path),
+    );
+
+    let lastError: Error | null = null;
+    let prompt = userPrompt;
+
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const model = createFallbackModel(this.modelConfig, this.fallbackModels, this.logger);
+
+      try {
+        const { object, usage: callUsage } = await generateObject({
+          model,
+          schema: reviewSchema,
+          schemaName: 'CodeReview',
+          system: REVIEWER_SYSTEM_PROMPT,
+          prompt,
+          temperature: this.modelConfig.temperature,
+          maxTokens: this.modelConfig.maxTokens,
+        });
+
+        usage?.record(
+          'reviewer',
+          'review',
+          model.servedBy ?? model.requested,
+          callUsage,
+          true,
+          model.requested,
+        );
+
+        return object;
+      } catch (error) {
+        // Output that failed validation was still billed
+        if (NoObjectGeneratedError.isInstance(error) && error.usage) {
+          usage?.record(
+            'reviewer',
+            'review',
+            model.servedBy ?? model.requested,
+            error.usage,
+            false,
+            model.requested,
+          );
+        }
+
+        const feedback = describeStructuredOutputError(error);
+        lastError = new Error(feedback);
+        this.logger.warn(`Review call failed (attempt ${attempt}): ${feedback}`);
+
+        // Tell the model what was wrong with its previous output
+        prompt = `${userPrompt}\n\n## Previous Attempt Rejected\n${feedback}`;
+      }
+    }
+
+    throw new Error(`Review failed after ${this.maxRetries} attempts: ${lastError?.message}`);
+  }
+
+  /**
+   * Pick the files that fit in one prompt, API routes and pages first
+   */
+  private fitToBudget(files: GeneratedFile[]): {
+    included: GeneratedFile[];
+    omitted: GeneratedFile[];
+  } {
+    const rank = (file: GeneratedFile): number => {
+      const index = REVIEW_PRIORITY.findIndex((pattern) => pattern.test(file.path));
+      return index === -1 ? REVIEW_PRIORITY.length : index;
+    };
+
+    const included: GeneratedFile[] = [];
+    const omitted: GeneratedFile[] = [];
+    let chars = 0;
+
+    for (const file of [...files].sort((a, b) => rank(a) - rank(b))) {
+      if (chars + file.content.length > this.maxReviewChars) {
+        omitted.push(file);
+        continue;
+      }
+      included.push(file);
+      chars += file.content.length;
+    }
+
+    if (omitted.length > 0) {
+      this.logger.warn(`Review budget exceeded; ${omitted.length} file(s) not sent to the model`);
+    }
+
+    return { included, omitted };
+  }
+
+  private dedupe(findings: ReviewFinding[]): ReviewFinding[] {
+    const seen = new Set<string>();
+
+    return findings.filter((finding) => {
+      const key = `${finding.category}|${finding.filePath ?? ''}|${finding.message.toLowerCase()}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private summarize(findings: ReviewFinding[]): string {
+    if (findings.length === 0) {
+      return 'No issues found.';
+    }
+
+    const count = (action: ReviewFinding['action']) =>
+      findings.filter((finding) => finding.action === action).length;
+
+    return `${findings.length} finding(s): ${count('block')} blocking, ${count('fix')} to fix, ${count('report')} reported.`;
+  }
+}
+
+export function createReviewerAgent(options?: ReviewerAgentOptions): ReviewerAgent {
+  return new ReviewerAgent(options);
+}
@@ -0,0 +1,30 @@
+/**
+ * Zod Schema for Reviewer Agent Output
+ *
+ * The model only reports findings; whether they block, go back to the
+ * coder or are attached to the result is decided by their `action`.
+ * Changelogs describe the changes of a new project version.
+ */
+
+import { z } from 'zod';
+import type { Changelog, ReviewFinding } from './types';
+
+export const reviewFindingSchema: z.ZodType<ReviewFinding> = z.object({
+  category: z.enum(['completeness', 'security', 'accessibility']),
+  severity: z.enum(['critical', 'high', 'medium', 'low']),
+  action: z.enum(['block', 'fix', 'report']),
+  filePath: z.string().min(1).optional(),
+  message: z.string().min(1),
+  suggestion: z.string().optional(),
+});
+
+export const reviewSchema = z.object({
+  findings: z.array(reviewFindingSchema),
+  summary: z.string(),
+});
+
+export const changelogSchema: z.ZodType<Changelog> = z.object({
+  bump: z.enum(['major', 'minor', 'patch']),
+  title: z.string().min(1).max(80),
+  changelog: z.string().min(1),
+});
@@ -0,0 +1,42 @@
+import type { ReviewFinding, VersionBump } from '@nexusgen/types';
+
+export type { TechnicalSpecification } from '../architect/types';
+export type { GeneratedFile } from '../coder/types';
+export type {
+  ReviewFinding,
+  ReviewFindingAction,
+  ReviewFindingCategory,
+  ReviewFindingSeverity,
+} from '@nexusgen/types';
+
+export interface ReviewResult {
+  /** Whether nothing blocks the generation */
+  passed: boolean;
+  findings: ReviewFinding[];
+  summary: string;
+}
+
+/**
+ * Changes between two versions of a project, to be described in a changelog
+ */
+export interface ChangelogRequest {
+  /** Project name and technical summary, when known */
+  projectSummary?: string;
+  /** What the user asked for in the generation that made the changes */
+  prompt?: string;
+  /** Version the changes were made on; absent for a project's first version */
+  previousVersion?: string;
+  /** Unified diffs of the changed text files */
+  diffs: string[];
+  /** Changes without a diff, e.g. `added public/logo.png` */
+  otherChanges: string[];
+}
+
+export interface Changelog {
+  /** Part of the version number the changes raise */
+  bump: VersionBump;
+  /** Short name of the version */
+  title: string;
+  /** Markdown list of the changes */
+  changelog: string;
+}
@@ -0,0 +1,82 @@
+/**
+ * Structured Output Helpers
+ *
+ * Shared by the agents that generate objects through the provider's
+ * structured-output mode. Turns a failed generation into feedback the
+ * model can act on in its next attempt.
+ */
+
+import { JSONParseError, NoObjectGeneratedError, TypeValidationError } from 'ai';
+import type { ZodError, ZodIssue } from 'zod';
+
+/**
+ * Maximum number of schema issues included in retry feedback
+ */
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Format a zod issue path as a property accessor, e.g. `components[2].path`
+ */
+function formatIssuePath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+
+  return path.reduce<string>(
+    (result, segment) =>
+      typeof segment === 'number' ? `${result}[${segment}]` : result ? `${result}.${segment}` : segment,
+    '',
+  );
+}
+
+/**
+ * Format zod issues as one `- path: message` line each
+ */
+export function formatZodIssues(issues: ZodIssue[]): string {
+  const lines = issues
+    .slice(0, MAX_REPORTED_ISSUES)
+    .map((issue) => `- ${formatIssuePath(issue.path)}: ${issue.message}`);
+
+  if (issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`- ...and ${issues.length - MAX_REPORTED_ISSUES} more`);
+  }
+
+  return lines.join('\n');
+}
+
+function isZodError(error: unknown): error is ZodError {
+  // Checked structurally: `ai` may resolve its own copy of zod
+  return (
+    error instanceof Error &&
+    error.name === 'ZodError' &&
+    Array.isArray((error as ZodError).issues)
+  );
+}
+
+/**
+ * Describe why an object generation failed
+ *
+ * Schema violations are listed by path so a retry can fix exactly the
+ * offending fields. Anything else falls back to the error message.
+ */
+export function describeStructuredOutputError(error: unknown): string {
+  const cause = NoObjectGeneratedError.isInstance(error) ? error.cause : error;
+
+  if (TypeValidationError.isInstance(cause) && isZodError(cause.cause)) {
+    return `The output did not match the schema:\n${formatZodIssues(cause.cause.issues)}`;
+  }
+
+  if (isZodError(cause)) {
+    return `The output did not match the schema:\n${formatZodIssues(cause.issues)}`;
+  }
+
+  if (JSONParseError.isInstance(cause)) {
+    return 'The output was not valid JSON. Respond with a single complete JSON object.';
+  }
+
+  if (cause instanceof Error) {
+    return cause.message;
+  }
+
+  return error instanceof Error ? error.message : 'Unknown error';
+}
@@ -0,0 +1,100 @@
+/**
+ * Usage Tracker
+ *
+ * Collects the token usage of every model call made for one generation,
+ * including failed attempts and self-healing fixes, and prices it with
+ * the model price table from @nexusgen/ai.
+ */
+
+import { calculateCost, type AIModelConfig } from '@nexusgen/ai';
+
+/**
+ * Agent that made a model call
+ */
+export type UsageAgent = 'architect' | 'coder' | 'fixer' | 'reviewer';
+
+/**
+ * Token usage reported by a model call
+ */
+export interface CallTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Usage of a single model call
+ */
+export interface AgentCallUsage extends CallTokenUsage {
+  agent: UsageAgent;
+  /** What the call was for, e.g. `analyze`, `edit`, `fix` */
+  operation: string;
+  /** `provider/model` that served the call */
+  model: string;
+  /** `provider/model` the call was meant for, when a fallback served it */
+  requestedModel?: string;
+  costUsd: number;
+  /** Whether the call produced usable output */
+  success: boolean;
+}
+
+/**
+ * Usage rolled up for a whole generation
+ */
+export interface UsageSummary extends CallTokenUsage {
+  costUsd: number;
+  calls: AgentCallUsage[];
+}
+
+export class UsageTracker {
+  private readonly calls: AgentCallUsage[] = [];
+
+  /**
+   * Record the usage of one model call
+   *
+   * @param modelConfig - The model that served the call
+   * @param requestedConfig - The model the call was meant for, if different
+   */
+  record(
+    agent: UsageAgent,
+    operation: string,
+    modelConfig: AIModelConfig,
+    usage: CallTokenUsage,
+    success: boolean = true,
+    requestedConfig?: AIModelConfig,
+  ): void {
+    const model = `${modelConfig.provider}/${modelConfig.model}`;
+    const requestedModel = requestedConfig
+      ? `${requestedConfig.provider}/${requestedConfig.model}`
+      : undefined;
+
+    this.calls.push({
+      agent,
+      operation,
+      model,
+      requestedModel: requestedModel !== model ? requestedModel : undefined,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.totalTokens,
+      costUsd: calculateCost(modelConfig.provider, modelConfig.model, usage),
+      success,
+    });
+  }
+
+  /**
+   * Totals across all recorded calls
+   */
+  summarize(): UsageSummary {
+    return {
+      promptTokens: this.sum((c) => c.promptTokens),
+      completionTokens: this.sum((c) => c.completionTokens),
+      totalTokens: this.sum((c) => c.totalTokens),
+      costUsd: this.sum((c) => c.costUsd),
+      calls: [...this.calls],
+    };
+  }
+
+  private sum(value: (call: AgentCallUsage) => number): number {
+    return this.calls.reduce((total, call) => total + value(call), 0);
+  }
+}
@@ -13,6 +13,7 @@ import {
   AICompletionResponse,
   AIModelConfig,
 } from '../types';
+import { UsageTracker } from '../agents';
 
 /**
  * AI Orchestrator Service
@@ -37,13 +38,18 @@ export class AIOrchestratorService {
 
   /**
    * Process a generation request through the AI agent pipeline
+   *
+   * @param usage - Collects the usage of every model call the steps make;
+   *   the template steps make none
    */
-  async processGeneration(jobData: GenerationJobData): Promise<GenerationResult> {
+  async processGeneration(
+    jobData: GenerationJobData,
+    usage: UsageTracker = new UsageTracker(),
+  ): Promise<GenerationResult> {
     this.logger.log(`Processing generation: ${jobData.generationId}`);
 
     const steps: AgentStep[] = [];
     const logs: string[] = [];
-    let totalTokens = 0;
 
     try {
       // Step 1: Analyze prompt and understand requirements
@@ -58,7 +64,6 @@ export class AIOrchestratorService {
         },
       );
       steps.push(analyzeStep.step);
-      totalTokens += analyzeStep.tokens;
 
       // Step 2: Plan code structure
       const planStep = await this.executeStep(
@@ -75,7 +80,6 @@ export class AIOrchestratorService {
         },
       );
       steps.push(planStep.step);
-      totalTokens += planStep.tokens;
 
       // Step 3: Generate code
       const generateStep = await this.executeStep(
@@ -89,7 +93,6 @@ export class AIOrchestratorService {
         },
       );
       steps.push(generateStep.step);
-      totalTokens += generateStep.tokens;
 
       // Step 4: Validate and improve
       const validateStep = await this.executeStep(
@@ -105,15 +108,14 @@ export class AIOrchestratorService {
         },
       );
       steps.push(validateStep.step);
-      totalTokens += validateStep.tokens;
 
       logs.push('Generation complete!');
 
       return {
         files: validateStep.result as GeneratedFile[],
         logs,
-        tokensUsed: totalTokens,
-        modelUsed: this.defaultModel,
+        tokensUsed: usage.summarize().totalTokens,
+        modelUsed: usage.summarize().calls[0]?.model ?? this.defaultModel,
       };
     } catch (error) {
       this.logger.error(`Generation failed: ${error}`, (error as Error).stack);
@@ -122,8 +124,8 @@ export class AIOrchestratorService {
       return {
         files: [],
         logs,
-        tokensUsed: totalTokens,
-        modelUsed: this.defaultModel,
+        tokensUsed: usage.summarize().totalTokens,
+        modelUsed: usage.summarize().calls[0]?.model ?? this.defaultModel,
       };
     }
   }
@@ -135,7 +137,7 @@ export class AIOrchestratorService {
     name: string,
     description: string,
     executor: () => Promise<T>,
-  ): Promise<{ step: AgentStep; result: T; tokens: number }> {
+  ): Promise<{ step: AgentStep; result: T }> {
     const step: AgentStep = {
       id: `step_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
       name,
@@ -151,7 +153,7 @@ export class AIOrchestratorService {
       step.durationMs = step.completedAt.getTime() - step.startedAt.getTime();
       step.output = { success: true };
 
-      return { step, result, tokens: Math.floor(Math.random() * 500) + 100 };
+      return { step, result };
     } catch (error) {
       step.status = AgentStepStatus.FAILED;
       step.completedAt = new Date();
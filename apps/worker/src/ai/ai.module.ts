@@ -2,9 +2,12 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { AIOrchestratorService } from './ai-orchestrator.service';
 import { GenerationService } from './generation.service';
+import { GitModule } from '../git/git.module';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
+import { WebsocketsModule } from '../websockets/websockets.module';
 
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, GitModule, SnapshotsModule, WebsocketsModule],
   providers: [AIOrchestratorService, GenerationService],
   exports: [AIOrchestratorService, GenerationService],
 })
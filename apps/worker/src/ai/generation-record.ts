@@ -0,0 +1,55 @@
+/**
+ * Generation Record
+ *
+ * What a sandbox keeps about how it was generated, under `.nexusgen`: the
+ * specification follow-up edits are applied to, and the provenance of the
+ * last generation or edit (job, prompt, models). Exports carry both so a
+ * bundle can be traced back and re-imported with its specification.
+ */
+
+import type { CodebaseSource } from '@nexusgen/types';
+import type { UsageAgent, UsageSummary } from '../agents/usage-tracker';
+
+/**
+ * Sandbox path of the specification a project was generated from
+ */
+export const SPEC_FILE_PATH = '.nexusgen/spec.json';
+
+/**
+ * Sandbox path of the provenance of the last generation or edit
+ */
+export const PROVENANCE_FILE_PATH = '.nexusgen/generation.json';
+
+/**
+ * How the sandbox's current code came to be
+ */
+export interface GenerationProvenance {
+  /** Generation job that last changed the code */
+  generationId?: string;
+  mode: 'create' | 'edit' | 'import';
+  prompt: string;
+  /** `provider/model` that served the calls of each agent, in call order */
+  models: Partial<Record<UsageAgent, string[]>>;
+  /** ISO timestamp */
+  generatedAt: string;
+  /** Project the code was exported from, for imported bundles */
+  importedFrom?: string;
+  /** Repository or archive the code came from, for imported codebases */
+  source?: CodebaseSource;
+}
+
+/**
+ * The models that served each agent's calls
+ */
+export function modelsUsed(usage: UsageSummary): GenerationProvenance['models'] {
+  const models: GenerationProvenance['models'] = {};
+
+  for (const call of usage.calls) {
+    const served = (models[call.agent] ??= []);
+    if (!served.includes(call.model)) {
+      served.push(call.model);
+    }
+  }
+
+  return models;
+}
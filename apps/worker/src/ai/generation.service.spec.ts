@@ -0,0 +1,132 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { PrismaService } from '../database';
+import type { GitService } from '../git';
+import type { QueuesService } from '../queues';
+import { DockerService } from '../services/docker.service';
+import type { SnapshotsService } from '../snapshots';
+import type { WebsocketsGateway } from '../websockets/websockets.gateway';
+import { GenerationService } from './generation.service';
+
+/**
+ * The scripted coder response in `fixtures/ai` refers to an undefined
+ * `drafts`; a Next.js build of it fails with this error
+ */
+const BUILD_ERROR = [
+  'Failed to compile.',
+  '',
+  './src/components/TodoList.tsx:15:33',
+  "Type error: Cannot find name 'drafts'. Did you mean 'draft'?",
+];
+
+describe('GenerationService offline', () => {
+  const env = { ...process.env };
+  let basePath: string;
+  let service: GenerationService;
+  let snapshots: { capture: jest.Mock; recordBuild: jest.Mock };
+  let buildImage: jest.SpyInstance;
+
+  beforeAll(() => {
+    Logger.overrideLogger(false);
+  });
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'nexusgen-healing-'));
+    Object.assign(process.env, {
+      AI_PROVIDER: 'mock',
+      AI_MODEL: 'offline',
+      AI_FALLBACK_MODELS: 'none',
+      AI_MOCK_MODE: 'replay',
+      AI_MOCK_FIXTURES_DIR: path.join(__dirname, '../../fixtures/ai'),
+      AI_REVIEW_ENABLED: 'false',
+      STATIC_CHECK_MODE: 'off',
+      SANDBOX_BASE_PATH: basePath,
+    });
+
+    // Stands in for `docker build`: fails while the sandbox still has the error
+    buildImage = jest
+      .spyOn(DockerService.prototype, 'buildImage')
+      .mockImplementation(async (_projectId, sandboxPath) => {
+        const todoList = await fs.readFile(
+          path.join(sandboxPath, 'src/components/TodoList.tsx'),
+          'utf-8',
+        );
+        return todoList.includes('drafts')
+          ? { success: false, logs: BUILD_ERROR, error: 'next build exited with code 1' }
+          : { success: true, imageId: 'offline-image', logs: [] };
+      });
+
+    let snapshotCount = 0;
+    snapshots = {
+      capture: jest.fn(async () => ({ id: `snapshot-${++snapshotCount}` })),
+      recordBuild: jest.fn(async () => undefined),
+    };
+
+    service = new GenerationService(
+      new ConfigService(),
+      new EventEmitter2(),
+      {} as QueuesService,
+      snapshots as unknown as SnapshotsService,
+      { emitFileGenerated: jest.fn() } as unknown as WebsocketsGateway,
+      { commitSandbox: jest.fn(async () => null) } as unknown as GitService,
+      {} as PrismaService,
+    );
+  });
+
+  afterEach(async () => {
+    buildImage.mockRestore();
+    process.env = { ...env };
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('heals a failed build with the scripted fixer patch', async () => {
+    const result = await service.generateWithHealing(
+      {
+        projectId: 'offline-project',
+        prompt: 'A todo list I can use offline',
+        userId: 'offline-user',
+        generationId: 'offline-generation',
+      },
+      2,
+    );
+
+    expect(result.error).toBeUndefined();
+    expect(result).toMatchObject({
+      success: true,
+      healingAttempts: 1,
+      healingSucceeded: true,
+      snapshotId: 'snapshot-2',
+    });
+    expect(result.healingErrors?.[0]).toContain("Cannot find name 'drafts'");
+    expect(buildImage).toHaveBeenCalledTimes(2);
+
+    const todoList = await fs.readFile(
+      path.join(basePath, 'offline-project/src/components/TodoList.tsx'),
+      'utf-8',
+    );
+    expect(todoList).toContain('setTodos([...todos, draft.trim()]);');
+    expect(result.files?.find((file) => file.path === 'src/components/TodoList.tsx')?.content).toBe(
+      todoList,
+    );
+
+    // The failed generation output and the healed attempt are both snapshotted
+    expect(snapshots.capture.mock.calls.map(([input]) => [input.reason, input.attempt])).toEqual([
+      ['generation', 0],
+      ['healing', 1],
+    ]);
+    expect(snapshots.recordBuild).toHaveBeenCalledWith(
+      'snapshot-1',
+      expect.objectContaining({ success: false }),
+    );
+
+    expect(result.usage?.calls.map((call) => [call.agent, call.model])).toEqual([
+      ['architect', 'mock/offline'],
+      ['coder', 'mock/offline'],
+      ['fixer', 'mock/offline'],
+    ]);
+  });
+});
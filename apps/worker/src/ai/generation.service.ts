@@ -1,6 +1,9 @@
-import { Injectable, Logger, Inject } from '@nestjs/common';
+import { Injectable, Logger, Inject, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { isUUID } from 'class-validator';
 import { QueuesService } from '../queues';
 import {
   GenerationJobData,
@@ -8,24 +11,102 @@ import {
 } from '../types/generation.types';
 import { GeneratedFile } from '@nexusgen/types';
 import {
-  type AIModelConfig,
-  DEFAULT_MODEL_CONFIGS,
-} from '@nexusgen/ai';
+  describeModelRoute,
+  findUnavailableLocalModels,
+  resolveModelRoute,
+  type AgentRole,
+  type ModelRoute,
+} from './model-routing';
+import {
+  PROVENANCE_FILE_PATH,
+  SPEC_FILE_PATH,
+  modelsUsed,
+  type GenerationProvenance,
+} from './generation-record';
 
 // Import agents from the agents directory
 import {
   ArchitectAgent,
   CoderAgent,
+  ReviewerAgent,
+  UsageTracker,
+  collectCodebaseContext,
+  isReviewedPath,
+  type ReviewFinding,
+  type ReviewResult,
+  type SpecificationDelta,
   type TechnicalSpecification,
   type UploadedAsset,
+  type UsageSummary,
 } from '../agents';
 
-// Import file writer from utils
-import { SandboxFileWriter } from '../utils';
+// Import file writer and diff helper from utils
+import { IGNORED_DIRECTORIES, SandboxFileWriter, createUnifiedDiff } from '../utils';
 
 // Import Docker service for build validation
 import { DockerService } from '../services/docker.service';
 
+// Import the container scaffold written after every generation
+import { ProjectScaffolder, SCAFFOLD_FILE_PATHS, isScaffoldPath } from '../scaffold';
+
+// Import the targeted healing helpers
+import { FixContextLoader, errorSignature, locateErrors, type ErrorLocation } from '../healing';
+
+// Import the static checks that run before the Docker build
+import {
+  StaticChecker,
+  STATIC_CHECK_MODES,
+  formatDiagnostics,
+  type StaticCheckMode,
+  type StaticDiagnostic,
+} from '../validation';
+
+// Import the loader that fetches uploaded images for the architect
+import { AssetLoader } from '../assets';
+
+// Import the snapshots recorded after each generation and healing attempt
+import { SnapshotsService, type CaptureSnapshotInput } from '../snapshots';
+
+// Import the Git repository each snapshotted state is also committed to
+import { GitService } from '../git';
+
+// Import the database, to tell imported projects from generated ones
+import { PrismaService } from '../database';
+
+// Import the gateway that streams generated files to the project terminal
+import { WebsocketsGateway } from '../websockets/websockets.gateway';
+
+/**
+ * Largest imported file the architect reads
+ */
+const MAX_CODEBASE_FILE_BYTES = 512 * 1024;
+
+/**
+ * Files as read from or written to the sandbox
+ */
+type SourceFile = Pick<GeneratedFile, 'path' | 'content'>;
+
+/**
+ * Outcome of reviewing a generation and fixing what the review asked for
+ */
+interface ReviewOutcome {
+  review: ReviewResult;
+  /** Files rewritten to address `fix` findings */
+  fixedFiles: SourceFile[];
+  /** Content before the review fix, for fixed files that already existed */
+  previousContent: Map<string, string>;
+}
+
+/**
+ * Outcome of validating the generated code
+ */
+export interface ValidationResult {
+  success: boolean;
+  errorLog?: string;
+  /** Compiler and lint errors, when the static checks failed */
+  diagnostics?: StaticDiagnostic[];
+}
+
 /**
  * Healing context for tracking self-healing attempts
  */
@@ -38,6 +119,10 @@ export interface HealingContext {
   previousErrors: string[];
   /** Array of file paths that have been fixed */
   fixedFiles: string[];
+  /** Signatures of the errors seen so far; a repeat ends healing early */
+  errorSignatures: string[];
+  /** Snapshots of the sandbox, the generation output first, then one per attempt */
+  snapshotIds: string[];
 }
 
 /**
@@ -56,33 +141,41 @@ export interface HealingGenerationResult extends GenerationResult {
  * Generation Service
  *
  * Orchestrates the code generation process by coordinating
- * the ArchitectAgent and CoderAgent.
+ * the ArchitectAgent, CoderAgent and ReviewerAgent.
  */
 @Injectable()
-export class GenerationService {
+export class GenerationService implements OnModuleInit {
   private readonly logger = new Logger(GenerationService.name);
+  private readonly modelRoutes: Record<AgentRole, ModelRoute>;
   private readonly architectAgent: ArchitectAgent;
   private readonly coderAgent: CoderAgent;
+  private readonly fixerAgent: CoderAgent;
+  private readonly reviewerAgent: ReviewerAgent | null;
   private readonly fileWriter: SandboxFileWriter;
+  private readonly scaffolder: ProjectScaffolder;
   private readonly dockerService: DockerService;
+  private readonly staticChecker: StaticChecker;
+  private readonly fixContextLoader: FixContextLoader;
+  private readonly assetLoader: AssetLoader;
+  private readonly codebaseTokenBudget: number;
 
   constructor(
     private readonly configService: ConfigService,
     private readonly eventEmitter: EventEmitter2,
     @Inject('QUEUE_SERVICE') private readonly queuesService: QueuesService,
+    private readonly snapshotsService: SnapshotsService,
+    private readonly websocketsGateway: WebsocketsGateway,
+    private readonly gitService: GitService,
+    private readonly prisma: PrismaService,
   ) {
-    // Get AI provider configuration from environment
-    const provider = this.configService.get<string>('AI_PROVIDER', 'openai') as 'openai' | 'anthropic' | 'google';
-    const model = this.configService.get<string>('AI_MODEL', DEFAULT_MODEL_CONFIGS[provider].model);
+    // Get the sampling settings from environment; models are routed per agent role
     const temperature = this.configService.get<number>('AI_TEMPERATURE', 0.7);
     const maxTokens = this.configService.get<number>('AI_MAX_TOKENS', 8192);
-
-    // Build the model configuration
-    const modelConfig: AIModelConfig = {
-      provider,
-      model,
-      temperature,
-      maxTokens,
+    this.modelRoutes = {
+      architect: resolveModelRoute(this.configService, 'architect', { temperature, maxTokens }),
+      coder: resolveModelRoute(this.configService, 'coder', { temperature, maxTokens }),
+      fixer: resolveModelRoute(this.configService, 'fixer', { temperature, maxTokens }),
+      reviewer: resolveModelRoute(this.configService, 'reviewer', { temperature: 0.1, maxTokens }),
     };
 
     // Initialize the sandbox file writer
@@ -91,48 +184,145 @@ export class GenerationService {
       '/tmp/nexusgen-builds'
     );
     this.fileWriter = new SandboxFileWriter({ basePath: sandboxBasePath });
+    this.scaffolder = new ProjectScaffolder(this.fileWriter);
+    this.fixContextLoader = new FixContextLoader(this.fileWriter);
+
+    // Uploaded assets are read from the bucket the web app uploads to;
+    // URLs only from the origins in ASSET_URL_ORIGINS
+    this.assetLoader = new AssetLoader({
+      bucket: this.configService.get<string>('S3_BUCKET'),
+      region: this.configService.get<string>('S3_REGION'),
+      endpoint: this.configService.get<string>('S3_ENDPOINT'),
+      accessKeyId: this.configService.get<string>('S3_ACCESS_KEY_ID'),
+      secretAccessKey: this.configService.get<string>('S3_SECRET_ACCESS_KEY'),
+      urlOrigins: this.configService
+        .get<string>('ASSET_URL_ORIGINS', '')
+        .split(',')
+        .map((origin) => origin.trim())
+        .filter(Boolean),
+    });
+
+    // Tokens of file content the architect reads of an imported codebase
+    this.codebaseTokenBudget = Number(this.configService.get<string>('CODEBASE_CONTEXT_TOKENS', '40000'));
 
     // Initialize the Architect Agent with model configuration
     this.architectAgent = new ArchitectAgent({
-      modelConfig,
+      ...this.modelRoutes.architect,
       maxRetries: 3,
+      documentTokenBudget: Number(this.configService.get<string>('DOCUMENT_CONTEXT_TOKENS', '12000')),
       verbose: this.configService.get<boolean>('DEBUG', false),
     });
 
     // Initialize the Coder Agent with file writer and model configuration
     this.coderAgent = new CoderAgent(this.fileWriter, {
-      modelConfig,
+      ...this.modelRoutes.coder,
+      maxRetries: 3,
+      chunkConfig: {
+        concurrency: Number(this.configService.get<string>('CODER_CONCURRENCY', '3')),
+      },
+    });
+
+    // The fixer is a Coder Agent on its own route, used to heal failed builds
+    this.fixerAgent = new CoderAgent(this.fileWriter, {
+      ...this.modelRoutes.fixer,
+      agent: 'fixer',
       maxRetries: 3,
     });
 
+    // Initialize the Reviewer Agent; AI_REVIEW_ENABLED=false skips the review stage
+    this.reviewerAgent =
+      this.configService.get<string>('AI_REVIEW_ENABLED', 'true') === 'false'
+        ? null
+        : new ReviewerAgent({
+            ...this.modelRoutes.reviewer,
+            maxRetries: 2,
+          });
+
     // Initialize the Docker service for build validation
     this.dockerService = new DockerService(this.configService, this.queuesService);
 
+    // Type-check and lint before building; STATIC_CHECK_MODE=off goes straight to Docker
+    const staticCheckMode = this.configService.get<string>('STATIC_CHECK_MODE', 'container');
+    if (!STATIC_CHECK_MODES.includes(staticCheckMode as StaticCheckMode)) {
+      this.logger.warn(`Unknown STATIC_CHECK_MODE "${staticCheckMode}", using container`);
+    }
+    this.staticChecker = new StaticChecker(this.fileWriter, {
+      mode: STATIC_CHECK_MODES.includes(staticCheckMode as StaticCheckMode)
+        ? (staticCheckMode as StaticCheckMode)
+        : 'container',
+      image: this.configService.get<string>('STATIC_CHECK_IMAGE', 'node:20-alpine'),
+      timeoutMs: Number(this.configService.get<string>('STATIC_CHECK_TIMEOUT_MS', '300000')),
+      dockerService: this.dockerService,
+    });
+
     this.logger.log(
-      `GenerationService initialized with ${provider}/${model}`,
+      `GenerationService initialized with models ${Object.entries(this.modelRoutes)
+        .map(([role, route]) => `${role}: ${describeModelRoute(route)}`)
+        .join('; ')}`,
     );
   }
 
+  /**
+   * Warn about routed local models the local model server does not serve
+   */
+  async onModuleInit(): Promise<void> {
+    try {
+      const unavailable = await findUnavailableLocalModels(Object.values(this.modelRoutes));
+      if (unavailable.length > 0) {
+        this.logger.warn(
+          `Local model server does not list routed model(s): ${unavailable.join(', ')}`,
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Could not list local models: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Process a generation job
+   *
+   * @param jobData - The generation job data
+   * @param usage - Tracker for the model calls; pass one to keep counting across healing
    */
-  async processGeneration(jobData: GenerationJobData): Promise<GenerationResult> {
+  async processGeneration(
+    jobData: GenerationJobData,
+    usage: UsageTracker = new UsageTracker(),
+  ): Promise<GenerationResult> {
     const { projectId, prompt, assets, userId, settings } = jobData;
 
+    if (jobData.mode === 'import') {
+      return this.processImport(jobData, usage);
+    }
+
+    if (jobData.mode === 'edit') {
+      const storedSpec = await this.loadSpecification(projectId);
+      if (storedSpec) {
+        return this.processEdit(jobData, storedSpec, usage);
+      }
+      this.logger.warn(`No stored specification for project ${projectId}, generating from scratch`);
+    }
+
     this.logger.log(`Starting generation for project: ${projectId}`);
 
     try {
-      // Convert asset strings to UploadedAsset format if provided
-      const uploadedAssets: UploadedAsset[] | undefined = assets?.map((url, index) => ({
-        id: `asset-${index}`,
-        filename: url.split('/').pop() || `asset-${index}`,
-        mimeType: 'application/octet-stream', // Will be determined by actual file
-        url,
-      }));
+      // Fetch uploaded assets; images are described and long documents
+      // summarised before the specification is written
+      let uploadedAssets: UploadedAsset[] | undefined;
+      if (assets?.length) {
+        this.emitProgress(projectId, 'analyzing', 5, `Analyzing ${assets.length} uploaded asset(s)`);
+        uploadedAssets = await this.architectAgent.analyzeAssets(
+          await this.assetLoader.load(assets, userId),
+          prompt,
+          usage,
+        );
+        uploadedAssets = await this.architectAgent.condenseDocuments(uploadedAssets, prompt, usage);
+      }
 
       // Step 1: Architect Agent analyzes the prompt and creates a technical specification
       this.logger.log('Running Architect Agent to create technical specification...');
-      const architectResponse = await this.architectAgent.analyze(prompt, uploadedAssets);
+      const architectResponse = await this.architectAgent.analyze(prompt, uploadedAssets, usage);
 
       if (!architectResponse.success || !architectResponse.specification) {
         throw new Error(
@@ -147,24 +337,85 @@ export class GenerationService {
 
       // Step 2: Coder Agent generates the code files
       this.logger.log('Running Coder Agent to generate code files...');
-      const coderOutput = await this.coderAgent.generate(spec, projectId);
+      let filesGenerated = 0;
+      const coderOutput = await this.coderAgent.generate(
+        spec,
+        projectId,
+        usage,
+        'generate',
+        (file) => {
+          filesGenerated++;
+          this.websocketsGateway.emitFileGenerated({
+            projectId,
+            generationId: jobData.generationId,
+            path: file.path,
+            size: file.content.length,
+            filesGenerated,
+          });
+        },
+      );
+
+      // Step 3: Write the container files the project is built with
+      const scaffold = await this.scaffolder.apply(projectId, spec, settings?.framework, {
+        imported: await this.isImportedProject(projectId),
+      });
+      spec.framework = scaffold.frameworkConfig;
 
       // Convert GeneratedFile format from coder agent to the expected format
-      const files: GeneratedFile[] = coderOutput.files.map((file) => ({
-        path: file.path,
-        content: file.content,
-        language: this.getLanguageFromPath(file.path),
-        isNew: true,
-      }));
+      const files: GeneratedFile[] = this.mergeFiles(
+        coderOutput.files.map((file) => ({
+          path: file.path,
+          content: file.content,
+          language: this.getLanguageFromPath(file.path),
+          isNew: true,
+        })),
+        scaffold.files.map((file) => ({
+          path: file.path,
+          content: file.content,
+          language: this.getLanguageFromPath(file.path),
+          isNew: true,
+        })),
+      );
+
+      // Step 4: Reviewer Agent checks the code; fixable findings go back to the Coder
+      const reviewed = await this.reviewGeneration(projectId, spec, coderOutput.files, usage);
+      const reviewedFiles = reviewed
+        ? this.mergeFiles(
+            files,
+            reviewed.fixedFiles.map((file) => ({
+              path: file.path,
+              content: file.content,
+              language: this.getLanguageFromPath(file.path),
+              isNew: true,
+            })),
+          )
+        : files;
+
+      // Keep the specification so follow-up prompts can be applied as edits
+      await this.saveSpecification(projectId, spec);
+      await this.saveProvenance(jobData, 'create', usage);
 
       const sandboxPath = this.fileWriter.getProjectPath(projectId);
-      this.logger.log(`Generated ${files.length} files to sandbox: ${sandboxPath}`);
+
+      if (reviewed && !reviewed.review.passed) {
+        return this.reviewBlocked(reviewed.review, spec, reviewedFiles, sandboxPath, usage);
+      }
+
+      this.logger.log(`Generated ${reviewedFiles.length} files to sandbox: ${sandboxPath}`);
 
       return {
         success: true,
         spec,
-        files,
+        files: reviewedFiles,
         sandboxPath,
+        usage: usage.summarize(),
+        review: reviewed?.review,
+        snapshotId: await this.captureSnapshot({
+          projectId,
+          generationId: jobData.generationId,
+          attempt: 0,
+          reason: 'generation',
+        }),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -176,10 +427,575 @@ export class GenerationService {
         success: false,
         error: errorMessage,
         errorDetails,
+        usage: usage.summarize(),
+      };
+    }
+  }
+
+  /**
+   * Apply a follow-up prompt to an existing project
+   *
+   * The Architect plans a delta against the stored specification and the
+   * files in the sandbox; the Coder rewrites only the affected files.
+   * Returned files carry a unified diff against their previous content.
+   */
+  private async processEdit(
+    jobData: GenerationJobData,
+    spec: TechnicalSpecification,
+    usage: UsageTracker,
+  ): Promise<GenerationResult> {
+    const { projectId, prompt } = jobData;
+
+    this.logger.log(`Starting incremental edit for project: ${projectId}`);
+
+    try {
+      const filePaths = await this.listProjectFiles(projectId);
+
+      // Step 1: Architect Agent plans the change
+      this.logger.log('Running Architect Agent to plan the edit...');
+      const architectResponse = await this.architectAgent.planEdit(prompt, spec, filePaths, usage);
+
+      if (!architectResponse.success || !architectResponse.delta || !architectResponse.specification) {
+        throw new Error(
+          architectResponse.error?.message || 'Architect Agent failed to plan the edit'
+        );
+      }
+
+      const { delta, specification: updatedSpec } = architectResponse;
+      this.logger.log(`Edit planned: "${delta.summary}" touching ${delta.files.length} files`);
+
+      // Keep the current content of every affected file for the diffs
+      const existingPaths = new Set(filePaths);
+      const originals = new Map<string, string>();
+      for (const change of delta.files) {
+        if (existingPaths.has(change.path)) {
+          originals.set(change.path, await this.fileWriter.readFile(projectId, change.path));
+        }
+      }
+
+      const currentFiles = delta.files
+        .filter((change) => change.action === 'modify' && originals.has(change.path))
+        .map((change) => ({ path: change.path, content: originals.get(change.path)! }));
+
+      // Step 2: Coder Agent rewrites the affected files
+      this.logger.log('Running Coder Agent to apply the edit...');
+      const coderOutput = await this.coderAgent.edit(
+        updatedSpec,
+        delta,
+        currentFiles,
+        projectId,
+        usage,
+      );
+
+      // Restore the container files in case the edit touched them
+      const scaffold = await this.scaffolder.apply(
+        projectId,
+        updatedSpec,
+        jobData.settings?.framework,
+        { imported: await this.isImportedProject(projectId) },
+      );
+      updatedSpec.framework = scaffold.frameworkConfig;
+      const scaffolded = new Map(scaffold.files.map((file) => [file.path, file.content]));
+
+      // Step 3: Reviewer Agent checks the changed files
+      const reviewed = await this.reviewGeneration(
+        projectId,
+        updatedSpec,
+        coderOutput.files.filter((file) => !isScaffoldPath(file.path)),
+        usage,
+      );
+
+      // Review fixes replace the edited content; files the edit left alone
+      // are diffed against their content before the fix
+      const written = new Map(coderOutput.files.map((file) => [file.path, file.content]));
+      for (const file of reviewed?.fixedFiles ?? []) {
+        const previous = reviewed!.previousContent.get(file.path);
+        if (!written.has(file.path) && previous !== undefined) {
+          originals.set(file.path, previous);
+        }
+        written.set(file.path, file.content);
+      }
+
+      const changedFiles: GeneratedFile[] = [...written]
+        .filter(([filePath]) => !isScaffoldPath(filePath))
+        .map(([filePath, writtenContent]) => {
+          const content = scaffolded.get(filePath) ?? writtenContent;
+          return {
+            path: filePath,
+            content,
+            language: this.getLanguageFromPath(filePath),
+            isNew: !originals.has(filePath),
+            diff: createUnifiedDiff(filePath, originals.get(filePath) ?? '', content),
+          };
+        });
+
+      // Deleted files are reported with empty content and a removal diff
+      const deletedFiles: GeneratedFile[] = (coderOutput.deletedFiles ?? [])
+        .filter((filePath) => originals.has(filePath) && !isScaffoldPath(filePath))
+        .map((filePath) => ({
+          path: filePath,
+          content: '',
+          language: this.getLanguageFromPath(filePath),
+          isNew: false,
+          diff: createUnifiedDiff(filePath, originals.get(filePath)!, ''),
+        }));
+
+      const files = [...changedFiles, ...deletedFiles].filter((file) => file.diff);
+
+      await this.saveSpecification(projectId, updatedSpec);
+      await this.saveProvenance(jobData, 'edit', usage);
+
+      const sandboxPath = this.fileWriter.getProjectPath(projectId);
+
+      if (reviewed && !reviewed.review.passed) {
+        return this.reviewBlocked(reviewed.review, updatedSpec, files, sandboxPath, usage);
+      }
+
+      this.logger.log(`Edit changed ${files.length} files in sandbox: ${sandboxPath}`);
+
+      return {
+        success: true,
+        spec: updatedSpec,
+        files,
+        sandboxPath,
+        usage: usage.summarize(),
+        review: reviewed?.review,
+        snapshotId: await this.captureSnapshot({
+          projectId,
+          generationId: jobData.generationId,
+          attempt: 0,
+          reason: 'edit',
+        }),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorDetails = error instanceof Error ? { stack: error.stack } : {};
+
+      this.logger.error(`Edit failed for project ${projectId}: ${errorMessage}`, error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        errorDetails,
+        usage: usage.summarize(),
       };
     }
   }
 
+  /**
+   * Specify a codebase the sandbox was seeded with
+   *
+   * The Architect reads the imported files and writes the specification
+   * they could have been generated from; nothing the user imported is
+   * rewritten. A codebase without a Dockerfile gets the scaffold's
+   * container files, and fails to import when its framework is not one
+   * the scaffold knows. Follow-up prompts then run as edits.
+   */
+  private async processImport(
+    jobData: GenerationJobData,
+    usage: UsageTracker,
+  ): Promise<GenerationResult> {
+    const { projectId, prompt, settings } = jobData;
+
+    this.logger.log(`Starting import for project: ${projectId}`);
+
+    try {
+      const filePaths = await this.listProjectFiles(projectId);
+      if (filePaths.length === 0) {
+        throw new Error('The project has no imported files');
+      }
+
+      // Step 1: Architect Agent reads the codebase and writes its specification
+      this.emitProgress(projectId, 'analyzing', 10, `Reading ${filePaths.length} imported files`);
+      const codebase = await collectCodebaseContext(
+        filePaths,
+        (filePath) => this.readTextFile(projectId, filePath),
+        this.codebaseTokenBudget,
+      );
+
+      this.logger.log('Running Architect Agent to specify the imported codebase...');
+      const architectResponse = await this.architectAgent.reverseEngineer(codebase, prompt, usage);
+
+      if (!architectResponse.success || !architectResponse.specification) {
+        throw new Error(
+          architectResponse.error?.message || 'Architect Agent failed to specify the codebase'
+        );
+      }
+
+      const spec = architectResponse.specification;
+      this.logger.log(
+        `Imported codebase specified as "${spec.projectName}" with ${spec.components.length} components, ${spec.pages.length} pages`,
+      );
+
+      // Step 2: Add the container files the codebase lacks; the imported
+      // package.json, not the Architect's reading of it, decides the framework
+      this.emitProgress(projectId, 'writing', 70, 'Writing container files');
+      const scaffold = await this.scaffolder.apply(
+        projectId,
+        { ...spec, framework: undefined },
+        settings?.framework,
+        { imported: true },
+      );
+      spec.framework = scaffold.frameworkConfig;
+
+      await this.saveSpecification(projectId, spec);
+      await this.saveProvenance(jobData, 'import', usage);
+
+      const sandboxPath = this.fileWriter.getProjectPath(projectId);
+      this.logger.log(`Import specified ${filePaths.length} files in sandbox: ${sandboxPath}`);
+
+      return {
+        success: true,
+        spec,
+        files: scaffold.files.map((file) => ({
+          path: file.path,
+          content: file.content,
+          language: this.getLanguageFromPath(file.path),
+          isNew: !filePaths.includes(file.path),
+        })),
+        sandboxPath,
+        usage: usage.summarize(),
+        snapshotId: await this.captureSnapshot({
+          projectId,
+          generationId: jobData.generationId,
+          attempt: 0,
+          reason: 'import',
+        }),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorDetails = error instanceof Error ? { stack: error.stack } : {};
+
+      this.logger.error(`Import failed for project ${projectId}: ${errorMessage}`, error);
+
+      return {
+        success: false,
+        error: errorMessage,
+        errorDetails,
+        usage: usage.summarize(),
+      };
+    }
+  }
+
+  /**
+   * Review generated files and let the Coder fix what the review asks for
+   *
+   * Findings marked `fix` get one round of fixes through the Coder, after
+   * which the touched files are reviewed again. Fixable findings that are
+   * still open then are reported rather than fixed again.
+   *
+   * @returns null when the review stage is disabled
+   */
+  private async reviewGeneration(
+    projectId: string,
+    spec: TechnicalSpecification,
+    files: SourceFile[],
+    usage: UsageTracker,
+  ): Promise<ReviewOutcome | null> {
+    if (!this.reviewerAgent) {
+      return null;
+    }
+
+    this.emitProgress(projectId, 'validating', 40, 'Reviewing generated code');
+    this.logger.log('Running Reviewer Agent on the generated code...');
+
+    const review = await this.reviewerAgent.review(spec, files, usage, {
+      projectFiles: await this.readSourceFiles(projectId),
+    });
+
+    // Findings without a file cannot be handed to the Coder
+    const toFix = review.findings.filter(
+      (finding) => finding.action === 'fix' && finding.filePath && !isScaffoldPath(finding.filePath),
+    );
+
+    if (!review.passed || toFix.length === 0) {
+      return { review: this.reportUnfixed(review), fixedFiles: [], previousContent: new Map() };
+    }
+
+    this.emitProgress(projectId, 'validating', 45, `Fixing ${toFix.length} review finding(s)`);
+
+    const previousContent = new Map<string, string>();
+    let fixedFiles: SourceFile[] = [];
+
+    try {
+      fixedFiles = await this.fixReviewFindings(projectId, spec, toFix, previousContent, usage);
+    } catch (error) {
+      this.logger.warn(
+        `Review fixes failed for project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    if (fixedFiles.length === 0) {
+      return { review: this.reportUnfixed(review), fixedFiles, previousContent };
+    }
+
+    // Put back anything the fix did to the container setup
+    const scaffold = await this.scaffolder.apply(projectId, spec, undefined, {
+      imported: await this.isImportedProject(projectId),
+    });
+    const scaffolded = new Map(scaffold.files.map((file) => [file.path, file.content]));
+    fixedFiles = fixedFiles
+      .filter((file) => !isScaffoldPath(file.path))
+      .map((file) => ({ path: file.path, content: scaffolded.get(file.path) ?? file.content }));
+
+    // Re-review what the fixes touched; other findings stand as they were
+    const fixedPaths = new Set(fixedFiles.map((file) => file.path));
+    const untouched = review.findings.filter(
+      (finding) => !toFix.includes(finding) && !(finding.filePath && fixedPaths.has(finding.filePath)),
+    );
+    const recheck = await this.reviewerAgent.review(spec, fixedFiles, usage, {
+      projectFiles: await this.readSourceFiles(projectId),
+      knownFindings: untouched,
+    });
+
+    const findings = [...untouched, ...recheck.findings];
+
+    return {
+      review: this.reportUnfixed({
+        passed: !findings.some((finding) => finding.action === 'block'),
+        findings,
+        summary: recheck.summary,
+      }),
+      fixedFiles,
+      previousContent,
+    };
+  }
+
+  /**
+   * Have the Coder rewrite the files named by review findings
+   *
+   * @param previousContent - Receives the content of each rewritten file before the fix
+   * @returns The rewritten files
+   */
+  private async fixReviewFindings(
+    projectId: string,
+    spec: TechnicalSpecification,
+    findings: ReviewFinding[],
+    previousContent: Map<string, string>,
+    usage: UsageTracker,
+  ): Promise<SourceFile[]> {
+    const byPath = new Map<string, ReviewFinding[]>();
+    for (const finding of findings) {
+      byPath.set(finding.filePath!, [...(byPath.get(finding.filePath!) ?? []), finding]);
+    }
+
+    const currentFiles: SourceFile[] = [];
+    for (const filePath of byPath.keys()) {
+      if (await this.fileWriter.exists(projectId, filePath)) {
+        const content = await this.fileWriter.readFile(projectId, filePath);
+        previousContent.set(filePath, content);
+        currentFiles.push({ path: filePath, content });
+      }
+    }
+
+    const delta: SpecificationDelta = {
+      summary: `Address ${findings.length} code review finding(s)`,
+      files: [...byPath].map(([filePath, fileFindings]) => ({
+        path: filePath,
+        action: previousContent.has(filePath) ? 'modify' : 'create',
+        description: fileFindings
+          .map((finding) =>
+            `[${finding.category}] ${finding.message}${finding.suggestion ? ` (${finding.suggestion})` : ''}`,
+          )
+          .join('; '),
+      })),
+      implementationNotes: [
+        'Only resolve the review findings listed for each file; keep everything else as it is.',
+        `Do not change ${SCAFFOLD_FILE_PATHS.join(', ')}; the container setup is provided by the platform.`,
+      ],
+    };
+
+    const coderOutput = await this.coderAgent.edit(
+      spec,
+      delta,
+      currentFiles,
+      projectId,
+      usage,
+      'review-fix',
+    );
+
+    this.logger.log(`Fixed ${coderOutput.files.length} file(s) from review findings`);
+
+    return coderOutput.files;
+  }
+
+  /**
+   * Report fixable findings that were not fixed
+   */
+  private reportUnfixed(review: ReviewResult): ReviewResult {
+    return {
+      ...review,
+      findings: review.findings.map((finding) =>
+        finding.action === 'fix' ? { ...finding, action: 'report' } : finding,
+      ),
+    };
+  }
+
+  /**
+   * Result of a generation the review blocked
+   */
+  private reviewBlocked(
+    review: ReviewResult,
+    spec: TechnicalSpecification,
+    files: GeneratedFile[],
+    sandboxPath: string,
+    usage: UsageTracker,
+  ): GenerationResult {
+    const blocking = review.findings.filter((finding) => finding.action === 'block');
+    const error = `Code review blocked the generation: ${blocking.map((finding) => finding.message).join('; ')}`;
+
+    this.logger.warn(error);
+
+    return {
+      success: false,
+      spec,
+      files,
+      sandboxPath,
+      error,
+      errorDetails: { review },
+      usage: usage.summarize(),
+      review,
+    };
+  }
+
+  /**
+   * Read the project's source files the reviewer understands
+   */
+  private async readSourceFiles(projectId: string): Promise<SourceFile[]> {
+    const filePaths = (await this.listProjectFiles(projectId)).filter(isReviewedPath);
+
+    return Promise.all(
+      filePaths.map(async (filePath) => ({
+        path: filePath,
+        content: await this.fileWriter.readFile(projectId, filePath),
+      })),
+    );
+  }
+
+  /**
+   * Read a sandbox file as text; undefined for binary and very large files
+   */
+  private async readTextFile(projectId: string, filePath: string): Promise<string | undefined> {
+    try {
+      const absolutePath = path.join(this.fileWriter.getProjectPath(projectId), filePath);
+      const stats = await fs.lstat(absolutePath);
+      if (!stats.isFile() || stats.size > MAX_CODEBASE_FILE_BYTES) {
+        return undefined;
+      }
+
+      const content = await fs.readFile(absolutePath);
+      return content.includes(0) ? undefined : content.toString('utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * List the project's source files, relative to the sandbox root
+   */
+  private async listProjectFiles(projectId: string): Promise<string[]> {
+    const files = await this.fileWriter.listFiles(projectId, '', IGNORED_DIRECTORIES);
+
+    return files.sort();
+  }
+
+  /**
+   * Store the specification a project's sandbox was generated from
+   */
+  private async saveSpecification(
+    projectId: string,
+    spec: TechnicalSpecification,
+  ): Promise<void> {
+    await this.fileWriter.writeFile(projectId, SPEC_FILE_PATH, JSON.stringify(spec, null, 2));
+  }
+
+  /**
+   * Record the job, prompt and models behind the sandbox's current code
+   */
+  private async saveProvenance(
+    jobData: GenerationJobData,
+    mode: GenerationProvenance['mode'],
+    usage: UsageTracker,
+  ): Promise<void> {
+    const provenance: GenerationProvenance = {
+      generationId: jobData.generationId,
+      mode,
+      prompt: jobData.prompt,
+      models: modelsUsed(usage.summarize()),
+      generatedAt: new Date().toISOString(),
+      source: jobData.source,
+    };
+
+    await this.fileWriter.writeFile(
+      jobData.projectId,
+      PROVENANCE_FILE_PATH,
+      JSON.stringify(provenance, null, 2),
+    );
+  }
+
+  /**
+   * Load the stored specification, if the project has been generated before
+   */
+  private async loadSpecification(
+    projectId: string,
+  ): Promise<TechnicalSpecification | undefined> {
+    try {
+      if (!(await this.fileWriter.exists(projectId, SPEC_FILE_PATH))) {
+        return undefined;
+      }
+
+      return JSON.parse(
+        await this.fileWriter.readFile(projectId, SPEC_FILE_PATH),
+      ) as TechnicalSpecification;
+    } catch (error) {
+      this.logger.warn(
+        `Stored specification for project ${projectId} is unreadable: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Snapshot the sandbox and commit it to the project's Git repository
+   *
+   * A snapshot or commit that cannot be made is logged and never fails the
+   * generation.
+   *
+   * @returns The snapshot ID, if one was recorded
+   */
+  private async captureSnapshot(input: CaptureSnapshotInput): Promise<string | undefined> {
+    let snapshotId: string | undefined;
+
+    try {
+      const snapshot = await this.snapshotsService.capture(input);
+      snapshotId = snapshot?.id;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to snapshot project ${input.projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    await this.gitService.commitSandbox(input);
+
+    return snapshotId;
+  }
+
+  /**
+   * Record the outcome of validating a snapshotted state
+   */
+  private async recordSnapshotBuild(snapshotId: string, result: ValidationResult): Promise<void> {
+    try {
+      await this.snapshotsService.recordBuild(snapshotId, {
+        success: result.success,
+        errorLog: result.errorLog,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record the build of snapshot ${snapshotId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Get programming language from file path
    */
@@ -208,6 +1024,35 @@ export class GenerationService {
     await this.fileWriter.cleanup(projectId);
   }
 
+  /**
+   * Answer a question about one file of a project's sandbox
+   *
+   * The stored specification, when there is one, gives the model the
+   * project's name and technical summary.
+   *
+   * @throws When the file cannot be read or the model call fails
+   */
+  async explainFile(
+    projectId: string,
+    filePath: string,
+    question: string,
+  ): Promise<{ answer: string; usage: UsageSummary }> {
+    const content = await this.fileWriter.readFile(projectId, filePath);
+    const spec = await this.loadSpecification(projectId);
+    const usage = new UsageTracker();
+
+    const answer = await this.coderAgent.explain(
+      {
+        file: { path: filePath, content },
+        question,
+        projectSummary: spec ? `${spec.projectName}: ${spec.technicalSummary}` : undefined,
+      },
+      usage,
+    );
+
+    return { answer, usage: usage.summarize() };
+  }
+
   /**
    * Get the sandbox path for a project
    */
@@ -219,8 +1064,9 @@ export class GenerationService {
    * Generate code with self-healing capabilities
    *
    * This method wraps the standard generation process with automatic
-   * error detection and correction. If the Docker build fails, it will
-   * attempt to fix the code by passing the error log back to the CoderAgent.
+   * error detection and correction. If the static checks or the Docker
+   * build fail, it will attempt to fix the code by passing the errors
+   * back to the CoderAgent.
    *
    * @param jobData - The generation job data
    * @param maxRetries - Maximum number of healing attempts (default: 3)
@@ -241,10 +1087,15 @@ export class GenerationService {
       maxRetries,
       previousErrors: [],
       fixedFiles: [],
+      errorSignatures: [],
+      snapshotIds: [],
     };
 
+    // Fix attempts are counted towards the same generation
+    const usage = new UsageTracker();
+
     // Step 1: Run initial generation
-    const initialResult = await this.processGeneration(jobData);
+    const initialResult = await this.processGeneration(jobData, usage);
 
     if (!initialResult.success) {
       // Generation itself failed, no healing possible
@@ -262,9 +1113,14 @@ export class GenerationService {
     let currentFiles = initialResult.files!;
 
     // Step 2: Attempt to build and validate
-    this.emitProgress(projectId, 'validating', 50, 'Building Docker image to validate generated code');
+    this.emitProgress(projectId, 'validating', 50, 'Type-checking and building the generated code');
+
+    let buildResult = await this.validateProject(projectId, sandboxPath);
 
-    let buildResult = await this.buildAndValidate(projectId, sandboxPath);
+    if (initialResult.snapshotId) {
+      healingContext.snapshotIds.push(initialResult.snapshotId);
+      await this.recordSnapshotBuild(initialResult.snapshotId, buildResult);
+    }
 
     // If build succeeds on first try, return immediately
     if (buildResult.success) {
@@ -281,6 +1137,11 @@ export class GenerationService {
     // Step 3: Enter healing loop
     this.logger.log(`Build failed for project ${projectId}, entering healing loop`);
     healingContext.previousErrors.push(buildResult.errorLog || 'Unknown build error');
+    healingContext.errorSignatures.push(
+      errorSignature(buildResult.errorLog || '', buildResult.diagnostics),
+    );
+
+    let repeatedError = false;
 
     while (healingContext.attempt < maxRetries) {
       healingContext.attempt++;
@@ -303,6 +1164,8 @@ export class GenerationService {
           buildResult.errorLog || 'Build failed with unknown error',
           spec,
           healingContext,
+          usage,
+          buildResult.diagnostics,
         );
 
         if (fixedFiles.length === 0) {
@@ -311,14 +1174,24 @@ export class GenerationService {
           continue;
         }
 
-        // Track which files were fixed
+        // Track which files were fixed; the fixer already wrote them to the sandbox
         healingContext.fixedFiles.push(...fixedFiles.map(f => f.path));
 
-        // Write the fixed files to the sandbox
-        await this.fileWriter.writeFiles(projectId, fixedFiles);
+        // Put back anything the fix did to the container setup
+        const scaffold = await this.scaffolder.apply(projectId, spec, undefined, {
+          imported: await this.isImportedProject(projectId),
+        });
 
         // Update current files with fixes
-        currentFiles = this.mergeFiles(currentFiles, fixedFiles);
+        currentFiles = this.mergeFiles(
+          this.mergeFiles(currentFiles, fixedFiles),
+          scaffold.files.map((file) => ({
+            path: file.path,
+            content: file.content,
+            language: this.getLanguageFromPath(file.path),
+            isNew: false,
+          })),
+        );
 
         this.logger.log(
           `Fixed ${fixedFiles.length} files in attempt ${healingContext.attempt}`,
@@ -332,7 +1205,18 @@ export class GenerationService {
           `Healing attempt ${healingContext.attempt}/${maxRetries}: Rebuilding to validate fixes`,
         );
 
-        buildResult = await this.buildAndValidate(projectId, sandboxPath);
+        buildResult = await this.validateProject(projectId, sandboxPath);
+
+        const snapshotId = await this.captureSnapshot({
+          projectId,
+          generationId: jobData.generationId,
+          attempt: healingContext.attempt,
+          reason: 'healing',
+          build: { success: buildResult.success, errorLog: buildResult.errorLog },
+        });
+        if (snapshotId) {
+          healingContext.snapshotIds.push(snapshotId);
+        }
 
         if (buildResult.success) {
           this.logger.log(
@@ -354,12 +1238,25 @@ export class GenerationService {
             healingAttempts: healingContext.attempt,
             healingSucceeded: true,
             healingErrors: healingContext.previousErrors,
+            usage: usage.summarize(),
+            snapshotId,
           };
         }
 
         // Build still failed, record the error and continue loop
         healingContext.previousErrors.push(buildResult.errorLog || 'Unknown build error');
 
+        // Another attempt at an error the fixer could not resolve is unlikely to help
+        const signature = errorSignature(buildResult.errorLog || '', buildResult.diagnostics);
+        if (healingContext.errorSignatures.includes(signature)) {
+          this.logger.warn(
+            `Same error after healing attempt ${healingContext.attempt} for project ${projectId}; stopping early`,
+          );
+          repeatedError = true;
+          break;
+        }
+        healingContext.errorSignatures.push(signature);
+
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error during healing';
         this.logger.error(`Healing attempt ${healingContext.attempt} failed: ${errorMessage}`);
@@ -367,16 +1264,18 @@ export class GenerationService {
       }
     }
 
-    // All healing attempts exhausted
-    this.logger.error(
-      `All ${maxRetries} healing attempts failed for project: ${projectId}`,
-    );
+    // All healing attempts exhausted, or the same error came back
+    const failure = repeatedError
+      ? `Build failed with the same error after ${healingContext.attempt} healing attempt(s)`
+      : `Build failed after ${maxRetries} healing attempts`;
+
+    this.logger.error(`${failure} for project: ${projectId}`);
 
     this.emitProgress(
       projectId,
       'validating',
       100,
-      `Build failed after ${maxRetries} healing attempts`,
+      failure,
     );
 
     return {
@@ -384,28 +1283,34 @@ export class GenerationService {
       spec,
       files: currentFiles,
       sandboxPath,
-      error: `Build failed after ${maxRetries} healing attempts`,
+      error: failure,
       errorDetails: {
         healingAttempts: healingContext.attempt,
         errors: healingContext.previousErrors,
         fixedFiles: healingContext.fixedFiles,
+        snapshotIds: healingContext.snapshotIds,
       },
       healingAttempts: healingContext.attempt,
       healingSucceeded: false,
       healingErrors: healingContext.previousErrors,
+      usage: usage.summarize(),
+      snapshotId: healingContext.snapshotIds[healingContext.snapshotIds.length - 1],
     };
   }
 
   /**
    * Attempt to fix code based on a build error
    *
-   * This method calls the CoderAgent with a special "fix" prompt that includes
-   * the error log and asks it to correct the problematic code.
+   * Finds the files the error points at, loads them and the files they
+   * import from the sandbox, and asks the CoderAgent for patches to just
+   * those files. The patched files are written to the sandbox.
    *
    * @param projectId - The project ID
    * @param errorLog - The build error log
    * @param previousSpec - The original technical specification
    * @param healingContext - The current healing context
+   * @param usage - Optional tracker that receives the usage of the fix
+   * @param diagnostics - Compiler and lint errors from the static checks, if any
    * @returns Array of fixed files
    */
   async attemptFix(
@@ -413,30 +1318,34 @@ export class GenerationService {
     errorLog: string,
     previousSpec: TechnicalSpecification,
     healingContext: HealingContext,
+    usage?: UsageTracker,
+    diagnostics?: StaticDiagnostic[],
   ): Promise<GeneratedFile[]> {
     this.logger.log(`Attempting to fix code for project: ${projectId}`);
 
-    // Build a fix prompt that includes context about the error
-    const fixPrompt = this.buildFixPrompt(errorLog, previousSpec, healingContext);
-
     try {
-      // Use the CoderAgent to generate fixes
-      // We create a modified spec that focuses on the fix
-      const fixSpec: TechnicalSpecification = {
-        ...previousSpec,
-        implementationNotes: [
-          ...(previousSpec.implementationNotes || []),
-          `FIX REQUIRED: The build failed with the following error:`,
-          errorLog,
-          `Previous fix attempts: ${healingContext.attempt}`,
-          ...(healingContext.previousErrors.length > 1
-            ? [`Previous errors: ${healingContext.previousErrors.slice(0, -1).join('; ')}`]
-            : []),
-          `Fix the code to resolve this error. Only output the files that need to be changed.`,
-        ],
-      };
+      const projectFiles = await this.listProjectFiles(projectId);
+      const locations = locateErrors(errorLog, projectFiles, diagnostics);
+      const context = await this.fixContextLoader.load(projectId, locations, projectFiles);
+
+      this.logger.log(
+        `Error points at ${locations.length} file(s); sending ${context.files.length} file(s) to the fixer`,
+      );
+
+      if (context.files.length === 0) {
+        this.logger.warn(`No project files found for the error in project: ${projectId}`);
+        return [];
+      }
 
-      const coderOutput = await this.coderAgent.generate(fixSpec, `${projectId}-fix-${healingContext.attempt}`);
+      const coderOutput = await this.fixerAgent.fix(
+        {
+          errorReport: this.buildFixPrompt(errorLog, previousSpec, healingContext, locations),
+          files: context.files,
+          missingFiles: context.missingFiles,
+        },
+        projectId,
+        usage,
+      );
 
       const fixedFiles: GeneratedFile[] = coderOutput.files.map((file) => ({
         path: file.path,
@@ -445,7 +1354,7 @@ export class GenerationService {
         isNew: false, // These are fixes, not new files
       }));
 
-      this.logger.log(`Generated ${fixedFiles.length} fixed files`);
+      this.logger.log(`Fixed ${fixedFiles.length} files: ${coderOutput.summary}`);
 
       return fixedFiles;
     } catch (error) {
@@ -455,6 +1364,61 @@ export class GenerationService {
     }
   }
 
+  /**
+   * Validate the generated code, cheapest check first
+   *
+   * Runs tsc and eslint in the sandbox; only when they report no errors
+   * (or cannot run) is the Docker image built.
+   *
+   * @param projectId - The project ID
+   * @param sandboxPath - Path to the sandbox containing the generated code
+   */
+  async validateProject(projectId: string, sandboxPath: string): Promise<ValidationResult> {
+    const checks = await this.staticChecker.check(projectId, {
+      imported: await this.isImportedProject(projectId),
+    });
+
+    if (!checks.success) {
+      this.logger.warn(
+        `Static checks failed for project ${projectId} with ${checks.diagnostics.length} error(s); skipping Docker build`,
+      );
+
+      return {
+        success: false,
+        errorLog: `Static checks reported ${checks.diagnostics.length} error(s):\n${formatDiagnostics(checks.diagnostics)}`,
+        diagnostics: checks.diagnostics,
+      };
+    }
+
+    return this.buildAndValidate(projectId, sandboxPath);
+  }
+
+  /**
+   * Whether a project started from an imported bundle, repository or
+   * archive, so its sandbox holds code not written by the pipeline
+   *
+   * Projects missing from the database count as imported.
+   */
+  private async isImportedProject(projectId: string): Promise<boolean> {
+    if (!isUUID(projectId)) {
+      return false;
+    }
+
+    try {
+      const project = await this.prisma.project.findUnique({
+        where: { id: projectId },
+        select: { settings: true },
+      });
+      const settings = project?.settings as { importedFrom?: unknown } | null | undefined;
+      return !project || Boolean(settings?.importedFrom);
+    } catch (error) {
+      this.logger.warn(
+        `Could not tell whether project ${projectId} is imported: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return true;
+    }
+  }
+
   /**
    * Build the Docker image and validate the generated code
    *
@@ -465,7 +1429,7 @@ export class GenerationService {
   async buildAndValidate(
     projectId: string,
     sandboxPath: string,
-  ): Promise<{ success: boolean; errorLog?: string }> {
+  ): Promise<ValidationResult> {
     this.logger.log(`Building Docker image for project: ${projectId} at ${sandboxPath}`);
 
     try {
@@ -511,30 +1475,31 @@ export class GenerationService {
     errorLog: string,
     spec: TechnicalSpecification,
     healingContext: HealingContext,
+    locations: ErrorLocation[],
   ): string {
     const sections: string[] = [];
 
     sections.push(`# Code Fix Required for: ${spec.projectName}`);
-    sections.push(`## Build Error\nThe Docker build failed with the following error:\n\`\`\`\n${errorLog}\n\`\`\``);
+    sections.push(`## Build Error\nThe build failed with the following error:\n\`\`\`\n${errorLog}\n\`\`\``);
+
+    if (locations.length > 0) {
+      sections.push(
+        `## Error Locations\n${locations.map((l) => `- ${l.file}${l.line ? `:${l.line}${l.column ? `:${l.column}` : ''}` : ''}`).join('\n')}`,
+      );
+    }
 
     sections.push(`## Healing Context`);
     sections.push(`- Attempt: ${healingContext.attempt} of ${healingContext.maxRetries}`);
 
     if (healingContext.previousErrors.length > 1) {
-      sections.push(`- Previous errors:\n${healingContext.previousErrors.slice(0, -1).map((e, i) => `  ${i + 1}. ${e}`).join('\n')}`);
+      // Earlier logs are context only; keep them short
+      sections.push(`- Previous errors:\n${healingContext.previousErrors.slice(0, -1).map((e, i) => `  ${i + 1}. ${e.slice(0, 500)}`).join('\n')}`);
     }
 
     if (healingContext.fixedFiles.length > 0) {
       sections.push(`- Previously fixed files:\n${healingContext.fixedFiles.map(f => `  - ${f}`).join('\n')}`);
     }
 
-    sections.push(`## Instructions`);
-    sections.push(`1. Analyze the build error carefully`);
-    sections.push(`2. Identify the root cause of the failure`);
-    sections.push(`3. Generate ONLY the files that need to be modified to fix the error`);
-    sections.push(`4. Ensure the fix addresses the specific error shown above`);
-    sections.push(`5. Do not regenerate files that are working correctly`);
-
     return sections.join('\n\n');
   }
 
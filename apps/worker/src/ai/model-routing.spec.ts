@@ -0,0 +1,33 @@
+import { ConfigService } from '@nestjs/config';
+import { resolveModelRoute } from './model-routing';
+
+describe('resolveModelRoute', () => {
+  function config(env: Record<string, string>): ConfigService {
+    return new ConfigService({ AI_FALLBACK_MODELS: 'none', ...env });
+  }
+
+  it('routes every role to AI_PROVIDER and AI_MODEL without an override', () => {
+    const route = resolveModelRoute(
+      config({ AI_PROVIDER: 'mock', AI_MODEL: 'offline', AI_FIXER_MODEL: 'mock/fixer' }),
+      'coder',
+      { temperature: 0.2 },
+    );
+
+    expect(route).toEqual({
+      modelConfig: { provider: 'mock', model: 'offline', temperature: 0.2 },
+      fallbackModels: [],
+    });
+  });
+
+  it('rejects an unknown AI_PROVIDER and lists the supported providers', () => {
+    expect(() => resolveModelRoute(config({ AI_PROVIDER: 'openia' }), 'coder', {})).toThrow(
+      'Unknown AI_PROVIDER "openia"; expected one of openai, anthropic, google, local, mock',
+    );
+  });
+
+  it('rejects an override that names an unknown provider', () => {
+    expect(() =>
+      resolveModelRoute(config({ AI_PROVIDER: 'mock', AI_CODER_MODEL: 'nope/model' }), 'coder', {}),
+    ).toThrow('Unknown AI provider in model reference: nope/model');
+  });
+});
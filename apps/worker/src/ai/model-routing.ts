@@ -0,0 +1,149 @@
+/**
+ * Model Routing
+ *
+ * Picks the model each agent role calls, and the models it falls back to
+ * when a call fails, from the worker's environment:
+ *
+ * - `AI_PROVIDER` / `AI_MODEL`: the model of every role without an override
+ * - `AI_ARCHITECT_MODEL`, `AI_CODER_MODEL`, `AI_FIXER_MODEL`,
+ *   `AI_REVIEWER_MODEL`: per-role overrides as `provider/model`
+ * - `AI_FALLBACK_MODELS`: comma-separated `provider/model` list tried in
+ *   order; defaults to the default model of every other hosted provider
+ *   with an API key, and `none` turns fallback off
+ *
+ * Models whose provider is not configured are left out of the chain. The
+ * `local` provider (an OpenAI-compatible server at LOCAL_AI_BASE_URL) is
+ * used like any other, e.g. `AI_CODER_MODEL=local/qwen2.5-coder:14b`.
+ */
+
+import type { ConfigService } from '@nestjs/config';
+import {
+  buildModelChain,
+  getConfiguredProviders,
+  listLocalModels,
+  parseModelReference,
+  DEFAULT_MODEL_CONFIGS,
+  type AIModelConfig,
+  type AIProvider,
+} from '@nexusgen/ai';
+
+/**
+ * Agent roles that are routed to a model
+ */
+export type AgentRole = 'architect' | 'coder' | 'fixer' | 'reviewer';
+
+/**
+ * Sampling settings a role calls its models with, whichever serves
+ */
+export type ModelSettings = Pick<AIModelConfig, 'temperature' | 'maxTokens'>;
+
+/**
+ * The model a role calls and its fallbacks, in order
+ */
+export interface ModelRoute {
+  modelConfig: AIModelConfig;
+  fallbackModels: AIModelConfig[];
+}
+
+const ROLE_MODEL_KEYS: Record<AgentRole, string> = {
+  architect: 'AI_ARCHITECT_MODEL',
+  coder: 'AI_CODER_MODEL',
+  fixer: 'AI_FIXER_MODEL',
+  reviewer: 'AI_REVIEWER_MODEL',
+};
+
+/**
+ * Resolve the model route of an agent role
+ *
+ * @throws When AI_PROVIDER or a configured model names an unknown provider
+ */
+export function resolveModelRoute(
+  configService: ConfigService,
+  role: AgentRole,
+  settings: ModelSettings,
+): ModelRoute {
+  const provider = configService.get<string>('AI_PROVIDER', 'openai');
+  if (!isAIProvider(provider)) {
+    throw new Error(
+      `Unknown AI_PROVIDER "${provider}"; expected one of ${Object.keys(DEFAULT_MODEL_CONFIGS).join(', ')}`,
+    );
+  }
+  const override = configService.get<string>(ROLE_MODEL_KEYS[role]);
+
+  const primary = override
+    ? parseModelReference(override)
+    : {
+        provider,
+        model: configService.get<string>('AI_MODEL', DEFAULT_MODEL_CONFIGS[provider].model),
+      };
+
+  const chain = buildModelChain(
+    { ...primary, ...settings },
+    resolveFallbacks(configService, primary.provider).map((fallback) => ({
+      ...fallback,
+      ...settings,
+    })),
+  );
+
+  return { modelConfig: chain[0], fallbackModels: chain.slice(1) };
+}
+
+/**
+ * Describe a route for logs, e.g. `openai/gpt-4o -> anthropic/claude-3-5-sonnet-latest`
+ */
+export function describeModelRoute(route: ModelRoute): string {
+  return [route.modelConfig, ...route.fallbackModels]
+    .map((config) => `${config.provider}/${config.model}`)
+    .join(' -> ');
+}
+
+/**
+ * Local models named by the routes that the local server does not list
+ *
+ * @throws When the server's model list cannot be fetched
+ */
+export async function findUnavailableLocalModels(routes: ModelRoute[]): Promise<string[]> {
+  const routed = new Set(
+    routes
+      .flatMap((route) => [route.modelConfig, ...route.fallbackModels])
+      .filter((config) => config.provider === 'local')
+      .map((config) => config.model),
+  );
+
+  if (routed.size === 0) {
+    return [];
+  }
+
+  const available = new Set(await listLocalModels({}, AbortSignal.timeout(10_000)));
+  return [...routed].filter((model) => !available.has(model));
+}
+
+function isAIProvider(provider: string): provider is AIProvider {
+  return Object.prototype.hasOwnProperty.call(DEFAULT_MODEL_CONFIGS, provider);
+}
+
+function resolveFallbacks(
+  configService: ConfigService,
+  primaryProvider: AIProvider,
+): Pick<AIModelConfig, 'provider' | 'model'>[] {
+  const configured = configService.get<string>('AI_FALLBACK_MODELS');
+
+  if (configured === undefined || configured.trim() === '') {
+    // Local and mock models only serve as fallbacks when named explicitly:
+    // neither has a model that is known to exist
+    return getConfiguredProviders()
+      .filter(
+        (provider) => provider !== primaryProvider && provider !== 'local' && provider !== 'mock',
+      )
+      .map((provider) => ({ provider, model: DEFAULT_MODEL_CONFIGS[provider].model }));
+  }
+
+  if (configured.trim() === 'none') {
+    return [];
+  }
+
+  return configured
+    .split(',')
+    .filter((reference) => reference.trim())
+    .map(parseModelReference);
+}
@@ -5,10 +5,15 @@ import { AppService } from './app.service';
 import { AuthModule } from './auth/auth.module';
 import { ProjectsModule } from './projects/projects.module';
 import { GenerationsModule } from './generations/generations.module';
+import { DeploymentsModule } from './deployments/deployments.module';
+import { BundlesModule } from './bundles/bundles.module';
+import { SourcesModule } from './sources/sources.module';
+import { VersionsModule } from './versions/versions.module';
 import { AIModule } from './ai/ai.module';
 import { QueuesModule } from './queues/queues.module';
 import { WebsocketsModule } from './websockets/websockets.module';
 import { HealthModule } from './health/health.module';
+import { DatabaseModule } from './database';
 
 @Module({
   imports: [
@@ -20,11 +25,18 @@ import { HealthModule } from './health/health.module';
       expandVariables: true,
     }),
 
+    // Database module - global Prisma client
+    DatabaseModule,
+
     // Feature modules
     HealthModule,
     AuthModule,
     ProjectsModule,
     GenerationsModule,
+    DeploymentsModule,
+    BundlesModule,
+    SourcesModule,
+    VersionsModule,
     AIModule,
     QueuesModule,
     WebsocketsModule,
@@ -0,0 +1,255 @@
+/**
+ * Asset Loader
+ *
+ * Turns the asset references of a generation job (storage keys from
+ * `/api/upload/presigned`, or URLs on allowlisted origins) into
+ * UploadedAssets. Image content is fetched so it can be sent to
+ * vision-capable models, and the text of documents is extracted for the
+ * architect's context; anything else is described by its name and type
+ * only.
+ *
+ * References come from users: storage keys must be under the requesting
+ * user's upload prefix, URLs are only fetched from `urlOrigins`, and
+ * downloads stop at the size limit rather than being read whole first.
+ */
+
+import { Logger } from '@nestjs/common';
+import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import * as path from 'path';
+import type { UploadedAsset } from '../agents';
+import { extractText, isDocumentType } from './text-extraction';
+
+export interface AssetLoaderOptions {
+  /** Bucket the web app uploads to; without one only URLs can be fetched */
+  bucket?: string;
+  region?: string;
+  /** S3-compatible endpoint, e.g. MinIO */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Largest image fetched, in bytes */
+  maxImageBytes?: number;
+  /** Most images fetched per generation */
+  maxImages?: number;
+  /** Largest document whose text is extracted, in bytes */
+  maxDocumentBytes?: number;
+  /** Origins (`https://cdn.example.com`) asset URLs may be fetched from; none by default */
+  urlOrigins?: string[];
+}
+
+/**
+ * Storage prefix of a user's uploads, matching `/api/upload/presigned`
+ */
+export function userUploadPrefix(userId: string): string {
+  return `uploads/${userId}/`;
+}
+
+/**
+ * MIME types by extension, matching what the upload route accepts
+ */
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.json': 'application/json',
+  '.ts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.css': 'text/css',
+};
+
+/**
+ * Image types vision models accept; SVG is markup, not an image to them
+ */
+const VISION_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+export class AssetLoader {
+  private readonly logger = new Logger(AssetLoader.name);
+  private readonly s3?: S3Client;
+  private readonly bucket?: string;
+  private readonly maxImageBytes: number;
+  private readonly maxImages: number;
+  private readonly maxDocumentBytes: number;
+  private readonly urlOrigins: string[];
+
+  constructor(options: AssetLoaderOptions = {}) {
+    this.bucket = options.bucket || undefined;
+    this.maxImageBytes = options.maxImageBytes ?? 5 * 1024 * 1024;
+    this.maxImages = options.maxImages ?? 5;
+    this.maxDocumentBytes = options.maxDocumentBytes ?? 10 * 1024 * 1024;
+    this.urlOrigins = (options.urlOrigins ?? []).map((origin) => origin.replace(/\/+$/, '').toLowerCase());
+
+    if (this.bucket) {
+      this.s3 = new S3Client({
+        endpoint: options.endpoint || undefined,
+        region: options.region || 'us-east-1',
+        credentials:
+          options.accessKeyId && options.secretAccessKey
+            ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+            : undefined,
+        // MinIO serves buckets by path rather than by subdomain
+        forcePathStyle: !!options.endpoint,
+      });
+    }
+  }
+
+  /**
+   * Resolve asset references, fetching images and document text
+   *
+   * Never throws: an asset that cannot be fetched or read is passed on
+   * without content and the architect sees only its name.
+   *
+   * @param references - Storage keys or http(s) URLs
+   * @param userId - Owner of the generation; only their uploads are read
+   */
+  async load(references: string[], userId: string): Promise<UploadedAsset[]> {
+    const assets: UploadedAsset[] = [];
+    let images = 0;
+    let documents = 0;
+
+    for (const [index, reference] of references.entries()) {
+      const asset: UploadedAsset = {
+        id: `asset-${index}`,
+        filename: path.posix.basename(reference.split('?')[0]) || `asset-${index}`,
+        mimeType: this.guessMimeType(reference),
+        url: reference,
+      };
+
+      if (VISION_IMAGE_TYPES.includes(asset.mimeType) && images < this.maxImages) {
+        try {
+          const { data, contentType } = await this.fetch(reference, userId, this.maxImageBytes);
+
+          asset.data = data;
+          if (contentType && VISION_IMAGE_TYPES.includes(contentType)) {
+            asset.mimeType = contentType;
+          }
+          images++;
+        } catch (error) {
+          this.logger.warn(
+            `Could not fetch asset ${reference}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      }
+
+      if (isDocumentType(asset.mimeType)) {
+        try {
+          const { data } = await this.fetch(reference, userId, this.maxDocumentBytes);
+
+          const text = await extractText(data, asset.mimeType);
+          if (text) {
+            asset.text = text;
+            documents++;
+          }
+        } catch (error) {
+          this.logger.warn(
+            `Could not read document ${reference}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      }
+
+      assets.push(asset);
+    }
+
+    if (images > 0 || documents > 0) {
+      this.logger.log(
+        `Loaded ${images} image(s) and ${documents} document(s) from ${references.length} asset(s)`,
+      );
+    }
+
+    return assets;
+  }
+
+  /**
+   * Download an asset, stopping once it exceeds `maxBytes`
+   *
+   * @throws When the reference is not the user's upload or an allowed URL,
+   *   cannot be fetched, or is too large
+   */
+  private async fetch(
+    reference: string,
+    userId: string,
+    maxBytes: number,
+  ): Promise<{ data: Uint8Array; contentType?: string }> {
+    if (/^https?:\/\//i.test(reference)) {
+      if (!this.urlOrigins.includes(new URL(reference).origin.toLowerCase())) {
+        throw new Error('URL origin is not allowed');
+      }
+
+      // Redirects could lead anywhere, including internal addresses
+      const response = await fetch(reference, { redirect: 'error' });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      assertWithinLimit(Number(response.headers.get('content-length')), maxBytes);
+
+      return {
+        data: await readLimited(response.body, maxBytes),
+        contentType: response.headers.get('content-type')?.split(';')[0] ?? undefined,
+      };
+    }
+
+    if (!this.s3) {
+      throw new Error('no storage bucket configured (S3_BUCKET)');
+    }
+
+    const key = path.posix.normalize(reference.replace(/^\/+/, ''));
+    if (!key.startsWith(userUploadPrefix(userId))) {
+      throw new Error('not an upload of the requesting user');
+    }
+
+    const object = await this.s3.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!object.Body) {
+      throw new Error('empty object');
+    }
+    assertWithinLimit(object.ContentLength, maxBytes);
+
+    return {
+      data: await readLimited(object.Body as AsyncIterable<Uint8Array>, maxBytes),
+      contentType: object.ContentType,
+    };
+  }
+
+  private guessMimeType(reference: string): string {
+    const extension = path.posix.extname(reference.split('?')[0]).toLowerCase();
+    return MIME_TYPES[extension] ?? 'application/octet-stream';
+  }
+}
+
+/**
+ * @throws When a declared length is over the limit
+ */
+function assertWithinLimit(length: number | undefined, maxBytes: number): void {
+  if (length && length > maxBytes) {
+    throw new Error(`${length} bytes is over the ${maxBytes} byte limit`);
+  }
+}
+
+/**
+ * Read a stream to the end, abandoning it once it passes `maxBytes`
+ *
+ * @throws When the stream is longer than the limit
+ */
+async function readLimited(
+  stream: AsyncIterable<Uint8Array> | ReadableStream<Uint8Array>,
+  maxBytes: number,
+): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  // Leaving the loop early cancels the stream and closes the connection
+  for await (const chunk of stream as AsyncIterable<Uint8Array>) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      throw new Error(`over the ${maxBytes} byte limit`);
+    }
+    chunks.push(chunk);
+  }
+
+  return new Uint8Array(Buffer.concat(chunks));
+}
@@ -0,0 +1,9 @@
+/**
+ * Assets Module
+ *
+ * Loads the assets uploaded with a generation: images for vision-capable
+ * models and the text of documents for the architect's context.
+ */
+
+export { AssetLoader, AssetLoaderOptions, userUploadPrefix } from './asset-loader';
+export { DOCUMENT_MIME_TYPES, isDocumentType, extractText } from './text-extraction';
@@ -0,0 +1,78 @@
+/**
+ * Text Extraction
+ *
+ * Reads the text out of uploaded documents (PDF, markdown, plain text,
+ * JSON and source files) so the architect can use it as context.
+ */
+
+import { PDFParse } from 'pdf-parse';
+
+/**
+ * Document types text is extracted from, matching UPLOAD_LIMITS
+ */
+export const DOCUMENT_MIME_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'application/json',
+  'text/typescript',
+  'text/css',
+];
+
+/**
+ * Whether text can be extracted from a MIME type
+ */
+export function isDocumentType(mimeType: string): boolean {
+  return DOCUMENT_MIME_TYPES.includes(mimeType);
+}
+
+/**
+ * Extract the text of a document
+ *
+ * @throws When a PDF cannot be parsed
+ */
+export async function extractText(data: Uint8Array, mimeType: string): Promise<string> {
+  switch (mimeType) {
+    case 'application/pdf':
+      return normalizeWhitespace(await extractPdfText(data));
+    case 'application/json':
+      return formatJson(decode(data));
+    default:
+      return normalizeWhitespace(decode(data));
+  }
+}
+
+async function extractPdfText(data: Uint8Array): Promise<string> {
+  const parser = new PDFParse({ data });
+
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+function decode(data: Uint8Array): string {
+  // TextDecoder drops a leading byte order mark
+  return new TextDecoder('utf-8').decode(data);
+}
+
+/**
+ * Pretty-print JSON so minified files split into chunks cleanly
+ */
+function formatJson(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,54 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+/**
+ * Header carrying the shared secret
+ */
+export const INTERNAL_TOKEN_HEADER = 'x-internal-token';
+
+/**
+ * Internal Token Guard
+ *
+ * Admits requests from the web app, which authenticates the user and
+ * checks project ownership before calling the worker. The web app sends
+ * `WORKER_INTERNAL_TOKEN` in the `x-internal-token` header; without a
+ * configured token every request is rejected.
+ */
+@Injectable()
+export class InternalTokenGuard implements CanActivate {
+  private readonly logger = new Logger(InternalTokenGuard.name);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const expected = this.configService.get<string>('WORKER_INTERNAL_TOKEN');
+    if (!expected) {
+      this.logger.warn('WORKER_INTERNAL_TOKEN is not set; rejecting internal request');
+      throw new UnauthorizedException('Internal API is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<Request>();
+    const provided = request.headers[INTERNAL_TOKEN_HEADER];
+
+    if (typeof provided !== 'string' || !this.matches(provided, expected)) {
+      throw new UnauthorizedException('Invalid internal token');
+    }
+
+    return true;
+  }
+
+  private matches(provided: string, expected: string): boolean {
+    const a = Buffer.from(provided);
+    const b = Buffer.from(expected);
+
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Bundle Manifest
+ *
+ * `nexusgen.json`, written at the root of an exported project zip. It
+ * describes where the code came from (project, generation job, prompt,
+ * models), carries the specification so the imported project can take
+ * follow-up edits, and lists every file with its SHA-256 so an import can
+ * check that it gets exactly what was exported.
+ */
+
+import { z } from 'zod';
+import type { TechnicalSpecification } from '../agents';
+import type { GenerationProvenance } from '../ai/generation-record';
+
+/**
+ * Name of the manifest at the root of a bundle
+ */
+export const MANIFEST_FILE_NAME = 'nexusgen.json';
+
+/**
+ * Version of the manifest format written by this worker
+ */
+export const BUNDLE_FORMAT_VERSION = 1;
+
+export interface BundleFileEntry {
+  /** Path relative to the bundle root */
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex SHA-256 of the content */
+  sha256: string;
+}
+
+export interface BundleManifest {
+  formatVersion: number;
+  /** ISO timestamp */
+  exportedAt: string;
+  project: {
+    id: string;
+    name?: string;
+    description?: string | null;
+    framework?: string | null;
+  };
+  /** How the code was generated; absent for sandboxes without a record */
+  generation?: GenerationProvenance;
+  /** Specification the code was generated from */
+  specification?: TechnicalSpecification;
+  files: BundleFileEntry[];
+}
+
+/**
+ * Shape of an uploaded manifest
+ *
+ * The specification is only required to be an object here; it is checked
+ * against the architect's schema separately so a bundle with an outdated
+ * specification can still be imported without it.
+ */
+export const bundleManifestSchema = z.object({
+  formatVersion: z.literal(BUNDLE_FORMAT_VERSION),
+  exportedAt: z.string(),
+  project: z.object({
+    id: z.string(),
+    name: z.string().optional(),
+    description: z.string().nullable().optional(),
+    framework: z.string().nullable().optional(),
+  }),
+  generation: z
+    .object({
+      generationId: z.string().optional(),
+      mode: z.enum(['create', 'edit', 'import']),
+      prompt: z.string(),
+      models: z.record(z.array(z.string())),
+      generatedAt: z.string(),
+      importedFrom: z.string().optional(),
+    })
+    .optional(),
+  specification: z.record(z.unknown()).optional(),
+  files: z.array(
+    z.object({
+      path: z.string().min(1),
+      size: z.number().int().nonnegative(),
+      sha256: z.string().regex(/^[0-9a-f]{64}$/),
+    }),
+  ),
+});
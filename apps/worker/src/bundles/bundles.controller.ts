@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiParam,
+  ApiConsumes,
+  ApiProduces,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { InternalTokenGuard, INTERNAL_TOKEN_HEADER } from '../auth/internal-token.guard';
+import { BundlesService, type ProjectImportResult } from './bundles.service';
+
+/**
+ * Project bundles: zip export of a sandbox and import into a new project
+ *
+ * Called by the web app only, which has checked that the user owns the
+ * project (and for imports, created it).
+ */
+@ApiTags('project-files')
+@ApiSecurity(INTERNAL_TOKEN_HEADER)
+@UseGuards(InternalTokenGuard)
+@Controller('projects/:id')
+export class BundlesController {
+  constructor(private readonly bundlesService: BundlesService) {}
+
+  @Get('export')
+  @ApiOperation({ summary: 'Download the project sandbox as a zip with a nexusgen.json manifest' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiProduces('application/zip')
+  @ApiResponse({ status: 200, description: 'Zip of the project files' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 404, description: 'Project has no generated files' })
+  async export(@Param('id') id: string): Promise<StreamableFile> {
+    const { stream, filename } = await this.bundlesService.export(id);
+
+    return new StreamableFile(stream, {
+      type: 'application/zip',
+      disposition: `attachment; filename="${filename}"`,
+    });
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unpack an exported bundle into the empty sandbox of a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiConsumes('application/zip')
+  @ApiResponse({ status: 200, description: 'Files imported' })
+  @ApiResponse({ status: 400, description: 'Invalid or corrupt bundle' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 409, description: 'Project already has files' })
+  async import(@Param('id') id: string, @Req() request: Request): Promise<ProjectImportResult> {
+    // Parsed by the raw body parser registered for application/zip
+    if (!Buffer.isBuffer(request.body) || request.body.length === 0) {
+      throw new BadRequestException('Send the bundle as an application/zip request body');
+    }
+
+    return this.bundlesService.import(id, request.body);
+  }
+}
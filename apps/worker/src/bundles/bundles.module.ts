@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { BundlesController } from './bundles.controller';
+import { BundlesService } from './bundles.service';
+import { InternalTokenGuard } from '../auth/internal-token.guard';
+import { GitModule } from '../git/git.module';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
+
+/**
+ * Bundles Module
+ *
+ * Zip export of a project's sandbox with a `nexusgen.json` manifest, and
+ * import of such a zip into a new project.
+ *
+ * Exports:
+ * - BundlesService: Export and import of project bundles
+ */
+@Module({
+  imports: [ConfigModule, GitModule, SnapshotsModule],
+  controllers: [BundlesController],
+  providers: [BundlesService, InternalTokenGuard],
+  exports: [BundlesService],
+})
+export class BundlesModule {}
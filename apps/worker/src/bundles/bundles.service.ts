@@ -0,0 +1,350 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { isUUID } from 'class-validator';
+import { createHash } from 'crypto';
+import { Zip, ZipDeflate } from 'fflate';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { once } from 'events';
+import { PassThrough, type Readable } from 'stream';
+import { technicalSpecificationSchema, type TechnicalSpecification } from '../agents';
+import {
+  PROVENANCE_FILE_PATH,
+  SPEC_FILE_PATH,
+  type GenerationProvenance,
+} from '../ai/generation-record';
+import { PrismaService } from '../database';
+import { GitService } from '../git';
+import { SnapshotsService } from '../snapshots';
+import {
+  IGNORED_DIRECTORIES,
+  SandboxFileWriter,
+  assertEmptySandbox,
+  normalizeArchivePath,
+  unzipArchive,
+  writeArchiveFiles,
+  type ArchiveLimits,
+} from '../utils';
+import {
+  BUNDLE_FORMAT_VERSION,
+  MANIFEST_FILE_NAME,
+  bundleManifestSchema,
+  type BundleFileEntry,
+  type BundleManifest,
+} from './bundle-manifest';
+
+/**
+ * Limits on an uploaded bundle, checked before anything is inflated
+ */
+const BUNDLE_LIMITS: ArchiveLimits = { maxFiles: 5_000, maxBytes: 200 * 1024 * 1024 };
+
+/**
+ * A bundle ready to be streamed
+ */
+export interface ProjectExport {
+  /** Suggested download name */
+  filename: string;
+  /** Zip content */
+  stream: Readable;
+  manifest: BundleManifest;
+}
+
+/**
+ * What an import wrote to the sandbox
+ */
+export interface ProjectImportResult {
+  /** Project metadata recorded in the bundle */
+  project: BundleManifest['project'];
+  filesImported: number;
+  /** Whether the specification was restored, enabling follow-up edits */
+  specificationRestored: boolean;
+  /** Problems that did not stop the import */
+  warnings: string[];
+}
+
+/**
+ * Bundles Service
+ *
+ * Exports a project's sandbox as a zip with a `nexusgen.json` manifest,
+ * and imports such a zip into the sandbox of a new project.
+ */
+@Injectable()
+export class BundlesService {
+  private readonly logger = new Logger(BundlesService.name);
+  private readonly fileWriter: SandboxFileWriter;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly snapshotsService: SnapshotsService,
+    private readonly gitService: GitService,
+  ) {
+    this.fileWriter = new SandboxFileWriter({
+      basePath: this.configService.get<string>('SANDBOX_BASE_PATH', '/tmp/nexusgen-builds'),
+    });
+  }
+
+  /**
+   * Zip a project's sandbox
+   *
+   * The manifest is computed up front and written first; file content is
+   * then read and compressed one file at a time as the stream is consumed.
+   *
+   * @throws NotFoundException when the project has no sandbox
+   */
+  async export(projectId: string): Promise<ProjectExport> {
+    const projectPath = this.getProjectPath(projectId);
+
+    if (!(await this.fileWriter.exists(projectId))) {
+      throw new NotFoundException(`Project ${projectId} has no generated files to export`);
+    }
+
+    const filePaths = (await this.fileWriter.listFiles(projectId, '', IGNORED_DIRECTORIES))
+      .filter((filePath) => {
+        if (filePath === MANIFEST_FILE_NAME) {
+          this.logger.warn(`Project ${projectId} has its own ${MANIFEST_FILE_NAME}; left out of the export`);
+          return false;
+        }
+        return true;
+      })
+      .sort();
+
+    const files: BundleFileEntry[] = [];
+    for (const filePath of filePaths) {
+      const content = await fs.readFile(path.join(projectPath, filePath));
+      files.push({ path: filePath, size: content.length, sha256: sha256(content) });
+    }
+
+    const project = isUUID(projectId)
+      ? await this.prisma.project.findUnique({
+          where: { id: projectId },
+          select: { name: true, slug: true, description: true, framework: true },
+        })
+      : null;
+
+    const manifest: BundleManifest = {
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        id: projectId,
+        name: project?.name,
+        description: project?.description,
+        framework: project?.framework,
+      },
+      generation: await this.readJson<GenerationProvenance>(projectId, PROVENANCE_FILE_PATH),
+      specification: await this.readJson<TechnicalSpecification>(projectId, SPEC_FILE_PATH),
+      files,
+    };
+
+    const stream = new PassThrough();
+    this.writeZip(projectPath, manifest, stream).catch((error) => {
+      this.logger.error(
+        `Export of project ${projectId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      stream.destroy(error instanceof Error ? error : new Error('Export failed'));
+    });
+
+    this.logger.log(`Exporting project ${projectId}: ${files.length} files`);
+
+    return {
+      filename: `${project?.slug ?? projectId}.zip`,
+      stream,
+      manifest,
+    };
+  }
+
+  /**
+   * Unpack a bundle into the empty sandbox of a new project
+   *
+   * Every file listed in the manifest must be present with a matching
+   * hash; entries the manifest does not list are skipped. A specification
+   * that no longer matches the architect's schema is left out, so the
+   * project imports but can only be regenerated, not edited.
+   *
+   * @throws BadRequestException for bundles that are invalid or corrupt
+   * @throws ConflictException when the sandbox already has files
+   */
+  async import(projectId: string, bundle: Buffer): Promise<ProjectImportResult> {
+    await assertEmptySandbox(this.fileWriter, projectId);
+
+    const entries = unzipArchive(bundle, BUNDLE_LIMITS, 'Bundle');
+    const manifest = this.parseManifest(entries[MANIFEST_FILE_NAME]);
+    const warnings: string[] = [];
+
+    const files = manifest.files.map((file) => {
+      // Platform state is carried in the manifest, never as files
+      const filePath = normalizeArchivePath(file.path, 'Bundle', IGNORED_DIRECTORIES);
+      const content = entries[file.path];
+
+      if (!content) {
+        throw new BadRequestException(`Bundle is missing ${file.path}, listed in ${MANIFEST_FILE_NAME}`);
+      }
+      if (sha256(content) !== file.sha256) {
+        throw new BadRequestException(`Content of ${file.path} does not match its hash in ${MANIFEST_FILE_NAME}`);
+      }
+
+      return { path: filePath, content };
+    });
+
+    const listed = new Set(manifest.files.map((file) => file.path));
+    const unlisted = Object.keys(entries).filter(
+      (name) => name !== MANIFEST_FILE_NAME && !listed.has(name),
+    );
+    if (unlisted.length > 0) {
+      warnings.push(`Skipped ${unlisted.length} file(s) not listed in ${MANIFEST_FILE_NAME}`);
+    }
+
+    let specificationRestored = false;
+    if (manifest.specification) {
+      if (technicalSpecificationSchema.safeParse(manifest.specification).success) {
+        specificationRestored = true;
+      } else {
+        warnings.push('The specification does not match the current format and was not restored');
+      }
+    }
+
+    await writeArchiveFiles(this.fileWriter, projectId, files);
+
+    if (specificationRestored) {
+      await this.fileWriter.writeFile(
+        projectId,
+        SPEC_FILE_PATH,
+        JSON.stringify(manifest.specification, null, 2),
+      );
+    }
+
+    const provenance: GenerationProvenance = {
+      ...(manifest.generation ?? { prompt: '', models: {} }),
+      mode: 'import',
+      generatedAt: manifest.generation?.generatedAt ?? manifest.exportedAt,
+      importedFrom: manifest.project.id,
+    };
+    await this.fileWriter.writeFile(projectId, PROVENANCE_FILE_PATH, JSON.stringify(provenance, null, 2));
+
+    await this.snapshotsService
+      .capture({ projectId, generationId: manifest.generation?.generationId, attempt: 0, reason: 'import' })
+      .catch((error) => {
+        this.logger.warn(
+          `Could not snapshot imported project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      });
+    await this.gitService.commitSandbox({
+      projectId,
+      generationId: manifest.generation?.generationId,
+      reason: 'import',
+    });
+
+    this.logger.log(
+      `Imported ${files.length} files into project ${projectId} from project ${manifest.project.id}`,
+    );
+
+    return {
+      project: manifest.project,
+      filesImported: files.length,
+      specificationRestored,
+      warnings,
+    };
+  }
+
+  /**
+   * Write the manifest and then each file to a zip stream, waiting for the
+   * consumer to drain the stream between files
+   */
+  private async writeZip(projectPath: string, manifest: BundleManifest, output: PassThrough): Promise<void> {
+    const state: { error?: Error } = {};
+    const zip = new Zip((error, chunk, final) => {
+      if (error) {
+        state.error = error;
+        return;
+      }
+      output.write(chunk);
+      if (final) {
+        output.end();
+      }
+    });
+
+    const add = (name: string, content: Uint8Array) => {
+      const entry = new ZipDeflate(name, { level: 6 });
+      zip.add(entry);
+      entry.push(content, true);
+    };
+
+    add(MANIFEST_FILE_NAME, Buffer.from(JSON.stringify(manifest, null, 2)));
+
+    for (const file of manifest.files) {
+      if (state.error) {
+        throw state.error;
+      }
+      if (output.destroyed) {
+        return;
+      }
+      if (output.writableNeedDrain) {
+        await once(output, 'drain');
+      }
+      add(file.path, await fs.readFile(path.join(projectPath, file.path)));
+    }
+
+    zip.end();
+    if (state.error) {
+      throw state.error;
+    }
+  }
+
+  private parseManifest(content: Uint8Array | undefined): BundleManifest {
+    if (!content) {
+      throw new BadRequestException(`Bundle has no ${MANIFEST_FILE_NAME}; only exported projects can be imported`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(Buffer.from(content).toString('utf-8'));
+    } catch {
+      throw new BadRequestException(`${MANIFEST_FILE_NAME} is not valid JSON`);
+    }
+
+    const parsed = bundleManifestSchema.safeParse(raw);
+    if (!parsed.success) {
+      throw new BadRequestException(
+        `${MANIFEST_FILE_NAME} is invalid: ${parsed.error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join('; ')}`,
+      );
+    }
+
+    return parsed.data as BundleManifest;
+  }
+
+  private getProjectPath(projectId: string): string {
+    try {
+      return this.fileWriter.getProjectPath(projectId);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid project ID');
+    }
+  }
+
+  /**
+   * Parse a JSON file of the sandbox; undefined when absent or unreadable
+   */
+  private async readJson<T>(projectId: string, filePath: string): Promise<T | undefined> {
+    try {
+      if (!(await this.fileWriter.exists(projectId, filePath))) {
+        return undefined;
+      }
+      return JSON.parse(await this.fileWriter.readFile(projectId, filePath)) as T;
+    } catch (error) {
+      this.logger.warn(
+        `Could not read ${filePath} of project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return undefined;
+    }
+  }
+}
+
+function sha256(content: Uint8Array): string {
+  return createHash('sha256').update(content).digest('hex');
+}
@@ -0,0 +1,14 @@
+/**
+ * Bundles Module
+ *
+ * Zip export and import of project sandboxes.
+ */
+
+export { BundlesModule } from './bundles.module';
+export { BundlesService, ProjectExport, ProjectImportResult } from './bundles.service';
+export {
+  MANIFEST_FILE_NAME,
+  BUNDLE_FORMAT_VERSION,
+  BundleManifest,
+  BundleFileEntry,
+} from './bundle-manifest';
@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { PrismaService } from './prisma.service';
+
+/**
+ * Database Module
+ *
+ * Provides the Prisma client to every feature module. Marked global so
+ * services can inject PrismaService without importing this module.
+ *
+ * Exports:
+ * - PrismaService: Prisma client bound to the application lifecycle
+ */
+@Global()
+@Module({
+  providers: [PrismaService],
+  exports: [PrismaService],
+})
+export class DatabaseModule {}
@@ -0,0 +1,8 @@
+/**
+ * Database Module
+ *
+ * Prisma-backed persistence shared by the worker's feature modules.
+ */
+
+export { DatabaseModule } from './database.module';
+export { PrismaService } from './prisma.service';
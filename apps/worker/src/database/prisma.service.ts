@@ -0,0 +1,29 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+
+/**
+ * Prisma Service
+ *
+ * Shares a single PrismaClient across the worker and ties its connection
+ * lifecycle to the Nest application.
+ */
+@Injectable()
+export class PrismaService extends PrismaClient implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(PrismaService.name);
+
+  async onModuleInit(): Promise<void> {
+    try {
+      await this.$connect();
+      this.logger.log('Connected to database');
+    } catch (error) {
+      // Prisma reconnects lazily on the next query, so don't block startup
+      this.logger.error(
+        `Failed to connect to database: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await this.$disconnect();
+  }
+}
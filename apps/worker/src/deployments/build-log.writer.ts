@@ -0,0 +1,102 @@
+import { Logger } from '@nestjs/common';
+import { LogLevel, Prisma } from '@prisma/client';
+import { PrismaService } from '../database';
+
+/**
+ * Number of buffered lines that triggers an immediate flush
+ */
+const FLUSH_BATCH_SIZE = 50;
+
+/**
+ * Maximum time a line may sit in the buffer before being written
+ */
+const FLUSH_INTERVAL_MS = 500;
+
+/**
+ * Build Log Writer
+ *
+ * Streams log lines for a single deployment into the BuildLog table.
+ * Lines are buffered briefly and written in batches so a chatty Docker
+ * build doesn't issue one INSERT per line.
+ *
+ * Timestamps are kept strictly increasing so that ordering by timestamp
+ * reproduces the order in which lines were written.
+ */
+export class BuildLogWriter {
+  private readonly logger = new Logger(BuildLogWriter.name);
+  private buffer: Prisma.BuildLogCreateManyInput[] = [];
+  private pending: Promise<void> = Promise.resolve();
+  private timer: NodeJS.Timeout | null = null;
+  private lastTimestamp = 0;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deploymentId: string,
+    private readonly source: string,
+  ) {}
+
+  /**
+   * Queue a log line for writing
+   *
+   * @param message - The log line
+   * @param level - Log level; inferred from the message when omitted
+   */
+  write(message: string, level?: LogLevel): void {
+    const now = Math.max(Date.now(), this.lastTimestamp + 1);
+    this.lastTimestamp = now;
+
+    this.buffer.push({
+      deploymentId: this.deploymentId,
+      message,
+      level: level ?? this.inferLevel(message),
+      source: this.source,
+      timestamp: new Date(now),
+    });
+
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) {
+      void this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => void this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Write all buffered lines
+   *
+   * Resolves once every line written so far has been persisted. Write
+   * failures are logged rather than thrown so logging never fails a job.
+   */
+  flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.buffer;
+    this.buffer = [];
+
+    if (batch.length > 0) {
+      this.pending = this.pending.then(async () => {
+        try {
+          await this.prisma.buildLog.createMany({ data: batch });
+        } catch (error) {
+          this.logger.warn(
+            `Failed to persist ${batch.length} log line(s) for deployment ${this.deploymentId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          );
+        }
+      });
+    }
+
+    return this.pending;
+  }
+
+  private inferLevel(message: string): LogLevel {
+    if (/^error\b/i.test(message) || /\bfailed\b/i.test(message)) {
+      return LogLevel.ERROR;
+    }
+    if (/^warn(ing)?\b/i.test(message)) {
+      return LogLevel.WARN;
+    }
+    return LogLevel.INFO;
+  }
+}
@@ -0,0 +1,65 @@
+import type { DeploymentTargetKind } from '../types';
+
+/**
+ * Deployment status enum for tracking deployment state
+ */
+export enum DeploymentStatus {
+  PENDING = 'pending',
+  BUILDING = 'building',
+  DEPLOYING = 'deploying',
+  RUNNING = 'running',
+  FAILED = 'failed',
+  STOPPED = 'stopped',
+}
+
+/**
+ * Deployment tracking record
+ *
+ * Worker-side view of a `Deployment` row. Container details live in the
+ * row's metadata column.
+ */
+export interface DeploymentRecord {
+  /** Deployment row ID */
+  deploymentId: string;
+  /** Build job ID that produced the image */
+  buildId?: string;
+  /** Deploy job ID that started the container */
+  deployJobId?: string;
+  projectId: string;
+  userId: string;
+  status: DeploymentStatus;
+  /** Where the deployment runs; rows from before targets existed are `docker` */
+  target?: DeploymentTargetKind;
+  imageId?: string;
+  imageName?: string;
+  containerId?: string;
+  port?: number;
+  /** Exported bundle, for targets that produce one */
+  artifactPath?: string;
+  url?: string;
+  error?: string;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+/**
+ * Shape of the `Deployment.metadata` JSON column as written by the worker
+ */
+export interface DeploymentMetadata {
+  buildId?: string;
+  deployJobId?: string;
+  target?: DeploymentTargetKind;
+  imageId?: string;
+  imageName?: string;
+  containerId?: string;
+  port?: number;
+  artifactPath?: string;
+}
+
+/**
+ * Fields that can be changed on a deployment record
+ */
+export type DeploymentRecordUpdate = Partial<
+  Pick<DeploymentRecord, 'status' | 'url' | 'error' | 'completedAt'>
+> &
+  Omit<DeploymentMetadata, 'buildId' | 'deployJobId'>;
@@ -0,0 +1,129 @@
+import { Controller, Get, Param, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { DeploymentsService } from './deployments.service';
+import {
+  BuildLogListResponseDto,
+  DeploymentListResponseDto,
+  DeploymentResponseDto,
+} from './dto';
+import { PaginationParams } from '../types';
+
+@ApiTags('deployments')
+@ApiBearerAuth('JWT-auth')
+@Controller('deployments')
+export class DeploymentsController {
+  constructor(private readonly deploymentsService: DeploymentsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all deployments for current user' })
+  @ApiQuery({
+    name: 'projectId',
+    required: false,
+    type: String,
+    description: 'Filter by project ID',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    type: String,
+    description: 'Filter by status',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (default: 20)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'List of deployments',
+    type: DeploymentListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async findAll(
+    @Query() pagination: PaginationParams,
+    @Query('projectId') projectId?: string,
+    @Query('status') status?: string,
+  ): Promise<DeploymentListResponseDto> {
+    const userId = 'demo-user-id';
+    return this.deploymentsService.findAll(userId, pagination, { projectId, status });
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a deployment by ID' })
+  @ApiParam({ name: 'id', description: 'Deployment ID, build job ID or deploy job ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Deployment details',
+    type: DeploymentResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Deployment not found' })
+  async findOne(@Param('id') id: string): Promise<DeploymentResponseDto> {
+    const userId = 'demo-user-id';
+    return this.deploymentsService.findOne(userId, id);
+  }
+
+  @Get(':id/logs')
+  @ApiOperation({ summary: 'Page through build and deploy logs' })
+  @ApiParam({ name: 'id', description: 'Deployment ID, build job ID or deploy job ID' })
+  @ApiQuery({
+    name: 'level',
+    required: false,
+    enum: ['DEBUG', 'INFO', 'WARN', 'ERROR'],
+    description: 'Filter by log level',
+  })
+  @ApiQuery({
+    name: 'source',
+    required: false,
+    type: String,
+    description: 'Filter by source (build, deploy)',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (default: 1)',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Lines per page (default: 200, max: 1000)',
+  })
+  @ApiQuery({
+    name: 'sortOrder',
+    required: false,
+    enum: ['asc', 'desc'],
+    description: 'Sort order (default: asc)',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Log lines',
+    type: BuildLogListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Deployment not found' })
+  async getLogs(
+    @Param('id') id: string,
+    @Query() pagination: PaginationParams,
+    @Query('level') level?: string,
+    @Query('source') source?: string,
+  ): Promise<BuildLogListResponseDto> {
+    const userId = 'demo-user-id';
+    return this.deploymentsService.getLogs(userId, id, pagination, { level, source });
+  }
+}
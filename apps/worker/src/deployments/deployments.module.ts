@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { DeploymentsController } from './deployments.controller';
+import { DeploymentsService } from './deployments.service';
+
+/**
+ * Deployments Module
+ *
+ * Persists deployment records and build logs, and exposes them over HTTP.
+ *
+ * Exports:
+ * - DeploymentsService: Used by the queue processor to track build and deploy jobs
+ */
+@Module({
+  controllers: [DeploymentsController],
+  providers: [DeploymentsService],
+  exports: [DeploymentsService],
+})
+export class DeploymentsModule {}
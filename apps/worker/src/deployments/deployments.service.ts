@@ -0,0 +1,499 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
+import {
+  DeploymentEnvironment as PrismaDeploymentEnvironment,
+  DeploymentStatus as PrismaDeploymentStatus,
+  LogLevel,
+  Prisma,
+  type Deployment,
+} from '@prisma/client';
+import { isUUID } from 'class-validator';
+import { PrismaService } from '../database';
+import {
+  BuildJobData,
+  DeployJobData,
+  DeploymentEnvironment,
+  PaginationParams,
+} from '../types';
+import { BuildLogWriter } from './build-log.writer';
+import {
+  DeploymentMetadata,
+  DeploymentRecord,
+  DeploymentRecordUpdate,
+  DeploymentStatus,
+} from './deployment.types';
+import {
+  BuildLogListResponseDto,
+  DeploymentListResponseDto,
+  DeploymentResponseDto,
+} from './dto';
+
+interface DeploymentFilterOptions {
+  projectId?: string;
+  status?: string;
+}
+
+interface LogFilterOptions {
+  level?: string;
+  source?: string;
+}
+
+/**
+ * Worker status to database status
+ */
+const STATUS_TO_DB: Record<DeploymentStatus, PrismaDeploymentStatus> = {
+  [DeploymentStatus.PENDING]: PrismaDeploymentStatus.PENDING,
+  [DeploymentStatus.BUILDING]: PrismaDeploymentStatus.BUILDING,
+  [DeploymentStatus.DEPLOYING]: PrismaDeploymentStatus.DEPLOYING,
+  [DeploymentStatus.RUNNING]: PrismaDeploymentStatus.DEPLOYED,
+  [DeploymentStatus.FAILED]: PrismaDeploymentStatus.FAILED,
+  [DeploymentStatus.STOPPED]: PrismaDeploymentStatus.CANCELLED,
+};
+
+/**
+ * Database status to worker status
+ */
+const STATUS_FROM_DB: Record<PrismaDeploymentStatus, DeploymentStatus> = {
+  [PrismaDeploymentStatus.PENDING]: DeploymentStatus.PENDING,
+  [PrismaDeploymentStatus.BUILDING]: DeploymentStatus.BUILDING,
+  [PrismaDeploymentStatus.DEPLOYING]: DeploymentStatus.DEPLOYING,
+  [PrismaDeploymentStatus.DEPLOYED]: DeploymentStatus.RUNNING,
+  [PrismaDeploymentStatus.FAILED]: DeploymentStatus.FAILED,
+  [PrismaDeploymentStatus.CANCELLED]: DeploymentStatus.STOPPED,
+  [PrismaDeploymentStatus.ROLLED_BACK]: DeploymentStatus.STOPPED,
+};
+
+const ENVIRONMENT_TO_DB: Record<DeploymentEnvironment, PrismaDeploymentEnvironment> = {
+  preview: PrismaDeploymentEnvironment.PREVIEW,
+  staging: PrismaDeploymentEnvironment.STAGING,
+  production: PrismaDeploymentEnvironment.PRODUCTION,
+};
+
+/**
+ * Deployments Service
+ *
+ * Persists deployment state to the Deployment table and build output to
+ * the BuildLog table so history survives worker restarts.
+ *
+ * A build job creates the row; the first deploy job for that build claims
+ * it, so a build followed by a deploy shows up as a single deployment.
+ * Deployments can be looked up by row ID or by the build/deploy job ID.
+ */
+@Injectable()
+export class DeploymentsService {
+  private readonly logger = new Logger(DeploymentsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // ==========================================
+  // Job Tracking
+  // ==========================================
+
+  /**
+   * Create (or, on job retry, reuse) the deployment row for a build job
+   */
+  async createForBuild(data: BuildJobData): Promise<DeploymentRecord> {
+    const existing = await this.findRowByJobId(data.buildId);
+    if (existing) {
+      return this.update(existing.id, {
+        status: DeploymentStatus.BUILDING,
+        error: undefined,
+        completedAt: undefined,
+      });
+    }
+
+    const metadata: DeploymentMetadata = { buildId: data.buildId };
+
+    const deployment = await this.prisma.deployment.create({
+      data: {
+        projectId: data.projectId,
+        userId: data.userId,
+        status: PrismaDeploymentStatus.BUILDING,
+        buildCommand: data.config.buildCommand,
+        outputDir: data.config.outputDirectory,
+        nodeVersion: data.config.nodeVersion,
+        gitCommit: data.gitInfo?.commit,
+        gitBranch: data.gitInfo?.branch,
+        gitMessage: data.gitInfo?.message,
+        startedAt: new Date(),
+        metadata: metadata as Prisma.InputJsonObject,
+      },
+    });
+
+    this.logger.log(`Deployment ${deployment.id} created for build ${data.buildId}`);
+
+    return this.toRecord(deployment);
+  }
+
+  /**
+   * Find or create the deployment row for a deploy job
+   *
+   * Reuses the row of a retried deploy job, then the not-yet-deployed row
+   * of the build being deployed. Otherwise a new row is created that
+   * inherits the build's image.
+   */
+  async claimForDeploy(data: DeployJobData): Promise<DeploymentRecord> {
+    const environment = ENVIRONMENT_TO_DB[data.environment];
+
+    const retried = await this.findRowByJobId(data.deploymentId);
+    if (retried) {
+      return this.toRecord(retried);
+    }
+
+    const build = await this.findRowByJobId(data.buildId);
+    const buildMetadata = build ? this.getMetadata(build) : undefined;
+
+    if (build && !buildMetadata?.deployJobId) {
+      const claimed = await this.prisma.deployment.update({
+        where: { id: build.id },
+        data: {
+          environment,
+          versionId: data.versionId,
+          metadata: {
+            ...buildMetadata,
+            deployJobId: data.deploymentId,
+          } as Prisma.InputJsonObject,
+        },
+      });
+      return this.toRecord(claimed);
+    }
+
+    const metadata: DeploymentMetadata = {
+      buildId: data.buildId,
+      deployJobId: data.deploymentId,
+      imageId: buildMetadata?.imageId,
+      imageName: buildMetadata?.imageName,
+    };
+
+    const deployment = await this.prisma.deployment.create({
+      data: {
+        projectId: data.projectId,
+        userId: data.userId,
+        status: PrismaDeploymentStatus.PENDING,
+        environment,
+        versionId: data.versionId,
+        startedAt: new Date(),
+        metadata: metadata as Prisma.InputJsonObject,
+      },
+    });
+
+    this.logger.log(`Deployment ${deployment.id} created for deploy job ${data.deploymentId}`);
+
+    return this.toRecord(deployment);
+  }
+
+  /**
+   * Apply changes to a deployment row
+   *
+   * Setting `completedAt` also records the duration since `startedAt`.
+   */
+  async update(
+    deploymentId: string,
+    changes: DeploymentRecordUpdate,
+  ): Promise<DeploymentRecord> {
+    const current = await this.prisma.deployment.findUniqueOrThrow({
+      where: { id: deploymentId },
+    });
+
+    const { status, url, error, completedAt, ...metadataChanges } = changes;
+    const data: Prisma.DeploymentUpdateInput = {
+      metadata: {
+        ...this.getMetadata(current),
+        ...metadataChanges,
+      } as Prisma.InputJsonObject,
+    };
+
+    if (status) {
+      data.status = STATUS_TO_DB[status];
+    }
+    if ('url' in changes) {
+      data.url = url ?? null;
+    }
+    if ('error' in changes) {
+      data.errorMessage = error ?? null;
+    }
+    if ('completedAt' in changes) {
+      data.completedAt = completedAt ?? null;
+      data.duration =
+        completedAt && current.startedAt
+          ? completedAt.getTime() - current.startedAt.getTime()
+          : null;
+    }
+
+    const deployment = await this.prisma.deployment.update({
+      where: { id: deploymentId },
+      data,
+    });
+
+    return this.toRecord(deployment);
+  }
+
+  /**
+   * Get a deployment record by row ID or job ID
+   */
+  async getRecord(idOrJobId: string): Promise<DeploymentRecord | undefined> {
+    const deployment = await this.findRow(idOrJobId);
+    return deployment ? this.toRecord(deployment) : undefined;
+  }
+
+  /**
+   * Get all deployment records for a project
+   */
+  async getProjectRecords(projectId: string): Promise<DeploymentRecord[]> {
+    const deployments = await this.prisma.deployment.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+    });
+    return deployments.map((d) => this.toRecord(d));
+  }
+
+  /**
+   * Get deployments that own, or were about to own, a container
+   *
+   * Used on startup to reconcile the database with what Docker is running.
+   * Deployments to targets other than `docker` run no container and are
+   * left out.
+   */
+  async getContainerRecords(): Promise<DeploymentRecord[]> {
+    const deployments = await this.prisma.deployment.findMany({
+      where: {
+        status: { in: [PrismaDeploymentStatus.DEPLOYING, PrismaDeploymentStatus.DEPLOYED] },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return deployments
+      .map((d) => this.toRecord(d))
+      .filter((record) => (record.target ?? 'docker') === 'docker');
+  }
+
+  /**
+   * Create a writer that streams log lines for a deployment into BuildLog
+   */
+  createLogWriter(deploymentId: string, source: string): BuildLogWriter {
+    return new BuildLogWriter(this.prisma, deploymentId, source);
+  }
+
+  // ==========================================
+  // API
+  // ==========================================
+
+  /**
+   * Get all deployments for a user with filtering and pagination
+   */
+  async findAll(
+    userId: string,
+    pagination: PaginationParams,
+    filters: DeploymentFilterOptions,
+  ): Promise<DeploymentListResponseDto> {
+    const { page, limit } = this.toPage(pagination, 20);
+    const sortOrder = pagination.sortOrder === 'asc' ? 'asc' : 'desc';
+
+    const where: Prisma.DeploymentWhereInput = { userId };
+
+    // Demo and system ids own no deployment rows and would fail the query
+    if (!isUUID(userId)) {
+      return { deployments: [], meta: { page, limit, total: 0, hasMore: false } };
+    }
+
+    if (filters.projectId) {
+      if (!isUUID(filters.projectId)) {
+        return { deployments: [], meta: { page, limit, total: 0, hasMore: false } };
+      }
+      where.projectId = filters.projectId;
+    }
+
+    if (filters.status && filters.status in STATUS_FROM_DB) {
+      where.status = filters.status as PrismaDeploymentStatus;
+    } else if (filters.status) {
+      const status = STATUS_TO_DB[filters.status as DeploymentStatus];
+      if (status) {
+        where.status = status;
+      }
+    }
+
+    const [total, deployments] = await this.prisma.$transaction([
+      this.prisma.deployment.count({ where }),
+      this.prisma.deployment.findMany({
+        where,
+        orderBy: { createdAt: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      deployments: deployments.map((d) => this.toResponse(d)),
+      meta: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total,
+      },
+    };
+  }
+
+  /**
+   * Get a single deployment
+   */
+  async findOne(userId: string, idOrJobId: string): Promise<DeploymentResponseDto> {
+    const deployment = await this.getDeploymentWithAuth(userId, idOrJobId);
+    return this.toResponse(deployment);
+  }
+
+  /**
+   * Page through the build and deploy logs of a deployment
+   */
+  async getLogs(
+    userId: string,
+    idOrJobId: string,
+    pagination: PaginationParams,
+    filters: LogFilterOptions,
+  ): Promise<BuildLogListResponseDto> {
+    const deployment = await this.getDeploymentWithAuth(userId, idOrJobId);
+    const { page, limit } = this.toPage(pagination, 200, 1000);
+    const sortOrder = pagination.sortOrder === 'desc' ? 'desc' : 'asc';
+
+    const where: Prisma.BuildLogWhereInput = { deploymentId: deployment.id };
+
+    const level = filters.level?.toUpperCase();
+    if (level && level in LogLevel) {
+      where.level = level as LogLevel;
+    }
+    if (filters.source) {
+      where.source = filters.source;
+    }
+
+    const [total, logs] = await this.prisma.$transaction([
+      this.prisma.buildLog.count({ where }),
+      this.prisma.buildLog.findMany({
+        where,
+        orderBy: { timestamp: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+        select: { timestamp: true, level: true, message: true, source: true },
+      }),
+    ]);
+
+    return {
+      logs: logs.map((log) => ({
+        timestamp: log.timestamp,
+        level: log.level,
+        message: log.message,
+        source: log.source ?? undefined,
+      })),
+      meta: {
+        page,
+        limit,
+        total,
+        hasMore: page * limit < total,
+      },
+    };
+  }
+
+  // ==========================================
+  // Private Helper Methods
+  // ==========================================
+
+  private async findRow(idOrJobId: string): Promise<Deployment | null> {
+    if (isUUID(idOrJobId)) {
+      return this.prisma.deployment.findUnique({ where: { id: idOrJobId } });
+    }
+    return this.findRowByJobId(idOrJobId);
+  }
+
+  /**
+   * Find the most recent row started by a build or deploy job
+   */
+  private async findRowByJobId(jobId: string): Promise<Deployment | null> {
+    return this.prisma.deployment.findFirst({
+      where: {
+        OR: [
+          { metadata: { path: ['buildId'], equals: jobId } },
+          { metadata: { path: ['deployJobId'], equals: jobId } },
+        ],
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  private async getDeploymentWithAuth(userId: string, idOrJobId: string): Promise<Deployment> {
+    const deployment = await this.findRow(idOrJobId);
+
+    if (!deployment) {
+      throw new NotFoundException(`Deployment not found: ${idOrJobId}`);
+    }
+
+    if (deployment.userId !== userId) {
+      throw new ForbiddenException('You do not have access to this deployment');
+    }
+
+    return deployment;
+  }
+
+  private toPage(
+    pagination: PaginationParams,
+    defaultLimit: number,
+    maxLimit = 100,
+  ): { page: number; limit: number } {
+    return {
+      page: Math.max(1, Number(pagination.page) || 1),
+      limit: Math.min(maxLimit, Math.max(1, Number(pagination.limit) || defaultLimit)),
+    };
+  }
+
+  private getMetadata(deployment: Deployment): DeploymentMetadata {
+    const { metadata } = deployment;
+    return metadata && typeof metadata === 'object' && !Array.isArray(metadata)
+      ? (metadata as DeploymentMetadata)
+      : {};
+  }
+
+  private toRecord(deployment: Deployment): DeploymentRecord {
+    const metadata = this.getMetadata(deployment);
+
+    return {
+      deploymentId: deployment.id,
+      buildId: metadata.buildId,
+      deployJobId: metadata.deployJobId,
+      projectId: deployment.projectId,
+      userId: deployment.userId,
+      status: STATUS_FROM_DB[deployment.status],
+      target: metadata.target,
+      imageId: metadata.imageId,
+      imageName: metadata.imageName,
+      containerId: metadata.containerId,
+      port: metadata.port,
+      artifactPath: metadata.artifactPath,
+      url: deployment.url ?? undefined,
+      error: deployment.errorMessage ?? undefined,
+      startedAt: deployment.startedAt ?? deployment.createdAt,
+      completedAt: deployment.completedAt ?? undefined,
+    };
+  }
+
+  private toResponse(deployment: Deployment): DeploymentResponseDto {
+    const record = this.toRecord(deployment);
+
+    return {
+      id: deployment.id,
+      projectId: deployment.projectId,
+      status: record.status,
+      environment: deployment.environment,
+      url: record.url,
+      buildId: record.buildId,
+      deployJobId: record.deployJobId,
+      port: record.port,
+      target: record.target ?? 'docker',
+      artifactPath: record.artifactPath,
+      error: record.error,
+      durationMs: deployment.duration ?? undefined,
+      startedAt: deployment.startedAt ?? undefined,
+      completedAt: record.completedAt,
+      createdAt: deployment.createdAt,
+    };
+  }
+}
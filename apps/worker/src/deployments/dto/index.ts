@@ -0,0 +1,150 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiMeta, DeploymentTargetKind } from '../../types';
+import { DeploymentStatus } from '../deployment.types';
+
+export class DeploymentResponseDto {
+  @ApiProperty({
+    example: '7b1e0c4e-6f7a-4a47-9f6e-1b9a0d2f4c11',
+    description: 'Deployment ID',
+  })
+  id: string;
+
+  @ApiProperty({
+    example: '3f0c8e55-2a1b-4e0d-8f55-0a6c1f3b9d27',
+    description: 'Project ID',
+  })
+  projectId: string;
+
+  @ApiProperty({
+    enum: DeploymentStatus,
+    example: DeploymentStatus.RUNNING,
+    description: 'Current status',
+  })
+  status: DeploymentStatus;
+
+  @ApiProperty({
+    example: 'PREVIEW',
+    description: 'Target environment',
+  })
+  environment: string;
+
+  @ApiPropertyOptional({
+    example: 'http://localhost:3001',
+    description: 'Deployed URL',
+  })
+  url?: string;
+
+  @ApiPropertyOptional({
+    example: 'build_1704067200000_abc123',
+    description: 'Build job ID',
+  })
+  buildId?: string;
+
+  @ApiPropertyOptional({
+    example: 'deploy_1704067200000_def456',
+    description: 'Deploy job ID',
+  })
+  deployJobId?: string;
+
+  @ApiPropertyOptional({
+    example: 3001,
+    description: 'Host port of the running container',
+  })
+  port?: number;
+
+  @ApiPropertyOptional({
+    example: 'docker',
+    enum: ['docker', 'static', 'compose'],
+    description: 'Where the deployment runs',
+  })
+  target?: DeploymentTargetKind;
+
+  @ApiPropertyOptional({
+    example: '/tmp/nexusgen-bundles/7b1e0c4e/production-1704067242000.tar.gz',
+    description: 'Exported docker-compose bundle (compose deployments)',
+  })
+  artifactPath?: string;
+
+  @ApiPropertyOptional({
+    example: 'Docker build failed',
+    description: 'Error message (when failed)',
+  })
+  error?: string;
+
+  @ApiPropertyOptional({
+    example: 42000,
+    description: 'Duration in milliseconds',
+  })
+  durationMs?: number;
+
+  @ApiPropertyOptional({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Start date',
+  })
+  startedAt?: Date;
+
+  @ApiPropertyOptional({
+    example: '2024-01-01T00:00:42.000Z',
+    description: 'Completion date',
+  })
+  completedAt?: Date;
+
+  @ApiProperty({
+    example: '2024-01-01T00:00:00.000Z',
+    description: 'Creation date',
+  })
+  createdAt: Date;
+}
+
+export class DeploymentListResponseDto {
+  @ApiProperty({
+    type: [DeploymentResponseDto],
+    description: 'List of deployments',
+  })
+  deployments: DeploymentResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+  })
+  meta: ApiMeta;
+}
+
+export class BuildLogResponseDto {
+  @ApiProperty({
+    example: '2024-01-01T00:00:01.000Z',
+    description: 'When the line was written',
+  })
+  timestamp: Date;
+
+  @ApiProperty({
+    enum: ['DEBUG', 'INFO', 'WARN', 'ERROR'],
+    example: 'INFO',
+    description: 'Log level',
+  })
+  level: string;
+
+  @ApiProperty({
+    example: 'Step 1/8 : FROM node:20-alpine',
+    description: 'Log line',
+  })
+  message: string;
+
+  @ApiPropertyOptional({
+    example: 'build',
+    description: 'Log source (build, deploy)',
+  })
+  source?: string;
+}
+
+export class BuildLogListResponseDto {
+  @ApiProperty({
+    type: [BuildLogResponseDto],
+    description: 'Log lines in write order',
+  })
+  logs: BuildLogResponseDto[];
+
+  @ApiProperty({
+    description: 'Pagination metadata',
+  })
+  meta: ApiMeta;
+}
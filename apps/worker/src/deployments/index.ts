@@ -0,0 +1,15 @@
+/**
+ * Deployments Module
+ *
+ * Deployment records and build log history backed by Prisma.
+ */
+
+export { DeploymentsModule } from './deployments.module';
+export { DeploymentsService } from './deployments.service';
+export { BuildLogWriter } from './build-log.writer';
+export {
+  DeploymentStatus,
+  DeploymentRecord,
+  DeploymentMetadata,
+  DeploymentRecordUpdate,
+} from './deployment.types';
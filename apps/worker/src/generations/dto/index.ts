@@ -12,34 +12,9 @@ import {
   GenerationStatus,
   GenerationResult,
   GenerationMetadata,
-  AIModelConfig,
   ApiMeta,
 } from '../../types';
 
-export class ModelConfigDto {
-  @ApiPropertyOptional({
-    example: 'gpt-4-turbo-preview',
-    description: 'AI model to use',
-  })
-  @IsString()
-  @IsOptional()
-  model?: string;
-
-  @ApiPropertyOptional({
-    example: 0.7,
-    description: 'Temperature for generation (0-2)',
-  })
-  @IsOptional()
-  temperature?: number;
-
-  @ApiPropertyOptional({
-    example: 4096,
-    description: 'Maximum tokens for response',
-  })
-  @IsOptional()
-  maxTokens?: number;
-}
-
 export class CreateGenerationDto {
   @ApiProperty({
     example: 'proj_123456789',
@@ -67,14 +42,6 @@ export class CreateGenerationDto {
   @IsEnum(GenerationType)
   type: GenerationType;
 
-  @ApiPropertyOptional({
-    type: ModelConfigDto,
-    description: 'AI model configuration overrides',
-  })
-  @IsObject()
-  @IsOptional()
-  modelConfig?: Partial<AIModelConfig>;
-
   @ApiPropertyOptional({
     example: { targetPath: 'src/components' },
     description: 'Additional context for generation',
@@ -84,6 +51,58 @@ export class CreateGenerationDto {
   context?: Record<string, unknown>;
 }
 
+export class AgentCallUsageDto {
+  @ApiProperty({ example: 'coder', enum: ['architect', 'coder', 'fixer', 'reviewer'] })
+  agent: 'architect' | 'coder' | 'fixer' | 'reviewer';
+
+  @ApiProperty({ example: 'generate', description: 'What the call was for' })
+  operation: string;
+
+  @ApiProperty({ example: 'openai/gpt-4o', description: 'Model that served the call' })
+  model: string;
+
+  @ApiPropertyOptional({
+    example: 'anthropic/claude-3-5-sonnet-latest',
+    description: 'Model the call was meant for, when a fallback served it',
+  })
+  requestedModel?: string;
+
+  @ApiProperty({ example: 1200 })
+  promptTokens: number;
+
+  @ApiProperty({ example: 3400 })
+  completionTokens: number;
+
+  @ApiProperty({ example: 4600 })
+  totalTokens: number;
+
+  @ApiProperty({ example: 0.037, description: 'Cost in USD' })
+  costUsd: number;
+
+  @ApiProperty({ example: true, description: 'Whether the call produced usable output' })
+  success: boolean;
+}
+
+export class GenerationUsageDto {
+  @ApiProperty({ example: 5200 })
+  promptTokens: number;
+
+  @ApiProperty({ example: 9100 })
+  completionTokens: number;
+
+  @ApiProperty({ example: 14300 })
+  totalTokens: number;
+
+  @ApiProperty({ example: 0.104, description: 'Total cost in USD' })
+  costUsd: number;
+
+  @ApiProperty({
+    type: [AgentCallUsageDto],
+    description: 'Every model call, including retries and healing attempts',
+  })
+  calls: AgentCallUsageDto[];
+}
+
 export class GenerationResponseDto {
   @ApiProperty({
     example: 'gen_123456789',
@@ -127,6 +146,12 @@ export class GenerationResponseDto {
   })
   metadata: GenerationMetadata;
 
+  @ApiPropertyOptional({
+    type: GenerationUsageDto,
+    description: 'Token usage and cost (when completed)',
+  })
+  usage?: GenerationUsageDto;
+
   @ApiProperty({
     example: '2024-01-01T00:00:00.000Z',
     description: 'Creation date',
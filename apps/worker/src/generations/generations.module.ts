@@ -3,9 +3,11 @@ import { ConfigModule } from '@nestjs/config';
 import { GenerationsController } from './generations.controller';
 import { GenerationsService } from './generations.service';
 import { AIModule } from '../ai/ai.module';
+import { ProjectsModule } from '../projects/projects.module';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-  imports: [ConfigModule, AIModule],
+  imports: [ConfigModule, AIModule, ProjectsModule, UsageModule],
   controllers: [GenerationsController],
   providers: [GenerationsService],
   exports: [GenerationsService],
@@ -6,16 +6,24 @@ import {
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { AIMessageRole, Prisma } from '@prisma/client';
+import { isUUID } from 'class-validator';
 import { AIOrchestratorService } from '../ai/ai-orchestrator.service';
+import { resolveModelRoute } from '../ai/model-routing';
+import { ProjectsService } from '../projects/projects.service';
+import { PrismaService } from '../database';
+import { UsageService } from '../usage';
+import { UsageTracker, type UsageSummary } from '../agents';
 import {
   CreateGenerationDto,
   GenerationResponseDto,
   GenerationListResponseDto,
 } from './dto';
 import {
-  Generation,
   GenerationType,
   GenerationStatus,
+  GenerationMetadata,
+  GenerationResult,
   GeneratedFile,
   PaginationParams,
 } from '../types';
@@ -25,51 +33,47 @@ interface FilterOptions {
   status?: string;
 }
 
+/**
+ * Generations are stored as AI conversations: the prompt is the USER message,
+ * the generated files are the ASSISTANT message, and the generation state
+ * lives in the conversation metadata under this shape.
+ */
+interface GenerationRecordMetadata {
+  kind: 'generation';
+  type: GenerationType;
+  status: GenerationStatus;
+  generation: GenerationMetadata;
+  result?: Omit<GenerationResult, 'files'>;
+  usage?: UsageSummary;
+  completedAt?: string;
+}
+
+const GENERATION_INCLUDE = {
+  messages: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.AIConversationInclude;
+
+type GenerationRecord = Prisma.AIConversationGetPayload<{
+  include: typeof GENERATION_INCLUDE;
+}>;
+
+/**
+ * Matches conversations that represent generations
+ */
+const IS_GENERATION: Prisma.AIConversationWhereInput = {
+  metadata: { path: ['kind'], equals: 'generation' },
+};
+
 @Injectable()
 export class GenerationsService {
   private readonly logger = new Logger(GenerationsService.name);
 
-  // In-memory store for demo purposes - would use Prisma in production
-  private generations: Map<string, Generation> = new Map();
-
   constructor(
     private readonly configService: ConfigService,
     private readonly aiOrchestrator: AIOrchestratorService,
-  ) {
-    // Initialize with a demo generation
-    const demoGeneration: Generation = {
-      id: 'gen_demo_1',
-      projectId: 'demo-project-1',
-      userId: 'demo-user-id',
-      prompt: 'Create a responsive navigation component with dark mode support',
-      type: GenerationType.COMPONENT,
-      status: GenerationStatus.COMPLETED,
-      result: {
-        files: [
-          {
-            path: 'components/Navigation.tsx',
-            content: '// Navigation component code...',
-            language: 'typescript',
-            isNew: true,
-          },
-        ],
-        logs: ['Generation started', 'Analyzing prompt', 'Generating code', 'Complete'],
-        tokensUsed: 1500,
-        modelUsed: 'gpt-4-turbo-preview',
-      },
-      metadata: {
-        promptTokens: 500,
-        completionTokens: 1000,
-        totalTokens: 1500,
-        modelVersion: 'gpt-4-turbo-preview',
-        processingTimeMs: 5000,
-      },
-      createdAt: new Date(Date.now() - 3600000),
-      updatedAt: new Date(Date.now() - 3600000),
-      completedAt: new Date(Date.now() - 3595000),
-    };
-    this.generations.set(demoGeneration.id, demoGeneration);
-  }
+    private readonly prisma: PrismaService,
+    private readonly usageService: UsageService,
+    private readonly projectsService: ProjectsService,
+  ) {}
 
   /**
    * Create a new generation request
@@ -80,26 +84,54 @@ export class GenerationsService {
   ): Promise<GenerationResponseDto> {
     this.logger.log(`Creating generation for user: ${userId}`);
 
-    const generation: Generation = {
-      id: this.generateId(),
-      projectId: createGenerationDto.projectId,
-      userId,
-      prompt: createGenerationDto.prompt,
+    // Demo and system ids own no project rows and would fail the query
+    const project = isUUID(createGenerationDto.projectId) && isUUID(userId)
+      ? await this.prisma.project.findFirst({
+          where: { id: createGenerationDto.projectId, userId, deletedAt: null },
+          select: { id: true },
+        })
+      : null;
+
+    if (!project) {
+      throw new NotFoundException(`Project not found: ${createGenerationDto.projectId}`);
+    }
+
+    // Recorded as the model the coder is routed to when the generation is queued
+    const { modelConfig } = resolveModelRoute(this.configService, 'coder', {});
+    const model = `${modelConfig.provider}/${modelConfig.model}`;
+    const metadata: GenerationRecordMetadata = {
+      kind: 'generation',
       type: createGenerationDto.type,
       status: GenerationStatus.QUEUED,
-      metadata: {
+      generation: {
         promptTokens: 0,
         completionTokens: 0,
         totalTokens: 0,
-        modelVersion: createGenerationDto.modelConfig?.model || 'gpt-4-turbo-preview',
+        modelVersion: model,
         processingTimeMs: 0,
       },
-      createdAt: new Date(),
-      updatedAt: new Date(),
     };
 
-    // Save generation
-    this.generations.set(generation.id, generation);
+    const generation = await this.prisma.aIConversation.create({
+      data: {
+        userId,
+        projectId: project.id,
+        title: createGenerationDto.prompt.slice(0, 100),
+        model,
+        context: {
+          context: createGenerationDto.context,
+        } as Prisma.InputJsonObject,
+        metadata: metadata as unknown as Prisma.InputJsonObject,
+        lastMessageAt: new Date(),
+        messages: {
+          create: {
+            role: AIMessageRole.USER,
+            content: createGenerationDto.prompt,
+          },
+        },
+      },
+      include: GENERATION_INCLUDE,
+    });
 
     // Queue generation job (in production, this would use BullMQ)
     this.processGeneration(generation.id).catch((error) => {
@@ -119,51 +151,52 @@ export class GenerationsService {
     pagination: PaginationParams,
     filters: FilterOptions,
   ): Promise<GenerationListResponseDto> {
-    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc' } = pagination;
+    const page = Math.max(1, Number(pagination.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(pagination.limit) || 10));
+    const sortBy = pagination.sortBy === 'updatedAt' ? 'updatedAt' : 'createdAt';
+    const sortOrder = pagination.sortOrder === 'asc' ? 'asc' : 'desc';
 
     this.logger.log(`Fetching generations for user: ${userId}`);
 
-    // Filter generations
-    let userGenerations = Array.from(this.generations.values()).filter(
-      (g) => g.userId === userId,
-    );
+    // Demo and system ids own no generation rows and would fail the query
+    if (!isUUID(userId)) {
+      return { generations: [], meta: { page, limit, total: 0, hasMore: false } };
+    }
+
+    const where: Prisma.AIConversationWhereInput = {
+      userId,
+      AND: [IS_GENERATION],
+    };
 
     if (filters.projectId) {
-      userGenerations = userGenerations.filter(
-        (g) => g.projectId === filters.projectId,
-      );
+      if (!isUUID(filters.projectId)) {
+        return { generations: [], meta: { page, limit, total: 0, hasMore: false } };
+      }
+      where.projectId = filters.projectId;
     }
 
     if (filters.status) {
-      userGenerations = userGenerations.filter((g) => g.status === filters.status);
+      where.AND = [IS_GENERATION, { metadata: { path: ['status'], equals: filters.status } }];
     }
 
-    // Sort
-    userGenerations.sort((a, b) => {
-      const aValue = a[sortBy as keyof Generation];
-      const bValue = b[sortBy as keyof Generation];
-
-      if (aValue instanceof Date && bValue instanceof Date) {
-        return sortOrder === 'asc'
-          ? aValue.getTime() - bValue.getTime()
-          : bValue.getTime() - aValue.getTime();
-      }
-
-      return 0;
-    });
-
-    // Paginate
-    const total = userGenerations.length;
-    const startIndex = (page - 1) * limit;
-    const paginatedGenerations = userGenerations.slice(startIndex, startIndex + limit);
+    const [total, generations] = await this.prisma.$transaction([
+      this.prisma.aIConversation.count({ where }),
+      this.prisma.aIConversation.findMany({
+        where,
+        include: GENERATION_INCLUDE,
+        orderBy: { [sortBy]: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
 
     return {
-      generations: paginatedGenerations.map((g) => this.toGenerationResponse(g)),
+      generations: generations.map((g) => this.toGenerationResponse(g)),
       meta: {
         page,
         limit,
         total,
-        hasMore: startIndex + limit < total,
+        hasMore: page * limit < total,
       },
     };
   }
@@ -184,11 +217,12 @@ export class GenerationsService {
     generationId: string,
   ): Promise<{ id: string; status: GenerationStatus; progress: number; currentStep?: string }> {
     const generation = await this.getGenerationWithAuth(userId, generationId);
+    const { status } = this.getMetadata(generation);
 
     let progress = 0;
     let currentStep: string | undefined;
 
-    switch (generation.status) {
+    switch (status) {
       case GenerationStatus.QUEUED:
         progress = 0;
         currentStep = 'Waiting in queue';
@@ -213,7 +247,7 @@ export class GenerationsService {
 
     return {
       id: generation.id,
-      status: generation.status,
+      status,
       progress,
       currentStep,
     };
@@ -224,22 +258,19 @@ export class GenerationsService {
    */
   async cancel(userId: string, generationId: string): Promise<GenerationResponseDto> {
     const generation = await this.getGenerationWithAuth(userId, generationId);
+    const { status } = this.getMetadata(generation);
 
-    if (
-      generation.status !== GenerationStatus.QUEUED &&
-      generation.status !== GenerationStatus.PROCESSING
-    ) {
+    if (status !== GenerationStatus.QUEUED && status !== GenerationStatus.PROCESSING) {
       throw new ConflictException('Only queued or processing generations can be cancelled');
     }
 
-    generation.status = GenerationStatus.CANCELLED;
-    generation.updatedAt = new Date();
-
-    this.generations.set(generation.id, generation);
+    const updated = await this.updateMetadata(generation, {
+      status: GenerationStatus.CANCELLED,
+    });
 
     this.logger.log(`Generation cancelled: ${generationId}`);
 
-    return this.toGenerationResponse(generation);
+    return this.toGenerationResponse(updated);
   }
 
   /**
@@ -248,15 +279,21 @@ export class GenerationsService {
   async retry(userId: string, generationId: string): Promise<GenerationResponseDto> {
     const generation = await this.getGenerationWithAuth(userId, generationId);
 
-    if (generation.status !== GenerationStatus.FAILED) {
+    if (this.getMetadata(generation).status !== GenerationStatus.FAILED) {
       throw new ConflictException('Only failed generations can be retried');
     }
 
-    generation.status = GenerationStatus.QUEUED;
-    generation.updatedAt = new Date();
-    generation.result = undefined;
+    // Drop any partial output from the failed attempt
+    await this.prisma.aIMessage.deleteMany({
+      where: { conversationId: generation.id, role: AIMessageRole.ASSISTANT },
+    });
 
-    this.generations.set(generation.id, generation);
+    const updated = await this.updateMetadata(generation, {
+      status: GenerationStatus.QUEUED,
+      result: undefined,
+      usage: undefined,
+      completedAt: undefined,
+    });
 
     // Re-queue generation
     this.processGeneration(generation.id).catch((error) => {
@@ -265,7 +302,7 @@ export class GenerationsService {
 
     this.logger.log(`Generation retry queued: ${generationId}`);
 
-    return this.toGenerationResponse(generation);
+    return this.toGenerationResponse(updated);
   }
 
   /**
@@ -277,12 +314,12 @@ export class GenerationsService {
   ): Promise<{ files: GeneratedFile[] }> {
     const generation = await this.getGenerationWithAuth(userId, generationId);
 
-    if (generation.status !== GenerationStatus.COMPLETED) {
+    if (this.getMetadata(generation).status !== GenerationStatus.COMPLETED) {
       throw new ConflictException('Generation is not completed');
     }
 
     return {
-      files: generation.result?.files || [],
+      files: this.getFilesFromRecord(generation),
     };
   }
 
@@ -291,7 +328,7 @@ export class GenerationsService {
    */
   async remove(userId: string, generationId: string): Promise<void> {
     await this.getGenerationWithAuth(userId, generationId);
-    this.generations.delete(generationId);
+    await this.prisma.aIConversation.delete({ where: { id: generationId } });
     this.logger.log(`Generation deleted: ${generationId}`);
   }
 
@@ -300,54 +337,100 @@ export class GenerationsService {
   // ==========================================
 
   private async processGeneration(generationId: string): Promise<void> {
-    const generation = this.generations.get(generationId);
-    if (!generation) return;
+    let generation = await this.prisma.aIConversation.findUnique({
+      where: { id: generationId },
+      include: GENERATION_INCLUDE,
+    });
+    if (!generation || !generation.projectId) return;
+    const { projectId } = generation;
 
     try {
       // Update status to processing
-      generation.status = GenerationStatus.PROCESSING;
-      generation.updatedAt = new Date();
-      this.generations.set(generationId, generation);
+      generation = await this.updateMetadata(generation, {
+        status: GenerationStatus.PROCESSING,
+      });
 
       const startTime = Date.now();
+      const metadata = this.getMetadata(generation);
+      const tracker = new UsageTracker();
 
       // Process with AI orchestrator
-      const result = await this.aiOrchestrator.processGeneration({
-        generationId: generation.id,
-        projectId: generation.projectId,
-        userId: generation.userId,
-        prompt: generation.prompt,
-        type: generation.type,
-        settings: {
-          framework: 'NEXTJS' as any,
-          styling: 'TAILWIND' as any,
-          language: 'typescript',
-          features: [],
+      const result = await this.aiOrchestrator.processGeneration(
+        {
+          generationId: generation.id,
+          projectId,
+          userId: generation.userId,
+          prompt: this.getPrompt(generation),
+          type: metadata.type,
+          settings: await this.projectsService.getSettings(projectId),
         },
-      });
+        tracker,
+      );
 
       const processingTime = Date.now() - startTime;
 
+      // Respect a cancellation that landed while the orchestrator was running
+      const current = await this.prisma.aIConversation.findUnique({
+        where: { id: generationId },
+        include: GENERATION_INCLUDE,
+      });
+      if (!current || this.getMetadata(current).status === GenerationStatus.CANCELLED) {
+        this.logger.log(`Generation ${generationId} was cancelled, discarding result`);
+        return;
+      }
+
+      const usage = tracker.summarize();
+      const { promptTokens, completionTokens } = usage;
+      const { files, ...resultSummary } = result;
+
       // Update generation with results
-      generation.status = GenerationStatus.COMPLETED;
-      generation.result = result;
-      generation.metadata = {
-        ...generation.metadata,
-        processingTimeMs: processingTime,
-        promptTokens: result.tokensUsed * 0.3,
-        completionTokens: result.tokensUsed * 0.7,
-        totalTokens: result.tokensUsed,
-      };
-      generation.completedAt = new Date();
-      generation.updatedAt = new Date();
-
-      this.generations.set(generationId, generation);
+      await this.prisma.aIMessage.create({
+        data: {
+          conversationId: generationId,
+          role: AIMessageRole.ASSISTANT,
+          content: `Generated ${files.length} file(s)`,
+          generatedCode: files as unknown as Prisma.InputJsonArray,
+          promptTokens,
+          completionTokens,
+        },
+      });
+
+      await this.updateMetadata(
+        current,
+        {
+          status: GenerationStatus.COMPLETED,
+          result: resultSummary,
+          usage,
+          generation: {
+            ...metadata.generation,
+            processingTimeMs: processingTime,
+            promptTokens,
+            completionTokens,
+            totalTokens: usage.totalTokens,
+          },
+          completedAt: new Date().toISOString(),
+        },
+        { totalTokens: usage.totalTokens, lastMessageAt: new Date() },
+      );
+
+      await this.usageService.recordGeneration({
+        userId: generation.userId,
+        projectId,
+        generationId,
+        usage,
+      });
 
       this.logger.log(`Generation completed: ${generationId} in ${processingTime}ms`);
     } catch (error) {
-      generation.status = GenerationStatus.FAILED;
-      generation.updatedAt = new Date();
-      this.generations.set(generationId, generation);
+      // A cancellation that landed before the failure stays cancelled
+      const current = await this.prisma.aIConversation
+        .findUnique({ where: { id: generationId }, include: GENERATION_INCLUDE })
+        .catch(() => null);
+      if (current && this.getMetadata(current).status !== GenerationStatus.CANCELLED) {
+        await this.updateMetadata(current, { status: GenerationStatus.FAILED }).catch(
+          () => undefined,
+        );
+      }
 
       this.logger.error(`Generation failed: ${generationId}`, error);
       throw error;
@@ -357,8 +440,14 @@ export class GenerationsService {
   private async getGenerationWithAuth(
     userId: string,
     generationId: string,
-  ): Promise<Generation> {
-    const generation = this.generations.get(generationId);
+  ): Promise<GenerationRecord> {
+    // Generation IDs are UUIDs; anything else can't exist and would fail the query
+    const generation = isUUID(generationId)
+      ? await this.prisma.aIConversation.findFirst({
+          where: { id: generationId, ...IS_GENERATION },
+          include: GENERATION_INCLUDE,
+        })
+      : null;
 
     if (!generation) {
       throw new NotFoundException(`Generation not found: ${generationId}`);
@@ -371,22 +460,59 @@ export class GenerationsService {
     return generation;
   }
 
-  private toGenerationResponse(generation: Generation): GenerationResponseDto {
+  /**
+   * Merge a patch into the generation metadata and persist it
+   */
+  private async updateMetadata(
+    generation: GenerationRecord,
+    patch: Partial<GenerationRecordMetadata>,
+    data: Prisma.AIConversationUpdateInput = {},
+  ): Promise<GenerationRecord> {
+    const metadata = { ...this.getMetadata(generation), ...patch };
+
+    return this.prisma.aIConversation.update({
+      where: { id: generation.id },
+      data: {
+        ...data,
+        metadata: metadata as unknown as Prisma.InputJsonObject,
+      },
+      include: GENERATION_INCLUDE,
+    });
+  }
+
+  private getMetadata(generation: GenerationRecord): GenerationRecordMetadata {
+    return generation.metadata as unknown as GenerationRecordMetadata;
+  }
+
+  private getPrompt(generation: GenerationRecord): string {
+    const message = generation.messages.find((m) => m.role === AIMessageRole.USER);
+    return message?.content ?? generation.title ?? '';
+  }
+
+  private getFilesFromRecord(generation: GenerationRecord): GeneratedFile[] {
+    const message = [...generation.messages]
+      .reverse()
+      .find((m) => m.role === AIMessageRole.ASSISTANT);
+    return (message?.generatedCode as unknown as GeneratedFile[] | null) ?? [];
+  }
+
+  private toGenerationResponse(generation: GenerationRecord): GenerationResponseDto {
+    const metadata = this.getMetadata(generation);
+
     return {
       id: generation.id,
-      projectId: generation.projectId,
-      prompt: generation.prompt,
-      type: generation.type,
-      status: generation.status,
-      result: generation.result,
-      metadata: generation.metadata,
+      projectId: generation.projectId ?? '',
+      prompt: this.getPrompt(generation),
+      type: metadata.type,
+      status: metadata.status,
+      result: metadata.result
+        ? { ...metadata.result, files: this.getFilesFromRecord(generation) }
+        : undefined,
+      metadata: metadata.generation,
+      usage: metadata.usage,
       createdAt: generation.createdAt,
       updatedAt: generation.updatedAt,
-      completedAt: generation.completedAt,
+      completedAt: metadata.completedAt ? new Date(metadata.completedAt) : undefined,
     };
   }
-
-  private generateId(): string {
-    return `gen_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-  }
 }
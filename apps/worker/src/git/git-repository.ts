@@ -0,0 +1,248 @@
+/**
+ * Git Repository
+ *
+ * Runs the git CLI in a project sandbox. Commands are spawned without a
+ * shell and with terminal prompts disabled, so a remote asking for
+ * credentials fails instead of hanging the worker.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * Sandbox paths never committed: installed dependencies, build output,
+ * secrets and the platform's check results
+ */
+const EXCLUDED_PATHS = [
+  'node_modules/',
+  '.next/',
+  'dist/',
+  'build/',
+  'coverage/',
+  '.env',
+  '.env.*',
+  '.nexusgen/checks/',
+  '.nexusgen/deps-hash',
+];
+
+/**
+ * Transports a push or clone may use; `ext::` and friends run arbitrary
+ * commands
+ */
+const ALLOWED_PROTOCOLS = 'https:ssh:file';
+
+export interface GitRepositoryOptions {
+  authorName: string;
+  authorEmail: string;
+  /** Longest a single git command may run */
+  timeoutMs?: number;
+}
+
+/**
+ * The commit a repository is at
+ */
+export interface GitHead {
+  commit: string;
+  branch: string;
+  /** Subject line of the commit */
+  message: string;
+}
+
+/**
+ * Credentials and transport settings for one push or clone
+ */
+export interface GitTransportOptions {
+  /** Git settings, e.g. an HTTP authorization header */
+  config?: Record<string, string>;
+  env?: Record<string, string>;
+}
+
+export class GitCommandError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly exitCode: number | null,
+    public readonly stderr: string,
+  ) {
+    super(`git ${command} failed${exitCode === null ? ' (timed out)' : ` with code ${exitCode}`}: ${stderr.trim()}`);
+    this.name = 'GitCommandError';
+  }
+}
+
+export class GitRepository {
+  private readonly timeoutMs: number;
+
+  constructor(
+    private readonly directory: string,
+    private readonly options: GitRepositoryOptions,
+  ) {
+    this.timeoutMs = options.timeoutMs ?? 60_000;
+  }
+
+  async isInitialized(): Promise<boolean> {
+    try {
+      await fs.access(path.join(this.directory, '.git'));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create the repository on `branch`, with the sandbox's generated and
+   * secret files excluded
+   */
+  async init(branch: string): Promise<void> {
+    await this.run(['init', '--quiet', `--initial-branch=${branch}`]);
+    await fs.writeFile(
+      path.join(this.directory, '.git', 'info', 'exclude'),
+      `# Written by NexusGen\n${EXCLUDED_PATHS.join('\n')}\n`,
+    );
+  }
+
+  /**
+   * Stage everything and commit it
+   *
+   * @returns The new commit, or null when nothing changed
+   */
+  async commitAll(message: string): Promise<string | null> {
+    await this.run(['add', '--all']);
+
+    const status = await this.run(['status', '--porcelain']);
+    if (!status.trim()) {
+      return null;
+    }
+
+    await this.run([
+      '-c',
+      `user.name=${this.options.authorName}`,
+      '-c',
+      `user.email=${this.options.authorEmail}`,
+      'commit',
+      '--quiet',
+      '--no-verify',
+      '--file=-',
+    ], {}, message);
+
+    return (await this.run(['rev-parse', 'HEAD'])).trim();
+  }
+
+  /**
+   * The checked-out commit, or null before the first commit
+   */
+  async head(): Promise<GitHead | null> {
+    try {
+      const [commit, branch, message] = (
+        await this.run(['log', '-1', '--format=%H%n%D%n%s'])
+      ).split('\n');
+
+      return {
+        commit: commit!,
+        // `HEAD -> main, origin/main`
+        branch: /HEAD -> ([^,\s]+)/.exec(branch ?? '')?.[1] ?? 'HEAD',
+        message: message ?? '',
+      };
+    } catch (error) {
+      if (error instanceof GitCommandError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Push HEAD to a branch of a remote given by URL or path
+   *
+   * The remote is not stored in the repository, and the push's settings
+   * are passed through the environment rather than the command line, so
+   * credentials neither land on disk nor show up in the process list.
+   */
+  async push(remote: string, branch: string, options: GitTransportOptions = {}): Promise<void> {
+    await this.run(
+      ['push', '--quiet', '--porcelain', remote, `HEAD:refs/heads/${branch}`],
+      this.transportEnv(options),
+    );
+  }
+
+  /**
+   * Clone the tip of a remote's branch, or its default branch, into the
+   * repository's directory, which must be empty
+   *
+   * Symbolic links are checked out as plain files so nothing in the clone
+   * points outside the sandbox.
+   */
+  async clone(remote: string, branch: string | undefined, options: GitTransportOptions = {}): Promise<void> {
+    await this.run(
+      [
+        'clone',
+        '--quiet',
+        '--depth=1',
+        '--single-branch',
+        '--no-tags',
+        ...(branch ? [`--branch=${branch}`] : []),
+        '--',
+        remote,
+        '.',
+      ],
+      this.transportEnv({ ...options, config: { 'core.symlinks': 'false', ...options.config } }),
+    );
+  }
+
+  /**
+   * Environment of a command that talks to a remote
+   */
+  private transportEnv(options: GitTransportOptions): Record<string, string> {
+    const config = Object.entries({ 'protocol.ext.allow': 'never', ...options.config });
+    const env: Record<string, string> = {
+      GIT_ALLOW_PROTOCOL: ALLOWED_PROTOCOLS,
+      GIT_CONFIG_COUNT: String(config.length),
+    };
+    config.forEach(([key, value], index) => {
+      env[`GIT_CONFIG_KEY_${index}`] = key;
+      env[`GIT_CONFIG_VALUE_${index}`] = value;
+    });
+
+    return { ...env, ...options.env };
+  }
+
+  private run(args: string[], env: Record<string, string> = {}, input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('git', args, {
+        cwd: this.directory,
+        env: { ...process.env, GIT_TERMINAL_PROMPT: '0', ...env },
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      const stdout: Buffer[] = [];
+      const stderr: Buffer[] = [];
+      let timedOut = false;
+
+      const timer = setTimeout(() => {
+        timedOut = true;
+        child.kill('SIGKILL');
+      }, this.timeoutMs);
+
+      child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', (code) => {
+        clearTimeout(timer);
+        if (code === 0 && !timedOut) {
+          resolve(Buffer.concat(stdout).toString('utf-8'));
+        } else {
+          reject(
+            new GitCommandError(
+              args.find((arg) => !arg.startsWith('-') && !arg.includes('=')) ?? args[0]!,
+              timedOut ? null : code,
+              Buffer.concat(stderr).toString('utf-8'),
+            ),
+          );
+        }
+      });
+
+      child.stdin.end(input);
+    });
+  }
+}
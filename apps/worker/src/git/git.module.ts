@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { GitService } from './git.service';
+
+/**
+ * Git Module
+ *
+ * A Git repository per project sandbox, committed after each generation,
+ * edit and healing attempt and pushed to the project's remote.
+ *
+ * Exports:
+ * - GitService: Used by the generation, files and bundles services to
+ *   commit the sandbox and by the queue processor to read the head commit
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [GitService],
+  exports: [GitService],
+})
+export class GitModule {}
@@ -0,0 +1,476 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { SnapshotReason } from '@nexusgen/types';
+import { isUUID } from 'class-validator';
+import { realpathSync } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { PrismaService } from '../database';
+import { SandboxFileWriter } from '../utils';
+import { PROVENANCE_FILE_PATH, type GenerationProvenance } from '../ai/generation-record';
+import { GitRepository, type GitHead, type GitTransportOptions } from './git-repository';
+
+/**
+ * Longest prompt excerpt used as a commit subject
+ */
+const MAX_SUBJECT_LENGTH = 72;
+
+/**
+ * Longest a clone may take
+ */
+const CLONE_TIMEOUT_MS = 5 * 60_000;
+
+/**
+ * Why the sandbox is committed: a snapshot reason, or a save from the
+ * code editor
+ */
+export type GitCommitReason = SnapshotReason | 'editor';
+
+/**
+ * State of the sandbox to commit
+ */
+export interface CommitSandboxInput {
+  projectId: string;
+  reason: GitCommitReason;
+  /** Generation job the state belongs to */
+  generationId?: string;
+  /** Healing attempt, for `healing` commits */
+  attempt?: number;
+  /** Build outcome, when the state was already built */
+  build?: { success: boolean };
+  /** Files saved, for `editor` commits */
+  paths?: string[];
+}
+
+/**
+ * A commit and whether it reached the project's remote
+ */
+export interface SandboxCommit {
+  commit: string;
+  branch: string;
+  pushed: boolean;
+}
+
+/**
+ * How a remote is reached
+ */
+export type GitRemoteKind = 'https' | 'ssh' | 'local';
+
+/**
+ * A remote that could not be cloned; the message has no credentials
+ */
+export class GitCloneError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitCloneError';
+  }
+}
+
+/**
+ * Git Service
+ *
+ * Keeps a Git repository in each project sandbox: every generation, edit,
+ * healing attempt and code editor save becomes a commit whose message
+ * carries the prompt and generation ID, and projects with a `gitRepo` get
+ * each commit pushed to it. Pushes and clones authenticate with the
+ * worker's HTTPS token or SSH key only for hosts and organisations listed
+ * in `GIT_CREDENTIAL_HOSTS`, since remotes are chosen by users; every other
+ * remote is reached anonymously. Local paths need no credentials, so a
+ * bare repository on disk can serve as the remote when
+ * `GIT_ALLOW_LOCAL_REMOTES` is set.
+ */
+@Injectable()
+export class GitService {
+  private readonly logger = new Logger(GitService.name);
+  private readonly fileWriter: SandboxFileWriter;
+  private readonly sandboxRoot: string;
+  private readonly enabled: boolean;
+  /** `host` or `host/org` entries the worker's credentials may be sent to */
+  private readonly credentialHosts: string[];
+  /** Commits per project, chained so concurrent saves do not race on the index */
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.sandboxRoot = this.configService.get<string>('SANDBOX_BASE_PATH', '/tmp/nexusgen-builds');
+    this.fileWriter = new SandboxFileWriter({ basePath: this.sandboxRoot });
+    this.enabled = this.configService.get<string>('GIT_ENABLED', 'true') !== 'false';
+    this.credentialHosts = this.configService
+      .get<string>('GIT_CREDENTIAL_HOSTS', '')
+      .split(',')
+      .map((entry) => entry.trim().toLowerCase().replace(/\/+$/, ''))
+      .filter(Boolean);
+  }
+
+  /**
+   * Commit the sandbox and push it to the project's remote
+   *
+   * Git failures are logged and never fail the caller.
+   *
+   * @returns The commit, or null when nothing was committed
+   */
+  async commitSandbox(input: CommitSandboxInput): Promise<SandboxCommit | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    return this.enqueue(input.projectId, async () => {
+      try {
+        return await this.commit(input);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to commit project ${input.projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+        return null;
+      }
+    });
+  }
+
+  /**
+   * The commit a project's sandbox is at
+   *
+   * @returns The head commit, or null without a repository or commits
+   */
+  async headCommit(projectId: string): Promise<GitHead | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    try {
+      const repository = this.repository(projectId);
+      return (await repository.isInitialized()) ? await repository.head() : null;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to read the head commit of project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Seed a project's empty sandbox with the tip of a remote branch
+   *
+   * Only the files are kept: the clone's history is dropped, so the
+   * sandbox's own repository starts with the import as its first commit.
+   * Like pushes, clones use the worker's credentials only for hosts in
+   * `GIT_CREDENTIAL_HOSTS`, so private repositories elsewhere cannot be
+   * imported through them.
+   *
+   * @returns The commit that was cloned
+   * @throws GitCloneError when the remote is not allowed or cannot be cloned
+   */
+  async cloneInto(projectId: string, remote: string, branch?: string): Promise<string> {
+    const kind = this.remoteKind(remote);
+    if (!kind) {
+      throw new GitCloneError(`Unsupported repository: ${this.redact(remote)}`);
+    }
+
+    const projectPath = this.fileWriter.getProjectPath(projectId);
+    const repository = this.repository(projectId, CLONE_TIMEOUT_MS);
+
+    try {
+      await fs.mkdir(projectPath, { recursive: true });
+      await repository.clone(remote.replace(/^file:\/\//, ''), branch, this.transportOptions(kind, remote));
+
+      const head = await repository.head();
+      await fs.rm(path.join(projectPath, '.git'), { recursive: true, force: true });
+
+      this.logger.log(`Cloned ${this.redact(remote)} into project ${projectId} at ${head?.commit.slice(0, 12)}`);
+      return head?.commit ?? '';
+    } catch (error) {
+      throw new GitCloneError(
+        `Could not clone ${this.redact(remote)}: ${this.redact(error instanceof Error ? error.message : 'Unknown error')}`,
+      );
+    }
+  }
+
+  /**
+   * How a remote would be reached, or null when it is not allowed
+   *
+   * Accepts `https://` and `ssh://` URLs, scp-style `user@host:path`, and,
+   * when local remotes are allowed, absolute paths and `file://` URLs
+   * outside the sandbox root, so no project reads or writes another's.
+   */
+  remoteKind(remote: string): GitRemoteKind | null {
+    if (/^https:\/\/[^\s]+$/.test(remote)) {
+      return 'https';
+    }
+    if (/^ssh:\/\/[^\s]+$/.test(remote) || /^\w[\w.-]*@[\w.-]+:[^\s]+$/.test(remote)) {
+      return 'ssh';
+    }
+    if (
+      (remote.startsWith('/') || remote.startsWith('file:///')) &&
+      this.configService.get<string>('GIT_ALLOW_LOCAL_REMOTES', 'false') === 'true'
+    ) {
+      return this.isInSandboxRoot(remote.replace(/^file:\/\//, '')) ? null : 'local';
+    }
+    return null;
+  }
+
+  /**
+   * Whether a local path is, or is inside, the sandbox root, following
+   * symbolic links
+   */
+  private isInSandboxRoot(localPath: string): boolean {
+    const resolve = (target: string): string => {
+      try {
+        return realpathSync(target);
+      } catch {
+        return path.resolve(target);
+      }
+    };
+
+    const relative = path.relative(resolve(this.sandboxRoot), resolve(localPath));
+    return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+  }
+
+  private async commit(input: CommitSandboxInput): Promise<SandboxCommit | null> {
+    const { projectId } = input;
+    const project = isUUID(projectId)
+      ? await this.prisma.project.findUnique({
+          where: { id: projectId },
+          select: { gitRepo: true, gitBranch: true },
+        })
+      : null;
+    const branch = project?.gitBranch || 'main';
+    const repository = this.repository(projectId);
+
+    if (!(await repository.isInitialized())) {
+      await repository.init(branch);
+      this.logger.log(`Initialised Git repository for project ${projectId} on ${branch}`);
+    }
+
+    const commit = await repository.commitAll(await this.buildMessage(input));
+    if (!commit) {
+      this.logger.debug(`Nothing to commit for project ${projectId} (${input.reason})`);
+      return null;
+    }
+
+    this.logger.log(`Committed ${commit.slice(0, 12)} to project ${projectId} (${input.reason})`);
+
+    let pushed = false;
+    if (project?.gitRepo) {
+      pushed = await this.push(repository, projectId, project.gitRepo, branch);
+    }
+
+    return { commit, branch, pushed };
+  }
+
+  /**
+   * Push HEAD to the project's remote
+   *
+   * @returns Whether the push succeeded
+   */
+  private async push(
+    repository: GitRepository,
+    projectId: string,
+    remote: string,
+    branch: string,
+  ): Promise<boolean> {
+    const kind = this.remoteKind(remote);
+    if (!kind) {
+      this.logger.warn(`Not pushing project ${projectId}: unsupported remote ${this.redact(remote)}`);
+      return false;
+    }
+
+    try {
+      await repository.push(remote.replace(/^file:\/\//, ''), branch, this.transportOptions(kind, remote));
+      this.logger.log(`Pushed project ${projectId} to ${this.redact(remote)} (${branch})`);
+      return true;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to push project ${projectId} to ${this.redact(remote)}: ${this.redact(error instanceof Error ? error.message : 'Unknown error')}`,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Credentials for a push or clone; the remote URL itself never carries them
+   *
+   * Remotes outside `GIT_CREDENTIAL_HOSTS` get none, not even the worker
+   * user's credential helpers, SSH keys or agent.
+   */
+  private transportOptions(kind: GitRemoteKind, remote: string): GitTransportOptions {
+    const trusted = this.isCredentialHost(remote);
+
+    if (kind === 'https') {
+      const token = this.configService.get<string>('GIT_HTTPS_TOKEN');
+      if (!trusted || !token) {
+        return { config: { 'credential.helper': '' } };
+      }
+
+      const username = this.configService.get<string>('GIT_HTTPS_USERNAME', 'x-access-token');
+      const credentials = Buffer.from(`${username}:${token}`).toString('base64');
+      return {
+        config: { 'credential.helper': '', 'http.extraHeader': `Authorization: Basic ${credentials}` },
+      };
+    }
+
+    if (kind === 'ssh') {
+      const keyPath = trusted ? this.configService.get<string>('GIT_SSH_KEY_PATH') : undefined;
+      const identity = keyPath
+        ? `-i '${keyPath.replace(/'/g, '')}' -o IdentitiesOnly=yes `
+        : trusted
+          ? ''
+          : '-o IdentityFile=none -o IdentitiesOnly=yes -o IdentityAgent=none ';
+      return {
+        env: { GIT_SSH_COMMAND: `ssh ${identity}-o BatchMode=yes -o StrictHostKeyChecking=accept-new` },
+      };
+    }
+
+    return {};
+  }
+
+  /**
+   * Whether a remote's host, or host and organisation, is in `GIT_CREDENTIAL_HOSTS`
+   */
+  private isCredentialHost(remote: string): boolean {
+    const location = remoteLocation(remote);
+    if (!location) {
+      return false;
+    }
+
+    return this.credentialHosts.some((entry) => {
+      const [host, ...owner] = entry.split('/');
+      return (
+        host === location.host &&
+        (owner.length === 0 || location.path.toLowerCase().startsWith(`/${owner.join('/')}/`))
+      );
+    });
+  }
+
+  /**
+   * Structured commit message: a subject saying what happened, the prompt
+   * as body, and trailers with the generation, attempt, build and models
+   */
+  private async buildMessage(input: CommitSandboxInput): Promise<string> {
+    const provenance = await this.readProvenance(input.projectId);
+    const prompt = provenance?.prompt.trim() ?? '';
+    const trailers: string[] = [];
+    let subject: string;
+    let body = '';
+
+    switch (input.reason) {
+      case 'healing':
+        subject = `Fix build errors (healing attempt ${input.attempt ?? 1})`;
+        break;
+      case 'editor':
+        subject = input.paths?.length === 1
+          ? `Edit ${input.paths[0]} in the code editor`
+          : 'Edit files in the code editor';
+        break;
+      case 'import':
+        subject = provenance?.source
+          ? `Import ${provenance.source.type === 'git' ? this.redact(provenance.source.url) : provenance.source.filename}`
+          : provenance?.importedFrom
+            ? `Import bundle of project ${provenance.importedFrom}`
+            : 'Import project bundle';
+        if (provenance?.source?.type === 'git' && provenance.source.commit) {
+          trailers.push(`Source-Commit: ${provenance.source.commit}`);
+        }
+        body = provenance?.source ? prompt : '';
+        break;
+      default:
+        subject = `${input.reason === 'edit' ? 'Edit' : 'Generate'}: ${this.summarize(prompt) || 'project'}`;
+        body = prompt;
+    }
+
+    const generationId = input.generationId ?? (input.reason === 'editor' ? undefined : provenance?.generationId);
+    if (generationId) {
+      trailers.push(`Generation-Id: ${generationId}`);
+    }
+    trailers.push(`Reason: ${input.reason}`);
+    if (input.attempt !== undefined && input.reason === 'healing') {
+      trailers.push(`Attempt: ${input.attempt}`);
+    }
+    if (input.build) {
+      trailers.push(`Build: ${input.build.success ? 'succeeded' : 'failed'}`);
+    }
+    if (input.reason !== 'editor') {
+      for (const [agent, models] of Object.entries(provenance?.models ?? {})) {
+        trailers.push(`Model-${agent}: ${models.join(', ')}`);
+      }
+    }
+
+    return [subject, body, trailers.join('\n')].filter(Boolean).join('\n\n') + '\n';
+  }
+
+  private async readProvenance(projectId: string): Promise<GenerationProvenance | undefined> {
+    try {
+      const content = await fs.readFile(
+        path.join(this.fileWriter.getProjectPath(projectId), PROVENANCE_FILE_PATH),
+        'utf-8',
+      );
+      return JSON.parse(content) as GenerationProvenance;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * First line of a prompt, cut at a word to fit a subject line
+   */
+  private summarize(prompt: string): string {
+    const line = prompt.split('\n')[0]!.trim();
+    if (line.length <= MAX_SUBJECT_LENGTH) {
+      return line;
+    }
+
+    const cut = line.slice(0, MAX_SUBJECT_LENGTH - 3);
+    return `${cut.slice(0, cut.lastIndexOf(' ') > 0 ? cut.lastIndexOf(' ') : cut.length)}...`;
+  }
+
+  /**
+   * Strip credentials from a remote URL or git output
+   */
+  private redact(text: string): string {
+    const token = this.configService.get<string>('GIT_HTTPS_TOKEN');
+    const redacted = text.replace(/(https?:\/\/)[^/@\s]+@/g, '$1***@');
+    return token ? redacted.split(token).join('***') : redacted;
+  }
+
+  private repository(projectId: string, timeoutMs?: number): GitRepository {
+    return new GitRepository(this.fileWriter.getProjectPath(projectId), {
+      authorName: this.configService.get<string>('GIT_AUTHOR_NAME', 'NexusGen'),
+      authorEmail: this.configService.get<string>('GIT_AUTHOR_EMAIL', 'nexusgen@localhost'),
+      timeoutMs,
+    });
+  }
+
+  private enqueue<T>(projectId: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(projectId) ?? Promise.resolve();
+    const next = previous.then(task, task);
+    const settled = next.catch(() => undefined);
+
+    this.queues.set(projectId, settled);
+    void settled.then(() => {
+      if (this.queues.get(projectId) === settled) {
+        this.queues.delete(projectId);
+      }
+    });
+
+    return next;
+  }
+}
+
+/**
+ * Host and path of an `https://`, `ssh://` or scp-style remote
+ */
+function remoteLocation(remote: string): { host: string; path: string } | null {
+  const scp = /^\w[\w.-]*@([\w.-]+):(?!\/\/)(.+)$/.exec(remote);
+  if (scp) {
+    return { host: scp[1]!.toLowerCase(), path: `/${scp[2]!.replace(/^\/+/, '')}` };
+  }
+
+  try {
+    const url = new URL(remote);
+    return url.protocol === 'https:' || url.protocol === 'ssh:'
+      ? { host: url.hostname.toLowerCase(), path: decodeURIComponent(url.pathname) }
+      : null;
+  } catch {
+    return null;
+  }
+}
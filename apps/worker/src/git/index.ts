@@ -0,0 +1,16 @@
+/**
+ * Git Module
+ *
+ * Commits of each project sandbox, pushed to the project's remote.
+ */
+
+export { GitModule } from './git.module';
+export {
+  GitService,
+  GitCommitReason,
+  CommitSandboxInput,
+  SandboxCommit,
+  GitRemoteKind,
+  GitCloneError,
+} from './git.service';
+export { GitRepository, GitCommandError, GitHead, GitTransportOptions } from './git-repository';
@@ -0,0 +1,93 @@
+import type { StaticDiagnostic } from '../validation';
+import { errorSignature, locateErrors } from './error-locations';
+
+const projectFiles = ['src/app/page.tsx', 'src/components/header.tsx', 'page.tsx', 'package.json'];
+
+describe('locateErrors', () => {
+  it('resolves container paths to sandbox files, preferring the longest match', () => {
+    const log = [
+      '#12 4.321 Failed to compile.',
+      '#12 4.322 ./src/app/page.tsx:12:5',
+      "#12 4.323 Type error: Cannot find name 'Header'.",
+      '    at /app/src/components/header.tsx:3:10',
+    ].join('\n');
+
+    expect(locateErrors(log, projectFiles)).toEqual([
+      { file: 'src/app/page.tsx', line: 12, column: 5 },
+      { file: 'src/components/header.tsx', line: 3, column: 10 },
+    ]);
+  });
+
+  it('reads tsc-style positions', () => {
+    expect(locateErrors('src/app/page.tsx(7,2): error TS2304', projectFiles)).toEqual([
+      { file: 'src/app/page.tsx', line: 7, column: 2 },
+    ]);
+  });
+
+  it('lists static check diagnostics first and once per file', () => {
+    const diagnostics: StaticDiagnostic[] = [
+      { source: 'tsc', file: 'src/components/header.tsx', line: 4, column: 1, code: 'TS2322', message: 'x' },
+      { source: 'tsc', file: 'tsconfig.json', line: 0, code: 'TS5023', message: 'y' },
+    ];
+
+    expect(
+      locateErrors('Error in ./src/components/header.tsx:9:9 and src/app/page.tsx', projectFiles, diagnostics),
+    ).toEqual([
+      { file: 'src/components/header.tsx', line: 4, column: 1 },
+      { file: 'src/app/page.tsx', line: undefined, column: undefined },
+    ]);
+  });
+
+  it('ignores dependencies, build output and unknown files', () => {
+    const log = [
+      '/app/node_modules/next/dist/build/index.js:12:3',
+      '.next/server/app/page.js:1:1',
+      'src/lib/missing.ts:4:2',
+    ].join('\n');
+
+    expect(locateErrors(log, projectFiles)).toEqual([]);
+  });
+
+  it('strips colour codes before matching', () => {
+    expect(locateErrors('\x1b[31m./src/app/page.tsx:1:1\x1b[39m', projectFiles)).toEqual([
+      { file: 'src/app/page.tsx', line: 1, column: 1 },
+    ]);
+  });
+});
+
+describe('errorSignature', () => {
+  it('ignores line numbers, build step counters and hashes', () => {
+    const first = [
+      '#12 4.321 ./src/app/page.tsx:12:5',
+      "#12 4.322 Type error: Cannot find name 'Header'.",
+      'error: failed to solve: process did not complete successfully: exit code: 1 (sha256:0123456789abcdef)',
+    ].join('\n');
+    const second = [
+      '#14 9.876 ./src/app/page.tsx:30:1',
+      "#14 9.877 Type error: Cannot find name 'Header'.",
+      'error: failed to solve: process did not complete successfully: exit code: 1 (sha256:fedcba9876543210)',
+    ].join('\n');
+
+    expect(errorSignature(first)).toBe(errorSignature(second));
+  });
+
+  it('tells different errors apart', () => {
+    expect(errorSignature("Type error: Cannot find name 'Header'.")).not.toBe(
+      errorSignature("Type error: Cannot find name 'Footer'."),
+    );
+  });
+
+  it('uses the diagnostics over the log when there are any', () => {
+    const diagnostics: StaticDiagnostic[] = [
+      { source: 'tsc', file: 'src/app/page.tsx', line: 3, code: 'TS2304', message: "Cannot find name 'Header'." },
+    ];
+
+    expect(errorSignature('first log', diagnostics)).toBe(errorSignature('second log', diagnostics));
+  });
+
+  it('falls back to the end of the log when no line looks like an error', () => {
+    const log = Array.from({ length: 20 }, (_, i) => `step ${i}: output ${'x'.repeat(i)}`).join('\n');
+
+    expect(errorSignature(log)).toBe(errorSignature(log.split('\n').slice(-10).join('\n')));
+  });
+});
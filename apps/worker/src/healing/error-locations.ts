@@ -0,0 +1,151 @@
+/**
+ * Error Locations
+ *
+ * Finds the project files a failed build points at, and reduces an error
+ * to a signature that stays the same when the same error comes back.
+ */
+
+import { createHash } from 'crypto';
+import type { StaticDiagnostic } from '../validation';
+
+/**
+ * A project file named by a build error
+ */
+export interface ErrorLocation {
+  /** Sandbox-relative path of an existing project file */
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Source paths with an optional `:line:col` or `(line,col)` suffix, as
+ * printed by Next.js, tsc, Vite, webpack and Node stack traces
+ */
+const LOCATED_PATH =
+  /(?:^|[\s'"`(=:])((?:\.{0,2}\/)?(?:[\w@.+-]+\/)*[\w@.+-]+\.(?:tsx?|jsx?|mjs|cjs|css|scss|json|vue|svelte|html))(?::(\d+)(?::(\d+))?|\((\d+),(\d+)\))?/g;
+
+/**
+ * Log lines that carry the error itself rather than progress output
+ */
+const ERROR_LINE =
+  /error|failed|cannot|can't|not found|unexpected|not assignable|does not exist|is not defined|missing/i;
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+/**
+ * Find the project files a build log and the static checks point at
+ *
+ * Paths in the log are matched against the project's files by suffix, so
+ * container paths like `/app/src/app/page.tsx` resolve to the sandbox
+ * file. Files under node_modules and build output are never returned.
+ *
+ * @param errorLog - Build or check output
+ * @param projectFiles - Sandbox-relative paths of the project's files
+ * @param diagnostics - Exact locations from the static checks, listed first
+ */
+export function locateErrors(
+  errorLog: string,
+  projectFiles: string[],
+  diagnostics: StaticDiagnostic[] = [],
+): ErrorLocation[] {
+  const known = new Set(projectFiles);
+  const locations = new Map<string, ErrorLocation>();
+
+  const add = (location: ErrorLocation) => {
+    if (!locations.has(location.file)) {
+      locations.set(location.file, location);
+    }
+  };
+
+  for (const diagnostic of diagnostics) {
+    if (known.has(diagnostic.file)) {
+      add({
+        file: diagnostic.file,
+        line: diagnostic.line || undefined,
+        column: diagnostic.column,
+      });
+    }
+  }
+
+  const log = errorLog.replace(ANSI_ESCAPE, '');
+
+  for (const match of log.matchAll(LOCATED_PATH)) {
+    const file = resolveProjectFile(match[1], projectFiles);
+    if (file) {
+      const line = match[2] ?? match[4];
+      const column = match[3] ?? match[5];
+      add({
+        file,
+        line: line ? Number(line) : undefined,
+        column: column ? Number(column) : undefined,
+      });
+    }
+  }
+
+  return [...locations.values()];
+}
+
+/**
+ * Signature of an error, for noticing that a fix changed nothing
+ *
+ * Line numbers, durations, hashes and build step counters are dropped so
+ * the same error still matches after unrelated lines moved.
+ */
+export function errorSignature(errorLog: string, diagnostics: StaticDiagnostic[] = []): string {
+  const lines =
+    diagnostics.length > 0
+      ? diagnostics.map((d) => `${d.file}|${d.code}|${d.message}`)
+      : selectErrorLines(errorLog);
+
+  const normalized = [
+    ...new Set(
+      lines.map((line) =>
+        line
+          .replace(ANSI_ESCAPE, '')
+          // BuildKit step prefixes, e.g. `#12 3.456`
+          .replace(/^#\d+\s+[\d.]+\s+/, '')
+          .replace(/\b[0-9a-f]{12,}\b/gi, '')
+          .replace(/\d+/g, '#')
+          .replace(/\s+/g, ' ')
+          .trim(),
+      ),
+    ),
+  ]
+    .filter(Boolean)
+    .sort();
+
+  return createHash('sha1').update(normalized.join('\n')).digest('hex').slice(0, 16);
+}
+
+function selectErrorLines(errorLog: string): string[] {
+  const lines = errorLog.split(/\r?\n/);
+  const errorLines = lines.filter((line) => ERROR_LINE.test(line));
+
+  return errorLines.length > 0 ? errorLines : lines.slice(-10);
+}
+
+/**
+ * Map a path from a log to the project file it names
+ */
+function resolveProjectFile(logPath: string, projectFiles: string[]): string | undefined {
+  const candidate = logPath.replace(/\\/g, '/').replace(/^\.\//, '');
+
+  if (/(^|\/)(node_modules|\.next|dist)\//.test(candidate)) {
+    return undefined;
+  }
+
+  // The longest match wins: `src/app/page.tsx` over `page.tsx`
+  let best: string | undefined;
+  for (const file of projectFiles) {
+    if (
+      (candidate === file || candidate.endsWith(`/${file}`)) &&
+      (!best || file.length > best.length)
+    ) {
+      best = file;
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,200 @@
+/**
+ * Fix Context
+ *
+ * Collects what the fixer needs to see for a build error: the files the
+ * error points at, the project files they import, and imports that do
+ * not resolve to any file.
+ */
+
+import { Logger } from '@nestjs/common';
+import * as path from 'path';
+import { isScaffoldPath } from '../scaffold';
+import type { GeneratedFile, SandboxFileWriter } from '../utils';
+import type { ErrorLocation } from './error-locations';
+
+export interface FixContextLoaderOptions {
+  /** Maximum number of files loaded */
+  maxFiles?: number;
+  /** Maximum characters of file content loaded */
+  maxChars?: number;
+}
+
+export interface FixContext {
+  /** Files the fixer may change: located files first, then their imports */
+  files: GeneratedFile[];
+  /**
+   * Imported paths with no file, as imported (e.g. `src/components/header`);
+   * the fixer may create them
+   */
+  missingFiles: string[];
+}
+
+/**
+ * Loaded when the error names no project file, e.g. a failed npm install
+ */
+const FALLBACK_FILES = [
+  'package.json',
+  'tsconfig.json',
+  'next.config.ts',
+  'next.config.mjs',
+  'next.config.js',
+  'vite.config.ts',
+  'vite.config.js',
+];
+
+/**
+ * Extensions tried when resolving an import without one
+ */
+const RESOLVE_SUFFIXES = [
+  '',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '/index.ts',
+  '/index.tsx',
+  '/index.js',
+  '/index.jsx',
+];
+
+/**
+ * Module specifiers of static imports, re-exports, dynamic imports and requires
+ */
+const IMPORT_SPECIFIER =
+  /(?:import|export)\s+(?:type\s+)?[^'"]*?\sfrom\s*['"]([^'"]+)['"]|import\s*(?:\(\s*)?['"]([^'"]+)['"]|require\(\s*['"]([^'"]+)['"]\s*\)/g;
+
+/**
+ * Source files whose imports are followed
+ */
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?|mjs|cjs|vue|svelte)$/;
+
+export class FixContextLoader {
+  private readonly logger = new Logger(FixContextLoader.name);
+  private readonly maxFiles: number;
+  private readonly maxChars: number;
+
+  constructor(
+    private readonly fileWriter: SandboxFileWriter,
+    options: FixContextLoaderOptions = {},
+  ) {
+    this.maxFiles = options.maxFiles ?? 15;
+    this.maxChars = options.maxChars ?? 100_000;
+  }
+
+  /**
+   * Load the located files and their direct imports
+   *
+   * package.json is always included so missing dependencies can be added.
+   * Scaffold files are never loaded; the platform owns them.
+   *
+   * @param projectId - The project whose sandbox is read
+   * @param locations - Files named by the error, most relevant first
+   * @param projectFiles - Sandbox-relative paths of the project's files
+   */
+  async load(
+    projectId: string,
+    locations: ErrorLocation[],
+    projectFiles: string[],
+  ): Promise<FixContext> {
+    const known = new Set(projectFiles);
+    const located = locations.map((location) => location.file);
+    const primary = (located.length > 0 ? located : FALLBACK_FILES).filter(
+      (file) => known.has(file) && !isScaffoldPath(file),
+    );
+
+    const files: GeneratedFile[] = [];
+    const missing = new Set<string>();
+    let chars = 0;
+
+    const add = async (file: string): Promise<void> => {
+      if (files.some((loaded) => loaded.path === file) || files.length >= this.maxFiles) {
+        return;
+      }
+
+      const content = await this.fileWriter.readFile(projectId, file).catch(() => undefined);
+      if (content === undefined || chars + content.length > this.maxChars) {
+        return;
+      }
+
+      files.push({ path: file, content });
+      chars += content.length;
+    };
+
+    for (const file of primary) {
+      await add(file);
+    }
+
+    // One level of imports: a missing or mistyped export is often fixed there
+    for (const source of [...files]) {
+      if (!SOURCE_EXTENSIONS.test(source.path)) {
+        continue;
+      }
+
+      for (const specifier of findImports(source.content)) {
+        const bases = importBasePaths(specifier, source.path, projectFiles);
+        const resolved = bases
+          .flatMap((base) => RESOLVE_SUFFIXES.map((suffix) => `${base}${suffix}`))
+          .find((candidate) => known.has(candidate));
+
+        if (resolved) {
+          if (!isScaffoldPath(resolved)) {
+            await add(resolved);
+          }
+        } else if (bases.length > 0) {
+          missing.add(bases[0]);
+        }
+      }
+    }
+
+    if (known.has('package.json')) {
+      await add('package.json');
+    }
+
+    if (files.length < primary.length) {
+      this.logger.warn(
+        `Fix context budget exceeded; loaded ${files.length} of ${primary.length} located files`,
+      );
+    }
+
+    return { files, missingFiles: [...missing] };
+  }
+}
+
+/**
+ * Module specifiers imported by a source file
+ */
+export function findImports(source: string): string[] {
+  const specifiers = new Set<string>();
+
+  for (const match of source.matchAll(IMPORT_SPECIFIER)) {
+    const specifier = match[1] ?? match[2] ?? match[3];
+    if (specifier) {
+      specifiers.add(specifier);
+    }
+  }
+
+  return [...specifiers];
+}
+
+/**
+ * Sandbox-relative paths an import may point at, without extension
+ *
+ * Relative imports and the `@/` and `~/` aliases are resolved; package
+ * imports return none. Aliases map to `src/` when the project has one,
+ * and to the project root otherwise.
+ */
+function importBasePaths(specifier: string, fromFile: string, projectFiles: string[]): string[] {
+  if (specifier.startsWith('./') || specifier.startsWith('../')) {
+    const resolved = path.posix.normalize(path.posix.join(path.posix.dirname(fromFile), specifier));
+    return resolved.startsWith('..') ? [] : [resolved];
+  }
+
+  const alias = /^[@~]\/(.+)$/.exec(specifier);
+  if (alias) {
+    const hasSrc = projectFiles.some((file) => file.startsWith('src/'));
+    return hasSrc ? [`src/${alias[1]}`, alias[1]] : [alias[1], `src/${alias[1]}`];
+  }
+
+  return [];
+}
@@ -0,0 +1,14 @@
+/**
+ * Healing Module
+ *
+ * Turns a failed build into a targeted fix: which files the error points
+ * at, what to show the fixer, and whether an error has been seen before.
+ */
+
+export { locateErrors, errorSignature, ErrorLocation } from './error-locations';
+export {
+  FixContextLoader,
+  FixContextLoaderOptions,
+  FixContext,
+  findImports,
+} from './fix-context';
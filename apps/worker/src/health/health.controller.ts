@@ -1,6 +1,8 @@
 import { Controller, Get } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { ConfigService } from '@nestjs/config';
+import { isProviderConfigured, listLocalModels } from '@nexusgen/ai';
+import { PrismaService } from '../database';
 
 interface HealthCheckResult {
   status: 'healthy' | 'unhealthy' | 'degraded';
@@ -12,6 +14,8 @@ interface HealthCheckResult {
     database: CheckResult;
     redis: CheckResult;
     memory: MemoryCheck;
+    /** Only when an OpenAI-compatible model server is configured */
+    localModels?: LocalModelsCheck;
   };
 }
 
@@ -21,6 +25,11 @@ interface CheckResult {
   message?: string;
 }
 
+interface LocalModelsCheck extends CheckResult {
+  /** Models the server reports from `/models` */
+  models?: string[];
+}
+
 interface MemoryCheck {
   status: 'up' | 'down';
   heapUsed: number;
@@ -34,7 +43,10 @@ interface MemoryCheck {
 export class HealthController {
   private readonly startTime: number;
 
-  constructor(private readonly configService: ConfigService) {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {
     this.startTime = Date.now();
   }
 
@@ -47,12 +59,15 @@ export class HealthController {
   async check(): Promise<HealthCheckResult> {
     const memoryUsage = process.memoryUsage();
 
-    // Database health check (placeholder - would connect to actual DB)
+    // Database health check
     const dbCheck = await this.checkDatabase();
 
     // Redis health check (placeholder - would connect to actual Redis)
     const redisCheck = await this.checkRedis();
 
+    // Local model server check, when one is configured
+    const localModelsCheck = isProviderConfigured('local') ? await this.checkLocalModels() : undefined;
+
     // Memory check
     const memoryCheck: MemoryCheck = {
       status: 'up',
@@ -62,8 +77,11 @@ export class HealthController {
       rss: Math.round(memoryUsage.rss / 1024 / 1024),
     };
 
-    // Determine overall status
-    const allUp = dbCheck.status === 'up' && redisCheck.status === 'up';
+    // Determine overall status; an unreachable model server degrades the worker
+    const allUp =
+      dbCheck.status === 'up' &&
+      redisCheck.status === 'up' &&
+      (!localModelsCheck || localModelsCheck.status === 'up');
     const anyDown = dbCheck.status === 'down' || redisCheck.status === 'down';
 
     let overallStatus: 'healthy' | 'unhealthy' | 'degraded';
@@ -85,6 +103,7 @@ export class HealthController {
         database: dbCheck,
         redis: redisCheck,
         memory: memoryCheck,
+        localModels: localModelsCheck,
       },
     };
   }
@@ -120,12 +139,9 @@ export class HealthController {
   }
 
   private async checkDatabase(): Promise<CheckResult> {
-    // Placeholder for actual database health check
-    // In production, this would execute a simple query like SELECT 1
     try {
       const start = Date.now();
-      // Simulate DB check - replace with actual Prisma health check
-      await new Promise((resolve) => setTimeout(resolve, 1));
+      await this.prisma.$queryRaw`SELECT 1`;
       const latency = Date.now() - start;
 
       return {
@@ -141,6 +157,26 @@ export class HealthController {
     }
   }
 
+  private async checkLocalModels(): Promise<LocalModelsCheck> {
+    try {
+      const start = Date.now();
+      const models = await listLocalModels({}, AbortSignal.timeout(5000));
+      const latency = Date.now() - start;
+
+      return {
+        status: 'up',
+        latency,
+        message: `Local model server serves ${models.length} model(s)`,
+        models,
+      };
+    } catch (error) {
+      return {
+        status: 'down',
+        message: error instanceof Error ? error.message : 'Local model server unreachable',
+      };
+    }
+  }
+
   private async checkRedis(): Promise<CheckResult> {
     // Placeholder for actual Redis health check
     // In production, this would execute PING command
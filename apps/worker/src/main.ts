@@ -1,6 +1,7 @@
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import type { NestExpressApplication } from '@nestjs/platform-express';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import Docker from 'dockerode';
 import { AppModule } from './app.module';
@@ -28,7 +29,7 @@ async function checkDockerAccess(): Promise<boolean> {
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
 
-  const app = await NestFactory.create(AppModule, {
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
     logger: ['error', 'warn', 'log', 'debug', 'verbose'],
   });
 
@@ -46,6 +47,11 @@ async function bootstrap() {
   // Global prefix
   app.setGlobalPrefix(apiPrefix);
 
+  // Files saved from the code editor can be up to 1 MB
+  app.useBodyParser('json', { limit: '2mb' });
+  // Project bundles are uploaded as zip bodies
+  app.useBodyParser('raw', { type: 'application/zip', limit: '50mb' });
+
   // CORS configuration
   app.enableCors({
     origin: configService.get<string>('WS_CORS_ORIGIN', 'http://localhost:3000'),
@@ -78,6 +84,8 @@ async function bootstrap() {
       .addTag('auth', 'Authentication endpoints')
       .addTag('projects', 'Project management endpoints')
       .addTag('generations', 'Code generation endpoints')
+      .addTag('deployments', 'Deployment history and build log endpoints')
+      .addTag('project-files', 'Sandbox files for the code explorer (internal)')
       .addBearerAuth(
         {
           type: 'http',
@@ -89,6 +97,15 @@ async function bootstrap() {
         },
         'JWT-auth',
       )
+      .addApiKey(
+        {
+          type: 'apiKey',
+          name: 'x-internal-token',
+          description: 'Shared secret of the web app (WORKER_INTERNAL_TOKEN)',
+          in: 'header',
+        },
+        'x-internal-token',
+      )
       .build();
 
     const document = SwaggerModule.createDocument(app, swaggerConfig);
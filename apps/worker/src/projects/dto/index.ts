@@ -13,6 +13,7 @@ import {
   StylingOption,
   ProjectStatus,
   ProjectSettings,
+  DeploymentTargetSettings,
   ApiMeta,
 } from '../../types';
 
@@ -145,6 +146,15 @@ export class UpdateProjectDto {
   @IsObject()
   @IsOptional()
   customConfig?: Record<string, unknown>;
+
+  @ApiPropertyOptional({
+    example: { preview: 'docker', production: 'static' },
+    description:
+      'Deployment target per environment (docker, static or compose); unset environments use docker',
+  })
+  @IsObject()
+  @IsOptional()
+  deploymentTargets?: DeploymentTargetSettings;
 }
 
 export class ProjectResponseDto {
@@ -203,3 +213,67 @@ export class ProjectListResponseDto {
   })
   meta: ApiMeta;
 }
+
+export class ProjectFileDto {
+  @ApiProperty({ example: 'src/app/page.tsx', description: 'Sandbox-relative path' })
+  path: string;
+
+  @ApiProperty({ example: 1024, description: 'Size in bytes' })
+  size: number;
+
+  @ApiProperty({ description: 'Whether the platform owns the file and it cannot be edited' })
+  readOnly: boolean;
+}
+
+export class ProjectFileListResponseDto {
+  @ApiProperty({ type: [ProjectFileDto], description: 'Files of the sandbox, sorted by path' })
+  files: ProjectFileDto[];
+}
+
+export class ProjectFileContentDto extends ProjectFileDto {
+  @ApiPropertyOptional({ description: 'UTF-8 content; absent for binary or oversized files' })
+  content?: string;
+
+  @ApiProperty({ description: 'Whether the file is binary or too large to edit' })
+  binary: boolean;
+}
+
+export class WriteProjectFileDto {
+  @ApiProperty({ example: 'src/app/page.tsx', description: 'Sandbox-relative path' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  path: string;
+
+  @ApiProperty({ description: 'New UTF-8 content of the file' })
+  @IsString()
+  @MaxLength(1_000_000)
+  content: string;
+}
+
+export class AskProjectFileDto {
+  @ApiProperty({ example: 'src/app/page.tsx', description: 'Sandbox-relative path' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  path: string;
+
+  @ApiProperty({ example: 'What does this component render?', description: 'Question about the file' })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(2000)
+  question: string;
+
+  @ApiPropertyOptional({ description: 'User the model usage is billed to' })
+  @IsString()
+  @IsOptional()
+  userId?: string;
+}
+
+export class ProjectFileAnswerDto {
+  @ApiProperty({ description: 'Answer as markdown' })
+  answer: string;
+
+  @ApiProperty({ example: 1234, description: 'Tokens used by the model call' })
+  totalTokens: number;
+}
@@ -0,0 +1,104 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Body,
+  Param,
+  Query,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiQuery,
+  ApiParam,
+} from '@nestjs/swagger';
+import { InternalTokenGuard, INTERNAL_TOKEN_HEADER } from '../auth/internal-token.guard';
+import { ProjectFilesService } from './project-files.service';
+import {
+  WriteProjectFileDto,
+  AskProjectFileDto,
+  ProjectFileListResponseDto,
+  ProjectFileContentDto,
+  ProjectFileAnswerDto,
+} from './dto';
+
+/**
+ * Files of a project's sandbox, for the web app's code explorer
+ *
+ * Called by the web app only, which has checked that the user owns the
+ * project; requests carry the internal token instead of a user session.
+ */
+@ApiTags('project-files')
+@ApiSecurity(INTERNAL_TOKEN_HEADER)
+@UseGuards(InternalTokenGuard)
+@Controller('projects/:id/files')
+export class ProjectFilesController {
+  constructor(private readonly projectFilesService: ProjectFilesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the files of a project sandbox' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Files of the sandbox',
+    type: ProjectFileListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  async list(@Param('id') id: string): Promise<ProjectFileListResponseDto> {
+    return { files: await this.projectFilesService.list(id) };
+  }
+
+  @Get('content')
+  @ApiOperation({ summary: 'Read a file of a project sandbox' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiQuery({ name: 'path', required: true, type: String, description: 'Sandbox-relative path' })
+  @ApiResponse({ status: 200, description: 'File content', type: ProjectFileContentDto })
+  @ApiResponse({ status: 400, description: 'Invalid path' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async read(
+    @Param('id') id: string,
+    @Query('path') filePath: string,
+  ): Promise<ProjectFileContentDto> {
+    return this.projectFilesService.read(id, filePath ?? '');
+  }
+
+  @Put('content')
+  @ApiOperation({ summary: 'Write a file of a project sandbox' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'File saved', type: ProjectFileContentDto })
+  @ApiResponse({ status: 400, description: 'Invalid path or read-only file' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  async write(
+    @Param('id') id: string,
+    @Body() writeProjectFileDto: WriteProjectFileDto,
+  ): Promise<ProjectFileContentDto> {
+    return this.projectFilesService.write(id, writeProjectFileDto.path, writeProjectFileDto.content);
+  }
+
+  @Post('ask')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Ask the coder agent about a file' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, description: 'Answer', type: ProjectFileAnswerDto })
+  @ApiResponse({ status: 400, description: 'Invalid path or binary file' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async ask(
+    @Param('id') id: string,
+    @Body() askProjectFileDto: AskProjectFileDto,
+  ): Promise<ProjectFileAnswerDto> {
+    return this.projectFilesService.ask(
+      id,
+      askProjectFileDto.path,
+      askProjectFileDto.question,
+      askProjectFileDto.userId,
+    );
+  }
+}
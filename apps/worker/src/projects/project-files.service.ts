@@ -0,0 +1,208 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Stats } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GenerationService } from '../ai/generation.service';
+import { GitService } from '../git/git.service';
+import { isScaffoldPath } from '../scaffold';
+import { UsageService } from '../usage/usage.service';
+import { IGNORED_DIRECTORIES, SandboxFileWriter } from '../utils';
+import type {
+  ProjectFileAnswerDto,
+  ProjectFileContentDto,
+  ProjectFileDto,
+} from './dto';
+
+/**
+ * Largest file whose content is returned for editing
+ */
+const MAX_EDITABLE_BYTES = 1024 * 1024;
+
+/**
+ * Project Files Service
+ *
+ * Lists, reads and writes the files of a project's sandbox for the code
+ * explorer, and answers questions about a file. Scaffold files belong to
+ * the platform and are read-only; saved files are committed to the
+ * sandbox's Git repository.
+ */
+@Injectable()
+export class ProjectFilesService {
+  private readonly logger = new Logger(ProjectFilesService.name);
+  private readonly fileWriter: SandboxFileWriter;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly generationService: GenerationService,
+    private readonly usageService: UsageService,
+    private readonly gitService: GitService,
+  ) {
+    this.fileWriter = new SandboxFileWriter({
+      basePath: this.configService.get<string>('SANDBOX_BASE_PATH', '/tmp/nexusgen-builds'),
+    });
+  }
+
+  /**
+   * List the project's files, sorted by path
+   *
+   * A project that was never generated has no sandbox and no files.
+   */
+  async list(projectId: string): Promise<ProjectFileDto[]> {
+    const projectPath = this.getProjectPath(projectId);
+
+    if (!(await this.fileWriter.exists(projectId))) {
+      return [];
+    }
+
+    const files = await this.fileWriter.listFiles(projectId, '', IGNORED_DIRECTORIES);
+
+    return Promise.all(
+      files.sort().map(async (filePath) => ({
+        path: filePath,
+        size: (await fs.stat(path.join(projectPath, filePath))).size,
+        readOnly: isScaffoldPath(filePath),
+      })),
+    );
+  }
+
+  /**
+   * Read one file
+   *
+   * Binary files and files over 1 MB are described without their content.
+   *
+   * @throws NotFoundException when the file does not exist
+   */
+  async read(projectId: string, filePath: string): Promise<ProjectFileContentDto> {
+    const relativePath = this.normalizePath(filePath);
+    const absolutePath = path.join(this.getProjectPath(projectId), relativePath);
+    const stats = await this.statFile(absolutePath);
+
+    if (!stats) {
+      throw new NotFoundException(`File not found: ${relativePath}`);
+    }
+
+    const file = { path: relativePath, size: stats.size, readOnly: isScaffoldPath(relativePath) };
+
+    if (stats.size > MAX_EDITABLE_BYTES) {
+      return { ...file, binary: true };
+    }
+
+    const data = await fs.readFile(absolutePath);
+    if (data.includes(0)) {
+      return { ...file, binary: true };
+    }
+
+    return { ...file, binary: false, content: data.toString('utf-8') };
+  }
+
+  /**
+   * Write one file, creating it when it does not exist
+   *
+   * @throws BadRequestException for scaffold files and hidden directories
+   */
+  async write(projectId: string, filePath: string, content: string): Promise<ProjectFileContentDto> {
+    const relativePath = this.normalizePath(filePath);
+
+    if (isScaffoldPath(relativePath)) {
+      throw new BadRequestException(`${relativePath} is managed by the platform and cannot be edited`);
+    }
+
+    const absolutePath = path.join(this.getProjectPath(projectId), relativePath);
+    const existing = await fs.lstat(absolutePath).catch(() => null);
+    if (existing && !existing.isFile()) {
+      throw new BadRequestException(`${relativePath} is not a regular file`);
+    }
+
+    await this.fileWriter.writeFile(projectId, relativePath, content);
+    this.logger.log(`Saved ${relativePath} of project ${projectId} from the editor`);
+
+    // Committing and pushing can take a while; the save does not wait for it
+    void this.gitService.commitSandbox({ projectId, reason: 'editor', paths: [relativePath] });
+
+    return {
+      path: relativePath,
+      size: Buffer.byteLength(content),
+      readOnly: false,
+      binary: false,
+    };
+  }
+
+  /**
+   * Answer a question about one file and record the tokens used
+   *
+   * @param userId - User the usage is billed to
+   */
+  async ask(
+    projectId: string,
+    filePath: string,
+    question: string,
+    userId?: string,
+  ): Promise<ProjectFileAnswerDto> {
+    const file = await this.read(projectId, filePath);
+
+    if (file.binary) {
+      throw new BadRequestException(`${file.path} is binary or too large to explain`);
+    }
+
+    const { answer, usage } = await this.generationService.explainFile(projectId, file.path, question);
+
+    if (userId) {
+      await this.usageService.recordGeneration({ userId, projectId, usage });
+    }
+
+    return { answer, totalTokens: usage.totalTokens };
+  }
+
+  /**
+   * Sandbox-relative form of a requested path
+   *
+   * @throws BadRequestException for paths outside the sandbox or in a
+   *   hidden directory
+   */
+  private normalizePath(filePath: string): string {
+    const normalized = path.posix.normalize(filePath.replace(/\\/g, '/')).replace(/^\.\//, '');
+
+    if (
+      !normalized ||
+      normalized === '.' ||
+      normalized.startsWith('../') ||
+      normalized === '..' ||
+      path.posix.isAbsolute(normalized) ||
+      normalized.includes('\0')
+    ) {
+      throw new BadRequestException(`Invalid file path: ${filePath}`);
+    }
+
+    const hidden = IGNORED_DIRECTORIES.find(
+      (directory) => normalized === directory || normalized.startsWith(`${directory}/`),
+    );
+    if (hidden) {
+      throw new BadRequestException(`Files under ${hidden} are not accessible`);
+    }
+
+    return normalized;
+  }
+
+  private getProjectPath(projectId: string): string {
+    try {
+      return this.fileWriter.getProjectPath(projectId);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid project ID');
+    }
+  }
+
+  /**
+   * Stats of a regular file; symlinks are not followed out of the sandbox
+   */
+  private async statFile(absolutePath: string): Promise<Stats | null> {
+    const stats = await fs.lstat(absolutePath).catch(() => null);
+
+    return stats?.isFile() ? stats : null;
+  }
+}
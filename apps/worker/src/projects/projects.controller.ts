@@ -25,7 +25,7 @@ import {
   ProjectResponseDto,
   ProjectListResponseDto,
 } from './dto';
-import { PaginationParams } from '../types';
+import { PaginationParams, ProjectStatus } from '../types';
 
 @ApiTags('projects')
 @ApiBearerAuth('JWT-auth')
@@ -77,17 +77,32 @@ export class ProjectsController {
     enum: ['asc', 'desc'],
     description: 'Sort order (default: desc)',
   })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    enum: ProjectStatus,
+    description: 'Filter by status',
+  })
+  @ApiQuery({
+    name: 'search',
+    required: false,
+    type: String,
+    description: 'Search by name or description',
+  })
   @ApiResponse({
     status: 200,
     description: 'List of projects',
     type: ProjectListResponseDto,
   })
+  @ApiResponse({ status: 400, description: 'Unknown status filter' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   async findAll(
     @Query() pagination: PaginationParams,
+    @Query('status') status?: string,
+    @Query('search') search?: string,
   ): Promise<ProjectListResponseDto> {
     const userId = 'demo-user-id';
-    return this.projectsService.findAll(userId, pagination);
+    return this.projectsService.findAll(userId, pagination, { status, search });
   }
 
   @Get(':id')
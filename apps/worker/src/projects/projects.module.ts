@@ -2,11 +2,17 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ProjectsController } from './projects.controller';
 import { ProjectsService } from './projects.service';
+import { ProjectFilesController } from './project-files.controller';
+import { ProjectFilesService } from './project-files.service';
+import { InternalTokenGuard } from '../auth/internal-token.guard';
+import { AIModule } from '../ai/ai.module';
+import { GitModule } from '../git/git.module';
+import { UsageModule } from '../usage/usage.module';
 
 @Module({
-  imports: [ConfigModule],
-  controllers: [ProjectsController],
-  providers: [ProjectsService],
+  imports: [ConfigModule, AIModule, GitModule, UsageModule],
+  controllers: [ProjectsController, ProjectFilesController],
+  providers: [ProjectsService, ProjectFilesService, InternalTokenGuard],
   exports: [ProjectsService],
 })
 export class ProjectsModule {}
@@ -2,43 +2,54 @@ import {
   Injectable,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { Prisma, type Project as ProjectRecord } from '@prisma/client';
+import { isUUID } from 'class-validator';
 import {
   CreateProjectDto,
   UpdateProjectDto,
   ProjectResponseDto,
   ProjectListResponseDto,
 } from './dto';
-import { Project, ProjectStatus, PaginationParams } from '../types';
+import { PrismaService } from '../database';
+import {
+  DeploymentEnvironment,
+  DeploymentTargetKind,
+  DeploymentTargetSettings,
+  Framework,
+  ProjectSettings,
+  ProjectStatus,
+  PaginationParams,
+  StylingOption,
+} from '../types';
+
+interface FilterOptions {
+  status?: string;
+  search?: string;
+}
+
+/**
+ * Columns that may be used for sorting project lists
+ */
+const SORTABLE_FIELDS = ['createdAt', 'updatedAt', 'lastActiveAt', 'name', 'status'] as const;
+
+type SortableField = (typeof SORTABLE_FIELDS)[number];
+
+const DEPLOYMENT_ENVIRONMENTS: DeploymentEnvironment[] = ['preview', 'staging', 'production'];
+
+const DEPLOYMENT_TARGET_KINDS: DeploymentTargetKind[] = ['docker', 'static', 'compose'];
 
 @Injectable()
 export class ProjectsService {
   private readonly logger = new Logger(ProjectsService.name);
 
-  // In-memory store for demo purposes - would use Prisma in production
-  private projects: Map<string, Project> = new Map();
-
-  constructor(private readonly configService: ConfigService) {
-    // Initialize with a demo project
-    const demoProject: Project = {
-      id: 'demo-project-1',
-      name: 'Demo Project',
-      description: 'A demonstration project for NexusGen AI',
-      userId: 'demo-user-id',
-      status: ProjectStatus.ACTIVE,
-      settings: {
-        framework: 'NEXTJS' as any,
-        styling: 'TAILWIND' as any,
-        language: 'typescript',
-        features: ['auth', 'api', 'database'],
-      },
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    this.projects.set(demoProject.id, demoProject);
-  }
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
 
   /**
    * Create a new project
@@ -49,25 +60,31 @@ export class ProjectsService {
   ): Promise<ProjectResponseDto> {
     this.logger.log(`Creating project for user: ${userId}`);
 
-    const project: Project = {
-      id: this.generateId(),
-      name: createProjectDto.name,
-      description: createProjectDto.description,
-      userId,
-      status: ProjectStatus.DRAFT,
-      settings: {
-        framework: createProjectDto.framework,
-        styling: createProjectDto.styling,
-        language: createProjectDto.language || 'typescript',
-        features: createProjectDto.features || [],
-        customConfig: createProjectDto.customConfig,
-      },
-      createdAt: new Date(),
-      updatedAt: new Date(),
+    // Projects belong to a user row; demo and system ids have none
+    if (!isUUID(userId)) {
+      throw new ForbiddenException('Projects can only be created for a registered user');
+    }
+
+    const settings: ProjectSettings = {
+      framework: createProjectDto.framework,
+      styling: createProjectDto.styling,
+      language: createProjectDto.language || 'typescript',
+      features: createProjectDto.features || [],
+      customConfig: createProjectDto.customConfig,
     };
 
-    // Save project (placeholder - would use Prisma)
-    this.projects.set(project.id, project);
+    const project = await this.prisma.project.create({
+      data: {
+        name: createProjectDto.name,
+        slug: await this.generateUniqueSlug(userId, createProjectDto.name),
+        description: createProjectDto.description,
+        userId,
+        status: ProjectStatus.DRAFT,
+        visibility: 'PRIVATE',
+        framework: settings.framework.toLowerCase(),
+        settings: settings as unknown as Prisma.InputJsonObject,
+      },
+    });
 
     this.logger.log(`Project created: ${project.id}`);
 
@@ -75,53 +92,67 @@ export class ProjectsService {
   }
 
   /**
-   * Get all projects for a user with pagination
+   * Get all projects for a user with filtering and pagination
+   *
+   * @throws BadRequestException when the status filter is not a project status
    */
   async findAll(
     userId: string,
     pagination: PaginationParams,
+    filters: FilterOptions = {},
   ): Promise<ProjectListResponseDto> {
-    const { page = 1, limit = 10, sortBy = 'createdAt', sortOrder = 'desc' } = pagination;
+    const page = Math.max(1, Number(pagination.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(pagination.limit) || 10));
+    const sortBy = this.toSortableField(pagination.sortBy);
+    const sortOrder = pagination.sortOrder === 'asc' ? 'asc' : 'desc';
+
+    const statuses = Object.values(ProjectStatus) as string[];
+    if (filters.status && !statuses.includes(filters.status)) {
+      throw new BadRequestException(
+        `Unknown project status "${filters.status}"; expected one of ${statuses.join(', ')}`,
+      );
+    }
 
     this.logger.log(`Fetching projects for user: ${userId}, page: ${page}`);
 
-    // Filter projects by user (placeholder - would use Prisma)
-    let userProjects = Array.from(this.projects.values()).filter(
-      (p) => p.userId === userId && p.status !== ProjectStatus.DELETED,
-    );
-
-    // Sort projects
-    userProjects.sort((a, b) => {
-      const aValue = a[sortBy as keyof Project];
-      const bValue = b[sortBy as keyof Project];
-
-      if (aValue instanceof Date && bValue instanceof Date) {
-        return sortOrder === 'asc'
-          ? aValue.getTime() - bValue.getTime()
-          : bValue.getTime() - aValue.getTime();
-      }
+    // Demo and system ids own no project rows and would fail the query
+    if (!isUUID(userId)) {
+      return { projects: [], meta: { page, limit, total: 0, hasMore: false } };
+    }
 
-      if (typeof aValue === 'string' && typeof bValue === 'string') {
-        return sortOrder === 'asc'
-          ? aValue.localeCompare(bValue)
-          : bValue.localeCompare(aValue);
-      }
+    const where: Prisma.ProjectWhereInput = {
+      userId,
+      deletedAt: null,
+      status:
+        filters.status && filters.status !== ProjectStatus.DELETED
+          ? (filters.status as ProjectStatus)
+          : { not: ProjectStatus.DELETED },
+    };
 
-      return 0;
-    });
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } },
+      ];
+    }
 
-    // Paginate
-    const total = userProjects.length;
-    const startIndex = (page - 1) * limit;
-    const paginatedProjects = userProjects.slice(startIndex, startIndex + limit);
+    const [total, projects] = await this.prisma.$transaction([
+      this.prisma.project.count({ where }),
+      this.prisma.project.findMany({
+        where,
+        orderBy: { [sortBy]: sortOrder },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
 
     return {
-      projects: paginatedProjects.map((p) => this.toProjectResponse(p)),
+      projects: projects.map((p) => this.toProjectResponse(p)),
       meta: {
         page,
         limit,
         total,
-        hasMore: startIndex + limit < total,
+        hasMore: page * limit < total,
       },
     };
   }
@@ -146,38 +177,48 @@ export class ProjectsService {
   ): Promise<ProjectResponseDto> {
     this.logger.log(`Updating project: ${projectId} for user: ${userId}`);
 
-    const project = await this.getProjectWithAuth(userId, projectId);
+    const existing = await this.getProjectWithAuth(userId, projectId);
+    const settings = this.toProjectSettings(existing.settings);
 
-    // Update fields
-    if (updateProjectDto.name) {
-      project.name = updateProjectDto.name;
-    }
-    if (updateProjectDto.description !== undefined) {
-      project.description = updateProjectDto.description;
-    }
     if (updateProjectDto.framework) {
-      project.settings.framework = updateProjectDto.framework;
+      settings.framework = updateProjectDto.framework;
     }
     if (updateProjectDto.styling) {
-      project.settings.styling = updateProjectDto.styling;
+      settings.styling = updateProjectDto.styling;
     }
     if (updateProjectDto.language) {
-      project.settings.language = updateProjectDto.language;
+      settings.language = updateProjectDto.language;
     }
     if (updateProjectDto.features) {
-      project.settings.features = updateProjectDto.features;
+      settings.features = updateProjectDto.features;
     }
     if (updateProjectDto.customConfig) {
-      project.settings.customConfig = {
-        ...project.settings.customConfig,
+      settings.customConfig = {
+        ...settings.customConfig,
         ...updateProjectDto.customConfig,
       };
     }
+    if (updateProjectDto.deploymentTargets) {
+      settings.deploymentTargets = {
+        ...settings.deploymentTargets,
+        ...this.toDeploymentTargets(updateProjectDto.deploymentTargets),
+      };
+    }
 
-    project.updatedAt = new Date();
-
-    // Save (placeholder - would use Prisma)
-    this.projects.set(project.id, project);
+    const project = await this.prisma.project.update({
+      where: { id: existing.id },
+      data: {
+        name: updateProjectDto.name || undefined,
+        description: updateProjectDto.description,
+        framework: settings.framework.toLowerCase(),
+        // Keep keys written by other clients (e.g. the web app's prompt/assetKeys)
+        settings: {
+          ...this.toJsonObject(existing.settings),
+          ...settings,
+        } as Prisma.InputJsonObject,
+        lastActiveAt: new Date(),
+      },
+    });
 
     this.logger.log(`Project updated: ${project.id}`);
 
@@ -192,10 +233,13 @@ export class ProjectsService {
 
     const project = await this.getProjectWithAuth(userId, projectId);
 
-    project.status = ProjectStatus.DELETED;
-    project.updatedAt = new Date();
-
-    this.projects.set(project.id, project);
+    await this.prisma.project.update({
+      where: { id: project.id },
+      data: {
+        status: ProjectStatus.DELETED,
+        deletedAt: new Date(),
+      },
+    });
 
     this.logger.log(`Project deleted: ${project.id}`);
   }
@@ -206,16 +250,7 @@ export class ProjectsService {
   async archive(userId: string, projectId: string): Promise<ProjectResponseDto> {
     this.logger.log(`Archiving project: ${projectId} for user: ${userId}`);
 
-    const project = await this.getProjectWithAuth(userId, projectId);
-
-    project.status = ProjectStatus.ARCHIVED;
-    project.updatedAt = new Date();
-
-    this.projects.set(project.id, project);
-
-    this.logger.log(`Project archived: ${project.id}`);
-
-    return this.toProjectResponse(project);
+    return this.setStatus(userId, projectId, ProjectStatus.ARCHIVED);
   }
 
   /**
@@ -224,29 +259,60 @@ export class ProjectsService {
   async restore(userId: string, projectId: string): Promise<ProjectResponseDto> {
     this.logger.log(`Restoring project: ${projectId} for user: ${userId}`);
 
-    const project = await this.getProjectWithAuth(userId, projectId);
-
-    project.status = ProjectStatus.ACTIVE;
-    project.updatedAt = new Date();
-
-    this.projects.set(project.id, project);
+    return this.setStatus(userId, projectId, ProjectStatus.ACTIVE);
+  }
 
-    this.logger.log(`Project restored: ${project.id}`);
+  /**
+   * Read the stored settings of a project, with defaults for missing keys
+   *
+   * @throws NotFoundException when the project does not exist
+   */
+  async getSettings(projectId: string): Promise<ProjectSettings> {
+    const project = isUUID(projectId)
+      ? await this.prisma.project.findUnique({
+          where: { id: projectId },
+          select: { settings: true },
+        })
+      : null;
+
+    if (!project) {
+      throw new NotFoundException(`Project not found: ${projectId}`);
+    }
 
-    return this.toProjectResponse(project);
+    return this.toProjectSettings(project.settings);
   }
 
   // ==========================================
   // Private Helper Methods
   // ==========================================
 
+  private async setStatus(
+    userId: string,
+    projectId: string,
+    status: ProjectStatus,
+  ): Promise<ProjectResponseDto> {
+    const existing = await this.getProjectWithAuth(userId, projectId);
+
+    const project = await this.prisma.project.update({
+      where: { id: existing.id },
+      data: { status },
+    });
+
+    this.logger.log(`Project ${project.id} status set to ${status}`);
+
+    return this.toProjectResponse(project);
+  }
+
   private async getProjectWithAuth(
     userId: string,
     projectId: string,
-  ): Promise<Project> {
-    const project = this.projects.get(projectId);
+  ): Promise<ProjectRecord> {
+    // Project IDs are UUIDs; anything else can't exist and would fail the query
+    const project = isUUID(projectId)
+      ? await this.prisma.project.findUnique({ where: { id: projectId } })
+      : null;
 
-    if (!project || project.status === ProjectStatus.DELETED) {
+    if (!project || project.deletedAt || project.status === ProjectStatus.DELETED) {
       throw new NotFoundException(`Project not found: ${projectId}`);
     }
 
@@ -257,19 +323,89 @@ export class ProjectsService {
     return project;
   }
 
-  private toProjectResponse(project: Project): ProjectResponseDto {
+  /**
+   * Build a URL-friendly slug that is unique among the user's projects
+   */
+  private async generateUniqueSlug(userId: string, name: string): Promise<string> {
+    // Same slug rules as the web app's POST /api/projects
+    const base =
+      name
+        .toLowerCase()
+        .replace(/\s+/g, '-')
+        .replace(/[^a-z0-9-]/g, '') || 'project';
+
+    const taken = await this.prisma.project.findMany({
+      where: { userId, slug: { startsWith: base } },
+      select: { slug: true },
+    });
+    const takenSlugs = new Set(taken.map((p) => p.slug));
+
+    let slug = base;
+    let suffix = 2;
+    while (takenSlugs.has(slug)) {
+      slug = `${base}-${suffix++}`;
+    }
+
+    return slug;
+  }
+
+  private toSortableField(sortBy?: string): SortableField {
+    return SORTABLE_FIELDS.includes(sortBy as SortableField)
+      ? (sortBy as SortableField)
+      : 'createdAt';
+  }
+
+  private toJsonObject(value: Prisma.JsonValue): Prisma.JsonObject {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Prisma.JsonObject)
+      : {};
+  }
+
+  /**
+   * Read project settings from the JSON column, filling defaults for
+   * projects created by the web app, which only stores the prompt
+   */
+  private toProjectSettings(value: Prisma.JsonValue): ProjectSettings {
+    const json = this.toJsonObject(value);
+
+    return {
+      framework: (json.framework as Framework) || Framework.NEXTJS,
+      styling: (json.styling as StylingOption) || StylingOption.TAILWIND,
+      language: json.language === 'javascript' ? 'javascript' : 'typescript',
+      features: Array.isArray(json.features) ? (json.features as string[]) : [],
+      customConfig: json.customConfig as Record<string, unknown> | undefined,
+      deploymentTargets: json.deploymentTargets
+        ? this.toDeploymentTargets(json.deploymentTargets)
+        : undefined,
+    };
+  }
+
+  /**
+   * Keep the known environment/target pairs of a deployment target map
+   */
+  private toDeploymentTargets(value: unknown): DeploymentTargetSettings {
+    const json = this.toJsonObject(value as Prisma.JsonValue);
+    const targets: DeploymentTargetSettings = {};
+
+    for (const environment of DEPLOYMENT_ENVIRONMENTS) {
+      const target = json[environment] as DeploymentTargetKind;
+      if (DEPLOYMENT_TARGET_KINDS.includes(target)) {
+        targets[environment] = target;
+      }
+    }
+
+    return targets;
+  }
+
+  private toProjectResponse(project: ProjectRecord): ProjectResponseDto {
     return {
       id: project.id,
       name: project.name,
-      description: project.description,
-      status: project.status,
-      settings: project.settings,
+      description: project.description ?? undefined,
+      status: project.status as ProjectStatus,
+      settings: this.toProjectSettings(project.settings),
       createdAt: project.createdAt,
       updatedAt: project.updatedAt,
     };
   }
-
-  private generateId(): string {
-    return `proj_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
-  }
 }
@@ -0,0 +1,246 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type Docker from 'dockerode';
+import { DockerService } from '../services/docker.service';
+import { PortManager } from '../services/port-manager';
+import { DeploymentsService, DeploymentStatus, DeploymentRecord } from '../deployments';
+
+/**
+ * What to do with a managed container that matches no live deployment
+ *
+ * - stop: stop and remove the container, freeing its port
+ * - keep: leave it running and reserve its port so it isn't handed out again
+ */
+export type OrphanContainerPolicy = 'stop' | 'keep';
+
+/**
+ * Outcome of a reconciliation pass
+ */
+export interface ReconciliationSummary {
+  /** Running containers re-attached to their deployment */
+  adopted: number;
+  /** Deployments marked failed because their container is gone */
+  failed: number;
+  /** Orphaned containers that were stopped */
+  orphansStopped: number;
+  /** Orphaned containers left running under the `keep` policy */
+  orphansKept: number;
+}
+
+/**
+ * Deployment Reconciler
+ *
+ * Port allocations live in memory, so after a restart the PortManager has
+ * no idea which ports the containers started by a previous run are holding.
+ * On startup this scans the `nexusgen.managed` containers and brings the
+ * port allocator and the Deployment table back in line with them:
+ *
+ * - Running containers of a live deployment get their port re-reserved
+ * - Live deployments whose container is gone or exited are marked failed
+ * - Containers with no live deployment are handled by DEPLOYMENT_ORPHAN_POLICY
+ */
+@Injectable()
+export class DeploymentReconciler {
+  private readonly logger = new Logger(DeploymentReconciler.name);
+  private readonly orphanPolicy: OrphanContainerPolicy;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dockerService: DockerService,
+    private readonly portManager: PortManager,
+    private readonly deploymentsService: DeploymentsService,
+  ) {
+    this.orphanPolicy =
+      this.configService.get<string>('DEPLOYMENT_ORPHAN_POLICY') === 'keep' ? 'keep' : 'stop';
+  }
+
+  /**
+   * Reconcile Docker containers with deployment records
+   *
+   * Never throws: a worker that can't reach Docker or the database should
+   * still start, it just skips reconciliation.
+   */
+  async reconcile(): Promise<ReconciliationSummary> {
+    const summary: ReconciliationSummary = {
+      adopted: 0,
+      failed: 0,
+      orphansStopped: 0,
+      orphansKept: 0,
+    };
+
+    if (!(await this.dockerService.isAvailable())) {
+      this.logger.warn('Docker is not available, skipping container reconciliation');
+      return summary;
+    }
+
+    let containers: Docker.ContainerInfo[];
+    let records: DeploymentRecord[];
+
+    try {
+      [containers, records] = await Promise.all([
+        this.dockerService.listManagedContainers(),
+        this.deploymentsService.getContainerRecords(),
+      ]);
+    } catch (error) {
+      this.logger.error(
+        `Container reconciliation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return summary;
+    }
+
+    this.logger.log(
+      `Reconciling ${containers.length} managed container(s) with ${records.length} live deployment(s)`,
+    );
+
+    const recordsById = new Map(records.map((r) => [r.deploymentId, r]));
+    const recordsByContainer = new Map(
+      records.filter((r) => r.containerId).map((r) => [r.containerId!, r]),
+    );
+    const attached = new Set<string>();
+
+    for (const container of containers) {
+      const record =
+        recordsById.get(container.Labels['nexusgen.deployment']) ??
+        recordsByContainer.get(container.Id);
+
+      try {
+        if (!record) {
+          await this.handleOrphan(container, summary);
+        } else if (container.State === 'running') {
+          await this.adopt(record, container);
+          attached.add(record.deploymentId);
+          summary.adopted++;
+        }
+        // An exited container of a live deployment is treated as vanished below
+      } catch (error) {
+        this.logger.warn(
+          `Failed to reconcile container ${container.Id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    for (const record of records) {
+      if (attached.has(record.deploymentId)) {
+        continue;
+      }
+
+      try {
+        await this.markVanished(record);
+        summary.failed++;
+      } catch (error) {
+        this.logger.warn(
+          `Failed to mark deployment ${record.deploymentId} as failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Reconciliation complete: ${summary.adopted} adopted, ${summary.failed} failed, ` +
+        `${summary.orphansStopped} orphan(s) stopped, ${summary.orphansKept} orphan(s) kept`,
+    );
+
+    return summary;
+  }
+
+  // ==========================================
+  // Private Helper Methods
+  // ==========================================
+
+  /**
+   * Re-reserve a running container's port and bring its row up to date
+   */
+  private async adopt(record: DeploymentRecord, container: Docker.ContainerInfo): Promise<void> {
+    const port = this.getContainerPort(container) ?? record.port;
+
+    if (port) {
+      this.reservePort(port, record.projectId, record.deployJobId ?? record.deploymentId);
+    }
+
+    // A deploy interrupted after the container started never got marked as running
+    if (
+      record.status !== DeploymentStatus.RUNNING ||
+      record.containerId !== container.Id ||
+      record.port !== port
+    ) {
+      const baseHost = this.configService.get<string>('DEPLOYMENT_HOST', 'localhost');
+
+      await this.deploymentsService.update(record.deploymentId, {
+        status: DeploymentStatus.RUNNING,
+        containerId: container.Id,
+        port,
+        url: record.url ?? (port ? `http://${baseHost}:${port}` : undefined),
+        ...(record.completedAt ? {} : { completedAt: new Date() }),
+      });
+    }
+
+    this.logger.log(
+      `Adopted container ${container.Id.slice(0, 12)} for deployment ${record.deploymentId} on port ${port ?? 'unknown'}`,
+    );
+  }
+
+  /**
+   * Mark a live deployment whose container no longer runs as failed
+   */
+  private async markVanished(record: DeploymentRecord): Promise<void> {
+    const error =
+      record.status === DeploymentStatus.RUNNING
+        ? 'Container is no longer running'
+        : 'Deployment was interrupted by a worker restart';
+
+    await this.deploymentsService.update(record.deploymentId, {
+      status: DeploymentStatus.FAILED,
+      error,
+      containerId: undefined,
+      port: undefined,
+      ...(record.completedAt ? {} : { completedAt: new Date() }),
+    });
+
+    const logWriter = this.deploymentsService.createLogWriter(record.deploymentId, 'deploy');
+    logWriter.write(`Deployment failed: ${error}`);
+    await logWriter.flush();
+
+    this.logger.warn(`Deployment ${record.deploymentId} marked as failed: ${error}`);
+  }
+
+  /**
+   * Apply the orphan policy to a container with no live deployment
+   */
+  private async handleOrphan(
+    container: Docker.ContainerInfo,
+    summary: ReconciliationSummary,
+  ): Promise<void> {
+    const containerId = container.Id.slice(0, 12);
+
+    if (this.orphanPolicy === 'stop') {
+      await this.dockerService.stopContainer(container.Id);
+      summary.orphansStopped++;
+      this.logger.log(`Stopped orphaned container ${containerId}`);
+      return;
+    }
+
+    const port = container.State === 'running' ? this.getContainerPort(container) : undefined;
+    if (port) {
+      this.reservePort(port, container.Labels['nexusgen.project']);
+    }
+    summary.orphansKept++;
+    this.logger.log(`Keeping orphaned container ${containerId} (port ${port ?? 'none'})`);
+  }
+
+  private reservePort(port: number, projectId?: string, deploymentId?: string): void {
+    if (!this.portManager.getPortAllocation(port)) {
+      this.portManager.reservePort(port, projectId, deploymentId);
+    }
+  }
+
+  /**
+   * Host port of a container, from its label or its published port mapping
+   */
+  private getContainerPort(container: Docker.ContainerInfo): number | undefined {
+    const labelled = Number(container.Labels['nexusgen.port']);
+    if (Number.isInteger(labelled) && labelled > 0) {
+      return labelled;
+    }
+
+    return container.Ports.find((p) => p.PrivatePort === 3000 && p.PublicPort)?.PublicPort;
+  }
+}
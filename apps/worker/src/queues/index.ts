@@ -5,8 +5,10 @@
  */
 
 export { QueuesModule, QueuesService } from './queues.module';
+export { ProjectProcessor } from './project.processor';
 export {
-  ProjectProcessor,
-  DeploymentStatus,
-  DeploymentRecord,
-} from './project.processor';
+  DeploymentReconciler,
+  OrphanContainerPolicy,
+  ReconciliationSummary,
+} from './deployment.reconciler';
+export { DeploymentStatus, DeploymentRecord } from '../deployments';
@@ -1,7 +1,9 @@
 import { Injectable, Logger, OnModuleInit, OnModuleDestroy, Inject, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Worker, Job, Queue } from 'bullmq';
+import { Worker, Job, Queue, DelayedError } from 'bullmq';
 import IORedis from 'ioredis';
+import { isUUID } from 'class-validator';
+import type { QuotaCheckResult, QuotaResource } from '@nexusgen/types';
 import {
   QueueName,
   QUEUE_CONFIGS,
@@ -13,6 +15,7 @@ import {
   BuildJobResult,
   DeployJobData,
   DeployJobResult,
+  DeploymentEnvironment,
   AITaskJobData,
   AITaskJobResult,
   NotificationJobData,
@@ -26,39 +29,16 @@ import {
 } from '../types/queue.types';
 import { GenerationService } from '../ai/generation.service';
 import { GenerationJobData as AgentGenerationJobData } from '../types/generation.types';
-import { DockerService, BuildResult, ContainerResult } from '../services/docker.service';
+import { DockerService, BuildResult } from '../services/docker.service';
 import { PortManager } from '../services/port-manager';
-
-/**
- * Deployment status enum for tracking deployment state
- */
-export enum DeploymentStatus {
-  PENDING = 'pending',
-  BUILDING = 'building',
-  DEPLOYING = 'deploying',
-  RUNNING = 'running',
-  FAILED = 'failed',
-  STOPPED = 'stopped',
-}
-
-/**
- * Deployment tracking record
- */
-export interface DeploymentRecord {
-  deploymentId: string;
-  projectId: string;
-  userId: string;
-  status: DeploymentStatus;
-  imageId?: string;
-  imageName?: string;
-  containerId?: string;
-  port?: number;
-  url?: string;
-  buildLogs: string[];
-  error?: string;
-  startedAt: Date;
-  completedAt?: Date;
-}
+import { DeploymentsService, DeploymentStatus, DeploymentRecord } from '../deployments';
+import { DeploymentReconciler } from './deployment.reconciler';
+import { DeploymentTargetResolver, DEFAULT_DEPLOYMENT_TARGET } from './targets';
+import { UsageService, QuotaService } from '../usage';
+import { SnapshotsService } from '../snapshots';
+import { GitService } from '../git';
+import { VersionsService } from '../versions';
+import { UsageTracker } from '../agents';
 
 /**
  * Project Processor
@@ -72,17 +52,23 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
   private readonly workers: Map<QueueName, Worker> = new Map();
   private connection: IORedis | null = null;
 
-  // In-memory deployment tracking (in production, use database)
-  private readonly deployments: Map<string, DeploymentRecord> = new Map();
-
   constructor(
     private readonly configService: ConfigService,
     @Inject('GENERATION_QUEUE') private readonly generationQueue: Queue,
+    @Inject('BUILD_QUEUE') private readonly buildQueue: Queue,
     @Inject('DEPLOYMENT_QUEUE') private readonly deploymentQueue: Queue,
     @Inject('NOTIFICATION_QUEUE') private readonly notificationQueue: Queue,
     private readonly generationService: GenerationService,
     private readonly dockerService: DockerService,
     private readonly portManager: PortManager,
+    private readonly deploymentsService: DeploymentsService,
+    private readonly deploymentReconciler: DeploymentReconciler,
+    private readonly deploymentTargets: DeploymentTargetResolver,
+    private readonly usageService: UsageService,
+    private readonly quotaService: QuotaService,
+    private readonly snapshotsService: SnapshotsService,
+    private readonly gitService: GitService,
+    private readonly versionsService: VersionsService,
     @Optional() @Inject('WEBSOCKETS_GATEWAY') private readonly websocketsGateway?: any,
   ) {}
 
@@ -92,6 +78,10 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
   async onModuleInit(): Promise<void> {
     this.logger.log('Initializing project processor workers...');
 
+    // Re-register ports of containers left running by a previous run before
+    // any deploy job can allocate one
+    await this.deploymentReconciler.reconcile();
+
     // Create Redis connection
     this.connection = this.createRedisConnection();
 
@@ -157,22 +147,27 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
    */
   private async initializeWorker(
     queueName: QueueName,
-    processor: (job: Job) => Promise<unknown>,
+    processor: (job: Job, token?: string) => Promise<unknown>,
   ): Promise<void> {
     const config = QUEUE_CONFIGS[queueName];
 
     const worker = new Worker(
       queueName,
-      async (job: Job) => {
+      async (job: Job, token?: string) => {
         const startTime = Date.now();
         this.logger.log(`[${queueName}] Processing job ${job.id}: ${job.name}`);
 
         try {
-          const result = await processor(job);
+          const result = await processor(job, token);
           const duration = Date.now() - startTime;
           this.logger.log(`[${queueName}] Job ${job.id} completed in ${duration}ms`);
           return result;
         } catch (error) {
+          // Held jobs were moved back to the delayed set, not failed
+          if (error instanceof DelayedError) {
+            throw error;
+          }
+
           const duration = Date.now() - startTime;
           this.logger.error(
             `[${queueName}] Job ${job.id} failed after ${duration}ms: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -244,7 +239,10 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
   /**
    * Process generation jobs (project creation, updates, generation)
    */
-  private async processGenerationJob(job: Job): Promise<GenerationJobResult | ProjectJobResult> {
+  private async processGenerationJob(
+    job: Job,
+    token?: string,
+  ): Promise<GenerationJobResult | ProjectJobResult> {
     const startTime = Date.now();
 
     // Handle project actions
@@ -254,7 +252,8 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
 
     // Handle generation jobs
     if (isGenerationJobData(job.data)) {
-      return this.handleGeneration(job.data, job, startTime);
+      const quota = await this.holdOverQuota(job, token, job.data.userId, 'aiTokens');
+      return this.handleGeneration(job.data, job, startTime, quota);
     }
 
     throw new Error(`Unknown job data format for generation queue: ${job.name}`);
@@ -284,6 +283,12 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         case 'delete':
           result = await this.deleteProject(projectId, userId);
           break;
+        case 'restore':
+          result = await this.restoreSnapshot(projectId, userId, payload);
+          break;
+        case 'promote':
+          result = await this.promoteVersion(projectId, userId, payload);
+          break;
         case 'generate':
         case 'build':
         case 'deploy':
@@ -316,13 +321,17 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Handle code generation jobs
+   *
+   * @param quota - AI token quota checked before the job started, used to
+   *   warn the user when this generation crosses the warning threshold
    */
   private async handleGeneration(
     data: GenerationJobData,
     job: Job,
     startTime: number,
+    quota: QuotaCheckResult | null,
   ): Promise<GenerationJobResult> {
-    const { generationId, projectId, userId, prompt, type, config, assets } = data;
+    const { generationId, projectId, userId, prompt, type, config, assets, source } = data;
 
     this.logger.log(`Processing ${type} generation ${generationId} for project ${projectId}`);
 
@@ -331,8 +340,8 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
       await job.updateProgress(10);
       this.emitProgressUpdate(projectId, generationId, 10, 'Starting generation...');
 
-      // Validate input
-      if (!prompt || prompt.trim().length === 0) {
+      // Validate input; an import's prompt is optional notes on the codebase
+      if (type !== 'import' && (!prompt || prompt.trim().length === 0)) {
         throw new Error('Generation prompt cannot be empty');
       }
 
@@ -345,6 +354,11 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         prompt,
         assets,
         userId,
+        generationId,
+        // Refactors and fixes edit the existing sandbox rather than regenerating it;
+        // imports specify the codebase already copied into it
+        mode: type === 'import' ? 'import' : type === 'refactor' || type === 'fix' ? 'edit' : 'create',
+        source,
         settings: {
           framework: config?.framework,
           styling: config?.styling,
@@ -361,7 +375,38 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
       this.emitProgressUpdate(projectId, generationId, 30, 'Creating technical specification...');
 
       // Call GenerationService for actual generation
-      const result = await this.generationService.processGeneration(agentJobData);
+      const usageTracker = new UsageTracker();
+      const result = await this.generationService.processGeneration(agentJobData, usageTracker);
+
+      // Each generation that changed the project becomes a version; its
+      // changelog call is billed with the generation
+      if (result.success && result.snapshotId) {
+        await this.versionsService.createFromSnapshot(
+          {
+            projectId,
+            userId,
+            snapshotId: result.snapshotId,
+            mode: agentJobData.mode ?? 'create',
+            prompt,
+          },
+          usageTracker,
+        );
+      }
+      const usage = result.usage && usageTracker.summarize();
+
+      // Failed generations are billed for the calls they made too
+      if (usage) {
+        await this.usageService.recordGeneration({
+          userId,
+          projectId,
+          generationId,
+          usage,
+        });
+
+        if (quota) {
+          await this.quotaService.warnIfCrossed(userId, 'aiTokens', quota, usage.totalTokens);
+        }
+      }
 
       await job.updateProgress(90);
       this.emitProgressUpdate(projectId, generationId, 90, 'Finalizing generation...');
@@ -384,11 +429,13 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         files: result.files,
         previewUrl: `https://preview.nexusgen.dev/${projectId}/${generationId}`,
         tokenUsage: {
-          promptTokens: 500,
-          completionTokens: 1500,
-          totalTokens: 2000,
+          promptTokens: usage?.promptTokens ?? 0,
+          completionTokens: usage?.completionTokens ?? 0,
+          totalTokens: usage?.totalTokens ?? 0,
         },
-        modelUsed: config?.model || 'gpt-4-turbo',
+        costUsd: usage?.costUsd,
+        modelUsed: usage?.calls[0]?.model ?? config?.model ?? 'gpt-4-turbo',
+        reviewFindings: result.review?.findings,
         durationMs: Date.now() - startTime,
         completedAt: new Date().toISOString(),
       };
@@ -442,6 +489,9 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
 
   /**
    * Process build jobs - Builds Docker images from project sandbox
+   *
+   * Every log line is returned in the job result and streamed into BuildLog
+   * against the build's deployment row.
    */
   private async processBuildJob(job: Job): Promise<BuildJobResult> {
     const startTime = Date.now();
@@ -450,18 +500,29 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
       throw new Error('Invalid build job data');
     }
 
-    const { buildId, projectId, userId, config, gitInfo } = job.data;
+    const { buildId, projectId, userId } = job.data;
     const logs: string[] = [];
 
     this.logger.log(`Processing build ${buildId} for project ${projectId}`);
 
-    // Create or update deployment record
-    const deploymentRecord = this.createDeploymentRecord(buildId, projectId, userId);
-    deploymentRecord.status = DeploymentStatus.BUILDING;
+    // Builds queued without a commit build what the sandbox's repository is at
+    const head = job.data.gitInfo ? null : await this.gitService.headCommit(projectId);
+    const buildData = head ? { ...job.data, gitInfo: head } : job.data;
+
+    // Create or reuse the deployment row for this build
+    const deploymentRecord = await this.deploymentsService.createForBuild(buildData);
+    const logWriter = this.deploymentsService.createLogWriter(
+      deploymentRecord.deploymentId,
+      'build',
+    );
+    const log = (line: string) => {
+      logs.push(`[${new Date().toISOString()}] ${line}`);
+      logWriter.write(line);
+    };
 
     try {
       await job.updateProgress(10);
-      logs.push(`[${new Date().toISOString()}] Starting Docker build...`);
+      log('Starting Docker build...');
 
       // Emit WebSocket event for build start
       this.emitDeploymentEvent('deployment:building', {
@@ -473,7 +534,7 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
 
       // Get sandbox path from GenerationService
       const sandboxPath = this.generationService.getSandboxPath(projectId);
-      logs.push(`[${new Date().toISOString()}] Using sandbox path: ${sandboxPath}`);
+      log(`Using sandbox path: ${sandboxPath}`);
 
       await job.updateProgress(20);
 
@@ -483,16 +544,20 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         throw new Error('Docker is not available on this system');
       }
 
-      logs.push(`[${new Date().toISOString()}] Docker daemon is available`);
+      log('Docker daemon is available');
 
-      // Build Docker image (DockerService handles log streaming via notifications)
+      // Build Docker image, streaming its output into the build log
       await job.updateProgress(30);
-      logs.push(`[${new Date().toISOString()}] Building Docker image...`);
-
-      const buildResult: BuildResult = await this.dockerService.buildImage(projectId, sandboxPath);
+      log('Building Docker image...');
 
-      // Add build logs from result
-      logs.push(...buildResult.logs);
+      const buildResult: BuildResult = await this.dockerService.buildImage(
+        projectId,
+        sandboxPath,
+        (line) => {
+          logs.push(line);
+          logWriter.write(line);
+        },
+      );
 
       await job.updateProgress(70);
 
@@ -500,14 +565,18 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         throw new Error(buildResult.error || 'Docker build failed');
       }
 
-      // Update deployment record with image info
+      // Record image info; the row waits in PENDING until a deploy job claims it
       const imageName = `nexusgen-${projectId}:latest`;
-      deploymentRecord.imageId = buildResult.imageId;
-      deploymentRecord.imageName = imageName;
-      deploymentRecord.buildLogs = logs;
+      await this.deploymentsService.update(deploymentRecord.deploymentId, {
+        status: DeploymentStatus.PENDING,
+        imageId: buildResult.imageId,
+        imageName,
+      });
 
-      logs.push(`[${new Date().toISOString()}] Docker image built successfully: ${imageName}`);
-      logs.push(`[${new Date().toISOString()}] Image ID: ${buildResult.imageId}`);
+      log(`Docker image built successfully: ${imageName}`);
+      log(`Image ID: ${buildResult.imageId}`);
+
+      await this.recordSnapshotBuild(job.data, true);
 
       await job.updateProgress(100);
 
@@ -528,12 +597,22 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
-      // Update deployment record
-      deploymentRecord.status = DeploymentStatus.FAILED;
-      deploymentRecord.error = errorMessage;
-      deploymentRecord.buildLogs = logs;
+      log(`Build failed: ${errorMessage}`);
+
+      await this.recordSnapshotBuild(job.data, false, errorMessage);
 
-      logs.push(`[${new Date().toISOString()}] Build failed: ${errorMessage}`);
+      // Update deployment record
+      await this.deploymentsService
+        .update(deploymentRecord.deploymentId, {
+          status: DeploymentStatus.FAILED,
+          error: errorMessage,
+          completedAt: new Date(),
+        })
+        .catch((updateError) =>
+          this.logger.warn(
+            `Failed to record build failure: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`,
+          ),
+        );
 
       // Emit failure event
       this.emitDeploymentEvent('deployment:failed', {
@@ -558,6 +637,8 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         durationMs: Date.now() - startTime,
         completedAt: new Date().toISOString(),
       };
+    } finally {
+      await logWriter.flush();
     }
   }
 
@@ -565,56 +646,73 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
    * Process deployment jobs - Full deployment orchestration
    *
    * Orchestrates the complete deployment flow:
-   * 1. Build Docker image (if not already built)
-   * 2. Find and reserve an available port
-   * 3. Run the container
-   * 4. Update deployment record with URL
-   * 5. Handle cleanup on failure
+   * 0. For promotions, restore the version's files and make it current
+   * 1. Resolve the deployment target for the project's environment
+   * 2. Build the Docker image when the target needs it and none exists
+   * 3. Deploy to the target (container, static site or compose bundle)
+   * 4. Update deployment record with URL or bundle path
+   *
+   * Targets clean up after themselves when they fail.
    */
-  private async processDeployJob(job: Job): Promise<DeployJobResult> {
+  private async processDeployJob(job: Job, token?: string): Promise<DeployJobResult> {
     const startTime = Date.now();
 
     if (!isDeployJobData(job.data)) {
       throw new Error('Invalid deploy job data');
     }
 
-    const { deploymentId, projectId, userId, buildId, environment, domain } = job.data;
+    const { deploymentId, projectId, userId, environment, domain } = job.data;
 
-    this.logger.log(`Processing deployment ${deploymentId} to ${environment} for project ${projectId}`);
+    await this.holdOverQuota(job, token, userId, 'deployments');
 
-    // Get or create deployment record
-    let deploymentRecord = this.deployments.get(deploymentId);
-    if (!deploymentRecord) {
-      deploymentRecord = this.createDeploymentRecord(deploymentId, projectId, userId);
-    }
+    this.logger.log(`Processing deployment ${deploymentId} to ${environment} for project ${projectId}`);
 
-    // Track resources for cleanup on failure
-    let allocatedPort: number | undefined;
-    let containerId: string | undefined;
-    let imageId: string | undefined;
+    // Get the build's deployment row, or create one
+    const deploymentRecord = await this.deploymentsService.claimForDeploy(job.data);
+    const recordId = deploymentRecord.deploymentId;
+    const logWriter = this.deploymentsService.createLogWriter(recordId, 'deploy');
+    const buildLogWriter = this.deploymentsService.createLogWriter(recordId, 'build');
+    const sandboxPath = this.generationService.getSandboxPath(projectId);
 
     try {
+      // Promotions restore the version only now that the deployment may run
+      if (job.data.promote && job.data.versionId) {
+        const { version, restoredFiles, removedFiles } = await this.versionsService.promote(
+          projectId,
+          job.data.versionId,
+        );
+        logWriter.write(
+          `Promoted version ${version.version}: ${restoredFiles} files restored, ${removedFiles} removed`,
+        );
+      }
+
       await job.updateProgress(10);
 
-      // Step 1: Emit deployment started event
+      // Step 1: Resolve the target
+      const target = await this.deploymentTargets.resolve(projectId, environment, job.data.target);
+
       this.emitDeploymentEvent('deployment:deploying', {
         deploymentId,
         projectId,
         status: DeploymentStatus.DEPLOYING,
-        message: 'Starting deployment...',
+        message: `Starting ${target.kind} deployment...`,
       });
 
-      deploymentRecord.status = DeploymentStatus.DEPLOYING;
-
-      // Step 2: Get or build the image
-      // Check if we have an imageId from a previous build, or build now
-      const imageName = `nexusgen-${projectId}:latest`;
+      await this.deploymentsService.update(recordId, {
+        status: DeploymentStatus.DEPLOYING,
+        target: target.kind,
+      });
+      logWriter.write(`Starting ${environment} deployment ${deploymentId} to ${target.kind} target`);
+
+      // Step 2: Reuse the build's image, or build it when the target asks for one
+      const getImage = async (): Promise<string> => {
+        if (deploymentRecord.imageId) {
+          const image = deploymentRecord.imageName || deploymentRecord.imageId;
+          this.logger.log(`Using existing image: ${image}`);
+          logWriter.write(`Using existing image: ${image}`);
+          return image;
+        }
 
-      if (deploymentRecord.imageId) {
-        imageId = deploymentRecord.imageId;
-        this.logger.log(`Using existing image: ${imageId}`);
-      } else {
-        // Need to build the image first
         this.logger.log(`Building image for project: ${projectId}`);
 
         await job.updateProgress(20);
@@ -625,112 +723,112 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
           message: 'Building Docker image...',
         });
 
-        const sandboxPath = this.generationService.getSandboxPath(projectId);
-        const buildResult = await this.dockerService.buildImage(projectId, sandboxPath);
+        await this.deploymentsService.update(recordId, { status: DeploymentStatus.BUILDING });
+
+        const buildResult = await this.dockerService.buildImage(
+          projectId,
+          sandboxPath,
+          (line) => buildLogWriter.write(line),
+        );
 
         if (!buildResult.success) {
           throw new Error(buildResult.error || 'Failed to build Docker image');
         }
 
-        imageId = buildResult.imageId;
-        deploymentRecord.imageId = imageId;
-        deploymentRecord.imageName = imageName;
-        deploymentRecord.buildLogs = buildResult.logs;
-      }
-
-      await job.updateProgress(40);
-
-      // Step 3: Find and allocate a port
-      this.logger.log('Finding available port...');
-      allocatedPort = await this.portManager.allocatePort(projectId, deploymentId);
-      deploymentRecord.port = allocatedPort;
-      this.logger.log(`Allocated port: ${allocatedPort}`);
+        const imageName = `nexusgen-${projectId}:latest`;
+        await this.deploymentsService.update(recordId, {
+          status: DeploymentStatus.DEPLOYING,
+          imageId: buildResult.imageId,
+          imageName,
+        });
 
-      await job.updateProgress(50);
+        await job.updateProgress(40);
+        return imageName;
+      };
 
-      // Step 4: Run the container
-      this.logger.log(`Starting container from image: ${imageName || imageId}`);
-      this.emitDeploymentEvent('deployment:deploying', {
-        deploymentId,
+      // Step 3: Deploy
+      const outcome = await target.deploy({
+        deploymentId: recordId,
+        jobId: deploymentId,
         projectId,
-        status: DeploymentStatus.DEPLOYING,
-        message: `Starting container on port ${allocatedPort}...`,
+        environment,
+        domain,
+        sandboxPath,
+        getImage,
+        log: (line) => logWriter.write(line),
       });
 
-      const runResult: ContainerResult = await this.dockerService.runContainer(
-        imageName || imageId!,
-        allocatedPort,
-      );
-
-      if (!runResult.success) {
-        throw new Error(runResult.error || 'Failed to start container');
-      }
-
-      containerId = runResult.containerId;
-      deploymentRecord.containerId = containerId;
-
       await job.updateProgress(80);
 
-      // Step 5: Determine the deployment URL
-      const baseHost = this.configService.get<string>('DEPLOYMENT_HOST', 'localhost');
-      const deployUrl =
-        environment === 'production' && domain
-          ? `https://${domain.name}`
-          : `http://${baseHost}:${allocatedPort}`;
-
-      deploymentRecord.url = deployUrl;
-      deploymentRecord.status = DeploymentStatus.RUNNING;
-      deploymentRecord.completedAt = new Date();
-
-      // Update DNS if custom domain
-      if (domain) {
-        this.logger.log(`Configuring domain ${domain.name} with SSL: ${domain.ssl}`);
-        // TODO: Implement DNS configuration
-      }
+      // Step 4: Record where the deployment can be reached
+      await this.deploymentsService.update(recordId, {
+        status: DeploymentStatus.RUNNING,
+        containerId: outcome.containerId,
+        port: outcome.port,
+        artifactPath: outcome.artifactPath,
+        url: outcome.url,
+        completedAt: new Date(),
+      });
 
       await job.updateProgress(100);
 
+      const message = outcome.url
+        ? `Deployment is live at ${outcome.url}`
+        : `Deployment bundle is ready at ${outcome.artifactPath}`;
+
       // Emit success event
       this.emitDeploymentEvent('deployment:ready', {
         deploymentId,
         projectId,
         status: DeploymentStatus.RUNNING,
-        url: deployUrl,
-        port: allocatedPort,
-        containerId,
-        message: `Deployment is live at ${deployUrl}`,
+        url: outcome.url,
+        port: outcome.port,
+        containerId: outcome.containerId,
+        message,
       });
 
       // Send notification
       await this.queueNotification(
         userId,
         'Deployment Complete',
-        `Your ${environment} deployment is live at ${deployUrl}`,
+        outcome.url
+          ? `Your ${environment} deployment is live at ${outcome.url}`
+          : `Your ${environment} deployment bundle is ready`,
       );
 
-      this.logger.log(`Deployment ${deploymentId} completed successfully: ${deployUrl}`);
+      this.logger.log(`Deployment ${deploymentId} completed successfully: ${message}`);
 
       return {
         success: true,
         deploymentId,
         projectId,
-        url: deployUrl,
-        containerId,
-        port: allocatedPort,
+        target: target.kind,
+        url: outcome.url,
+        containerId: outcome.containerId,
+        port: outcome.port,
+        artifactPath: outcome.artifactPath,
         durationMs: Date.now() - startTime,
         completedAt: new Date().toISOString(),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.logger.error(`Deployment ${deploymentId} failed: ${errorMessage}`, error);
+      logWriter.write(`Deployment failed: ${errorMessage}`);
 
       // Update deployment record
-      deploymentRecord.status = DeploymentStatus.FAILED;
-      deploymentRecord.error = errorMessage;
-      deploymentRecord.completedAt = new Date();
-
-      // Cleanup on failure
-      await this.cleanupFailedDeployment(containerId, imageId, allocatedPort);
+      await this.deploymentsService
+        .update(recordId, {
+          status: DeploymentStatus.FAILED,
+          error: errorMessage,
+          containerId: undefined,
+          port: undefined,
+          completedAt: new Date(),
+        })
+        .catch((updateError) =>
+          this.logger.warn(
+            `Failed to record deployment failure: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`,
+          ),
+        );
 
       // Emit failure event
       this.emitDeploymentEvent('deployment:failed', {
@@ -756,6 +854,8 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
         durationMs: Date.now() - startTime,
         completedAt: new Date().toISOString(),
       };
+    } finally {
+      await Promise.all([buildLogWriter.flush(), logWriter.flush()]);
     }
   }
 
@@ -938,6 +1038,134 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
     return { projectId, status: 'deleted' };
   }
 
+  /**
+   * Reset a project's sandbox to a snapshot and queue a build of it
+   */
+  private async restoreSnapshot(
+    projectId: string,
+    userId: string,
+    payload?: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const snapshotId = payload?.snapshotId;
+    if (typeof snapshotId !== 'string' || !isUUID(snapshotId)) {
+      throw new Error('Restore requires a valid payload.snapshotId');
+    }
+
+    const { snapshot, preRestoreSnapshot, restoredFiles, removedFiles } =
+      await this.snapshotsService.restore(projectId, snapshotId);
+
+    const buildData: BuildJobData = {
+      buildId: `build_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      projectId,
+      userId,
+      generationId: snapshot.generationId ?? undefined,
+      snapshotId: snapshot.id,
+      config: {
+        buildCommand: 'npm run build',
+        outputDirectory: '.next',
+        installCommand: 'npm install',
+        environmentVariables: {},
+        nodeVersion: '20',
+      },
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.buildQueue.add('build:process', buildData, { jobId: buildData.buildId });
+
+    this.logger.log(`Restored project ${projectId} to snapshot ${snapshotId}; queued build ${buildData.buildId}`);
+
+    return {
+      projectId,
+      snapshotId,
+      preRestoreSnapshotId: preRestoreSnapshot.id,
+      restoredFiles,
+      removedFiles,
+      buildId: buildData.buildId,
+      status: 'restored',
+    };
+  }
+
+  /**
+   * Queue a deployment that makes a version current and deploys its files
+   *
+   * The deploy job restores the version once it is past the deployment
+   * quota, so a held or rejected deployment leaves the sandbox as it is.
+   * The deployment builds the restored sandbox and is recorded against
+   * the version.
+   */
+  private async promoteVersion(
+    projectId: string,
+    userId: string,
+    payload?: Record<string, unknown>,
+  ): Promise<Record<string, unknown>> {
+    const versionId = payload?.versionId;
+    if (typeof versionId !== 'string' || !isUUID(versionId)) {
+      throw new Error('Promote requires a valid payload.versionId');
+    }
+
+    const environments: DeploymentEnvironment[] = ['preview', 'staging', 'production'];
+    const environment = environments.find((env) => env === payload?.environment) ?? 'preview';
+
+    const version = await this.versionsService.findVersion(projectId, versionId);
+
+    const deployData: DeployJobData = {
+      deploymentId: `deploy_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      projectId,
+      userId,
+      buildId: `build_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      versionId: version.id,
+      promote: true,
+      environment,
+      createdAt: new Date().toISOString(),
+    };
+
+    // Production deployments get higher priority
+    await this.deploymentQueue.add('deploy:process', deployData, {
+      jobId: deployData.deploymentId,
+      priority: environment === 'production' ? 0 : 5,
+    });
+
+    this.logger.log(
+      `Queued ${environment} deployment ${deployData.deploymentId} promoting project ${projectId} to version ${version.version}`,
+    );
+
+    return {
+      projectId,
+      versionId: version.id,
+      version: version.version,
+      deploymentId: deployData.deploymentId,
+      environment,
+      status: 'queued',
+    };
+  }
+
+  /**
+   * Record a build outcome on the snapshot that was built: the one named by
+   * the job, else the latest unbuilt snapshot of its generation
+   *
+   * Snapshots are bookkeeping; a failure here never fails the build.
+   */
+  private async recordSnapshotBuild(
+    data: BuildJobData,
+    success: boolean,
+    errorLog?: string,
+  ): Promise<void> {
+    try {
+      if (data.snapshotId) {
+        await this.snapshotsService.recordBuild(data.snapshotId, { success, errorLog });
+      } else if (data.generationId) {
+        await this.snapshotsService.recordBuildForGeneration(data.projectId, data.generationId, {
+          success,
+          errorLog,
+        });
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record build ${data.buildId} on its snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
   /**
    * Perform code generation (fallback method for simple generation)
    * @deprecated Use GenerationService.processGeneration() instead
@@ -988,6 +1216,44 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
     return result.files;
   }
 
+  /**
+   * Hold a job that would exceed the user's subscription quota
+   *
+   * The web API rejects over-quota requests up front; this catches jobs
+   * queued before the limit was reached or by other producers. Held jobs
+   * go back to the delayed set until the quota period resets.
+   *
+   * @returns The quota check, or null when the job is not tied to a user row
+   */
+  private async holdOverQuota(
+    job: Job,
+    token: string | undefined,
+    userId: string,
+    resource: QuotaResource,
+  ): Promise<QuotaCheckResult | null> {
+    // Demo and system ids have no subscription to check against
+    if (!isUUID(userId)) {
+      return null;
+    }
+
+    const quota = await this.quotaService.check(userId, resource);
+    if (quota.allowed) {
+      return quota;
+    }
+
+    this.logger.warn(
+      `Holding job ${job.id} until ${quota.resetsAt}: ${resource} quota of the ${quota.tier} plan reached (${quota.allowance.used}/${quota.allowance.limit})`,
+    );
+    await this.queueNotification(
+      userId,
+      'Quota Reached',
+      `Your ${resource} quota is used up. The job will resume when your quota resets on ${quota.resetsAt}, or upgrade your plan to continue now.`,
+    );
+
+    await job.moveToDelayed(Date.parse(quota.resetsAt), token);
+    throw new DelayedError();
+  }
+
   /**
    * Queue a notification job
    */
@@ -1015,39 +1281,17 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
   // ============================================
 
   /**
-   * Create a deployment record for tracking
+   * Get a deployment record by deployment ID or job ID
    */
-  private createDeploymentRecord(
-    deploymentId: string,
-    projectId: string,
-    userId: string,
-  ): DeploymentRecord {
-    const record: DeploymentRecord = {
-      deploymentId,
-      projectId,
-      userId,
-      status: DeploymentStatus.PENDING,
-      buildLogs: [],
-      startedAt: new Date(),
-    };
-    this.deployments.set(deploymentId, record);
-    return record;
-  }
-
-  /**
-   * Get a deployment record by ID
-   */
-  getDeploymentRecord(deploymentId: string): DeploymentRecord | undefined {
-    return this.deployments.get(deploymentId);
+  async getDeploymentRecord(deploymentId: string): Promise<DeploymentRecord | undefined> {
+    return this.deploymentsService.getRecord(deploymentId);
   }
 
   /**
    * Get all deployment records for a project
    */
-  getProjectDeployments(projectId: string): DeploymentRecord[] {
-    return Array.from(this.deployments.values()).filter(
-      (d) => d.projectId === projectId,
-    );
+  async getProjectDeployments(projectId: string): Promise<DeploymentRecord[]> {
+    return this.deploymentsService.getProjectRecords(projectId);
   }
 
   /**
@@ -1083,60 +1327,11 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
     }
   }
 
-  /**
-   * Cleanup resources from a failed deployment
-   */
-  private async cleanupFailedDeployment(
-    containerId?: string,
-    imageId?: string,
-    port?: number,
-  ): Promise<void> {
-    this.logger.log('Cleaning up failed deployment resources...');
-
-    // Stop and remove container if it was created
-    if (containerId) {
-      try {
-        this.logger.log(`Stopping container: ${containerId}`);
-        await this.dockerService.stopContainer(containerId);
-        this.logger.log(`Container stopped and removed: ${containerId}`);
-      } catch (error) {
-        this.logger.warn(
-          `Failed to stop container ${containerId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        );
-      }
-    }
-
-    // Release the port if it was allocated
-    if (port) {
-      try {
-        this.portManager.releasePort(port);
-        this.logger.log(`Released port: ${port}`);
-      } catch (error) {
-        this.logger.warn(
-          `Failed to release port ${port}: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        );
-      }
-    }
-
-    // Note: We don't remove the image by default as it may be reused
-    // Uncomment below if you want to remove the image on failure:
-    // if (imageId) {
-    //   try {
-    //     await this.dockerService.removeImage(imageId);
-    //     this.logger.log(`Removed image: ${imageId}`);
-    //   } catch (error) {
-    //     this.logger.warn(`Failed to remove image ${imageId}: ${error}`);
-    //   }
-    // }
-
-    this.logger.log('Cleanup completed');
-  }
-
   /**
    * Stop a running deployment
    */
   async stopDeployment(deploymentId: string): Promise<boolean> {
-    const record = this.deployments.get(deploymentId);
+    const record = await this.deploymentsService.getRecord(deploymentId);
     if (!record) {
       this.logger.warn(`Deployment not found: ${deploymentId}`);
       return false;
@@ -1145,19 +1340,20 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
     this.logger.log(`Stopping deployment: ${deploymentId}`);
 
     try {
-      // Stop the container
-      if (record.containerId) {
-        await this.dockerService.stopContainer(record.containerId);
-      }
-
-      // Release the port
-      if (record.port) {
-        this.portManager.releasePort(record.port);
-      }
+      // Tear down whatever the target left running
+      await this.deploymentTargets.get(record.target ?? DEFAULT_DEPLOYMENT_TARGET).stop(record);
 
       // Update the record
-      record.status = DeploymentStatus.STOPPED;
-      record.completedAt = new Date();
+      await this.deploymentsService.update(record.deploymentId, {
+        status: DeploymentStatus.STOPPED,
+        containerId: undefined,
+        port: undefined,
+        completedAt: new Date(),
+      });
+
+      const logWriter = this.deploymentsService.createLogWriter(record.deploymentId, 'deploy');
+      logWriter.write('Deployment stopped');
+      await logWriter.flush();
 
       // Emit stopped event
       this.emitDeploymentEvent('deployment:stopped', {
@@ -1181,7 +1377,7 @@ export class ProjectProcessor implements OnModuleInit, OnModuleDestroy {
    * Clean up all deployments for a project
    */
   async cleanupProjectDeployments(projectId: string): Promise<number> {
-    const deployments = this.getProjectDeployments(projectId);
+    const deployments = await this.getProjectDeployments(projectId);
     let cleanedUp = 0;
 
     for (const deployment of deployments) {
@@ -12,9 +12,21 @@ import {
   QueueStats,
 } from '../types';
 import { ProjectProcessor } from './project.processor';
+import { DeploymentReconciler } from './deployment.reconciler';
+import {
+  DockerDeploymentTarget,
+  StaticDeploymentTarget,
+  ComposeDeploymentTarget,
+  DeploymentTargetResolver,
+} from './targets';
 import { DockerModule } from '../services/docker.module';
 import { PortManagerModule } from '../services/port-manager.module';
 import { AIModule } from '../ai/ai.module';
+import { DeploymentsModule } from '../deployments/deployments.module';
+import { UsageModule } from '../usage/usage.module';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
+import { GitModule } from '../git/git.module';
+import { VersionsModule } from '../versions/versions.module';
 
 /**
  * Queue configuration for BullMQ
@@ -71,6 +83,11 @@ function createQueue(
     forwardRef(() => DockerModule),
     PortManagerModule,
     AIModule,
+    DeploymentsModule,
+    UsageModule,
+    SnapshotsModule,
+    GitModule,
+    VersionsModule,
   ],
   providers: [
     // Redis configuration
@@ -192,6 +209,15 @@ function createQueue(
       ],
     },
 
+    // Startup container reconciliation
+    DeploymentReconciler,
+
+    // Deployment targets
+    DockerDeploymentTarget,
+    StaticDeploymentTarget,
+    ComposeDeploymentTarget,
+    DeploymentTargetResolver,
+
     // Project Processor
     ProjectProcessor,
   ],
@@ -207,6 +233,7 @@ function createQueue(
     'CLEANUP_QUEUE',
     'QUEUE_SERVICE',
     ProjectProcessor,
+    DeploymentReconciler,
   ],
 })
 export class QueuesModule implements OnModuleInit {
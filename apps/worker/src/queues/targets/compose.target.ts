@@ -0,0 +1,110 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import type { DeploymentRecord } from '../../deployments';
+import { CONTAINER_PORT } from '../../scaffold';
+import { IGNORED_DIRECTORIES } from '../../utils';
+import type { DeploymentContext, DeploymentOutcome, DeploymentTarget } from './deployment-target';
+
+/**
+ * Docker Compose Bundle Target
+ *
+ * Exports the project as a tarball with its source, the scaffolded
+ * Dockerfile and a docker-compose.yml, so it can be run anywhere with
+ * `docker compose up --build`. Nothing is started on the worker; the
+ * bundle is kept when the deployment is stopped.
+ */
+@Injectable()
+export class ComposeDeploymentTarget implements DeploymentTarget {
+  readonly kind = 'compose' as const;
+
+  private readonly logger = new Logger(ComposeDeploymentTarget.name);
+  private readonly exportDir: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.exportDir = path.resolve(
+      this.configService.get<string>('COMPOSE_EXPORT_DIR', '/tmp/nexusgen-bundles'),
+    );
+  }
+
+  async deploy(context: DeploymentContext): Promise<DeploymentOutcome> {
+    const { projectId, environment, sandboxPath } = context;
+
+    const bundleDir = path.join(this.exportDir, projectId);
+    const artifactPath = path.join(bundleDir, `${environment}-${Date.now()}.tar.gz`);
+    const composeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'nexusgen-compose-'));
+
+    try {
+      await fs.mkdir(bundleDir, { recursive: true });
+      await fs.writeFile(
+        path.join(composeDir, 'docker-compose.yml'),
+        this.getComposeFile(projectId, environment),
+        'utf-8',
+      );
+
+      context.log(`Bundling ${sandboxPath}`);
+      await this.tar([
+        '-czf',
+        artifactPath,
+        ...IGNORED_DIRECTORIES.map((exclude) => `--exclude=./${exclude}`),
+        '-C',
+        sandboxPath,
+        '.',
+        '-C',
+        composeDir,
+        'docker-compose.yml',
+      ]);
+    } catch (error) {
+      await fs.rm(artifactPath, { force: true });
+      throw error;
+    } finally {
+      await fs.rm(composeDir, { recursive: true, force: true });
+    }
+
+    context.log(`Bundle written to ${artifactPath}`);
+    context.log('Run it with: tar -xzf <bundle> && docker compose up --build');
+
+    return { artifactPath };
+  }
+
+  async stop(record: DeploymentRecord): Promise<void> {
+    // The bundle stays available for download; there is nothing running
+    this.logger.log(`Stopped compose deployment ${record.deploymentId}; bundle kept`);
+  }
+
+  private getComposeFile(projectId: string, environment: string): string {
+    return `# Generated by NexusGen
+services:
+  app:
+    build: .
+    image: nexusgen-${projectId}:${environment}
+    ports:
+      - "\${PORT:-${CONTAINER_PORT}}:${CONTAINER_PORT}"
+    environment:
+      NODE_ENV: production
+    restart: unless-stopped
+`;
+  }
+
+  private tar(args: string[]): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('tar', args, { stdio: ['ignore', 'ignore', 'pipe'] });
+      let stderr = '';
+
+      child.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`tar exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import type { DeploymentRecord } from '../../deployments';
+import type { DeployJobData, DeploymentEnvironment, DeploymentTargetKind } from '../../types';
+
+/**
+ * Target used for environments a project has not configured
+ */
+export const DEFAULT_DEPLOYMENT_TARGET: DeploymentTargetKind = 'docker';
+
+/**
+ * What a target needs to deploy one project
+ */
+export interface DeploymentContext {
+  /** Deployment row ID */
+  deploymentId: string;
+  /** Deploy job ID */
+  jobId: string;
+  projectId: string;
+  environment: DeploymentEnvironment;
+  domain?: DeployJobData['domain'];
+  /** Sandbox holding the generated source */
+  sandboxPath: string;
+  /** The project's Docker image, built on first use */
+  getImage(): Promise<string>;
+  /** Append a line to the deployment's log */
+  log(line: string): void;
+}
+
+/**
+ * Where a finished deployment can be reached
+ */
+export interface DeploymentOutcome {
+  url?: string;
+  containerId?: string;
+  port?: number;
+  /** Exported bundle, for targets that produce one */
+  artifactPath?: string;
+}
+
+/**
+ * A place deployments run
+ *
+ * `deploy` cleans up after itself when it fails; `stop` tears down a
+ * deployment this target made.
+ */
+export interface DeploymentTarget {
+  readonly kind: DeploymentTargetKind;
+
+  deploy(context: DeploymentContext): Promise<DeploymentOutcome>;
+
+  stop(record: DeploymentRecord): Promise<void>;
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { PrismaService } from '../../database';
+import type { DeploymentEnvironment, DeploymentTargetKind, ProjectSettings } from '../../types';
+import { ComposeDeploymentTarget } from './compose.target';
+import { DEFAULT_DEPLOYMENT_TARGET, type DeploymentTarget } from './deployment-target';
+import { DockerDeploymentTarget } from './docker.target';
+import { StaticDeploymentTarget } from './static.target';
+
+/**
+ * Deployment Target Resolver
+ *
+ * Picks the target a deployment runs on from the job, then the project's
+ * per-environment settings, then the default.
+ */
+@Injectable()
+export class DeploymentTargetResolver {
+  private readonly targets: Record<DeploymentTargetKind, DeploymentTarget>;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    dockerTarget: DockerDeploymentTarget,
+    staticTarget: StaticDeploymentTarget,
+    composeTarget: ComposeDeploymentTarget,
+  ) {
+    this.targets = {
+      docker: dockerTarget,
+      static: staticTarget,
+      compose: composeTarget,
+    };
+  }
+
+  /**
+   * Get a target by kind
+   */
+  get(kind: DeploymentTargetKind): DeploymentTarget {
+    const target = this.targets[kind];
+    if (!target) {
+      throw new Error(`Unknown deployment target: ${kind}`);
+    }
+    return target;
+  }
+
+  /**
+   * Get the target for a project's environment
+   *
+   * @param override - Target requested for this deployment only
+   */
+  async resolve(
+    projectId: string,
+    environment: DeploymentEnvironment,
+    override?: DeploymentTargetKind,
+  ): Promise<DeploymentTarget> {
+    if (override) {
+      return this.get(override);
+    }
+
+    // Project IDs are UUIDs; anything else has no settings to read
+    const project = isUUID(projectId)
+      ? await this.prisma.project.findUnique({
+          where: { id: projectId },
+          select: { settings: true },
+        })
+      : null;
+
+    const settings = project?.settings as Partial<ProjectSettings> | null | undefined;
+    const configured = settings?.deploymentTargets?.[environment];
+
+    return configured && configured in this.targets
+      ? this.targets[configured]
+      : this.get(DEFAULT_DEPLOYMENT_TARGET);
+  }
+}
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DockerService } from '../../services/docker.service';
+import { PortManager } from '../../services/port-manager';
+import type { DeploymentRecord } from '../../deployments';
+import type { DeploymentContext, DeploymentOutcome, DeploymentTarget } from './deployment-target';
+
+/**
+ * Local Docker Target
+ *
+ * Runs the project's image as a container on the worker's Docker daemon,
+ * published on a port from the PortManager range.
+ */
+@Injectable()
+export class DockerDeploymentTarget implements DeploymentTarget {
+  readonly kind = 'docker' as const;
+
+  private readonly logger = new Logger(DockerDeploymentTarget.name);
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dockerService: DockerService,
+    private readonly portManager: PortManager,
+  ) {}
+
+  async deploy(context: DeploymentContext): Promise<DeploymentOutcome> {
+    const { deploymentId, jobId, projectId, environment, domain } = context;
+    const image = await context.getImage();
+
+    const port = await this.portManager.allocatePort(projectId, jobId);
+    context.log(`Allocated port: ${port}`);
+
+    let containerId: string | undefined;
+
+    try {
+      context.log(`Starting container from image: ${image}`);
+
+      // Labels let the reconciler match the container back to this row after a restart
+      const runResult = await this.dockerService.runContainer(image, port, {
+        'nexusgen.project': projectId,
+        'nexusgen.deployment': deploymentId,
+      });
+
+      if (!runResult.success) {
+        throw new Error(runResult.error || 'Failed to start container');
+      }
+
+      containerId = runResult.containerId;
+
+      const baseHost = this.configService.get<string>('DEPLOYMENT_HOST', 'localhost');
+      const url =
+        environment === 'production' && domain
+          ? `https://${domain.name}`
+          : `http://${baseHost}:${port}`;
+
+      // Update DNS if custom domain
+      if (domain) {
+        this.logger.log(`Configuring domain ${domain.name} with SSL: ${domain.ssl}`);
+        // TODO: Implement DNS configuration
+      }
+
+      context.log(`Container ${containerId} is live at ${url}`);
+
+      return { url, containerId, port };
+    } catch (error) {
+      await this.release(containerId, port);
+      throw error;
+    }
+  }
+
+  async stop(record: DeploymentRecord): Promise<void> {
+    if (record.containerId) {
+      await this.dockerService.stopContainer(record.containerId);
+    }
+
+    if (record.port) {
+      this.portManager.releasePort(record.port);
+    }
+  }
+
+  /**
+   * Remove the container and free the port of a failed deployment
+   */
+  private async release(containerId: string | undefined, port: number): Promise<void> {
+    if (containerId) {
+      try {
+        await this.dockerService.stopContainer(containerId);
+        this.logger.log(`Container stopped and removed: ${containerId}`);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to stop container ${containerId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        );
+      }
+    }
+
+    this.portManager.releasePort(port);
+    this.logger.log(`Released port: ${port}`);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * Deployment Targets
+ *
+ * Places a deploy job can put a project: local Docker containers, static
+ * sites served by nginx, and docker-compose bundles.
+ */
+
+export {
+  DEFAULT_DEPLOYMENT_TARGET,
+  DeploymentContext,
+  DeploymentOutcome,
+  DeploymentTarget,
+} from './deployment-target';
+export { DockerDeploymentTarget } from './docker.target';
+export { StaticDeploymentTarget } from './static.target';
+export { ComposeDeploymentTarget } from './compose.target';
+export { DeploymentTargetResolver } from './deployment-targets';
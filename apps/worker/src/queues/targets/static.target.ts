@@ -0,0 +1,247 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { DockerService } from '../../services/docker.service';
+import type { DeploymentRecord } from '../../deployments';
+import type { DeploymentContext, DeploymentOutcome, DeploymentTarget } from './deployment-target';
+
+/**
+ * Where the scaffolded static images (Vite React, static HTML) keep the site
+ */
+const IMAGE_SITE_PATH = '/usr/share/nginx/html';
+
+/**
+ * Name of the shared nginx container serving exported sites
+ */
+const SERVER_CONTAINER_NAME = 'nexusgen-static-sites';
+
+const SERVER_IMAGE = 'nginx:1.27-alpine';
+
+/**
+ * Serves `<site>.<domain>` from the directory of the same name, with
+ * client-side routing fallback
+ */
+const SERVER_CONFIG = `# Generated by NexusGen
+server {
+    listen 80 default_server;
+    server_name ~^(?<site>[a-z0-9-]+)\\.;
+    root /usr/share/nginx/sites/$site;
+    index index.html;
+
+    location / {
+        try_files $uri $uri/ /index.html =404;
+    }
+}
+`;
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.mjs': 'text/javascript; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.ico': 'image/x-icon',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.txt': 'text/plain; charset=utf-8',
+};
+
+/**
+ * Static Site Target
+ *
+ * Copies the built site out of the project's image into a directory
+ * served by a shared nginx container, one subdomain per project and
+ * environment. When STATIC_EXPORT_BUCKET is set the site is also uploaded
+ * to that S3-compatible bucket (e.g. MinIO), under the same site name.
+ *
+ * STATIC_EXPORT_DIR is bind-mounted into the nginx container, so it must
+ * be a path on the Docker host.
+ */
+@Injectable()
+export class StaticDeploymentTarget implements DeploymentTarget {
+  readonly kind = 'static' as const;
+
+  private readonly logger = new Logger(StaticDeploymentTarget.name);
+  private readonly exportDir: string;
+  private readonly bucket?: string;
+  private readonly s3?: S3Client;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly dockerService: DockerService,
+  ) {
+    this.exportDir = path.resolve(
+      this.configService.get<string>('STATIC_EXPORT_DIR', '/tmp/nexusgen-sites'),
+    );
+    this.bucket = this.configService.get<string>('STATIC_EXPORT_BUCKET') || undefined;
+
+    if (this.bucket) {
+      this.s3 = new S3Client({
+        endpoint: this.configService.get<string>('STATIC_EXPORT_S3_ENDPOINT') || undefined,
+        region: this.configService.get<string>('AWS_S3_REGION') || 'us-east-1',
+        // MinIO serves buckets by path rather than by subdomain
+        forcePathStyle: true,
+      });
+    }
+  }
+
+  async deploy(context: DeploymentContext): Promise<DeploymentOutcome> {
+    const site = this.getSiteName(context.projectId, context.environment);
+    const siteDir = path.join(this.exportDir, site);
+    const stagingDir = `${siteDir}.staging-${Date.now()}`;
+
+    const image = await context.getImage();
+    context.log(`Exporting ${IMAGE_SITE_PATH} from image: ${image}`);
+
+    try {
+      await this.dockerService.copyFromImage(image, IMAGE_SITE_PATH, stagingDir);
+    } catch (error) {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+      throw new Error(
+        `Static deployments need a static site image (Vite React or static HTML): ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+
+    // Swap the new export in for the previous one
+    await fs.rm(siteDir, { recursive: true, force: true });
+    await fs.rename(stagingDir, siteDir);
+    context.log(`Exported site to ${siteDir}`);
+
+    if (this.bucket) {
+      const uploaded = await this.upload(site, siteDir);
+      context.log(`Uploaded ${uploaded} file(s) to bucket ${this.bucket}/${site}`);
+    }
+
+    const port = this.configService.get<number>('STATIC_SERVER_PORT', 8080);
+    await this.ensureServer(port);
+
+    const domain = this.configService.get<string>('STATIC_SITE_DOMAIN', 'localhost');
+    const url = `http://${site}.${domain}:${port}`;
+    context.log(`Site is live at ${url}`);
+
+    return { url };
+  }
+
+  async stop(record: DeploymentRecord): Promise<void> {
+    const site = this.getSiteFromUrl(record.url);
+    if (!site) {
+      this.logger.warn(`No site recorded for deployment ${record.deploymentId}`);
+      return;
+    }
+
+    await fs.rm(path.join(this.exportDir, site), { recursive: true, force: true });
+
+    if (this.bucket) {
+      await this.removeUploads(site);
+    }
+  }
+
+  // ==========================================
+  // Private Helper Methods
+  // ==========================================
+
+  /**
+   * Subdomain and directory name of a project's environment
+   */
+  private getSiteName(projectId: string, environment: string): string {
+    return `${projectId}-${environment}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+  }
+
+  private getSiteFromUrl(url: string | undefined): string | undefined {
+    if (!url) {
+      return undefined;
+    }
+
+    try {
+      return new URL(url).hostname.split('.')[0] || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write the server config and start the shared nginx if needed
+   */
+  private async ensureServer(port: number): Promise<void> {
+    const configPath = path.join(this.exportDir, '.nginx', 'default.conf');
+    await fs.mkdir(path.dirname(configPath), { recursive: true });
+    await fs.writeFile(configPath, SERVER_CONFIG, 'utf-8');
+
+    await this.dockerService.ensureNginxServer({
+      name: SERVER_CONTAINER_NAME,
+      port,
+      image: SERVER_IMAGE,
+      sitesPath: this.exportDir,
+      configPath,
+    });
+  }
+
+  /**
+   * Upload a site directory to the bucket, replacing any previous upload
+   *
+   * @returns The number of files uploaded
+   */
+  private async upload(site: string, siteDir: string): Promise<number> {
+    await this.removeUploads(site);
+
+    const files = await this.listFiles(siteDir);
+
+    for (const file of files) {
+      const key = `${site}/${path.relative(siteDir, file).split(path.sep).join('/')}`;
+      await this.s3!.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: await fs.readFile(file),
+          ContentType: CONTENT_TYPES[path.extname(file).toLowerCase()] ?? 'application/octet-stream',
+        }),
+      );
+    }
+
+    return files.length;
+  }
+
+  private async removeUploads(site: string): Promise<void> {
+    let continuationToken: string | undefined;
+
+    do {
+      const listed = await this.s3!.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${site}/`,
+          ContinuationToken: continuationToken,
+        }),
+      );
+
+      const keys = (listed.Contents ?? []).flatMap((object) => (object.Key ? [{ Key: object.Key }] : []));
+      if (keys.length > 0) {
+        await this.s3!.send(
+          new DeleteObjectsCommand({ Bucket: this.bucket, Delete: { Objects: keys } }),
+        );
+      }
+
+      continuationToken = listed.IsTruncated ? listed.NextContinuationToken : undefined;
+    } while (continuationToken);
+  }
+
+  private async listFiles(directory: string): Promise<string[]> {
+    const entries = await fs.readdir(directory, { withFileTypes: true, recursive: true });
+
+    return entries
+      .filter((entry) => entry.isFile())
+      .map((entry) => path.join(entry.parentPath || entry.path, entry.name));
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Scaffold Module
+ *
+ * Deterministic container files for generated projects.
+ */
+
+export {
+  ProjectScaffolder,
+  ScaffoldOptions,
+  ScaffoldResult,
+  SCAFFOLD_FILE_PATHS,
+  isScaffoldPath,
+  withStandaloneOutput,
+} from './project-scaffolder';
+export { ScaffoldFramework, CONTAINER_PORT, DOCKERFILES } from './templates';
@@ -0,0 +1,314 @@
+/**
+ * Project Scaffolder
+ *
+ * Writes the container files a generated project is built with, instead
+ * of relying on the model to produce a working Dockerfile. Runs after
+ * every generation, edit and fix, so scaffold files the model overwrote
+ * are restored before the next build. Imported codebases keep the
+ * container files they came with.
+ */
+
+import { Logger } from '@nestjs/common';
+import type { FrameworkConfig, TechnicalSpecification } from '../agents';
+import type { GeneratedFile, SandboxFileWriter } from '../utils';
+import {
+  DOCKERFILES,
+  DOCKERIGNORE,
+  NEXT_CONFIG,
+  NGINX_CONF,
+  type ScaffoldFramework,
+} from './templates';
+
+/**
+ * Files owned by the scaffold; generated code must not change them
+ */
+export const SCAFFOLD_FILE_PATHS = ['Dockerfile', '.dockerignore', 'docker/nginx.conf'];
+
+/**
+ * Next.js config files, in the order Next.js looks for them
+ */
+const NEXT_CONFIG_PATHS = ['next.config.js', 'next.config.mjs', 'next.config.ts'];
+
+/**
+ * Framework names accepted from the specification or generation settings
+ */
+const FRAMEWORK_ALIASES: Record<string, ScaffoldFramework> = {
+  nextjs: 'nextjs',
+  next: 'nextjs',
+  'next.js': 'nextjs',
+  'vite-react': 'vite-react',
+  vite: 'vite-react',
+  react: 'vite-react',
+  static: 'static',
+  html: 'static',
+  'node-api': 'node-api',
+  node: 'node-api',
+  express: 'node-api',
+  fastify: 'node-api',
+};
+
+/**
+ * Server packages that mark a project as a Node API
+ */
+const NODE_SERVER_PACKAGES = ['express', 'fastify', 'koa', 'hono', '@nestjs/core'];
+
+/**
+ * Package whose version is reported as the framework version
+ */
+const FRAMEWORK_PACKAGES: Record<ScaffoldFramework, string[]> = {
+  nextjs: ['next'],
+  'vite-react': ['vite'],
+  static: [],
+  'node-api': NODE_SERVER_PACKAGES,
+};
+
+/**
+ * Options for scaffolding a project
+ */
+export interface ScaffoldOptions {
+  /**
+   * The sandbox holds an imported codebase: existing container files are
+   * kept, and a stack the scaffold does not recognise is an error rather
+   * than a Next.js project
+   */
+  imported?: boolean;
+}
+
+/**
+ * Outcome of scaffolding a project
+ */
+export interface ScaffoldResult {
+  /** Null when an imported codebase brings its own Dockerfile for an unrecognised stack */
+  framework: ScaffoldFramework | null;
+  /** Framework details to store on the specification */
+  frameworkConfig: FrameworkConfig;
+  /** Scaffold files written to the sandbox */
+  files: GeneratedFile[];
+}
+
+interface PackageJson {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+/**
+ * Whether a path is owned by the scaffold
+ */
+export function isScaffoldPath(filePath: string): boolean {
+  return SCAFFOLD_FILE_PATHS.includes(filePath.replace(/^\.\//, ''));
+}
+
+/**
+ * Set `output: 'standalone'` in a Next.js config
+ *
+ * @returns The updated source, or null when the config object could not be found
+ */
+export function withStandaloneOutput(source: string): string | null {
+  if (/\boutput\s*:\s*['"]standalone['"]/.test(source)) {
+    return source;
+  }
+
+  if (/\boutput\s*:\s*['"][^'"]*['"]/.test(source)) {
+    return source.replace(/\boutput\s*:\s*['"][^'"]*['"]/, "output: 'standalone'");
+  }
+
+  const configObject =
+    /(\bnextConfig\s*(?::\s*NextConfig\s*)?=\s*\{)|(module\.exports\s*=\s*\{)|(export\s+default\s*\{)/;
+  const match = configObject.exec(source);
+  if (!match) {
+    return null;
+  }
+
+  const insertAt = match.index + match[0].length;
+  const rest = source.slice(insertAt);
+  // An empty object gets its closing brace on a line of its own
+  const body = rest.trimStart().startsWith('}') ? `\n${rest.trimStart()}` : rest;
+
+  return `${source.slice(0, insertAt)}\n  output: 'standalone',${body}`;
+}
+
+export class ProjectScaffolder {
+  private readonly logger = new Logger(ProjectScaffolder.name);
+
+  constructor(private readonly fileWriter: SandboxFileWriter) {}
+
+  /**
+   * Write the scaffold for a project's sandbox
+   *
+   * The framework is taken from the specification, then detected from the
+   * generated package.json, then taken from the generation settings, and
+   * defaults to Next.js.
+   *
+   * An imported codebase that has its own Dockerfile is left as it is.
+   * Otherwise only the missing scaffold files are added to it, and it
+   * must be of a recognised framework.
+   *
+   * @param projectId - Project whose sandbox is scaffolded
+   * @param spec - Specification the project was generated from
+   * @param frameworkHint - Framework requested in the generation settings
+   * @param options - Scaffold options
+   * @throws Error when an imported codebase has no Dockerfile and its framework is not recognised
+   */
+  async apply(
+    projectId: string,
+    spec: TechnicalSpecification,
+    frameworkHint?: string,
+    options: ScaffoldOptions = {},
+  ): Promise<ScaffoldResult> {
+    const packageJson = await this.readPackageJson(projectId);
+    const detected =
+      toScaffoldFramework(spec.framework?.name) ??
+      (await this.detectFramework(projectId, packageJson)) ??
+      toScaffoldFramework(frameworkHint);
+
+    if (options.imported && (await this.fileWriter.exists(projectId, 'Dockerfile'))) {
+      this.logger.log(`Keeping the container files of imported project ${projectId}`);
+      return {
+        framework: detected ?? null,
+        frameworkConfig: await this.getFrameworkConfig(projectId, detected ?? null, packageJson),
+        files: [],
+      };
+    }
+
+    if (options.imported && !detected) {
+      throw new Error(
+        'The imported codebase uses a framework that cannot be containerised automatically; add a Dockerfile to it and import it again',
+      );
+    }
+
+    const framework = detected ?? 'nextjs';
+    let files: GeneratedFile[] = [
+      { path: 'Dockerfile', content: DOCKERFILES[framework] },
+      { path: '.dockerignore', content: DOCKERIGNORE },
+    ];
+
+    if (framework === 'vite-react' || framework === 'static') {
+      files.push({ path: 'docker/nginx.conf', content: NGINX_CONF });
+    }
+
+    if (options.imported) {
+      files = await this.withoutExisting(projectId, files);
+    }
+
+    if (framework === 'nextjs') {
+      files.push(await this.getNextConfig(projectId, options.imported));
+    }
+
+    await this.fileWriter.writeFiles(projectId, files);
+    this.logger.log(`Scaffolded ${framework} container files for project ${projectId}`);
+
+    return {
+      framework,
+      frameworkConfig: await this.getFrameworkConfig(projectId, framework, packageJson),
+      files,
+    };
+  }
+
+  /**
+   * The files that are not in the sandbox yet
+   */
+  private async withoutExisting(projectId: string, files: GeneratedFile[]): Promise<GeneratedFile[]> {
+    const missing: GeneratedFile[] = [];
+    for (const file of files) {
+      if (!(await this.fileWriter.exists(projectId, file.path))) {
+        missing.push(file);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Detect the framework from the generated files
+   */
+  private async detectFramework(
+    projectId: string,
+    packageJson: PackageJson | null,
+  ): Promise<ScaffoldFramework | undefined> {
+    if (!packageJson) {
+      return (await this.fileWriter.exists(projectId, 'index.html')) ? 'static' : undefined;
+    }
+
+    const dependencies = { ...packageJson.dependencies, ...packageJson.devDependencies };
+
+    if (dependencies.next) {
+      return 'nextjs';
+    }
+    if (dependencies.vite) {
+      return 'vite-react';
+    }
+    if (NODE_SERVER_PACKAGES.some((name) => dependencies[name])) {
+      return 'node-api';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * The project's Next.js config with standalone output enforced
+   *
+   * A config the output setting cannot be added to is replaced, except
+   * in an imported codebase.
+   */
+  private async getNextConfig(projectId: string, imported = false): Promise<GeneratedFile> {
+    for (const configPath of NEXT_CONFIG_PATHS) {
+      if (!(await this.fileWriter.exists(projectId, configPath))) {
+        continue;
+      }
+
+      const source = await this.fileWriter.readFile(projectId, configPath);
+      const updated = withStandaloneOutput(source);
+      if (updated !== null) {
+        return { path: configPath, content: updated };
+      }
+
+      if (imported) {
+        throw new Error(
+          `Standalone output could not be added to ${configPath}; add a Dockerfile to the codebase and import it again`,
+        );
+      }
+
+      this.logger.warn(`Replacing ${configPath} of project ${projectId}: no config object found`);
+      await this.fileWriter.deleteFile(projectId, configPath);
+    }
+
+    return { path: 'next.config.mjs', content: NEXT_CONFIG };
+  }
+
+  private async getFrameworkConfig(
+    projectId: string,
+    framework: ScaffoldFramework | null,
+    packageJson: PackageJson | null,
+  ): Promise<FrameworkConfig> {
+    const dependencies = { ...packageJson?.dependencies, ...packageJson?.devDependencies };
+    const frameworkPackage = framework
+      ? FRAMEWORK_PACKAGES[framework].find((name) => dependencies[name])
+      : undefined;
+
+    return {
+      name: framework ?? 'custom',
+      version: frameworkPackage ? dependencies[frameworkPackage].replace(/^[\^~]/, '') : 'latest',
+      typescript:
+        Boolean(dependencies.typescript) || (await this.fileWriter.exists(projectId, 'tsconfig.json')),
+      features: [],
+    };
+  }
+
+  private async readPackageJson(projectId: string): Promise<PackageJson | null> {
+    if (!(await this.fileWriter.exists(projectId, 'package.json'))) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(await this.fileWriter.readFile(projectId, 'package.json')) as PackageJson;
+    } catch (error) {
+      this.logger.warn(
+        `Ignoring unreadable package.json of project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return null;
+    }
+  }
+}
+
+function toScaffoldFramework(name: string | undefined): ScaffoldFramework | undefined {
+  return name ? FRAMEWORK_ALIASES[name.trim().toLowerCase()] : undefined;
+}
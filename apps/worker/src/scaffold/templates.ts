@@ -0,0 +1,172 @@
+/**
+ * Scaffold Templates
+ *
+ * Known-good container files for each supported framework. Every image
+ * serves on port 3000, which is what DockerService.runContainer maps.
+ */
+
+/**
+ * Frameworks the scaffold can containerize
+ */
+export type ScaffoldFramework = 'nextjs' | 'vite-react' | 'static' | 'node-api';
+
+/**
+ * Port every scaffolded image listens on
+ */
+export const CONTAINER_PORT = 3000;
+
+/**
+ * Node.js base image for build and runtime stages
+ */
+const NODE_IMAGE = 'node:20-alpine';
+
+/**
+ * nginx image used to serve static output
+ */
+const NGINX_IMAGE = 'nginx:1.27-alpine';
+
+/**
+ * Installs dependencies reproducibly when a lockfile was generated
+ */
+const INSTALL_DEPENDENCIES =
+  'RUN if [ -f package-lock.json ]; then npm ci; else npm install --no-audit --no-fund; fi';
+
+// ============================================
+// Dockerfiles
+// ============================================
+
+const NEXTJS_DOCKERFILE = `# Generated by NexusGen. Edits are overwritten on the next generation.
+
+FROM ${NODE_IMAGE} AS deps
+WORKDIR /app
+RUN apk add --no-cache libc6-compat
+COPY package*.json ./
+${INSTALL_DEPENDENCIES}
+
+FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+ENV NEXT_TELEMETRY_DISABLED=1
+COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+RUN mkdir -p public && npm run build
+
+FROM ${NODE_IMAGE} AS runner
+WORKDIR /app
+ENV NODE_ENV=production \\
+    NEXT_TELEMETRY_DISABLED=1 \\
+    PORT=${CONTAINER_PORT} \\
+    HOSTNAME=0.0.0.0
+RUN addgroup -S -g 1001 nodejs && adduser -S -u 1001 -G nodejs nextjs
+COPY --from=builder --chown=nextjs:nodejs /app/public ./public
+COPY --from=builder --chown=nextjs:nodejs /app/.next/standalone ./
+COPY --from=builder --chown=nextjs:nodejs /app/.next/static ./.next/static
+USER nextjs
+EXPOSE ${CONTAINER_PORT}
+CMD ["node", "server.js"]
+`;
+
+const VITE_REACT_DOCKERFILE = `# Generated by NexusGen. Edits are overwritten on the next generation.
+
+FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+COPY package*.json ./
+${INSTALL_DEPENDENCIES}
+COPY . .
+RUN npm run build
+
+FROM ${NGINX_IMAGE} AS runner
+COPY docker/nginx.conf /etc/nginx/conf.d/default.conf
+COPY --from=builder /app/dist /usr/share/nginx/html
+EXPOSE ${CONTAINER_PORT}
+CMD ["nginx", "-g", "daemon off;"]
+`;
+
+const STATIC_DOCKERFILE = `# Generated by NexusGen. Edits are overwritten on the next generation.
+
+FROM ${NGINX_IMAGE}
+COPY docker/nginx.conf /etc/nginx/conf.d/default.conf
+COPY . /usr/share/nginx/html
+RUN rm -rf /usr/share/nginx/html/docker
+EXPOSE ${CONTAINER_PORT}
+CMD ["nginx", "-g", "daemon off;"]
+`;
+
+const NODE_API_DOCKERFILE = `# Generated by NexusGen. Edits are overwritten on the next generation.
+
+FROM ${NODE_IMAGE} AS builder
+WORKDIR /app
+COPY package*.json ./
+${INSTALL_DEPENDENCIES}
+COPY . .
+RUN npm run build --if-present && npm prune --omit=dev
+
+FROM ${NODE_IMAGE} AS runner
+WORKDIR /app
+ENV NODE_ENV=production \\
+    PORT=${CONTAINER_PORT}
+COPY --from=builder --chown=node:node /app ./
+USER node
+EXPOSE ${CONTAINER_PORT}
+CMD ["npm", "start"]
+`;
+
+export const DOCKERFILES: Record<ScaffoldFramework, string> = {
+  nextjs: NEXTJS_DOCKERFILE,
+  'vite-react': VITE_REACT_DOCKERFILE,
+  static: STATIC_DOCKERFILE,
+  'node-api': NODE_API_DOCKERFILE,
+};
+
+// ============================================
+// Supporting Files
+// ============================================
+
+/**
+ * Keeps local build output and secrets out of the build context
+ */
+export const DOCKERIGNORE = `# Generated by NexusGen. Edits are overwritten on the next generation.
+node_modules
+npm-debug.log*
+.next
+dist
+build
+coverage
+.git
+.nexusgen
+.env
+.env.*
+Dockerfile
+.dockerignore
+`;
+
+/**
+ * nginx site for static output, with client-side routing fallback
+ */
+export const NGINX_CONF = `# Generated by NexusGen. Edits are overwritten on the next generation.
+server {
+    listen ${CONTAINER_PORT};
+    server_name _;
+    root /usr/share/nginx/html;
+    index index.html;
+
+    location / {
+        try_files $uri $uri/ /index.html;
+    }
+
+    location ~* \\.(?:js|css|png|jpg|jpeg|gif|svg|ico|woff2?)$ {
+        expires 7d;
+        add_header Cache-Control "public, max-age=604800, immutable";
+    }
+}
+`;
+
+/**
+ * Next.js config written when the generated project has none
+ */
+export const NEXT_CONFIG = `/** @type {import('next').NextConfig} */
+const nextConfig = {
+  output: 'standalone',
+};
+
+export default nextConfig;
+`;
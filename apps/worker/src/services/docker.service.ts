@@ -2,6 +2,8 @@ import { Injectable, Logger, Inject } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import Docker from 'dockerode';
 import { Readable } from 'stream';
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
 import { QueuesService } from '../queues';
 import { NotificationJobData } from '../types';
 
@@ -31,6 +33,51 @@ export interface ContainerResult {
   error?: string;
 }
 
+/**
+ * Options for a long-running nginx container serving host directories
+ */
+export interface NginxServerOptions {
+  /** Container name, used to find the container again */
+  name: string;
+  /** Host port mapped to the container's port 80 */
+  port: number;
+  /** nginx image to run */
+  image: string;
+  /** Host path mounted at /usr/share/nginx/sites */
+  sitesPath: string;
+  /** Host path of the site config, mounted as the default server */
+  configPath: string;
+}
+
+/**
+ * Options for a one-off command run in a throwaway container
+ */
+export interface RunCommandOptions {
+  /** Image the command runs in */
+  image: string;
+  /** Command and arguments */
+  command: string[];
+  /** Working directory inside the container */
+  workingDir?: string;
+  /** Volume binds, e.g. `/host/path:/workspace` or `volume-name:/root/.npm` */
+  binds?: string[];
+  /** Environment variables as `KEY=value` */
+  env?: string[];
+  /** The container is killed after this long */
+  timeoutMs: number;
+}
+
+/**
+ * Result of a one-off command
+ */
+export interface CommandResult {
+  /** Exit code; -1 when the command timed out */
+  exitCode: number;
+  /** Combined stdout and stderr */
+  output: string;
+  timedOut: boolean;
+}
+
 /**
  * Docker Service
  *
@@ -42,6 +89,8 @@ export interface ContainerResult {
  * - Run containers with port mapping
  * - Stop and remove containers
  * - Remove images for cleanup
+ * - Copy build output out of images and serve it from a shared nginx
+ * - Run one-off toolchain commands against a mounted directory
  * - Emits build progress via notification queue for frontend visibility
  */
 @Injectable()
@@ -83,9 +132,14 @@ export class DockerService {
    *
    * @param projectId - The project ID for tracking and notifications
    * @param path - The path to the directory containing the Dockerfile
+   * @param onLog - Optional callback invoked with each log line as it is produced
    * @returns BuildResult with success status, image ID, and logs
    */
-  async buildImage(projectId: string, path: string): Promise<BuildResult> {
+  async buildImage(
+    projectId: string,
+    path: string,
+    onLog?: (line: string) => void,
+  ): Promise<BuildResult> {
     this.logger.log(`Starting Docker build for project: ${projectId} at path: ${path}`);
 
     const logs: string[] = [];
@@ -110,7 +164,7 @@ export class DockerService {
       );
 
       // Process build output stream
-      imageId = await this.processBuildStream(stream, projectId, logs);
+      imageId = await this.processBuildStream(stream, projectId, logs, onLog);
 
       if (imageId) {
         this.logger.log(`Docker build successful for project: ${projectId}, imageId: ${imageId}`);
@@ -137,6 +191,7 @@ export class DockerService {
       this.logger.error(`Docker build failed for project: ${projectId}`, errorMessage);
 
       logs.push(`ERROR: ${errorMessage}`);
+      onLog?.(`ERROR: ${errorMessage}`);
       await this.emitBuildNotification(projectId, `Build failed: ${errorMessage}`, 'error');
 
       return {
@@ -153,16 +208,23 @@ export class DockerService {
    * @param stream - The Docker build output stream
    * @param projectId - The project ID for notifications
    * @param logs - Array to collect log messages
+   * @param onLog - Optional callback invoked with each log line
    * @returns The built image ID or undefined
    */
   private async processBuildStream(
     stream: NodeJS.ReadableStream,
     projectId: string,
     logs: string[],
+    onLog?: (line: string) => void,
   ): Promise<string | undefined> {
     return new Promise((resolve, reject) => {
       let imageId: string | undefined;
 
+      const pushLog = (line: string) => {
+        logs.push(line);
+        onLog?.(line);
+      };
+
       this.docker.modem.followProgress(
         stream as Readable,
         // onFinished callback
@@ -186,7 +248,7 @@ export class DockerService {
           // Handle error events
           if (event.error) {
             const errorLine = `ERROR: ${event.error}`;
-            logs.push(errorLine);
+            pushLog(errorLine);
             this.emitBuildNotification(projectId, errorLine, 'error').catch(() => {
               // Ignore notification errors during stream processing
             });
@@ -197,7 +259,7 @@ export class DockerService {
           if (event.stream) {
             const line = event.stream.trim();
             if (line) {
-              logs.push(line);
+              pushLog(line);
               this.emitBuildNotification(projectId, line, 'info').catch(() => {
                 // Ignore notification errors during stream processing
               });
@@ -209,7 +271,7 @@ export class DockerService {
             const statusLine = event.progress
               ? `${event.status}: ${event.progress}`
               : event.status;
-            logs.push(statusLine);
+            pushLog(statusLine);
             this.emitBuildNotification(projectId, statusLine, 'info').catch(() => {
               // Ignore notification errors during stream processing
             });
@@ -229,9 +291,14 @@ export class DockerService {
    *
    * @param imageId - The Docker image ID or tag to run
    * @param port - The host port to map to container port 3000
+   * @param labels - Extra labels (e.g. the owning project and deployment)
    * @returns ContainerResult with success status and container ID
    */
-  async runContainer(imageId: string, port: number): Promise<ContainerResult> {
+  async runContainer(
+    imageId: string,
+    port: number,
+    labels: Record<string, string> = {},
+  ): Promise<ContainerResult> {
     this.logger.log(`Starting container from image: ${imageId} on port: ${port}`);
 
     try {
@@ -261,6 +328,7 @@ export class DockerService {
           `PORT=3000`,
         ],
         Labels: {
+          ...labels,
           'nexusgen.managed': 'true',
           'nexusgen.port': String(port),
         },
@@ -360,6 +428,182 @@ export class DockerService {
     }
   }
 
+  /**
+   * Copy a directory out of an image
+   *
+   * Creates a container from the image without starting it, streams the
+   * directory out as a tar archive and unpacks it into `destination`.
+   *
+   * @param imageId - The Docker image ID or tag
+   * @param sourcePath - Absolute path of the directory inside the image
+   * @param destination - Local directory the contents are extracted into
+   */
+  async copyFromImage(imageId: string, sourcePath: string, destination: string): Promise<void> {
+    this.logger.log(`Copying ${sourcePath} out of image: ${imageId}`);
+
+    const container = await this.docker.createContainer({ Image: imageId });
+
+    try {
+      const archive = await container.getArchive({ path: sourcePath });
+      await fs.mkdir(destination, { recursive: true });
+
+      // The archive holds the directory itself; unpack its contents
+      await new Promise<void>((resolve, reject) => {
+        const tar = spawn('tar', ['-x', '-C', destination, '--strip-components=1']);
+        const stderr: string[] = [];
+
+        tar.stderr.on('data', (chunk: Buffer) => stderr.push(chunk.toString()));
+        tar.on('error', reject);
+        tar.on('close', (code) =>
+          code === 0 ? resolve() : reject(new Error(`tar exited with code ${code}: ${stderr.join('')}`)),
+        );
+        archive.on('error', reject);
+        archive.pipe(tar.stdin);
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to copy ${sourcePath} out of image: ${imageId}`, errorMessage);
+      throw new Error(`Failed to copy ${sourcePath} out of image: ${errorMessage}`);
+    } finally {
+      await container.remove({ force: true, v: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Make sure an nginx container is serving host directories
+   *
+   * Reuses the named container, starting it if it has stopped. It is not
+   * labelled `nexusgen.managed`, so container reconciliation leaves it alone.
+   *
+   * @returns The container ID
+   */
+  async ensureNginxServer(options: NginxServerOptions): Promise<string> {
+    const existing = this.docker.getContainer(options.name);
+
+    try {
+      const info = await existing.inspect();
+      if (!info.State.Running) {
+        await existing.start();
+        this.logger.log(`Restarted nginx server: ${options.name}`);
+      }
+      return info.Id;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.toLowerCase().includes('no such container')) {
+        throw new Error(`Failed to inspect nginx server: ${errorMessage}`);
+      }
+    }
+
+    await this.ensureImage(options.image);
+
+    const container = await this.docker.createContainer({
+      name: options.name,
+      Image: options.image,
+      ExposedPorts: {
+        '80/tcp': {},
+      },
+      HostConfig: {
+        PortBindings: {
+          '80/tcp': [{ HostPort: String(options.port) }],
+        },
+        Binds: [
+          `${options.sitesPath}:/usr/share/nginx/sites:ro`,
+          `${options.configPath}:/etc/nginx/conf.d/default.conf:ro`,
+        ],
+        RestartPolicy: { Name: 'unless-stopped' },
+      },
+      Labels: {
+        'nexusgen.nginx-server': options.name,
+      },
+    });
+
+    await container.start();
+    this.logger.log(`Started nginx server ${options.name} on port ${options.port}`);
+
+    return container.id;
+  }
+
+  /**
+   * Run a command in a throwaway container and wait for it to exit
+   *
+   * The container is removed afterwards, also when it timed out. It is
+   * not labelled `nexusgen.managed`; it never outlives this call.
+   */
+  async runCommand(options: RunCommandOptions): Promise<CommandResult> {
+    await this.ensureImage(options.image);
+
+    const container = await this.docker.createContainer({
+      Image: options.image,
+      Cmd: options.command,
+      WorkingDir: options.workingDir,
+      Env: options.env,
+      // A TTY merges stdout and stderr into one plain stream
+      Tty: true,
+      HostConfig: {
+        Binds: options.binds,
+      },
+    });
+
+    const chunks: string[] = [];
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const stream = await container.attach({ stream: true, stdout: true, stderr: true });
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk.toString()));
+
+      await container.start();
+
+      const timeout = new Promise<null>((resolve) => {
+        timer = setTimeout(() => resolve(null), options.timeoutMs);
+      });
+      const exited = await Promise.race([
+        container.wait() as Promise<{ StatusCode: number }>,
+        timeout,
+      ]);
+
+      if (!exited) {
+        timedOut = true;
+        this.logger.warn(`Command timed out after ${options.timeoutMs}ms in ${options.image}`);
+        await container.kill().catch(() => undefined);
+      }
+
+      return {
+        exitCode: exited ? exited.StatusCode : -1,
+        output: chunks.join(''),
+        timedOut,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Failed to run command in ${options.image}`, errorMessage);
+      throw new Error(`Failed to run command: ${errorMessage}`);
+    } finally {
+      clearTimeout(timer);
+      await container.remove({ force: true, v: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Pull an image unless it is already present
+   */
+  private async ensureImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+      return;
+    } catch {
+      // Not present locally
+    }
+
+    this.logger.log(`Pulling image: ${image}`);
+    const stream = await this.docker.pull(image);
+
+    await new Promise<void>((resolve, reject) => {
+      this.docker.modem.followProgress(stream, (error: Error | null) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+
   /**
    * Emit a build notification via the notification queue
    *
@@ -0,0 +1,14 @@
+/**
+ * Snapshots Module
+ *
+ * Sandbox snapshots per generation and healing attempt, with restore.
+ */
+
+export { SnapshotsModule } from './snapshots.module';
+export {
+  SnapshotsService,
+  CaptureSnapshotInput,
+  SnapshotBuildOutcome,
+  RestoreResult,
+} from './snapshots.service';
+export { SnapshotStore } from './snapshot-store';
@@ -0,0 +1,74 @@
+/**
+ * Snapshot Store
+ *
+ * Content-addressed file store for sandbox snapshots. Each distinct file
+ * content is kept once per project under its SHA-256, so snapshots of
+ * healing attempts that change two files only add those two files.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+export class SnapshotStore {
+  constructor(private readonly basePath: string) {}
+
+  /**
+   * SHA-256 of a file's content, as used for its key in the store
+   */
+  static hash(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Store a file's content unless it is already there
+   *
+   * @returns The content hash
+   */
+  async put(projectId: string, content: Buffer): Promise<string> {
+    const hash = SnapshotStore.hash(content);
+    const objectPath = this.objectPath(projectId, hash);
+
+    try {
+      await fs.access(objectPath);
+    } catch {
+      await fs.mkdir(path.dirname(objectPath), { recursive: true });
+      // Write under a temporary name so a crash never leaves a partial object
+      const tempPath = `${objectPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, content);
+      await fs.rename(tempPath, objectPath);
+    }
+
+    return hash;
+  }
+
+  /**
+   * Read stored content by hash
+   */
+  async get(projectId: string, hash: string): Promise<Buffer> {
+    return fs.readFile(this.objectPath(projectId, hash));
+  }
+
+  /**
+   * Remove everything stored for a project
+   */
+  async removeProject(projectId: string): Promise<void> {
+    await fs.rm(this.projectPath(projectId), { recursive: true, force: true });
+  }
+
+  private projectPath(projectId: string): string {
+    if (!/^[a-zA-Z0-9_-]+$/.test(projectId)) {
+      throw new Error('Invalid project ID: must contain only alphanumeric characters, underscores, and hyphens');
+    }
+
+    return path.join(this.basePath, projectId);
+  }
+
+  private objectPath(projectId: string, hash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid snapshot object hash: ${hash}`);
+    }
+
+    return path.join(this.projectPath(projectId), 'objects', hash.slice(0, 2), hash);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SnapshotsService } from './snapshots.service';
+
+/**
+ * Snapshots Module
+ *
+ * Records the sandbox after each generation and healing attempt, and
+ * restores a sandbox to a recorded snapshot.
+ *
+ * Exports:
+ * - SnapshotsService: Used by the generation service to capture snapshots
+ *   and by the queue processor to restore them
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [SnapshotsService],
+  exports: [SnapshotsService],
+})
+export class SnapshotsModule {}
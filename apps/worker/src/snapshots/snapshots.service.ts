@@ -0,0 +1,330 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, type VersionSnapshot } from '@prisma/client';
+import { isUUID } from 'class-validator';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SnapshotFileEntry, SnapshotManifest, SnapshotReason } from '@nexusgen/types';
+import { PROVENANCE_FILE_PATH, SPEC_FILE_PATH } from '../ai/generation-record';
+import { PrismaService } from '../database';
+import { SandboxFileWriter } from '../utils';
+import { SnapshotStore } from './snapshot-store';
+
+/**
+ * Sandbox directories that are never snapshotted nor touched by a restore
+ *
+ * `.nexusgen` is kept so the generation record travels with the code;
+ * only the check outputs below it are skipped.
+ */
+const IGNORED_DIRECTORIES = ['.git', 'node_modules', '.next', 'dist', '.nexusgen/checks'];
+
+/**
+ * The specification and provenance the code was generated from; always
+ * snapshotted, and restored after the code so edits plan against the
+ * specification of the files on disk
+ */
+const GENERATION_RECORD_FILES = [SPEC_FILE_PATH, PROVENANCE_FILE_PATH];
+
+/**
+ * Files that describe installed dependencies rather than the project;
+ * restoring them would make the checks reuse a stale node_modules
+ */
+const IGNORED_FILES = ['.nexusgen/deps-hash'];
+
+/**
+ * Longest build error kept on a snapshot
+ */
+const MAX_BUILD_ERROR_LENGTH = 20_000;
+
+/**
+ * State of the sandbox to record
+ */
+export interface CaptureSnapshotInput {
+  projectId: string;
+  /** Generation job the snapshot belongs to */
+  generationId?: string;
+  /** 0 for the generation output, n for healing attempt n */
+  attempt: number;
+  reason: SnapshotReason;
+  /** Build outcome, when the state was already built */
+  build?: SnapshotBuildOutcome;
+}
+
+/**
+ * Result of building a snapshotted state
+ */
+export interface SnapshotBuildOutcome {
+  success: boolean;
+  errorLog?: string;
+}
+
+/**
+ * Files changed by a restore
+ */
+export interface RestoreResult {
+  snapshot: VersionSnapshot;
+  /** Snapshot of the sandbox as it was before the restore, to undo it with */
+  preRestoreSnapshot: VersionSnapshot;
+  /** Files written from the snapshot */
+  restoredFiles: number;
+  /** Files deleted because the snapshot does not have them */
+  removedFiles: number;
+}
+
+/**
+ * Snapshots Service
+ *
+ * Records the sandbox after each generation and healing attempt as a
+ * VersionSnapshot (file tree with content hashes and the build outcome),
+ * and resets a sandbox to any recorded snapshot. File content lives in
+ * a content-addressed store on disk; the row holds the manifest.
+ */
+@Injectable()
+export class SnapshotsService {
+  private readonly logger = new Logger(SnapshotsService.name);
+  private readonly fileWriter: SandboxFileWriter;
+  private readonly store: SnapshotStore;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.fileWriter = new SandboxFileWriter({
+      basePath: this.configService.get<string>('SANDBOX_BASE_PATH', '/tmp/nexusgen-builds'),
+    });
+    this.store = new SnapshotStore(
+      this.configService.get<string>('SNAPSHOT_STORE_DIR', '/tmp/nexusgen-snapshots'),
+    );
+  }
+
+  /**
+   * Record the current state of a project's sandbox
+   *
+   * @returns The snapshot, or null for projects without a database row
+   */
+  async capture(input: CaptureSnapshotInput): Promise<VersionSnapshot | null> {
+    const { projectId, generationId, attempt, reason, build } = input;
+
+    // Snapshots belong to a project row; ad-hoc sandboxes have none
+    if (!isUUID(projectId)) {
+      this.logger.debug(`Not snapshotting sandbox of non-project id ${projectId}`);
+      return null;
+    }
+
+    const projectPath = this.fileWriter.getProjectPath(projectId);
+    const files: SnapshotFileEntry[] = [];
+
+    for (const filePath of await this.listSandboxFiles(projectId)) {
+      const content = await fs.readFile(path.join(projectPath, filePath));
+      files.push({
+        path: filePath,
+        hash: await this.store.put(projectId, content),
+        size: content.length,
+      });
+    }
+
+    const manifest: SnapshotManifest = { files };
+
+    const snapshot = await this.prisma.versionSnapshot.create({
+      data: {
+        projectId,
+        generationId,
+        attempt,
+        reason,
+        snapshot: manifest as unknown as Prisma.InputJsonObject,
+        fileCount: files.length,
+        buildSucceeded: build?.success,
+        buildError: build && !build.success ? this.truncateError(build.errorLog) : undefined,
+      },
+    });
+
+    this.logger.log(
+      `Snapshot ${snapshot.id} of project ${projectId} (${reason}, attempt ${attempt}): ${files.length} files`,
+    );
+
+    return snapshot;
+  }
+
+  /**
+   * Record the build outcome of a snapshotted state
+   */
+  async recordBuild(snapshotId: string, outcome: SnapshotBuildOutcome): Promise<void> {
+    await this.prisma.versionSnapshot.update({
+      where: { id: snapshotId },
+      data: {
+        buildSucceeded: outcome.success,
+        buildError: outcome.success ? null : this.truncateError(outcome.errorLog),
+      },
+    });
+  }
+
+  /**
+   * Record a build outcome on the latest unbuilt snapshot of a generation
+   *
+   * Used by build jobs that know the generation but not the snapshot.
+   */
+  async recordBuildForGeneration(
+    projectId: string,
+    generationId: string,
+    outcome: SnapshotBuildOutcome,
+  ): Promise<void> {
+    if (!isUUID(projectId)) {
+      return;
+    }
+
+    const snapshot = await this.prisma.versionSnapshot.findFirst({
+      where: { projectId, generationId, buildSucceeded: null },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (snapshot) {
+      await this.recordBuild(snapshot.id, outcome);
+    }
+  }
+
+  /**
+   * Get a project's snapshots, newest first
+   */
+  async findByProject(projectId: string, limit: number = 50): Promise<VersionSnapshot[]> {
+    if (!isUUID(projectId)) {
+      return [];
+    }
+
+    return this.prisma.versionSnapshot.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Reset a project's sandbox to a snapshot
+   *
+   * Files of the snapshot are written back and files it does not have are
+   * deleted. The specification and provenance are restored with the code,
+   * or removed when the snapshot has none, so a later edit never plans
+   * against a newer specification. Installed dependencies and build output
+   * are left in place.
+   *
+   * The sandbox is snapshotted first, so editor saves made since the last
+   * snapshot can be restored in turn.
+   *
+   * @throws NotFoundException when the project has no such snapshot
+   */
+  async restore(projectId: string, snapshotId: string): Promise<RestoreResult> {
+    const snapshot =
+      isUUID(projectId) && isUUID(snapshotId)
+        ? await this.prisma.versionSnapshot.findFirst({ where: { id: snapshotId, projectId } })
+        : null;
+
+    if (!snapshot) {
+      throw new NotFoundException(`Snapshot ${snapshotId} not found for project ${projectId}`);
+    }
+
+    const manifest = snapshot.snapshot as unknown as SnapshotManifest;
+    const projectPath = this.fileWriter.getProjectPath(projectId);
+
+    // Read every object first so a missing one leaves the sandbox untouched
+    const contents = new Map<string, Buffer>();
+    for (const file of manifest.files) {
+      contents.set(file.path, await this.store.get(projectId, file.hash));
+    }
+
+    const preRestoreSnapshot = (await this.capture({
+      projectId,
+      attempt: 0,
+      reason: 'pre-restore',
+    }))!;
+
+    const keep = new Set(manifest.files.map((file) => file.path));
+    let removedFiles = 0;
+
+    for (const filePath of await this.listSandboxFiles(projectId)) {
+      if (!keep.has(filePath)) {
+        await fs.rm(this.resolveSandboxPath(projectPath, filePath), { force: true });
+        removedFiles++;
+      }
+    }
+
+    // The generation record goes last, once the code it describes is back
+    const ordered = [...contents].sort(
+      ([a], [b]) =>
+        Number(GENERATION_RECORD_FILES.includes(a)) - Number(GENERATION_RECORD_FILES.includes(b)),
+    );
+    for (const [filePath, content] of ordered) {
+      const absolutePath = this.resolveSandboxPath(projectPath, filePath);
+      await fs.mkdir(path.dirname(absolutePath), { recursive: true });
+      await fs.writeFile(absolutePath, content);
+    }
+
+    if (!contents.has(SPEC_FILE_PATH)) {
+      this.logger.warn(
+        `Snapshot ${snapshotId} of project ${projectId} has no specification; the next edit regenerates the project`,
+      );
+    }
+
+    this.logger.log(
+      `Restored project ${projectId} to snapshot ${snapshotId}: ${contents.size} files written, ${removedFiles} removed; previous state kept as snapshot ${preRestoreSnapshot.id}`,
+    );
+
+    return { snapshot, preRestoreSnapshot, restoredFiles: contents.size, removedFiles };
+  }
+
+  /**
+   * Read a file stored by one of a project's snapshots
+   *
+   * @param hash - Content hash from the snapshot's manifest
+   */
+  async readContent(projectId: string, hash: string): Promise<Buffer> {
+    return this.store.get(projectId, hash);
+  }
+
+  /**
+   * Remove the stored file contents of a project's snapshots
+   */
+  async removeProject(projectId: string): Promise<void> {
+    await this.store.removeProject(projectId);
+  }
+
+  /**
+   * Sandbox-relative paths of the files a snapshot covers, including the
+   * generation record
+   */
+  private async listSandboxFiles(projectId: string): Promise<string[]> {
+    if (!(await this.fileWriter.exists(projectId))) {
+      return [];
+    }
+
+    const files = (await this.fileWriter.listFiles(projectId, '', IGNORED_DIRECTORIES)).filter(
+      (file) => !IGNORED_FILES.includes(file),
+    );
+
+    for (const file of GENERATION_RECORD_FILES) {
+      if (!files.includes(file) && (await this.fileWriter.exists(projectId, file))) {
+        files.push(file);
+      }
+    }
+
+    return files.sort();
+  }
+
+  private resolveSandboxPath(projectPath: string, filePath: string): string {
+    const root = path.resolve(projectPath);
+    const absolutePath = path.resolve(root, filePath);
+
+    if (!absolutePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error(`Invalid snapshot file path: ${filePath}`);
+    }
+
+    return absolutePath;
+  }
+
+  private truncateError(errorLog?: string): string | undefined {
+    if (!errorLog || errorLog.length <= MAX_BUILD_ERROR_LENGTH) {
+      return errorLog;
+    }
+
+    return `...${errorLog.slice(-MAX_BUILD_ERROR_LENGTH)}`;
+  }
+}
@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, Matches, MaxLength, MinLength } from 'class-validator';
+
+export class ImportRepositoryDto {
+  @ApiProperty({
+    example: 'https://github.com/acme/storefront.git',
+    description: 'https://, ssh:// or user@host:path URL; local paths when GIT_ALLOW_LOCAL_REMOTES is set',
+  })
+  @IsString()
+  @MinLength(1)
+  @MaxLength(500)
+  url: string;
+
+  @ApiPropertyOptional({ example: 'main', description: "Branch to import (default: the repository's default branch)" })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  @Matches(/^(?!-|\/)(?!.*(\.\.|\/\/|@\{|\.lock$|\/$|\.$))[\w./-]+$/, { message: 'branch is not a valid branch name' })
+  branch?: string;
+}
+
+export class SourceImportResponseDto {
+  @ApiProperty({ description: 'Files written to the sandbox' })
+  filesImported: number;
+
+  @ApiProperty({ description: 'Files left out: dependencies, build output, VCS metadata' })
+  skippedFiles: number;
+
+  @ApiPropertyOptional({ description: 'Commit the repository was cloned at' })
+  commit?: string;
+}
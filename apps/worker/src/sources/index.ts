@@ -0,0 +1,8 @@
+/**
+ * Sources Module
+ *
+ * Existing codebases imported into new projects.
+ */
+
+export { SourcesModule } from './sources.module';
+export { SourcesService, SourceImportResult } from './sources.service';
@@ -0,0 +1,85 @@
+import {
+  Controller,
+  Delete,
+  Post,
+  Param,
+  Body,
+  Req,
+  HttpCode,
+  HttpStatus,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiParam,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+import { InternalTokenGuard, INTERNAL_TOKEN_HEADER } from '../auth/internal-token.guard';
+import { SourcesService } from './sources.service';
+import { ImportRepositoryDto, SourceImportResponseDto } from './dto';
+
+/**
+ * Existing codebases imported into the sandbox of a new project
+ *
+ * Called by the web app only, which has created the project and queues
+ * the `import` generation that specifies the codebase afterwards.
+ */
+@ApiTags('project-files')
+@ApiSecurity(INTERNAL_TOKEN_HEADER)
+@UseGuards(InternalTokenGuard)
+@Controller('projects/:id/source')
+export class SourcesController {
+  constructor(private readonly sourcesService: SourcesService) {}
+
+  @Post('archive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Unpack a zip of a codebase into the empty sandbox of a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiConsumes('application/zip')
+  @ApiResponse({ status: 200, type: SourceImportResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid, empty or oversized archive' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 409, description: 'Project already has files' })
+  async importArchive(
+    @Param('id') id: string,
+    @Req() request: Request,
+  ): Promise<SourceImportResponseDto> {
+    // Parsed by the raw body parser registered for application/zip
+    if (!Buffer.isBuffer(request.body) || request.body.length === 0) {
+      throw new BadRequestException('Send the archive as an application/zip request body');
+    }
+
+    return this.sourcesService.importArchive(id, request.body);
+  }
+
+  @Post('git')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Clone a Git repository branch into the empty sandbox of a project' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, type: SourceImportResponseDto })
+  @ApiResponse({ status: 400, description: 'Unsupported, unreachable or oversized repository' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 409, description: 'Project already has files' })
+  async importRepository(
+    @Param('id') id: string,
+    @Body() dto: ImportRepositoryDto,
+  ): Promise<SourceImportResponseDto> {
+    return this.sourcesService.importRepository(id, dto.url, dto.branch);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove the imported codebase of a project whose creation was abandoned' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 204, description: 'Sandbox removed' })
+  @ApiResponse({ status: 400, description: 'Invalid project ID' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  async discard(@Param('id') id: string): Promise<void> {
+    await this.sourcesService.discard(id);
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { SourcesController } from './sources.controller';
+import { SourcesService } from './sources.service';
+import { InternalTokenGuard } from '../auth/internal-token.guard';
+import { GitModule } from '../git/git.module';
+
+/**
+ * Sources Module
+ *
+ * Import of an existing codebase, from a zip archive or a Git
+ * repository, into the sandbox of a new project.
+ *
+ * Exports:
+ * - SourcesService: Seeds a sandbox with an existing codebase
+ */
+@Module({
+  imports: [ConfigModule, GitModule],
+  controllers: [SourcesController],
+  providers: [SourcesService, InternalTokenGuard],
+  exports: [SourcesService],
+})
+export class SourcesModule {}
@@ -0,0 +1,226 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { GitCloneError, GitService } from '../git';
+import {
+  IGNORED_DIRECTORIES,
+  SandboxFileWriter,
+  assertEmptySandbox,
+  normalizeArchivePath,
+  unzipArchive,
+  writeArchiveFiles,
+} from '../utils';
+
+/**
+ * Build output directories skipped at the top level only, since nested
+ * ones (e.g. `scripts/build`) may be source
+ */
+const IGNORED_ROOT_DIRECTORIES = ['dist', 'coverage', 'out'];
+
+/**
+ * Directories never imported, at any depth: the sandbox's ignored
+ * directories other than build output, framework caches and archiver
+ * metadata
+ */
+const IMPORT_IGNORED_DIRECTORIES = [
+  ...IGNORED_DIRECTORIES.filter((directory) => !IGNORED_ROOT_DIRECTORIES.includes(directory)),
+  '.turbo',
+  '.vercel',
+  '__MACOSX',
+];
+
+const IGNORED_FILES = ['.DS_Store', 'Thumbs.db'];
+
+/**
+ * Limits on an imported codebase
+ */
+const MAX_SOURCE_FILES = 5_000;
+const MAX_SOURCE_BYTES = 200 * 1024 * 1024;
+
+/**
+ * What an import wrote to the sandbox
+ */
+export interface SourceImportResult {
+  filesImported: number;
+  /** Files left out: dependencies, build output, VCS metadata */
+  skippedFiles: number;
+  /** Commit a repository was cloned at */
+  commit?: string;
+}
+
+/**
+ * Sources Service
+ *
+ * Seeds the empty sandbox of a new project with an existing codebase,
+ * from an uploaded zip archive or a Git repository. The project is then
+ * specified by an `import` generation job and edited like any other.
+ */
+@Injectable()
+export class SourcesService {
+  private readonly logger = new Logger(SourcesService.name);
+  private readonly fileWriter: SandboxFileWriter;
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly gitService: GitService,
+  ) {
+    this.fileWriter = new SandboxFileWriter({
+      basePath: this.configService.get<string>('SANDBOX_BASE_PATH', '/tmp/nexusgen-builds'),
+    });
+  }
+
+  /**
+   * Unpack a zip archive of a codebase into the sandbox
+   *
+   * An archive whose files all sit in one top-level directory, as GitHub
+   * downloads do, is unpacked from inside that directory.
+   *
+   * @throws BadRequestException for archives that are invalid, too large or empty
+   * @throws ConflictException when the sandbox already has files
+   */
+  async importArchive(projectId: string, archive: Buffer): Promise<SourceImportResult> {
+    await assertEmptySandbox(this.fileWriter, projectId);
+
+    const limits = { maxFiles: MAX_SOURCE_FILES, maxBytes: MAX_SOURCE_BYTES };
+    const entries = Object.entries(unzipArchive(archive, limits)).map(([name, content]) => ({
+      path: normalizeArchivePath(name),
+      content,
+    }));
+    const root = commonRoot(entries.map((entry) => entry.path));
+    let skippedFiles = 0;
+
+    const files: Array<{ path: string; content: Uint8Array }> = [];
+    for (const entry of entries) {
+      const filePath = entry.path.slice(root.length);
+      if (isIgnored(filePath)) {
+        skippedFiles++;
+        continue;
+      }
+      files.push({ path: filePath, content: entry.content });
+    }
+
+    if (files.length === 0) {
+      throw new BadRequestException('The archive has no files to import');
+    }
+
+    await writeArchiveFiles(this.fileWriter, projectId, files);
+
+    this.logger.log(
+      `Imported ${files.length} files from an archive into project ${projectId} (${skippedFiles} skipped)`,
+    );
+
+    return { filesImported: files.length, skippedFiles };
+  }
+
+  /**
+   * Clone the tip of a repository branch into the sandbox
+   *
+   * @throws BadRequestException when the repository cannot be cloned or is too large
+   * @throws ConflictException when the sandbox already has files
+   */
+  async importRepository(projectId: string, url: string, branch?: string): Promise<SourceImportResult> {
+    await assertEmptySandbox(this.fileWriter, projectId);
+
+    let commit: string;
+    try {
+      commit = await this.gitService.cloneInto(projectId, url, branch);
+    } catch (error) {
+      await this.fileWriter.cleanup(projectId);
+      if (error instanceof GitCloneError) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const projectPath = this.fileWriter.getProjectPath(projectId);
+    const { files, bytes, skipped } = await this.pruneIgnored(projectPath);
+
+    if (files === 0 || files > MAX_SOURCE_FILES || bytes > MAX_SOURCE_BYTES) {
+      await this.fileWriter.cleanup(projectId);
+      throw new BadRequestException(
+        files === 0
+          ? 'The repository has no files to import'
+          : `Repository is too large: at most ${MAX_SOURCE_FILES} files and ${MAX_SOURCE_BYTES / 1024 / 1024} MB`,
+      );
+    }
+
+    this.logger.log(
+      `Imported ${files} files from a repository into project ${projectId} at ${commit.slice(0, 12)} (${skipped} skipped)`,
+    );
+
+    return { filesImported: files, skippedFiles: skipped, commit };
+  }
+
+  /**
+   * Remove an imported codebase, for a project whose creation was abandoned
+   *
+   * @throws BadRequestException for an invalid project ID
+   */
+  async discard(projectId: string): Promise<void> {
+    try {
+      this.fileWriter.getProjectPath(projectId);
+    } catch (error) {
+      throw new BadRequestException(error instanceof Error ? error.message : 'Invalid project ID');
+    }
+
+    await this.fileWriter.cleanup(projectId);
+  }
+
+  /**
+   * Delete ignored files from a cloned tree and measure what is left
+   */
+  private async pruneIgnored(
+    root: string,
+  ): Promise<{ files: number; bytes: number; skipped: number }> {
+    const totals = { files: 0, bytes: 0, skipped: 0 };
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await fs.readdir(path.join(root, relativeDir), { withFileTypes: true });
+
+      for (const entry of entries) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        const absolutePath = path.join(root, relativePath);
+
+        if (isIgnored(entry.isDirectory() ? `${relativePath}/` : relativePath)) {
+          totals.skipped++;
+          await fs.rm(absolutePath, { recursive: true, force: true });
+        } else if (entry.isDirectory()) {
+          await walk(relativePath);
+        } else {
+          totals.files++;
+          totals.bytes += (await fs.lstat(absolutePath)).size;
+        }
+      }
+    };
+
+    await walk('');
+    return totals;
+  }
+}
+
+/**
+ * The top-level directory every entry is in, with its slash, or ''
+ */
+function commonRoot(names: string[]): string {
+  const first = names[0]?.split('/')[0];
+  if (!first || names.some((name) => !name.startsWith(`${first}/`))) {
+    return '';
+  }
+  return `${first}/`;
+}
+
+/**
+ * Whether a path, or a directory given with a trailing slash, is left out
+ */
+function isIgnored(filePath: string): boolean {
+  const segments = filePath.split('/');
+  const name = segments[segments.length - 1]!;
+  const directories = segments.slice(0, -1);
+
+  return (
+    directories.some((segment) => IMPORT_IGNORED_DIRECTORIES.includes(segment)) ||
+    (directories.length > 0 && IGNORED_ROOT_DIRECTORIES.includes(directories[0]!)) ||
+    IGNORED_FILES.includes(name)
+  );
+}
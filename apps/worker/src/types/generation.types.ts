@@ -9,8 +9,10 @@
  * the coder agent input.
  */
 
-import { GeneratedFile } from '@nexusgen/types';
+import { GeneratedFile, type CodebaseSource } from '@nexusgen/types';
 import type { TechnicalSpecification as AgentTechnicalSpecification } from '../agents/architect/types';
+import type { UsageSummary } from '../agents/usage-tracker';
+import type { ReviewResult } from '../agents/reviewer/types';
 
 // Re-export TechnicalSpecification from the agents for type consistency
 // This ensures the spec used throughout the generation pipeline is the same type
@@ -31,8 +33,18 @@ export interface GenerationJobData {
   assets?: string[];
   /** User who initiated the generation */
   userId: string;
+  /** Generation job this run belongs to; recorded on its snapshots */
+  generationId?: string;
   /** Optional generation settings */
   settings?: GenerationSettings;
+  /**
+   * `edit` applies the prompt to the project's existing sandbox, rewriting
+   * only the affected files; `import` writes the specification of a
+   * codebase already copied into the sandbox (default: `create`)
+   */
+  mode?: 'create' | 'edit' | 'import';
+  /** Codebase the sandbox was seeded from, for `import` jobs */
+  source?: CodebaseSource;
 }
 
 /**
@@ -65,7 +77,7 @@ export interface GenerationResult {
   success: boolean;
   /** Technical specification (if successful) */
   spec?: TechnicalSpecification;
-  /** Generated files (if successful) */
+  /** Generated files (if successful); only the changed files for an edit, with diffs */
   files?: GeneratedFile[];
   /** Path to the sandbox where files were written */
   sandboxPath?: string;
@@ -73,6 +85,12 @@ export interface GenerationResult {
   error?: string;
   /** Error details (if failed) */
   errorDetails?: Record<string, unknown>;
+  /** Token usage and cost of every model call, including failed attempts */
+  usage?: UsageSummary;
+  /** Code review of the generated files, after any review fixes */
+  review?: ReviewResult;
+  /** Snapshot of the sandbox taken after the generation */
+  snapshotId?: string;
 }
 
 /**
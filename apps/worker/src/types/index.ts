@@ -2,6 +2,8 @@
  * Core types and interfaces for NexusGen Worker Service
  */
 
+import type { DeploymentTargetSettings } from './queue.types';
+
 // Re-export queue types from shared package
 export * from './queue.types';
 
@@ -70,6 +72,8 @@ export interface ProjectSettings {
   language: 'typescript' | 'javascript';
   features: string[];
   customConfig?: Record<string, unknown>;
+  /** Deployment target per environment; unset environments use local Docker */
+  deploymentTargets?: DeploymentTargetSettings;
 }
 
 export enum Framework {
@@ -288,6 +292,7 @@ export enum WebSocketEvent {
 
   // Project events
   PROJECT_UPDATED = 'project:updated',
+  FILE_GENERATED = 'file:generated',
   PROJECT_DEPLOYED = 'project:deployed',
 
   // System events
@@ -305,6 +310,17 @@ export interface GenerationProgressPayload {
   message?: string;
 }
 
+export interface FileGeneratedPayload {
+  projectId: string;
+  generationId?: string;
+  /** Sandbox-relative path of the written file */
+  path: string;
+  /** Content length in characters */
+  size: number;
+  /** Files written so far in this generation, including this one */
+  filesGenerated: number;
+}
+
 // ============================================
 // API Response Types
 // ============================================
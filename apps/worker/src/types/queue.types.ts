@@ -47,6 +47,8 @@ export type {
   BuildJobResult,
   // Deploy jobs
   DeploymentEnvironment,
+  DeploymentTargetKind,
+  DeploymentTargetSettings,
   DeployJobData,
   DeployJobResult,
   // AI task jobs
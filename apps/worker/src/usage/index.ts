@@ -0,0 +1,9 @@
+/**
+ * Usage Module
+ *
+ * AI token usage records and subscription quota checks backed by Prisma.
+ */
+
+export { UsageModule } from './usage.module';
+export { UsageService, GenerationUsageInput } from './usage.service';
+export { QuotaService } from './quota.service';
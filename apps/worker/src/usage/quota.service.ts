@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { NotificationType, Prisma } from '@prisma/client';
+import type { QuotaCheckResult, QuotaResource } from '@nexusgen/types';
+import {
+  QuotaService as QuotaChecker,
+  createQuotaUsageSource,
+  getQuotaWarning,
+} from '@nexusgen/utils/quota';
+import { PrismaService } from '../database';
+
+/**
+ * Quota Service
+ *
+ * Checks subscription quotas from the worker with the checker and usage
+ * source shared with the web API, reading plans and usage through Prisma.
+ */
+@Injectable()
+export class QuotaService {
+  private readonly logger = new Logger(QuotaService.name);
+  private readonly checker: QuotaChecker;
+
+  constructor(private readonly prisma: PrismaService) {
+    this.checker = new QuotaChecker(createQuotaUsageSource(prisma));
+  }
+
+  /**
+   * Check whether `amount` more of a resource may be used
+   */
+  check(userId: string, resource: QuotaResource, amount: number = 1): Promise<QuotaCheckResult> {
+    return this.checker.check(userId, resource, amount);
+  }
+
+  /**
+   * Create a QUOTA_WARNING notification when `amount` more of a resource
+   * crosses the warning threshold of a previous check
+   *
+   * Warnings never fail a job: errors are logged and swallowed.
+   */
+  async warnIfCrossed(
+    userId: string,
+    resource: QuotaResource,
+    before: QuotaCheckResult,
+    amount: number,
+  ): Promise<void> {
+    const warning = getQuotaWarning(resource, before, amount);
+    if (!warning) {
+      return;
+    }
+
+    try {
+      await this.prisma.notification.create({
+        data: {
+          userId,
+          type: NotificationType.QUOTA_WARNING,
+          title: warning.title,
+          message: warning.message,
+          link: '/settings/billing',
+          metadata: warning.metadata as Prisma.InputJsonObject,
+        },
+      });
+    } catch (error) {
+      this.logger.warn(
+        `Failed to create quota warning for ${userId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
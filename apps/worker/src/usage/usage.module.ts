@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { UsageService } from './usage.service';
+import { QuotaService } from './quota.service';
+
+/**
+ * Usage Module
+ *
+ * Records AI token usage and cost against the user's subscription period,
+ * and checks subscription quotas.
+ *
+ * Exports:
+ * - UsageService: Used by the queue processor and generations service after each generation
+ * - QuotaService: Used by the queue processor to hold jobs that exceed the user's plan
+ */
+@Module({
+  providers: [UsageService, QuotaService],
+  exports: [UsageService, QuotaService],
+})
+export class UsageModule {}
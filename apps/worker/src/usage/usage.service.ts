@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { isUUID } from 'class-validator';
+import { AI_TOKENS_USAGE_TYPE, getBillingPeriod } from '@nexusgen/utils/quota';
+import { PrismaService } from '../database';
+import type { UsageSummary } from '../agents/usage-tracker';
+
+/**
+ * Generation whose model usage is being recorded
+ */
+export interface GenerationUsageInput {
+  userId: string;
+  projectId: string;
+  /** Absent for model calls outside a generation, e.g. questions about a file */
+  generationId?: string;
+  usage: UsageSummary;
+}
+
+/**
+ * Usage Service
+ *
+ * Writes the token usage of generations to UsageRecord, billed to the
+ * user's current subscription period.
+ */
+@Injectable()
+export class UsageService {
+  private readonly logger = new Logger(UsageService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Record the usage of one generation
+   *
+   * Accounting never fails a generation: errors are logged and swallowed.
+   */
+  async recordGeneration(input: GenerationUsageInput): Promise<void> {
+    const { userId, projectId, generationId, usage } = input;
+    const source = generationId ? `generation ${generationId}` : `project ${projectId}`;
+
+    if (usage.totalTokens === 0) {
+      return;
+    }
+
+    // Usage records belong to a user row; demo and system ids have none
+    if (!isUUID(userId)) {
+      this.logger.debug(`Not recording usage of ${source} for non-user id ${userId}`);
+      return;
+    }
+
+    try {
+      const subscription = await this.prisma.subscription.findUnique({
+        where: { userId },
+        select: { currentPeriodStart: true, currentPeriodEnd: true },
+      });
+      const { periodStart, periodEnd } = getBillingPeriod(subscription);
+
+      await this.prisma.usageRecord.create({
+        data: {
+          userId,
+          type: AI_TOKENS_USAGE_TYPE,
+          quantity: BigInt(usage.totalTokens),
+          periodStart,
+          periodEnd,
+          metadata: {
+            generationId,
+            projectId,
+            promptTokens: usage.promptTokens,
+            completionTokens: usage.completionTokens,
+            costUsd: usage.costUsd,
+            calls: usage.calls,
+          } as unknown as Prisma.InputJsonObject,
+        },
+      });
+
+      this.logger.log(
+        `Recorded ${usage.totalTokens} tokens ($${usage.costUsd.toFixed(4)}) for ${source}`,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record usage for ${source}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Sandbox imports
+ *
+ * Zip inflation, path checks and the empty-sandbox check shared by the
+ * bundle and source imports, so path safety is enforced in one place.
+ */
+
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { unzipSync, type UnzipFileInfo } from 'fflate';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SandboxFileWriter } from './file-writer';
+
+/**
+ * Sandbox directories that hold no project source: platform state, VCS
+ * metadata, installed dependencies and build output
+ */
+export const IGNORED_DIRECTORIES = ['.nexusgen', '.git', 'node_modules', '.next', 'dist'];
+
+/**
+ * Limits on an uploaded archive, checked before anything is inflated
+ */
+export interface ArchiveLimits {
+  maxFiles: number;
+  maxBytes: number;
+}
+
+/**
+ * Inflate a zip archive, refusing ones too large to hold in memory
+ *
+ * @param label - What the archive is called in error messages
+ * @throws BadRequestException for archives that are invalid or too large
+ */
+export function unzipArchive(
+  archive: Buffer,
+  limits: ArchiveLimits,
+  label: string = 'Archive',
+): Record<string, Uint8Array> {
+  let files = 0;
+  let bytes = 0;
+
+  try {
+    return unzipSync(archive, {
+      filter: (file: UnzipFileInfo) => {
+        if (file.name.endsWith('/')) {
+          return false;
+        }
+        files++;
+        bytes += file.originalSize;
+        if (files > limits.maxFiles || bytes > limits.maxBytes) {
+          throw new BadRequestException(
+            `${label} is too large: at most ${limits.maxFiles} files and ${limits.maxBytes / 1024 / 1024} MB uncompressed`,
+          );
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof BadRequestException) {
+      throw error;
+    }
+    throw new BadRequestException(
+      `Not a valid zip file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
+
+/**
+ * Sandbox-relative form of an archive path
+ *
+ * @param label - What the archive is called in error messages
+ * @param ignoredDirectories - Top-level directories the archive may not write to
+ * @throws BadRequestException for paths outside the sandbox or in an ignored directory
+ */
+export function normalizeArchivePath(
+  filePath: string,
+  label: string = 'Archive',
+  ignoredDirectories: string[] = [],
+): string {
+  const normalized = path.posix.normalize(filePath).replace(/^\.\//, '');
+
+  if (
+    !normalized ||
+    normalized === '.' ||
+    normalized.startsWith('../') ||
+    normalized === '..' ||
+    path.posix.isAbsolute(normalized) ||
+    normalized.includes('\\') ||
+    normalized.includes('\0') ||
+    ignoredDirectories.some(
+      (directory) => normalized === directory || normalized.startsWith(`${directory}/`),
+    )
+  ) {
+    throw new BadRequestException(`${label} contains a disallowed path: ${filePath}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Check that a project's sandbox has no files, so an import cannot mix
+ * with or overwrite existing code
+ *
+ * @returns The sandbox path
+ * @throws BadRequestException for an invalid project ID
+ * @throws ConflictException when the sandbox already has files
+ */
+export async function assertEmptySandbox(
+  fileWriter: SandboxFileWriter,
+  projectId: string,
+): Promise<string> {
+  let projectPath: string;
+  try {
+    projectPath = fileWriter.getProjectPath(projectId);
+  } catch (error) {
+    throw new BadRequestException(error instanceof Error ? error.message : 'Invalid project ID');
+  }
+
+  if ((await fileWriter.exists(projectId)) && (await fs.readdir(projectPath)).length > 0) {
+    throw new ConflictException(`Project ${projectId} already has files; import into a new project`);
+  }
+
+  return projectPath;
+}
+
+/**
+ * Write inflated files, with paths from normalizeArchivePath, into a
+ * project's sandbox
+ */
+export async function writeArchiveFiles(
+  fileWriter: SandboxFileWriter,
+  projectId: string,
+  files: Array<{ path: string; content: Uint8Array }>,
+): Promise<void> {
+  const projectPath = await fileWriter.initializeProject(projectId);
+
+  for (const file of files) {
+    const target = path.join(projectPath, file.path);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, file.content);
+  }
+}
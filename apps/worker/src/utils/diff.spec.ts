@@ -0,0 +1,75 @@
+import { createUnifiedDiff } from './diff';
+
+const numbered = (count: number, change: (line: number) => string = String) =>
+  Array.from({ length: count }, (_, i) => change(i + 1)).join('\n') + '\n';
+
+describe('createUnifiedDiff', () => {
+  it('returns an empty string for identical contents', () => {
+    expect(createUnifiedDiff('src/index.ts', 'same\n', 'same\n')).toBe('');
+  });
+
+  it('diffs a new file against /dev/null', () => {
+    expect(createUnifiedDiff('src/index.ts', '', 'a\nb\n')).toBe(
+      ['--- /dev/null', '+++ b/src/index.ts', '@@ -0,0 +1,2 @@', '+a', '+b', ''].join('\n'),
+    );
+  });
+
+  it('diffs a deleted file against /dev/null', () => {
+    expect(createUnifiedDiff('src/index.ts', 'a\nb\n', '')).toBe(
+      ['--- a/src/index.ts', '+++ /dev/null', '@@ -1,2 +0,0 @@', '-a', '-b', ''].join('\n'),
+    );
+  });
+
+  it('surrounds a change with context lines', () => {
+    const after = numbered(10, (line) => (line === 5 ? 'five' : String(line)));
+
+    expect(createUnifiedDiff('lines.txt', numbered(10), after)).toBe(
+      [
+        '--- a/lines.txt',
+        '+++ b/lines.txt',
+        '@@ -2,7 +2,7 @@',
+        ' 2',
+        ' 3',
+        ' 4',
+        '-5',
+        '+five',
+        ' 6',
+        ' 7',
+        ' 8',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('splits distant changes into separate hunks', () => {
+    const after = numbered(20, (line) => (line === 2 || line === 18 ? `${line}!` : String(line)));
+    const hunks = createUnifiedDiff('lines.txt', numbered(20), after)
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+
+    expect(hunks).toEqual(['@@ -1,5 +1,5 @@', '@@ -15,6 +15,6 @@']);
+  });
+
+  it('merges changes whose context overlaps', () => {
+    const after = numbered(20, (line) => (line === 5 || line === 9 ? `${line}!` : String(line)));
+    const hunks = createUnifiedDiff('lines.txt', numbered(20), after)
+      .split('\n')
+      .filter((line) => line.startsWith('@@'));
+
+    expect(hunks).toEqual(['@@ -2,11 +2,11 @@']);
+  });
+
+  it('counts inserted lines in the new range only', () => {
+    const diff = createUnifiedDiff('lines.txt', 'a\nb\nc\n', 'a\nb\ninserted\nc\n', 1);
+
+    expect(diff).toBe(
+      ['--- a/lines.txt', '+++ b/lines.txt', '@@ -2,2 +2,3 @@', ' b', '+inserted', ' c', ''].join('\n'),
+    );
+  });
+
+  it('keeps the minimal edit between moved and changed lines', () => {
+    const diff = createUnifiedDiff('lines.txt', 'a\nb\nc\nd\n', 'a\nc\nd\ne\n', 0);
+
+    expect(diff.split('\n').filter((line) => /^[+-][^+-]/.test(line))).toEqual(['-b', '+e']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Line-based unified diff
+ *
+ * Produces `diff -u` style output for a single file. Lines shared at the
+ * start and end of both versions are trimmed before the LCS pass, which
+ * keeps typical small edits cheap even on large files.
+ */
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Above this many LCS cells the changed region is emitted as a plain
+ * remove-then-add block rather than a minimal diff
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Create a unified diff between two versions of a file
+ *
+ * @param filePath - Path shown in the `---`/`+++` headers
+ * @param before - Original content ('' for a new file)
+ * @param after - Updated content ('' for a deleted file)
+ * @param context - Number of unchanged lines around each change
+ * @returns The diff, or an empty string when the contents are identical
+ */
+export function createUnifiedDiff(
+  filePath: string,
+  before: string,
+  after: string,
+  context: number = 3,
+): string {
+  if (before === after) {
+    return '';
+  }
+
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const ops = diffLines(oldLines, newLines);
+
+  const header = [
+    `--- ${before ? `a/${filePath}` : '/dev/null'}`,
+    `+++ ${after ? `b/${filePath}` : '/dev/null'}`,
+  ];
+
+  return [...header, ...buildHunks(ops, context)].join('\n') + '\n';
+}
+
+function splitLines(content: string): string[] {
+  if (!content) {
+    return [];
+  }
+  const lines = content.split('\n');
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  let prefix = 0;
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix);
+  const b = newLines.slice(prefix, newLines.length - suffix);
+
+  const ops: DiffOp[] = oldLines.slice(0, prefix).map((line) => ({ type: ' ', line }));
+  const tail: DiffOp[] = oldLines
+    .slice(oldLines.length - suffix)
+    .map((line) => ({ type: ' ', line }));
+
+  if ((a.length + 1) * (b.length + 1) > MAX_LCS_CELLS) {
+    ops.push(...a.map((line): DiffOp => ({ type: '-', line })));
+    ops.push(...b.map((line): DiffOp => ({ type: '+', line })));
+    return [...ops, ...tail];
+  }
+
+  // LCS lengths of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) {
+    ops.push({ type: '-', line: a[i++] });
+  }
+  while (j < b.length) {
+    ops.push({ type: '+', line: b[j++] });
+  }
+
+  return [...ops, ...tail];
+}
+
+function buildHunks(ops: DiffOp[], context: number): string[] {
+  const output: string[] = [];
+  let index = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  while (index < ops.length) {
+    // Skip unchanged lines up to the next change
+    let nextChange = index;
+    while (nextChange < ops.length && ops[nextChange].type === ' ') {
+      nextChange++;
+    }
+    if (nextChange === ops.length) {
+      break;
+    }
+
+    const start = Math.max(index, nextChange - context);
+    oldLine += start - index;
+    newLine += start - index;
+
+    // Extend the hunk until a run of unchanged lines longer than 2 * context
+    let end = nextChange;
+    let unchanged = 0;
+    while (end < ops.length && unchanged <= context * 2) {
+      unchanged = ops[end].type === ' ' ? unchanged + 1 : 0;
+      end++;
+    }
+    end -= Math.max(0, unchanged - context);
+
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    output.push(
+      `@@ -${oldCount === 0 ? oldLine - 1 : oldLine},${oldCount} +${newCount === 0 ? newLine - 1 : newLine},${newCount} @@`,
+    );
+    output.push(...hunk.map((op) => `${op.type}${op.line}`));
+
+    oldLine += oldCount;
+    newLine += newCount;
+    index = end;
+  }
+
+  return output;
+}
@@ -88,6 +88,22 @@ export class SandboxFileWriter {
     this.logger.log(`Successfully wrote ${files.length} files`);
   }
 
+  async deleteFile(projectId: string, filePath: string): Promise<void> {
+    this.validateProjectId(projectId);
+    this.validateFilePath(filePath);
+
+    const absolutePath = this.resolveFilePath(projectId, filePath);
+
+    this.logger.log(`Deleting file: ${filePath}`);
+
+    try {
+      await fs.rm(absolutePath, { force: true });
+    } catch (error) {
+      this.logger.error(`Failed to delete file ${filePath}: ${error}`);
+      throw new Error(`Failed to delete file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+
   getProjectPath(projectId: string): string {
     this.validateProjectId(projectId);
     return path.join(this.basePath, projectId);
@@ -136,22 +152,46 @@ export class SandboxFileWriter {
     }
   }
 
-  async listFiles(projectId: string, directory: string = ''): Promise<string[]> {
+  /**
+   * List the files under a project directory, relative to the sandbox root
+   *
+   * @param excludeDirectories - Sandbox-relative directories that are not
+   *   descended into, e.g. node_modules
+   */
+  async listFiles(
+    projectId: string,
+    directory: string = '',
+    excludeDirectories: string[] = [],
+  ): Promise<string[]> {
     this.validateProjectId(projectId);
 
+    const projectPath = this.getProjectPath(projectId);
     const targetPath = directory
       ? this.resolveFilePath(projectId, directory)
-      : this.getProjectPath(projectId);
+      : projectPath;
+    const excluded = new Set(excludeDirectories);
+
+    const walk = async (currentPath: string): Promise<string[]> => {
+      const files: string[] = [];
+
+      for (const entry of await fs.readdir(currentPath, { withFileTypes: true })) {
+        const entryPath = path.join(currentPath, entry.name);
+        const relativePath = path.relative(projectPath, entryPath);
+
+        if (entry.isDirectory()) {
+          if (!excluded.has(relativePath)) {
+            files.push(...(await walk(entryPath)));
+          }
+        } else if (entry.isFile()) {
+          files.push(relativePath);
+        }
+      }
+
+      return files;
+    };
 
     try {
-      const entries = await fs.readdir(targetPath, { withFileTypes: true, recursive: true });
-      return entries
-        .filter((entry) => entry.isFile())
-        .map((entry) => {
-          const entryPath = entry.parentPath || entry.path || targetPath;
-          const relativePath = path.relative(this.getProjectPath(projectId), path.join(entryPath, entry.name));
-          return relativePath;
-        });
+      return await walk(targetPath);
     } catch (error) {
       throw new Error(`Failed to list files: ${(error as Error).message}`);
     }
@@ -1 +1,3 @@
 export * from './file-writer';
+export * from './diff';
+export * from './archive';
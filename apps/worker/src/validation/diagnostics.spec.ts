@@ -0,0 +1,134 @@
+import { formatDiagnostics, parseEslintOutput, parseTscOutput, StaticDiagnostic } from './diagnostics';
+
+describe('parseTscOutput', () => {
+  it('parses file errors with their position and code', () => {
+    const output = [
+      "src/app/page.tsx(12,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "./src/lib/db.ts(3,1): error TS2307: Cannot find module 'pg' or its corresponding type declarations.",
+    ].join('\n');
+
+    expect(parseTscOutput(output)).toEqual([
+      {
+        source: 'tsc',
+        file: 'src/app/page.tsx',
+        line: 12,
+        column: 5,
+        code: 'TS2322',
+        message: "Type 'string' is not assignable to type 'number'.",
+      },
+      {
+        source: 'tsc',
+        file: 'src/lib/db.ts',
+        line: 3,
+        column: 1,
+        code: 'TS2307',
+        message: "Cannot find module 'pg' or its corresponding type declarations.",
+      },
+    ]);
+  });
+
+  it('attributes project-wide errors to tsconfig.json', () => {
+    expect(parseTscOutput("error TS5023: Unknown compiler option 'foo'.")).toEqual([
+      {
+        source: 'tsc',
+        file: 'tsconfig.json',
+        line: 0,
+        code: 'TS5023',
+        message: "Unknown compiler option 'foo'.",
+      },
+    ]);
+  });
+
+  it('appends indented continuation lines to the previous error', () => {
+    const output = [
+      "src\\components\\card.tsx(8,3): error TS2741: Property 'title' is missing.",
+      "  'title' is declared here.",
+      '',
+      'Found 1 error.',
+    ].join('\r\n');
+
+    const [diagnostic] = parseTscOutput(output);
+    expect(diagnostic.file).toBe('src/components/card.tsx');
+    expect(diagnostic.message).toBe("Property 'title' is missing.\n'title' is declared here.");
+  });
+
+  it('returns nothing for clean output', () => {
+    expect(parseTscOutput('')).toEqual([]);
+  });
+});
+
+describe('parseEslintOutput', () => {
+  it('keeps errors only, relative to the root', () => {
+    const output = JSON.stringify([
+      {
+        filePath: '/sandbox/project/src/app/page.tsx',
+        messages: [
+          {
+            ruleId: 'react-hooks/rules-of-hooks',
+            severity: 2,
+            message: 'React Hook "useState" is called conditionally.',
+            line: 10,
+            column: 7,
+          },
+          { ruleId: 'no-unused-vars', severity: 1, message: "'x' is unused.", line: 2 },
+        ],
+      },
+      {
+        filePath: '/sandbox/project/src/lib/parse.ts',
+        messages: [{ ruleId: null, severity: 2, message: 'Parsing error: Unexpected token' }],
+      },
+    ]);
+
+    expect(parseEslintOutput(output, '/sandbox/project')).toEqual([
+      {
+        source: 'eslint',
+        file: 'src/app/page.tsx',
+        line: 10,
+        column: 7,
+        code: 'react-hooks/rules-of-hooks',
+        message: 'React Hook "useState" is called conditionally.',
+      },
+      {
+        source: 'eslint',
+        file: 'src/lib/parse.ts',
+        line: 0,
+        column: undefined,
+        code: 'eslint',
+        message: 'Parsing error: Unexpected token',
+      },
+    ]);
+  });
+
+  it('returns nothing for output that is not a result list', () => {
+    expect(parseEslintOutput('Oops! Something went wrong!', '/sandbox')).toEqual([]);
+    expect(parseEslintOutput('{"error":true}', '/sandbox')).toEqual([]);
+  });
+});
+
+describe('formatDiagnostics', () => {
+  const diagnostic = (line: number, column?: number): StaticDiagnostic => ({
+    source: 'tsc',
+    file: 'src/app/page.tsx',
+    line,
+    column,
+    code: 'TS2322',
+    message: 'Type mismatch',
+  });
+
+  it('lists one diagnostic per line with the position it has', () => {
+    expect(formatDiagnostics([diagnostic(12, 5), diagnostic(3), diagnostic(0)])).toBe(
+      [
+        'src/app/page.tsx:12:5 - TS2322: Type mismatch',
+        'src/app/page.tsx:3 - TS2322: Type mismatch',
+        'src/app/page.tsx - TS2322: Type mismatch',
+      ].join('\n'),
+    );
+  });
+
+  it('counts the diagnostics over the limit', () => {
+    const lines = formatDiagnostics([diagnostic(1), diagnostic(2), diagnostic(3)], 2).split('\n');
+
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe('...and 1 more');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Diagnostics
+ *
+ * Parses the output of the static checks into structured records that
+ * point the fixer at an exact file and line.
+ */
+
+import * as path from 'path';
+
+/**
+ * A single compiler or lint error
+ */
+export interface StaticDiagnostic {
+  /** Tool that reported it */
+  source: 'tsc' | 'eslint';
+  /** Sandbox-relative file path; `tsconfig.json` for project-wide compiler errors */
+  file: string;
+  /** 1-based line, 0 when the error is not tied to a line */
+  line: number;
+  column?: number;
+  /** Compiler error code (e.g. `TS2322`) or lint rule (e.g. `react-hooks/rules-of-hooks`) */
+  code: string;
+  message: string;
+}
+
+/**
+ * `src/app/page.tsx(12,5): error TS2322: Type 'string' is not assignable...`
+ */
+const TSC_FILE_ERROR = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+
+/**
+ * `error TS5023: Unknown compiler option 'foo'.`
+ */
+const TSC_PROJECT_ERROR = /^error (TS\d+): (.*)$/;
+
+/**
+ * Shape of one file in `eslint --format json` output
+ */
+interface EslintFileResult {
+  filePath: string;
+  messages: {
+    ruleId: string | null;
+    severity: number;
+    message: string;
+    line?: number;
+    column?: number;
+  }[];
+}
+
+/**
+ * Parse `tsc --noEmit --pretty false` output
+ *
+ * Indented lines following an error continue its message.
+ */
+export function parseTscOutput(output: string): StaticDiagnostic[] {
+  const diagnostics: StaticDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const fileError = TSC_FILE_ERROR.exec(line);
+    if (fileError) {
+      diagnostics.push({
+        source: 'tsc',
+        file: normalizeFile(fileError[1]),
+        line: Number(fileError[2]),
+        column: Number(fileError[3]),
+        code: fileError[4],
+        message: fileError[5],
+      });
+      continue;
+    }
+
+    const projectError = TSC_PROJECT_ERROR.exec(line);
+    if (projectError) {
+      diagnostics.push({
+        source: 'tsc',
+        file: 'tsconfig.json',
+        line: 0,
+        code: projectError[1],
+        message: projectError[2],
+      });
+      continue;
+    }
+
+    const previous = diagnostics[diagnostics.length - 1];
+    if (previous && /^\s+\S/.test(line)) {
+      previous.message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Parse `eslint --format json` output, keeping errors only
+ *
+ * @param rootPath - Directory eslint ran in; file paths are made relative to it
+ */
+export function parseEslintOutput(output: string, rootPath: string): StaticDiagnostic[] {
+  let results: EslintFileResult[];
+
+  try {
+    results = JSON.parse(output) as EslintFileResult[];
+  } catch {
+    return [];
+  }
+
+  if (!Array.isArray(results)) {
+    return [];
+  }
+
+  return results.flatMap((result) =>
+    result.messages
+      .filter((message) => message.severity === 2)
+      .map((message) => ({
+        source: 'eslint' as const,
+        file: normalizeFile(path.posix.relative(rootPath, result.filePath) || result.filePath),
+        line: message.line ?? 0,
+        column: message.column,
+        code: message.ruleId ?? 'eslint',
+        message: message.message,
+      })),
+  );
+}
+
+/**
+ * Format diagnostics as one `file:line - code: message` line each
+ *
+ * @param limit - Maximum number of diagnostics listed
+ */
+export function formatDiagnostics(diagnostics: StaticDiagnostic[], limit: number = 50): string {
+  const lines = diagnostics
+    .slice(0, limit)
+    .map(
+      (diagnostic) =>
+        `${diagnostic.file}${diagnostic.line ? `:${diagnostic.line}${diagnostic.column ? `:${diagnostic.column}` : ''}` : ''} - ${diagnostic.code}: ${diagnostic.message}`,
+    );
+
+  if (diagnostics.length > limit) {
+    lines.push(`...and ${diagnostics.length - limit} more`);
+  }
+
+  return lines.join('\n');
+}
+
+function normalizeFile(file: string): string {
+  return file.replace(/\\/g, '/').replace(/^\.\//, '');
+}
@@ -0,0 +1,20 @@
+/**
+ * Validation Module
+ *
+ * Static checks that run on generated code before its Docker build.
+ */
+
+export {
+  StaticChecker,
+  StaticCheckerOptions,
+  StaticCheckMode,
+  StaticCheckRunOptions,
+  StaticCheckResult,
+  STATIC_CHECK_MODES,
+} from './static-checker';
+export {
+  StaticDiagnostic,
+  parseTscOutput,
+  parseEslintOutput,
+  formatDiagnostics,
+} from './diagnostics';
@@ -0,0 +1,322 @@
+/**
+ * Static Checker
+ *
+ * Type-checks and lints a generated project before its Docker image is
+ * built. A failed `next build` reports one error at a time after minutes
+ * of work; tsc and eslint report every error with its file and line in
+ * seconds once dependencies are installed, so the fixer gets precise
+ * targets and most broken builds never reach Docker.
+ *
+ * Dependencies are installed into the sandbox and reused until
+ * package.json changes. The checks run in a throwaway toolchain container
+ * with a shared npm cache, or directly on the worker for trusted setups.
+ */
+
+import { Logger } from '@nestjs/common';
+import { spawn } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { DockerService } from '../services/docker.service';
+import type { SandboxFileWriter } from '../utils';
+import { parseEslintOutput, parseTscOutput, type StaticDiagnostic } from './diagnostics';
+
+/**
+ * Where the checks run
+ *
+ * - `container`: in a throwaway container with the sandbox mounted
+ * - `local`: in the sandbox directory on the worker, with the worker's
+ *   node. The sandbox's eslint config and installed packages are code, so
+ *   this runs whatever the sandbox holds on the worker host; imported
+ *   codebases are never checked this way
+ * - `off`: checks are skipped and every build goes straight to Docker
+ */
+export const STATIC_CHECK_MODES = ['container', 'local', 'off'] as const;
+
+export type StaticCheckMode = (typeof STATIC_CHECK_MODES)[number];
+
+export interface StaticCheckerOptions {
+  mode?: StaticCheckMode;
+  /** Toolchain image for `container` mode */
+  image?: string;
+  /** Limit for install plus checks */
+  timeoutMs?: number;
+  /** Required for `container` mode */
+  dockerService?: DockerService;
+}
+
+export interface StaticCheckRunOptions {
+  /**
+   * The sandbox holds code from outside the generation pipeline, such as
+   * an imported repository; `local` mode skips it
+   */
+  imported?: boolean;
+}
+
+export interface StaticCheckResult {
+  /** Whether the checks ran to completion */
+  ran: boolean;
+  /** No errors were reported; also true when the checks did not run */
+  success: boolean;
+  diagnostics: StaticDiagnostic[];
+  /** Why the checks did not run */
+  skipped?: string;
+  durationMs: number;
+}
+
+/**
+ * Sandbox directory the check outputs are written to
+ */
+const CHECKS_DIR = '.nexusgen/checks';
+
+/**
+ * Mount point of the sandbox in `container` mode
+ */
+const CONTAINER_WORKSPACE = '/workspace';
+
+/**
+ * Named volume that keeps the npm cache between container runs
+ */
+const NPM_CACHE_VOLUME = 'nexusgen-npm-cache';
+
+/**
+ * Installs dependencies when needed, then runs tsc and eslint
+ *
+ * Exit codes and outputs go to CHECKS_DIR so both modes are read back the
+ * same way. Lifecycle scripts are not run: generated code is untrusted and
+ * type-checking does not need them. A lockfile is never created, since its
+ * presence changes how the Dockerfile installs.
+ */
+const CHECK_SCRIPT = `
+set -u
+out=${CHECKS_DIR}
+rm -rf "$out" && mkdir -p "$out"
+
+hash=$(cat package.json package-lock.json 2>/dev/null | cksum | cut -d' ' -f1)
+if [ ! -d node_modules ] || [ "$(cat .nexusgen/deps-hash 2>/dev/null)" != "$hash" ]; then
+  if [ -f package-lock.json ]; then
+    npm ci --ignore-scripts --no-audit --no-fund --loglevel=error > "$out/install.txt" 2>&1
+  else
+    npm install --ignore-scripts --no-audit --no-fund --no-package-lock --loglevel=error > "$out/install.txt" 2>&1
+  fi
+  status=$?
+  echo $status > "$out/install.exit"
+  [ $status -eq 0 ] && echo "$hash" > .nexusgen/deps-hash
+fi
+
+if [ "$(cat "$out/install.exit" 2>/dev/null || echo 0)" = 0 ]; then
+  # next build writes next-env.d.ts; without it asset and CSS module imports do not type-check.
+  # One written here is removed after the checks so it never reaches snapshots or git.
+  next_env=
+  if [ -d node_modules/next ] && [ ! -f next-env.d.ts ]; then
+    printf '/// <reference types="next" />\\n/// <reference types="next/image-types/global" />\\n' > next-env.d.ts
+    next_env=1
+  fi
+
+  if [ -f tsconfig.json ] && [ -x node_modules/.bin/tsc ]; then
+    node_modules/.bin/tsc --noEmit --pretty false > "$out/tsc.txt" 2>&1
+    echo $? > "$out/tsc.exit"
+  fi
+
+  if ls eslint.config.* .eslintrc* > /dev/null 2>&1 && [ -x node_modules/.bin/eslint ]; then
+    ls eslint.config.* > /dev/null 2>&1 || export ESLINT_USE_FLAT_CONFIG=false
+    node_modules/.bin/eslint . --format json --output-file "$out/eslint.json" > "$out/eslint.txt" 2>&1
+    echo $? > "$out/eslint.exit"
+  fi
+
+  [ -n "$next_env" ] && rm -f next-env.d.ts
+fi
+
+if [ -n "\${OWNER:-}" ]; then
+  chown -R "$OWNER" node_modules .nexusgen 2> /dev/null
+fi
+exit 0
+`;
+
+export class StaticChecker {
+  private readonly logger = new Logger(StaticChecker.name);
+  private readonly mode: StaticCheckMode;
+  private readonly image: string;
+  private readonly timeoutMs: number;
+  private readonly dockerService?: DockerService;
+
+  constructor(
+    private readonly fileWriter: SandboxFileWriter,
+    options: StaticCheckerOptions = {},
+  ) {
+    this.mode = options.mode ?? 'container';
+    this.image = options.image ?? 'node:20-alpine';
+    this.timeoutMs = options.timeoutMs ?? 300_000;
+    this.dockerService = options.dockerService;
+
+    if (this.mode === 'container' && !this.dockerService) {
+      throw new Error('StaticChecker in container mode requires a DockerService');
+    }
+  }
+
+  get enabled(): boolean {
+    return this.mode !== 'off';
+  }
+
+  /**
+   * Install dependencies if needed and run tsc and eslint
+   *
+   * Never throws: when the checks cannot run, the result says why and the
+   * caller falls back to the Docker build.
+   */
+  async check(projectId: string, options: StaticCheckRunOptions = {}): Promise<StaticCheckResult> {
+    const startedAt = Date.now();
+    const skip = (reason: string): StaticCheckResult => {
+      this.logger.warn(`Static checks skipped for ${projectId}: ${reason}`);
+      return {
+        ran: false,
+        success: true,
+        diagnostics: [],
+        skipped: reason,
+        durationMs: Date.now() - startedAt,
+      };
+    };
+
+    if (!this.enabled) {
+      return skip('disabled');
+    }
+
+    if (this.mode === 'local' && options.imported) {
+      return skip('imported code is not checked on the worker host; use container mode');
+    }
+
+    const sandboxPath = this.fileWriter.getProjectPath(projectId);
+
+    if (!(await this.exists(path.join(sandboxPath, 'package.json')))) {
+      return skip('no package.json');
+    }
+
+    try {
+      const timedOut =
+        this.mode === 'container'
+          ? await this.runInContainer(sandboxPath)
+          : await this.runLocally(sandboxPath);
+
+      if (timedOut) {
+        return skip(`timed out after ${this.timeoutMs}ms`);
+      }
+    } catch (error) {
+      return skip(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    const read = (name: string) =>
+      fs.readFile(path.join(sandboxPath, CHECKS_DIR, name), 'utf-8').catch(() => undefined);
+
+    const installExit = await read('install.exit');
+    if (installExit !== undefined && installExit.trim() !== '0') {
+      const installLog = (await read('install.txt')) ?? '';
+      return skip(`dependency install failed: ${installLog.trim().split('\n').slice(-3).join(' ')}`);
+    }
+
+    const diagnostics: StaticDiagnostic[] = [];
+    const tools: string[] = [];
+
+    const tscOutput = await read('tsc.txt');
+    if (tscOutput !== undefined) {
+      tools.push('tsc');
+      const tscDiagnostics = parseTscOutput(tscOutput);
+      diagnostics.push(...tscDiagnostics);
+
+      if ((await read('tsc.exit'))?.trim() !== '0' && tscDiagnostics.length === 0) {
+        this.logger.warn(`tsc failed without diagnostics: ${tscOutput.slice(0, 500)}`);
+      }
+    }
+
+    const eslintOutput = await read('eslint.json');
+    if (eslintOutput !== undefined) {
+      tools.push('eslint');
+      diagnostics.push(
+        ...parseEslintOutput(
+          eslintOutput,
+          this.mode === 'container' ? CONTAINER_WORKSPACE : sandboxPath,
+        ),
+      );
+    } else if ((await read('eslint.exit')) !== undefined) {
+      // A broken lint config is not worth failing the generation over
+      this.logger.warn(`eslint did not run: ${((await read('eslint.txt')) ?? '').slice(0, 500)}`);
+    }
+
+    if (tools.length === 0) {
+      return skip('no tsconfig.json or eslint config');
+    }
+
+    const durationMs = Date.now() - startedAt;
+    this.logger.log(
+      `Static checks (${tools.join(', ')}) for ${projectId}: ${diagnostics.length} error(s) in ${durationMs}ms`,
+    );
+
+    return {
+      ran: true,
+      success: diagnostics.length === 0,
+      diagnostics,
+      durationMs,
+    };
+  }
+
+  /**
+   * @returns Whether the script timed out
+   */
+  private runLocally(sandboxPath: string): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      // Own process group, so a timeout also stops npm's children
+      const child = spawn('sh', ['-c', CHECK_SCRIPT], {
+        cwd: sandboxPath,
+        detached: true,
+        stdio: 'ignore',
+      });
+
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        try {
+          process.kill(-child.pid!, 'SIGKILL');
+        } catch {
+          // Already exited
+        }
+      }, this.timeoutMs);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on('close', () => {
+        clearTimeout(timer);
+        resolve(timedOut);
+      });
+    });
+  }
+
+  /**
+   * @returns Whether the script timed out
+   */
+  private async runInContainer(sandboxPath: string): Promise<boolean> {
+    const owner =
+      typeof process.getuid === 'function' && process.getuid() !== 0
+        ? `${process.getuid()}:${process.getgid!()}`
+        : undefined;
+
+    const result = await this.dockerService!.runCommand({
+      image: this.image,
+      command: ['sh', '-c', CHECK_SCRIPT],
+      workingDir: CONTAINER_WORKSPACE,
+      binds: [`${sandboxPath}:${CONTAINER_WORKSPACE}`, `${NPM_CACHE_VOLUME}:/root/.npm`],
+      env: owner ? [`OWNER=${owner}`] : [],
+      timeoutMs: this.timeoutMs,
+    });
+
+    return result.timedOut;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
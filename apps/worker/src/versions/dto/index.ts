@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsUUID } from 'class-validator';
+
+export class VersionDiffQueryDto {
+  @ApiProperty({ description: 'Version compared from' })
+  @IsUUID()
+  from: string;
+
+  @ApiProperty({ description: 'Version compared to' })
+  @IsUUID()
+  to: string;
+}
+
+export class VersionFileChangeDto {
+  @ApiProperty({ example: 'src/app/page.tsx' })
+  path: string;
+
+  @ApiProperty({ enum: ['added', 'modified', 'removed'] })
+  status: 'added' | 'modified' | 'removed';
+
+  @ApiPropertyOptional({ description: 'Unified diff; absent for binary and oversized files' })
+  diff?: string;
+}
+
+export class VersionRefDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: '1.2.0' })
+  version: string;
+}
+
+export class VersionDiffResponseDto {
+  @ApiProperty({ type: VersionRefDto })
+  from: VersionRefDto;
+
+  @ApiProperty({ type: VersionRefDto })
+  to: VersionRefDto;
+
+  @ApiProperty({ type: [VersionFileChangeDto] })
+  changes: VersionFileChangeDto[];
+}
@@ -0,0 +1,8 @@
+/**
+ * Versions Module
+ *
+ * Versioned history of each project's files.
+ */
+
+export { VersionsModule } from './versions.module';
+export { VersionsService, CreateVersionInput, PromoteResult } from './versions.service';
@@ -0,0 +1,33 @@
+import { Controller, Get, Param, Query, UseGuards } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiSecurity, ApiParam } from '@nestjs/swagger';
+import { InternalTokenGuard, INTERNAL_TOKEN_HEADER } from '../auth/internal-token.guard';
+import { VersionsService } from './versions.service';
+import { VersionDiffQueryDto, VersionDiffResponseDto } from './dto';
+
+/**
+ * Comparison of project versions, whose file contents live in the
+ * worker's snapshot store
+ *
+ * Called by the web app only, which has checked project ownership.
+ */
+@ApiTags('project-files')
+@ApiSecurity(INTERNAL_TOKEN_HEADER)
+@UseGuards(InternalTokenGuard)
+@Controller('projects/:id/versions')
+export class VersionsController {
+  constructor(private readonly versionsService: VersionsService) {}
+
+  @Get('diff')
+  @ApiOperation({ summary: 'Files changed between two versions of a project, with unified diffs' })
+  @ApiParam({ name: 'id', description: 'Project ID' })
+  @ApiResponse({ status: 200, type: VersionDiffResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid version IDs' })
+  @ApiResponse({ status: 401, description: 'Missing or invalid internal token' })
+  @ApiResponse({ status: 404, description: 'Version not found for the project' })
+  async diff(
+    @Param('id') id: string,
+    @Query() query: VersionDiffQueryDto,
+  ): Promise<VersionDiffResponseDto> {
+    return this.versionsService.diff(id, query.from, query.to);
+  }
+}
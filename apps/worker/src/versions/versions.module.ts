@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { VersionsController } from './versions.controller';
+import { VersionsService } from './versions.service';
+import { InternalTokenGuard } from '../auth/internal-token.guard';
+import { SnapshotsModule } from '../snapshots/snapshots.module';
+
+/**
+ * Versions Module
+ *
+ * Semantic versions of a project, one per generation that changed it,
+ * with changelogs written by the Reviewer.
+ *
+ * Exports:
+ * - VersionsService: Records, compares and promotes versions
+ */
+@Module({
+  imports: [ConfigModule, SnapshotsModule],
+  controllers: [VersionsController],
+  providers: [VersionsService, InternalTokenGuard],
+  exports: [VersionsService],
+})
+export class VersionsModule {}
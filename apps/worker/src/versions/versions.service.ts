@@ -0,0 +1,508 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, VersionStatus, type ProjectVersion } from '@prisma/client';
+import { isUUID } from 'class-validator';
+import type {
+  SnapshotFileEntry,
+  SnapshotManifest,
+  VersionBump,
+  VersionDiff,
+  VersionFileChange,
+} from '@nexusgen/types';
+import { PrismaService } from '../database';
+import { SnapshotsService } from '../snapshots';
+import { ReviewerAgent, type Changelog, type TechnicalSpecification, type UsageTracker } from '../agents';
+import { resolveModelRoute } from '../ai/model-routing';
+import { SPEC_FILE_PATH } from '../ai/generation-record';
+import { createUnifiedDiff } from '../utils';
+
+/**
+ * Generated records under `.nexusgen` change with every generation; they
+ * are kept in a version's files but not diffed or described
+ */
+const RECORD_DIRECTORY = '.nexusgen/';
+
+/**
+ * Tries at numbering a version when concurrent generations take the same number
+ */
+const MAX_VERSION_ATTEMPTS = 3;
+
+/**
+ * Largest file content diffed, on either side
+ */
+const MAX_DIFF_FILE_BYTES = 256 * 1024;
+
+/**
+ * Paths named in a changelog written without the model
+ */
+const MAX_LISTED_PATHS = 5;
+
+/**
+ * A generation that produced a new state of the project
+ */
+export interface CreateVersionInput {
+  projectId: string;
+  /** Author of the version */
+  userId: string;
+  /** Snapshot of the state the version is made of */
+  snapshotId: string;
+  /** How the generation changed the project; sets the bump when no changelog can be written */
+  mode: 'create' | 'edit' | 'import';
+  /** What the user asked for */
+  prompt?: string;
+}
+
+/**
+ * A version made current, and the files its restore changed
+ */
+export interface PromoteResult {
+  version: ProjectVersion;
+  restoredFiles: number;
+  removedFiles: number;
+}
+
+/**
+ * A file that differs between two manifests, with both entries
+ */
+interface ManifestChange {
+  path: string;
+  status: VersionFileChange['status'];
+  before?: SnapshotFileEntry;
+  after?: SnapshotFileEntry;
+}
+
+/**
+ * Versions Service
+ *
+ * Turns the snapshot of each successful generation into a ProjectVersion
+ * with a semantic version number and a changelog written by the Reviewer
+ * from the diff to the previous version. Versions are compared file by
+ * file, and any version can be made current again by restoring its
+ * snapshot.
+ */
+@Injectable()
+export class VersionsService {
+  private readonly logger = new Logger(VersionsService.name);
+  private readonly reviewerAgent: ReviewerAgent | null;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly snapshotsService: SnapshotsService,
+  ) {
+    // AI_CHANGELOG_ENABLED=false lists the changed files instead
+    this.reviewerAgent =
+      this.configService.get<string>('AI_CHANGELOG_ENABLED', 'true') === 'false'
+        ? null
+        : new ReviewerAgent({
+            ...resolveModelRoute(this.configService, 'reviewer', {
+              temperature: 0.1,
+              maxTokens: this.configService.get<number>('AI_MAX_TOKENS', 8192),
+            }),
+            maxRetries: 2,
+          });
+  }
+
+  /**
+   * Record a generation's snapshot as the project's latest and current version
+   *
+   * The generation is compared with the current version, which it was
+   * made from even when an older version was promoted, and numbered after
+   * the latest. A generation that changed nothing since the current
+   * version makes no new one. Versions are bookkeeping: failures are
+   * logged and never fail the generation.
+   *
+   * @param usage - Tracker that receives the usage of the changelog call
+   * @returns The new version, or null when none was made
+   */
+  async createFromSnapshot(
+    input: CreateVersionInput,
+    usage?: UsageTracker,
+  ): Promise<ProjectVersion | null> {
+    const { projectId, userId, snapshotId } = input;
+
+    // Versions are attributed to a user row; demo and system ids have none
+    if (!isUUID(projectId) || !isUUID(userId)) {
+      this.logger.debug(`Not versioning project ${projectId} for non-user id ${userId}`);
+      return null;
+    }
+
+    try {
+      const snapshot = await this.prisma.versionSnapshot.findFirst({
+        where: { id: snapshotId, projectId },
+        select: { id: true, snapshot: true },
+      });
+      if (!snapshot) {
+        this.logger.warn(`Snapshot ${snapshotId} of project ${projectId} not found; no version recorded`);
+        return null;
+      }
+
+      const manifest = snapshot.snapshot as unknown as SnapshotManifest;
+      const [current, latest] = await Promise.all([
+        this.prisma.projectVersion.findFirst({ where: { projectId, isCurrent: true } }),
+        this.prisma.projectVersion.findFirst({ where: { projectId, isLatest: true } }),
+      ]);
+      const previous = current ?? latest;
+      const changes = compareManifests(previous ? toManifest(previous.files) : { files: [] }, manifest);
+
+      if (previous && changes.length === 0) {
+        this.logger.log(`Project ${projectId} is unchanged since version ${previous.version}; no version recorded`);
+        return null;
+      }
+
+      const changelog = await this.writeChangelog(projectId, input, manifest, previous, changes, usage);
+
+      const version = await this.insertVersion(projectId, userId, snapshot.id, manifest, changelog, latest);
+
+      this.logger.log(
+        `Version ${version.version} of project ${projectId}: ${changes.length} files changed since ${previous?.version ?? 'nothing'}`,
+      );
+
+      return version;
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record a version of project ${projectId}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Files that differ between two versions of a project
+   *
+   * @throws NotFoundException when the project has no such versions
+   */
+  async diff(projectId: string, fromId: string, toId: string): Promise<VersionDiff> {
+    const [from, to] = await Promise.all([
+      this.findVersion(projectId, fromId),
+      this.findVersion(projectId, toId),
+    ]);
+
+    const changes: VersionFileChange[] = [];
+    for (const change of compareManifests(toManifest(from.files), toManifest(to.files))) {
+      changes.push({
+        path: change.path,
+        status: change.status,
+        diff: await this.diffFile(projectId, change),
+      });
+    }
+
+    return {
+      from: { id: from.id, version: from.version },
+      to: { id: to.id, version: to.version },
+      changes,
+    };
+  }
+
+  /**
+   * Make a version current by restoring its files to the sandbox
+   *
+   * The version is marked published; deploying the restored sandbox is
+   * up to the caller.
+   *
+   * @throws NotFoundException when the project has no such version, or
+   *   the version has no snapshot to restore
+   */
+  async promote(projectId: string, versionId: string): Promise<PromoteResult> {
+    const version = await this.findVersion(projectId, versionId);
+
+    const snapshot = await this.prisma.versionSnapshot.findFirst({
+      where: { projectId, versionId: version.id },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    if (!snapshot) {
+      throw new NotFoundException(`Version ${version.version} of project ${projectId} has no snapshot to restore`);
+    }
+
+    const { restoredFiles, removedFiles } = await this.snapshotsService.restore(projectId, snapshot.id);
+
+    const [, promoted] = await this.prisma.$transaction([
+      this.prisma.projectVersion.updateMany({
+        where: { projectId, isCurrent: true },
+        data: { isCurrent: false },
+      }),
+      this.prisma.projectVersion.update({
+        where: { id: version.id },
+        data: {
+          isCurrent: true,
+          status: VersionStatus.PUBLISHED,
+          publishedAt: version.publishedAt ?? new Date(),
+        },
+      }),
+    ]);
+
+    this.logger.log(`Promoted version ${version.version} of project ${projectId} to current`);
+
+    return { version: promoted, restoredFiles, removedFiles };
+  }
+
+  /**
+   * Insert a version numbered after the latest one, as latest and current
+   *
+   * A version recorded concurrently can take the number first, failing the
+   * insert on the unique (projectId, version) index; the number is then
+   * allocated again after the new latest version.
+   */
+  private async insertVersion(
+    projectId: string,
+    userId: string,
+    snapshotId: string,
+    manifest: SnapshotManifest,
+    changelog: Changelog,
+    latestVersion: ProjectVersion | null,
+  ): Promise<ProjectVersion> {
+    let latest = latestVersion;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [, version] = await this.prisma.$transaction([
+          this.prisma.projectVersion.updateMany({
+            where: { projectId, OR: [{ isLatest: true }, { isCurrent: true }] },
+            data: { isLatest: false, isCurrent: false },
+          }),
+          this.prisma.projectVersion.create({
+            data: {
+              projectId,
+              version: nextVersion(latest?.version, changelog.bump),
+              name: changelog.title,
+              changelog: changelog.changelog,
+              files: manifest as unknown as Prisma.InputJsonObject,
+              isLatest: true,
+              isCurrent: true,
+              createdById: userId,
+              snapshots: { connect: { id: snapshotId } },
+            },
+          }),
+        ]);
+        return version;
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_VERSION_ATTEMPTS) {
+          throw error;
+        }
+
+        latest = await this.prisma.projectVersion.findFirst({
+          where: { projectId, isLatest: true },
+        });
+        this.logger.debug(
+          `Version number of project ${projectId} taken concurrently; renumbering after ${latest?.version ?? 'nothing'}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Get one of a project's versions
+   *
+   * @throws NotFoundException when the project has no such version
+   */
+  async findVersion(projectId: string, versionId: string): Promise<ProjectVersion> {
+    const version =
+      isUUID(projectId) && isUUID(versionId)
+        ? await this.prisma.projectVersion.findFirst({ where: { id: versionId, projectId } })
+        : null;
+
+    if (!version) {
+      throw new NotFoundException(`Version ${versionId} not found for project ${projectId}`);
+    }
+
+    return version;
+  }
+
+  /**
+   * Changelog of a new version, from the Reviewer or else from the file list
+   */
+  private async writeChangelog(
+    projectId: string,
+    input: CreateVersionInput,
+    manifest: SnapshotManifest,
+    previous: ProjectVersion | null,
+    changes: ManifestChange[],
+    usage?: UsageTracker,
+  ): Promise<Changelog> {
+    const fallback = describeChanges(input, changes);
+
+    if (!this.reviewerAgent) {
+      return fallback;
+    }
+
+    try {
+      const diffs: string[] = [];
+      const otherChanges: string[] = [];
+      for (const change of changes) {
+        const diff = await this.diffFile(projectId, change);
+        if (diff) {
+          diffs.push(diff);
+        } else {
+          otherChanges.push(`${change.status} ${change.path}`);
+        }
+      }
+
+      return await this.reviewerAgent.describeChanges(
+        {
+          projectSummary: await this.readProjectSummary(projectId, manifest),
+          prompt: input.prompt,
+          previousVersion: previous
+            ? `${previous.version}${previous.name ? ` (${previous.name})` : ''}`
+            : undefined,
+          diffs,
+          otherChanges,
+        },
+        usage,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Changelog of project ${projectId} written without the model: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+      return fallback;
+    }
+  }
+
+  /**
+   * Unified diff of a changed file, or undefined for binary and oversized files
+   */
+  private async diffFile(projectId: string, change: ManifestChange): Promise<string | undefined> {
+    const read = async (entry?: SnapshotFileEntry): Promise<string | undefined> => {
+      if (!entry) {
+        return '';
+      }
+      if (entry.size > MAX_DIFF_FILE_BYTES) {
+        return undefined;
+      }
+
+      const content = await this.snapshotsService.readContent(projectId, entry.hash);
+      return content.includes(0) ? undefined : content.toString('utf8');
+    };
+
+    const before = await read(change.before);
+    const after = await read(change.after);
+    if (before === undefined || after === undefined) {
+      return undefined;
+    }
+
+    return createUnifiedDiff(change.path, before, after) || undefined;
+  }
+
+  /**
+   * Name and technical summary from the specification stored with a version
+   */
+  private async readProjectSummary(
+    projectId: string,
+    manifest: SnapshotManifest,
+  ): Promise<string | undefined> {
+    const entry = manifest.files.find((file) => file.path === SPEC_FILE_PATH);
+    if (!entry) {
+      return undefined;
+    }
+
+    try {
+      const content = await this.snapshotsService.readContent(projectId, entry.hash);
+      const spec = JSON.parse(content.toString('utf8')) as Partial<TechnicalSpecification>;
+      return spec.projectName ? `${spec.projectName}: ${spec.technicalSummary ?? ''}` : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * ProjectVersion.files as a manifest; rows written before versions held
+ * one have an empty object
+ */
+function toManifest(files: Prisma.JsonValue): SnapshotManifest {
+  const manifest = files as unknown as Partial<SnapshotManifest> | null;
+  return { files: Array.isArray(manifest?.files) ? manifest.files : [] };
+}
+
+/**
+ * Files added, modified or removed from one manifest to the next, by path
+ */
+function compareManifests(before: SnapshotManifest, after: SnapshotManifest): ManifestChange[] {
+  const previous = new Map(before.files.map((file) => [file.path, file]));
+  const next = new Map(after.files.map((file) => [file.path, file]));
+  const changes: ManifestChange[] = [];
+
+  for (const file of after.files) {
+    const old = previous.get(file.path);
+    if (!old) {
+      changes.push({ path: file.path, status: 'added', after: file });
+    } else if (old.hash !== file.hash) {
+      changes.push({ path: file.path, status: 'modified', before: old, after: file });
+    }
+  }
+  for (const file of before.files) {
+    if (!next.has(file.path)) {
+      changes.push({ path: file.path, status: 'removed', before: file });
+    }
+  }
+
+  return changes
+    .filter((change) => !change.path.startsWith(RECORD_DIRECTORY))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Whether a write failed on a unique index
+ */
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Version number after `previous`; the first version is 1.0.0
+ */
+function nextVersion(previous: string | undefined, bump: VersionBump): string {
+  const match = previous ? /^(\d+)\.(\d+)\.(\d+)$/.exec(previous) : null;
+  if (!match) {
+    return '1.0.0';
+  }
+
+  const [major, minor, patch] = match.slice(1).map(Number) as [number, number, number];
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${minor + 1}.0`;
+    default:
+      return `${major}.${minor}.${patch + 1}`;
+  }
+}
+
+/**
+ * Changelog listing the changed files, used when the model cannot write one
+ */
+function describeChanges(input: CreateVersionInput, changes: ManifestChange[]): Changelog {
+  const titles: Record<CreateVersionInput['mode'], string> = {
+    create: 'Generated application',
+    edit: 'Edited application',
+    import: 'Imported codebase',
+  };
+  const verbs: Record<ManifestChange['status'], string> = {
+    added: 'Added',
+    modified: 'Changed',
+    removed: 'Removed',
+  };
+
+  const lines = (['added', 'modified', 'removed'] as const).flatMap((status) => {
+    const paths = changes.filter((change) => change.status === status).map((change) => change.path);
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const listed = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+    const more = paths.length > MAX_LISTED_PATHS ? ` and ${paths.length - MAX_LISTED_PATHS} more` : '';
+    return [`- ${verbs[status]} ${paths.length} file${paths.length === 1 ? '' : 's'}: ${listed}${more}`];
+  });
+
+  const promptLine = input.prompt?.trim().split('\n')[0];
+
+  return {
+    bump: input.mode === 'edit' ? 'minor' : 'major',
+    title: promptLine ? truncate(promptLine, 60) : titles[input.mode],
+    changelog: lines.join('\n') || '- No file changes',
+  };
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
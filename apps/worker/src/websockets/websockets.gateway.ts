@@ -10,11 +10,14 @@ import {
 } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { isUUID } from 'class-validator';
 import { Server, Socket } from 'socket.io';
+import { PrismaService } from '../database';
 import {
   WebSocketEvent,
   GenerationProgressPayload,
   GenerationStatus,
+  FileGeneratedPayload,
 } from '../types';
 
 interface AuthenticatedSocket extends Socket {
@@ -29,6 +32,7 @@ interface AuthenticatedSocket extends Socket {
  * - Generation progress updates
  * - Agent step notifications
  * - Project updates
+ * - Files written while code generation streams in
  * - System notifications
  */
 @WebSocketGateway({
@@ -51,7 +55,10 @@ export class WebsocketsGateway
   private readonly userSockets: Map<string, Set<string>> = new Map();
   private readonly projectSubscriptions: Map<string, Set<string>> = new Map();
 
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
 
   afterInit(server: Server) {
     this.logger.log('WebSocket Gateway initialized');
@@ -123,10 +130,10 @@ export class WebsocketsGateway
   }
 
   /**
-   * Subscribe to project updates
+   * Subscribe to updates of a project the authenticated user owns
    */
   @SubscribeMessage('subscribe:project')
-  handleSubscribeProject(
+  async handleSubscribeProject(
     @ConnectedSocket() client: AuthenticatedSocket,
     @MessageBody() data: { projectId: string },
   ) {
@@ -134,14 +141,14 @@ export class WebsocketsGateway
       return { success: false, error: 'Not authenticated' };
     }
 
-    client.projectId = data.projectId;
-    client.join(`project:${data.projectId}`);
-
-    // Track subscription
-    if (!this.projectSubscriptions.has(data.projectId)) {
-      this.projectSubscriptions.set(data.projectId, new Set());
+    if (!(await this.ownsProject(client.userId, data.projectId))) {
+      this.logger.warn(
+        `Client ${client.id} denied subscription to project ${data.projectId} it does not own`,
+      );
+      return { success: false, error: 'Project not found' };
     }
-    this.projectSubscriptions.get(data.projectId)!.add(client.id);
+
+    this.trackProjectSubscription(client, data.projectId);
 
     this.logger.log(
       `Client ${client.id} subscribed to project ${data.projectId}`,
@@ -352,6 +359,17 @@ export class WebsocketsGateway
     });
   }
 
+  /**
+   * Emit a file written by the coder while generation streams in
+   */
+  emitFileGenerated(payload: FileGeneratedPayload) {
+    this.server.to(`project:${payload.projectId}`).emit(WebSocketEvent.FILE_GENERATED, {
+      event: WebSocketEvent.FILE_GENERATED,
+      data: payload,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   /**
    * Emit error to a specific user
    */
@@ -385,6 +403,35 @@ export class WebsocketsGateway
     }
   }
 
+  /**
+   * Whether a user owns a project that has not been deleted
+   */
+  private async ownsProject(userId: string, projectId: unknown): Promise<boolean> {
+    if (typeof projectId !== 'string' || !isUUID(projectId) || !isUUID(userId)) {
+      return false;
+    }
+
+    const project = await this.prisma.project.findFirst({
+      where: { id: projectId, userId, deletedAt: null },
+      select: { id: true },
+    });
+
+    return project !== null;
+  }
+
+  /**
+   * Join a client to a project's room and track the subscription
+   */
+  private trackProjectSubscription(client: AuthenticatedSocket, projectId: string) {
+    client.projectId = projectId;
+    client.join(`project:${projectId}`);
+
+    if (!this.projectSubscriptions.has(projectId)) {
+      this.projectSubscriptions.set(projectId, new Set());
+    }
+    this.projectSubscriptions.get(projectId)!.add(client.id);
+  }
+
   /**
    * Start heartbeat for a client
    */
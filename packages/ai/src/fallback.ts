@@ -0,0 +1,149 @@
+import { type LanguageModelV1, type LanguageModelV1CallOptions } from 'ai';
+
+import { getLanguageModel, isProviderConfigured } from './providers';
+import { DEFAULT_MODEL_CONFIGS, type AIModelConfig, type AIProvider } from './types';
+
+/**
+ * Called when a model in a fallback chain fails and the next one is tried
+ */
+export type FallbackHandler = (failed: AIModelConfig, error: unknown, next: AIModelConfig) => void;
+
+/**
+ * Fallback model options
+ */
+export interface FallbackModelOptions {
+  onFallback?: FallbackHandler;
+}
+
+/**
+ * Parse a `provider/model` reference, e.g. `anthropic/claude-3-5-sonnet-latest`
+ *
+ * A bare provider name selects that provider's default model.
+ *
+ * @throws When the provider is unknown
+ */
+export function parseModelReference(reference: string): Pick<AIModelConfig, 'provider' | 'model'> {
+  const trimmed = reference.trim();
+  const separator = trimmed.indexOf('/');
+  const provider = (separator === -1 ? trimmed : trimmed.slice(0, separator)) as AIProvider;
+
+  if (!(provider in DEFAULT_MODEL_CONFIGS)) {
+    throw new Error(`Unknown AI provider in model reference: ${reference}`);
+  }
+
+  const model = separator === -1 ? '' : trimmed.slice(separator + 1);
+  return { provider, model: model || DEFAULT_MODEL_CONFIGS[provider].model };
+}
+
+/**
+ * Order a primary model and its fallbacks into the chain that is tried
+ *
+ * Duplicates are dropped, as are models whose provider has no API key.
+ * When no model is left the primary is kept, so the call fails with the
+ * provider's own error rather than silently doing nothing.
+ */
+export function buildModelChain(
+  primary: AIModelConfig,
+  fallbacks: AIModelConfig[] = []
+): AIModelConfig[] {
+  const chain: AIModelConfig[] = [];
+
+  for (const config of [primary, ...fallbacks]) {
+    const duplicate = chain.some(
+      (existing) => existing.provider === config.provider && existing.model === config.model
+    );
+    if (!duplicate && isProviderConfigured(config.provider)) {
+      chain.push(config);
+    }
+  }
+
+  return chain.length > 0 ? chain : [primary];
+}
+
+/**
+ * Whether an error means the call was cancelled rather than failed
+ */
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError');
+}
+
+/**
+ * Language model that tries a chain of models in order
+ *
+ * When a model's call fails (provider outage, rate limit, missing key,
+ * unknown model) the same call goes to the next model in the chain; the
+ * error of the last model is thrown. Only failures of the call itself
+ * move on: output that fails validation is the caller's to retry, and a
+ * stream that breaks after it started is not restarted.
+ *
+ * Create one per call and read `servedBy` afterwards to learn which
+ * model answered.
+ */
+export class FallbackLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'fallback';
+  readonly modelId: string;
+  readonly defaultObjectGenerationMode: LanguageModelV1['defaultObjectGenerationMode'];
+  readonly supportsStructuredOutputs: boolean;
+  readonly supportsImageUrls: boolean;
+
+  /** Model that served the last successful call */
+  servedBy?: AIModelConfig;
+
+  private readonly models: LanguageModelV1[];
+
+  constructor(
+    readonly configs: AIModelConfig[],
+    private readonly options: FallbackModelOptions = {}
+  ) {
+    if (configs.length === 0) {
+      throw new Error('A fallback model needs at least one model');
+    }
+
+    this.models = configs.map((config) => getLanguageModel(config) as LanguageModelV1);
+    this.modelId = configs.map((config) => `${config.provider}/${config.model}`).join(',');
+
+    // The object generation mode is fixed before the call, so it has to
+    // work for every model that may end up serving it
+    const modes = new Set(this.models.map((model) => model.defaultObjectGenerationMode));
+    this.defaultObjectGenerationMode = modes.size === 1 ? [...modes][0] : 'tool';
+    this.supportsStructuredOutputs = this.models.every((model) => model.supportsStructuredOutputs);
+    this.supportsImageUrls = this.models.every((model) => model.supportsImageUrls !== false);
+  }
+
+  /**
+   * The first model of the chain, the one calls are meant for
+   */
+  get requested(): AIModelConfig {
+    return this.configs[0]!;
+  }
+
+  doGenerate(
+    options: LanguageModelV1CallOptions
+  ): ReturnType<LanguageModelV1['doGenerate']> {
+    return this.run((model) => model.doGenerate(options));
+  }
+
+  doStream(options: LanguageModelV1CallOptions): ReturnType<LanguageModelV1['doStream']> {
+    return this.run((model) => model.doStream(options));
+  }
+
+  private async run<T>(call: (model: LanguageModelV1) => PromiseLike<T>): Promise<T> {
+    for (const [index, config] of this.configs.entries()) {
+      try {
+        const result = await call(this.models[index]!);
+        this.servedBy = config;
+        return result;
+      } catch (error) {
+        const next = this.configs[index + 1];
+        if (!next || isAbortError(error)) {
+          throw error;
+        }
+        this.options.onFallback?.(config, error, next);
+      }
+    }
+
+    // Unreachable: the last model's error is thrown above
+    throw new Error('No model in the fallback chain');
+  }
+}
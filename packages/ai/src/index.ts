@@ -2,7 +2,10 @@
 // Unified AI provider integrations
 
 export * from './providers';
+export * from './mock';
+export * from './fallback';
 export * from './types';
+export * from './pricing';
 export * from './services';
 
 export const AI_VERSION = '0.1.0';
@@ -0,0 +1,229 @@
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { generateText, streamText, type LanguageModelV1CallOptions } from 'ai';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  MockFixtureNotFoundError,
+  MockLanguageModel,
+  hashPrompt,
+  parseMockMode,
+  type MockFixture,
+} from './mock';
+import { createMockProvider } from './providers';
+
+function callOptions(text: string): LanguageModelV1CallOptions {
+  return {
+    inputFormat: 'prompt',
+    mode: { type: 'regular' },
+    prompt: [{ role: 'user', content: [{ type: 'text', text }] }],
+  };
+}
+
+describe('parseMockMode', () => {
+  it('accepts every mode', () => {
+    expect(parseMockMode('replay')).toBe('replay');
+    expect(parseMockMode('record')).toBe('record');
+    expect(parseMockMode(' scripted ')).toBe('scripted');
+  });
+
+  it('rejects unknown values', () => {
+    expect(() => parseMockMode('true')).toThrow(
+      'AI_MOCK_MODE must be one of replay, record, scripted'
+    );
+  });
+});
+
+describe('createMockProvider', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('rejects an invalid AI_MOCK_MODE', () => {
+    process.env.AI_MOCK_MODE = 'replay-only';
+    expect(() => createMockProvider()).toThrow('AI_MOCK_MODE must be one of');
+  });
+
+  it('rejects a record provider that is not a real provider', () => {
+    process.env.AI_MOCK_MODE = 'record';
+    process.env.AI_MOCK_RECORD_PROVIDER = 'mock';
+    expect(() => createMockProvider()).toThrow('AI_MOCK_RECORD_PROVIDER must be a real provider');
+  });
+
+  it('defaults to replay', async () => {
+    delete process.env.AI_MOCK_MODE;
+    const model = createMockProvider({ fixturesDir: '/nonexistent', responses: ['scripted'] })(
+      'test-model'
+    );
+
+    const { text } = await generateText({ model, prompt: 'hello' });
+    expect(text).toBe('scripted');
+  });
+});
+
+describe('hashPrompt', () => {
+  it('depends on the prompt and response format only', () => {
+    const base = callOptions('Build a todo app');
+
+    expect(hashPrompt({ ...base })).toBe(hashPrompt(base));
+    expect(hashPrompt(callOptions('Build a blog'))).not.toBe(hashPrompt(base));
+    expect(hashPrompt({ ...base, mode: { type: 'object-json' } })).not.toBe(hashPrompt(base));
+  });
+});
+
+describe('MockLanguageModel', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'nexusgen-mock-'));
+  });
+
+  afterEach(async () => {
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  describe('scripted mode', () => {
+    it('serves the first response whose match the prompt satisfies', async () => {
+      const model = new MockLanguageModel('test-model', {
+        mode: 'scripted',
+        fixturesDir,
+        responses: [
+          { match: 'architect', text: 'spec' },
+          { match: /coder/i, text: 'code' },
+          'fallback',
+        ],
+      });
+
+      expect((await model.doGenerate(callOptions('You are the Coder'))).text).toBe('code');
+      expect((await model.doGenerate(callOptions('the architect speaks'))).text).toBe('spec');
+      expect((await model.doGenerate(callOptions('anything else'))).text).toBe('fallback');
+    });
+
+    it('estimates usage when a response has none', async () => {
+      const model = new MockLanguageModel('test-model', {
+        mode: 'scripted',
+        fixturesDir,
+        responses: ['12345678'],
+      });
+
+      const { usage } = await model.doGenerate(callOptions('abcd'));
+      expect(usage.completionTokens).toBe(2);
+      expect(usage.promptTokens).toBeGreaterThan(0);
+    });
+
+    it('reads scripted.json from the fixtures directory', async () => {
+      await writeFile(
+        join(fixturesDir, 'scripted.json'),
+        JSON.stringify([{ match: 'todo', text: 'from file' }])
+      );
+      const model = new MockLanguageModel('test-model', { mode: 'scripted', fixturesDir });
+
+      expect((await model.doGenerate(callOptions('a todo app'))).text).toBe('from file');
+    });
+
+    it('throws when nothing matches', async () => {
+      const model = new MockLanguageModel('test-model', {
+        mode: 'scripted',
+        fixturesDir,
+        responses: [{ match: 'never', text: 'unused' }],
+      });
+
+      await expect(model.doGenerate(callOptions('prompt'))).rejects.toBeInstanceOf(
+        MockFixtureNotFoundError
+      );
+    });
+  });
+
+  describe('record and replay', () => {
+    it('records the wrapped model and replays the fixture without it', async () => {
+      const recordModel = new MockLanguageModel('real-model', {
+        mode: 'scripted',
+        fixturesDir: join(fixturesDir, 'unused'),
+        responses: [{ text: 'recorded answer', usage: { promptTokens: 7, completionTokens: 3 } }],
+      });
+      const recorder = new MockLanguageModel('test-model', {
+        mode: 'record',
+        fixturesDir,
+        recordModel,
+      });
+
+      const recorded = await recorder.doGenerate(callOptions('Build a todo app'));
+      expect(recorded.text).toBe('recorded answer');
+
+      const [file] = await readdir(fixturesDir);
+      const fixture = JSON.parse(await readFile(join(fixturesDir, file!), 'utf-8')) as MockFixture;
+      expect(fixture).toMatchObject({
+        hash: hashPrompt(callOptions('Build a todo app')),
+        modelId: 'mock:real-model',
+        text: 'recorded answer',
+        usage: { promptTokens: 7, completionTokens: 3 },
+      });
+
+      const replayer = new MockLanguageModel('test-model', { mode: 'replay', fixturesDir });
+      const replayed = await replayer.doGenerate(callOptions('Build a todo app'));
+      expect(replayed.text).toBe('recorded answer');
+      expect(replayed.usage).toEqual({ promptTokens: 7, completionTokens: 3 });
+    });
+
+    it('falls back to scripted responses in replay mode', async () => {
+      const model = new MockLanguageModel('test-model', {
+        mode: 'replay',
+        fixturesDir,
+        responses: ['scripted'],
+      });
+
+      expect((await model.doGenerate(callOptions('unrecorded'))).text).toBe('scripted');
+    });
+
+    it('ignores recorded fixtures in scripted mode', async () => {
+      const options = callOptions('Build a todo app');
+      const fixture: MockFixture = {
+        hash: hashPrompt(options),
+        modelId: 'openai:gpt-4o',
+        recordedAt: new Date(0).toISOString(),
+        prompt: 'Build a todo app',
+        text: 'recorded',
+        finishReason: 'stop',
+        usage: { promptTokens: 1, completionTokens: 1 },
+      };
+      await writeFile(join(fixturesDir, `${fixture.hash}.json`), JSON.stringify(fixture));
+
+      const model = new MockLanguageModel('test-model', {
+        mode: 'scripted',
+        fixturesDir,
+        responses: ['scripted'],
+      });
+
+      expect((await model.doGenerate(options)).text).toBe('scripted');
+    });
+
+    it('requires a record model in record mode', async () => {
+      const model = new MockLanguageModel('test-model', { mode: 'record', fixturesDir });
+
+      await expect(model.doGenerate(callOptions('prompt'))).rejects.toThrow(
+        'no record model is configured'
+      );
+    });
+  });
+
+  it('streams the response in several deltas', async () => {
+    const model = new MockLanguageModel('test-model', {
+      mode: 'scripted',
+      fixturesDir,
+      responses: ['a response long enough to be split into several deltas'],
+    });
+
+    const result = streamText({ model, prompt: 'stream it' });
+    const deltas: string[] = [];
+    for await (const delta of result.textStream) {
+      deltas.push(delta);
+    }
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe('a response long enough to be split into several deltas');
+  });
+});
@@ -0,0 +1,312 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+import {
+  simulateReadableStream,
+  type LanguageModelV1,
+  type LanguageModelV1CallOptions,
+  type LanguageModelV1Prompt,
+  type LanguageModelV1StreamPart,
+} from 'ai';
+
+/**
+ * Mock provider operating modes
+ *
+ * - `replay`: serve recorded fixtures, falling back to scripted responses
+ * - `record`: call the wrapped real model and persist its responses as fixtures
+ * - `scripted`: serve scripted responses only, ignoring recorded fixtures
+ */
+export type MockMode = 'replay' | 'record' | 'scripted';
+
+/**
+ * Every mock provider mode
+ */
+export const MOCK_MODES: readonly MockMode[] = ['replay', 'record', 'scripted'];
+
+/**
+ * Parse a mock mode setting such as AI_MOCK_MODE
+ *
+ * @param setting - Name of the setting, for the error message
+ * @throws Error for a value that is not a mock mode
+ */
+export function parseMockMode(value: string, setting = 'AI_MOCK_MODE'): MockMode {
+  const mode = MOCK_MODES.find((candidate) => candidate === value.trim());
+  if (!mode) {
+    throw new Error(`${setting} must be one of ${MOCK_MODES.join(', ')}; got "${value}"`);
+  }
+  return mode;
+}
+
+/**
+ * A scripted mock response
+ *
+ * Entries are checked in order; the first whose `match` is satisfied by the
+ * flattened prompt text wins. Entries without `match` always match.
+ */
+export interface MockScriptedResponse {
+  match?: string | RegExp;
+  text: string;
+  usage?: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * A recorded fixture as stored on disk
+ */
+export interface MockFixture {
+  hash: string;
+  modelId: string;
+  recordedAt: string;
+  prompt: string;
+  text: string;
+  finishReason: string;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+  };
+}
+
+/**
+ * Mock provider options
+ */
+export interface MockProviderOptions {
+  mode: MockMode;
+  /** Directory where fixtures are read from and recorded to */
+  fixturesDir: string;
+  /**
+   * Scripted responses used in `scripted` mode and as a replay fallback.
+   * When omitted, `scripted.json` in the fixtures directory is used if present.
+   */
+  responses?: Array<string | MockScriptedResponse>;
+  /** Real model whose responses are captured in `record` mode */
+  recordModel?: LanguageModelV1;
+}
+
+type MockGenerateResult = Awaited<ReturnType<LanguageModelV1['doGenerate']>>;
+
+/**
+ * Error thrown when no fixture or scripted response matches a prompt
+ */
+export class MockFixtureNotFoundError extends Error {
+  constructor(
+    public readonly hash: string,
+    public readonly fixturesDir: string
+  ) {
+    super(
+      `No mock fixture found for prompt hash ${hash} in ${fixturesDir}. ` +
+        'Run with AI_MOCK_MODE=record to capture it from a real provider.'
+    );
+    this.name = 'MockFixtureNotFoundError';
+  }
+}
+
+/**
+ * Flatten a language model prompt into plain text
+ */
+export function flattenPrompt(prompt: LanguageModelV1Prompt): string {
+  return prompt
+    .map((message) => {
+      if (message.role === 'system') {
+        return `[system]\n${message.content}`;
+      }
+
+      const parts = message.content.map((part) => {
+        switch (part.type) {
+          case 'text':
+            return part.text;
+          case 'tool-call':
+            return JSON.stringify(part.args);
+          case 'tool-result':
+            return JSON.stringify(part.result);
+          default:
+            return `<${part.type}>`;
+        }
+      });
+
+      return `[${message.role}]\n${parts.join('\n')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Compute the fixture key for a prompt
+ *
+ * Only the prompt text and the requested response format are hashed, so
+ * fixtures survive changes to sampling settings such as temperature.
+ */
+export function hashPrompt(options: Pick<LanguageModelV1CallOptions, 'prompt' | 'mode'>): string {
+  const hash = createHash('sha256');
+  hash.update(flattenPrompt(options.prompt));
+  hash.update(options.mode.type);
+  return hash.digest('hex').slice(0, 32);
+}
+
+/**
+ * Rough token estimate used when a response carries no usage information
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Language model that serves recorded or scripted responses
+ */
+export class MockLanguageModel implements LanguageModelV1 {
+  readonly specificationVersion = 'v1' as const;
+  readonly provider = 'mock';
+  readonly defaultObjectGenerationMode = 'json' as const;
+
+  constructor(
+    readonly modelId: string,
+    private readonly options: MockProviderOptions
+  ) {}
+
+  async doGenerate(options: LanguageModelV1CallOptions): Promise<MockGenerateResult> {
+    const hash = hashPrompt(options);
+    const promptText = flattenPrompt(options.prompt);
+
+    if (this.options.mode === 'record') {
+      return this.record(hash, promptText, options);
+    }
+
+    if (this.options.mode === 'replay') {
+      const fixture = await this.loadFixture(hash);
+      if (fixture) {
+        return this.toResult(fixture.text, fixture.usage, options.prompt);
+      }
+    }
+
+    const scripted = await this.findScriptedResponse(promptText);
+    if (!scripted) {
+      throw new MockFixtureNotFoundError(hash, this.options.fixturesDir);
+    }
+
+    return this.toResult(
+      scripted.text,
+      scripted.usage ?? {
+        promptTokens: estimateTokens(promptText),
+        completionTokens: estimateTokens(scripted.text),
+      },
+      options.prompt
+    );
+  }
+
+  async doStream(
+    options: LanguageModelV1CallOptions
+  ): Promise<Awaited<ReturnType<LanguageModelV1['doStream']>>> {
+    const result = await this.doGenerate(options);
+    const text = result.text ?? '';
+
+    // Split into a few deltas so consumers exercise their streaming paths
+    const chunkSize = Math.max(1, Math.ceil(text.length / 8));
+    const chunks: LanguageModelV1StreamPart[] = [];
+    for (let offset = 0; offset < text.length; offset += chunkSize) {
+      chunks.push({ type: 'text-delta', textDelta: text.slice(offset, offset + chunkSize) });
+    }
+    chunks.push({ type: 'finish', finishReason: result.finishReason, usage: result.usage });
+
+    return {
+      stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }),
+      rawCall: result.rawCall,
+    };
+  }
+
+  /**
+   * Call the wrapped real model and persist its response as a fixture
+   */
+  private async record(
+    hash: string,
+    promptText: string,
+    options: LanguageModelV1CallOptions
+  ): Promise<MockGenerateResult> {
+    const { recordModel } = this.options;
+    if (!recordModel) {
+      throw new Error('Mock provider is in record mode but no record model is configured');
+    }
+
+    const result = await recordModel.doGenerate(options);
+    const fixture: MockFixture = {
+      hash,
+      modelId: `${recordModel.provider}:${recordModel.modelId}`,
+      recordedAt: new Date().toISOString(),
+      prompt: promptText,
+      text: result.text ?? '',
+      finishReason: result.finishReason,
+      usage: result.usage,
+    };
+
+    await mkdir(this.options.fixturesDir, { recursive: true });
+    await writeFile(this.getFixturePath(hash), JSON.stringify(fixture, null, 2), 'utf-8');
+
+    return result;
+  }
+
+  /**
+   * Load a recorded fixture, returning null if none exists
+   */
+  private async loadFixture(hash: string): Promise<MockFixture | null> {
+    try {
+      const raw = await readFile(this.getFixturePath(hash), 'utf-8');
+      return JSON.parse(raw) as MockFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async findScriptedResponse(
+    promptText: string
+  ): Promise<MockScriptedResponse | undefined> {
+    const responses = this.options.responses ?? (await this.loadScriptedFile());
+
+    for (const entry of responses) {
+      const response = typeof entry === 'string' ? { text: entry } : entry;
+      const { match } = response;
+
+      if (
+        match === undefined ||
+        (typeof match === 'string' ? promptText.includes(match) : match.test(promptText))
+      ) {
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Load scripted responses from `scripted.json` in the fixtures directory
+   */
+  private async loadScriptedFile(): Promise<Array<string | MockScriptedResponse>> {
+    try {
+      const raw = await readFile(join(this.options.fixturesDir, 'scripted.json'), 'utf-8');
+      return JSON.parse(raw) as Array<string | MockScriptedResponse>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  private getFixturePath(hash: string): string {
+    return join(this.options.fixturesDir, `${hash}.json`);
+  }
+
+  private toResult(
+    text: string,
+    usage: MockFixture['usage'],
+    prompt: LanguageModelV1Prompt
+  ): MockGenerateResult {
+    return {
+      text,
+      finishReason: 'stop',
+      usage,
+      rawCall: { rawPrompt: prompt, rawSettings: {} },
+    };
+  }
+}
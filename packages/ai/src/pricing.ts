@@ -0,0 +1,72 @@
+import { type AIProvider, AVAILABLE_MODELS } from './types';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for every model in AVAILABLE_MODELS
+ *
+ * Keyed by the same model ids, so adding a model without a price fails
+ * the type check.
+ */
+export const MODEL_PRICING: {
+  [P in AIProvider]: Record<(typeof AVAILABLE_MODELS)[P][number], ModelPricing>;
+} = {
+  openai: {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4-turbo': { input: 10, output: 30 },
+    'gpt-4': { input: 30, output: 60 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'o1-preview': { input: 15, output: 60 },
+    'o1-mini': { input: 3, output: 12 },
+  },
+  anthropic: {
+    'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+    'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+    'claude-3-opus-latest': { input: 15, output: 75 },
+    'claude-3-sonnet-20240229': { input: 3, output: 15 },
+    'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  },
+  google: {
+    'gemini-2.0-flash-exp': { input: 0, output: 0 },
+    'gemini-1.5-pro': { input: 1.25, output: 5 },
+    'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  },
+  // Self-hosted models have no list price
+  local: {},
+  mock: {
+    'mock-replay': { input: 0, output: 0 },
+  },
+};
+
+/**
+ * Look up the price of a model, if it is listed
+ */
+export function getModelPricing(provider: AIProvider, model: string): ModelPricing | undefined {
+  return (MODEL_PRICING[provider] as Record<string, ModelPricing>)[model];
+}
+
+/**
+ * Cost of a model call in USD
+ *
+ * Models without a price entry are reported as free; use
+ * getModelPricing to tell the two apart.
+ */
+export function calculateCost(
+  provider: AIProvider,
+  model: string,
+  usage: { promptTokens: number; completionTokens: number }
+): number {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) {
+    return 0;
+  }
+
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
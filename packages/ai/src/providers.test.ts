@@ -0,0 +1,167 @@
+import { createServer, type IncomingMessage, type Server } from 'http';
+import type { AddressInfo } from 'net';
+
+import { generateText } from 'ai';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { getLanguageModel, listLocalModels } from './providers';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage['headers'];
+  body: unknown;
+}
+
+/**
+ * An OpenAI-compatible server serving `/v1/models` and `/v1/chat/completions`
+ */
+async function startStubServer(): Promise<{
+  server: Server;
+  baseURL: string;
+  requests: RecordedRequest[];
+}> {
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      requests.push({
+        method: req.method,
+        url: req.url,
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'GET' && req.url === '/v1/models') {
+        res.end(
+          JSON.stringify({
+            object: 'list',
+            data: [
+              { id: 'qwen2.5-coder:14b', object: 'model' },
+              { id: 'llama3.1:8b', object: 'model' },
+              { object: 'model' },
+            ],
+          })
+        );
+        return;
+      }
+
+      if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+        res.end(
+          JSON.stringify({
+            id: 'chatcmpl-1',
+            object: 'chat.completion',
+            created: 0,
+            model: 'qwen2.5-coder:14b',
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: 'Hello from the local server' },
+                finish_reason: 'stop',
+              },
+            ],
+            usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 },
+          })
+        );
+        return;
+      }
+
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: { message: 'not found' } }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return { server, baseURL: `http://127.0.0.1:${port}/v1`, requests };
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve, reject) =>
+    server.close((error) => (error ? reject(error) : resolve()))
+  );
+}
+
+describe('local provider', () => {
+  const env = { ...process.env };
+  let stub: Awaited<ReturnType<typeof startStubServer>>;
+
+  beforeEach(async () => {
+    delete process.env.LOCAL_AI_BASE_URL;
+    delete process.env.LOCAL_AI_API_KEY;
+    delete process.env.LOCAL_AI_HEADERS;
+    stub = await startStubServer();
+  });
+
+  afterEach(async () => {
+    process.env = { ...env };
+    if (stub.server.listening) {
+      await close(stub.server);
+    }
+  });
+
+  it('lists the models the server serves', async () => {
+    process.env.LOCAL_AI_API_KEY = 'secret';
+    process.env.LOCAL_AI_HEADERS = JSON.stringify({ 'X-Team': 'nexusgen' });
+
+    await expect(listLocalModels({ baseURL: `${stub.baseURL}/` })).resolves.toEqual([
+      'qwen2.5-coder:14b',
+      'llama3.1:8b',
+    ]);
+    expect(stub.requests[0]).toMatchObject({
+      method: 'GET',
+      url: '/v1/models',
+      headers: { authorization: 'Bearer secret', 'x-team': 'nexusgen' },
+    });
+  });
+
+  it('generates with the routed model from LOCAL_AI_BASE_URL', async () => {
+    process.env.LOCAL_AI_BASE_URL = stub.baseURL;
+    const model = getLanguageModel({ provider: 'local', model: 'qwen2.5-coder:14b' });
+
+    const { text, usage } = await generateText({ model, prompt: 'Say hello', maxRetries: 0 });
+
+    expect(text).toBe('Hello from the local server');
+    expect(usage).toMatchObject({ promptTokens: 12, completionTokens: 5 });
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/v1/chat/completions',
+      headers: { authorization: 'Bearer local' },
+      body: {
+        model: 'qwen2.5-coder:14b',
+        messages: [{ role: 'user', content: 'Say hello' }],
+      },
+    });
+  });
+
+  it('reports HTTP errors from the model list', async () => {
+    await expect(listLocalModels({ baseURL: `${stub.baseURL}/missing` })).rejects.toThrow(
+      `Listing models at ${stub.baseURL}/missing failed with HTTP 404`
+    );
+  });
+
+  it('fails when the server is unreachable', async () => {
+    await close(stub.server);
+    const model = getLanguageModel({
+      provider: 'local',
+      model: 'qwen2.5-coder:14b',
+      baseURL: stub.baseURL,
+    });
+
+    await expect(listLocalModels({ baseURL: stub.baseURL })).rejects.toThrow('fetch failed');
+    await expect(generateText({ model, prompt: 'Say hello', maxRetries: 0 })).rejects.toThrow(
+      'Cannot connect to API'
+    );
+  });
+
+  it('requires a base URL', () => {
+    expect(() => getLanguageModel({ provider: 'local', model: 'qwen2.5-coder:14b' })).toThrow(
+      'Local AI provider has no base URL. Set LOCAL_AI_BASE_URL.'
+    );
+  });
+});
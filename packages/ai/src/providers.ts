@@ -1,9 +1,15 @@
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { type LanguageModel } from 'ai';
+import { type LanguageModel, type LanguageModelV1 } from 'ai';
 
-import { type AIProvider, type AIModelConfig } from './types';
+import { MockLanguageModel, parseMockMode, type MockProviderOptions } from './mock';
+import {
+  DEFAULT_MODEL_CONFIGS,
+  TEXT_ONLY_MODELS,
+  type AIProvider,
+  type AIModelConfig,
+} from './types';
 
 /**
  * Create an OpenAI provider instance
@@ -32,6 +38,118 @@ export function createGoogleProvider(apiKey?: string) {
   });
 }
 
+/**
+ * Options for a provider targeting an OpenAI-compatible server
+ */
+export interface LocalProviderOptions {
+  /** Base URL including the API version, e.g. `http://localhost:11434/v1` */
+  baseURL?: string;
+  apiKey?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Resolve local provider options against LOCAL_AI_BASE_URL,
+ * LOCAL_AI_API_KEY and LOCAL_AI_HEADERS (a JSON object)
+ *
+ * @throws When no base URL is configured or LOCAL_AI_HEADERS is not a JSON object
+ */
+function resolveLocalProviderOptions(
+  options: LocalProviderOptions
+): Required<LocalProviderOptions> {
+  const baseURL = options.baseURL ?? process.env.LOCAL_AI_BASE_URL;
+  if (!baseURL) {
+    throw new Error('Local AI provider has no base URL. Set LOCAL_AI_BASE_URL.');
+  }
+
+  let envHeaders: Record<string, string> = {};
+  if (process.env.LOCAL_AI_HEADERS) {
+    const parsed: unknown = JSON.parse(process.env.LOCAL_AI_HEADERS);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('LOCAL_AI_HEADERS must be a JSON object of header names to values');
+    }
+    envHeaders = Object.fromEntries(
+      Object.entries(parsed).map(([name, value]) => [name, String(value)])
+    );
+  }
+
+  return {
+    baseURL: baseURL.replace(/\/+$/, ''),
+    // Most local servers ignore the key, but the client needs one to send
+    apiKey: options.apiKey ?? process.env.LOCAL_AI_API_KEY ?? 'local',
+    headers: { ...envHeaders, ...options.headers },
+  };
+}
+
+/**
+ * Create a provider for an OpenAI-compatible server (Ollama, llama.cpp, vLLM, ...)
+ */
+export function createLocalProvider(options: LocalProviderOptions = {}) {
+  const { baseURL, apiKey, headers } = resolveLocalProviderOptions(options);
+
+  return createOpenAI({
+    name: 'local',
+    baseURL,
+    apiKey,
+    headers,
+    compatibility: 'compatible',
+  });
+}
+
+/**
+ * List the models an OpenAI-compatible server serves, from its `/models` endpoint
+ *
+ * @param signal - Aborts the request, e.g. `AbortSignal.timeout(5000)`
+ * @throws When the server cannot be reached or answers with an error
+ */
+export async function listLocalModels(
+  options: LocalProviderOptions = {},
+  signal?: AbortSignal
+): Promise<string[]> {
+  const { baseURL, apiKey, headers } = resolveLocalProviderOptions(options);
+
+  const response = await fetch(`${baseURL}/models`, {
+    headers: { Authorization: `Bearer ${apiKey}`, ...headers },
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Listing models at ${baseURL} failed with HTTP ${response.status}`);
+  }
+
+  const body = (await response.json()) as { data?: { id?: unknown }[] };
+  return (body.data ?? [])
+    .map((entry) => entry.id)
+    .filter((id): id is string => typeof id === 'string');
+}
+
+/**
+ * Create a mock provider instance
+ *
+ * Defaults are read from AI_MOCK_MODE, AI_MOCK_FIXTURES_DIR,
+ * AI_MOCK_RECORD_PROVIDER and AI_MOCK_RECORD_MODEL.
+ */
+export function createMockProvider(options: Partial<MockProviderOptions> = {}) {
+  const mode =
+    options.mode ?? (process.env.AI_MOCK_MODE ? parseMockMode(process.env.AI_MOCK_MODE) : 'replay');
+  const fixturesDir =
+    options.fixturesDir ?? process.env.AI_MOCK_FIXTURES_DIR ?? `${process.cwd()}/fixtures/ai`;
+
+  let recordModel = options.recordModel;
+  if (mode === 'record' && !recordModel) {
+    const recordProvider = (process.env.AI_MOCK_RECORD_PROVIDER ?? 'openai') as AIProvider;
+    if (recordProvider === 'mock' || !(recordProvider in DEFAULT_MODEL_CONFIGS)) {
+      throw new Error(`AI_MOCK_RECORD_PROVIDER must be a real provider; got "${recordProvider}"`);
+    }
+    recordModel = getLanguageModel({
+      provider: recordProvider,
+      model: process.env.AI_MOCK_RECORD_MODEL ?? DEFAULT_MODEL_CONFIGS[recordProvider].model,
+    }) as LanguageModelV1;
+  }
+
+  return (modelId: string) =>
+    new MockLanguageModel(modelId, { ...options, mode, fixturesDir, recordModel });
+}
+
 /**
  * Get a language model from configuration
  */
@@ -51,13 +169,34 @@ export function getLanguageModel(config: AIModelConfig): LanguageModel {
       const google = createGoogleProvider();
       return google(model);
     }
+    case 'local': {
+      const local = createLocalProvider({ baseURL: config.baseURL, headers: config.headers });
+      // Request JSON-schema responses; generateObject would otherwise fall
+      // back to tool calls, which fewer local servers and models support
+      return local.chat(model, { structuredOutputs: true });
+    }
+    case 'mock': {
+      const mock = createMockProvider();
+      return mock(model);
+    }
     default:
       throw new Error(`Unsupported provider: ${provider}`);
   }
 }
 
 /**
- * Check if a provider API key is configured
+ * Check if a model accepts image parts in its prompt
+ */
+export function supportsImageInput(config: Pick<AIModelConfig, 'provider' | 'model'>): boolean {
+  if (config.provider === 'local') {
+    return false;
+  }
+  const textOnly: readonly string[] = TEXT_ONLY_MODELS[config.provider] ?? [];
+  return !textOnly.includes(config.model);
+}
+
+/**
+ * Check if a provider is configured: an API key, or a base URL for `local`
  */
 export function isProviderConfigured(provider: AIProvider): boolean {
   switch (provider) {
@@ -67,6 +206,11 @@ export function isProviderConfigured(provider: AIProvider): boolean {
       return !!process.env.ANTHROPIC_API_KEY;
     case 'google':
       return !!process.env.GOOGLE_AI_API_KEY;
+    case 'local':
+      return !!process.env.LOCAL_AI_BASE_URL;
+    case 'mock':
+      // Opt-in only, so the mock never ends up in a fallback chain by accident
+      return !!process.env.AI_MOCK_MODE;
     default:
       return false;
   }
@@ -76,6 +220,6 @@ export function isProviderConfigured(provider: AIProvider): boolean {
  * Get all configured providers
  */
 export function getConfiguredProviders(): AIProvider[] {
-  const providers: AIProvider[] = ['openai', 'anthropic', 'google'];
+  const providers: AIProvider[] = ['openai', 'anthropic', 'google', 'local', 'mock'];
   return providers.filter(isProviderConfigured);
 }
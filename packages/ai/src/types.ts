@@ -2,8 +2,10 @@ import { type CoreMessage } from 'ai';
 
 /**
  * Supported AI providers
+ *
+ * `local` is any OpenAI-compatible server, e.g. Ollama, llama.cpp or vLLM.
  */
-export type AIProvider = 'openai' | 'anthropic' | 'google';
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'local' | 'mock';
 
 /**
  * AI model configuration
@@ -16,6 +18,10 @@ export interface AIModelConfig {
   topP?: number;
   frequencyPenalty?: number;
   presencePenalty?: number;
+  /** Server of the `local` provider, e.g. `http://localhost:11434/v1`; defaults to LOCAL_AI_BASE_URL */
+  baseURL?: string;
+  /** Extra request headers for the `local` provider, added to LOCAL_AI_HEADERS */
+  headers?: Record<string, string>;
 }
 
 /**
@@ -69,8 +75,29 @@ export const AVAILABLE_MODELS = {
     'claude-3-haiku-20240307',
   ],
   google: ['gemini-2.0-flash-exp', 'gemini-1.5-pro', 'gemini-1.5-flash'],
+  // Whatever the server has loaded; see listLocalModels
+  local: [],
+  mock: ['mock-replay'],
 } as const;
 
+/**
+ * Models in AVAILABLE_MODELS that take text only
+ *
+ * Any other model, including ones not listed in AVAILABLE_MODELS, is
+ * assumed to accept images. Models of the `local` provider are always
+ * treated as text-only: an OpenAI-compatible server does not say which of
+ * its models can see images.
+ */
+export const TEXT_ONLY_MODELS: {
+  [P in AIProvider]: readonly (typeof AVAILABLE_MODELS)[P][number][];
+} = {
+  openai: ['gpt-4', 'gpt-3.5-turbo', 'o1-preview', 'o1-mini'],
+  anthropic: [],
+  google: [],
+  local: [],
+  mock: [],
+};
+
 /**
  * The default AI provider used when no provider is explicitly configured
  */
@@ -98,6 +125,18 @@ export const DEFAULT_MODEL_CONFIGS: Record<AIProvider, AIModelConfig> = {
     temperature: 0.7,
     maxTokens: 4096,
   },
+  local: {
+    provider: 'local',
+    model: 'llama3.1',
+    temperature: 0.7,
+    maxTokens: 4096,
+  },
+  mock: {
+    provider: 'mock',
+    model: 'mock-replay',
+    temperature: 0.7,
+    maxTokens: 4096,
+  },
 };
 
 /**
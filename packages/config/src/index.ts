@@ -38,9 +38,19 @@ export const RATE_LIMIT_CONFIG = {
   windowMs: 60 * 1000, // 1 minute
   maxRequests: {
     free: 60,
+    starter: 120,
     pro: 300,
     enterprise: 1000,
   },
+  // Generation and deploy jobs a user may have queued or running at once
+  maxConcurrentJobs: {
+    free: { generation: 1, deploy: 1 },
+    starter: { generation: 2, deploy: 2 },
+    pro: { generation: 3, deploy: 5 },
+    enterprise: { generation: 10, deploy: 20 },
+  },
+  // Suggested wait before retrying a rate-limited job
+  jobRetryAfterSeconds: 60,
 } as const;
 
 // File upload limits
@@ -57,10 +67,8 @@ export const UPLOAD_LIMITS = {
     'text/plain',
     'text/markdown',
     'application/json',
-    'application/javascript',
     'text/typescript',
     'text/css',
-    'text/html',
   ],
 } as const;
 
@@ -318,3 +318,26 @@ export interface StreamEventData {
   progress?: number;
   error?: AgentError;
 }
+
+/** What a code review finding is about */
+export type ReviewFindingCategory = 'completeness' | 'security' | 'accessibility';
+
+/** How serious a code review finding is */
+export type ReviewFindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * What happens to a code review finding: `block` fails the generation,
+ * `fix` is sent back to the coder, `report` is attached to the result
+ */
+export type ReviewFindingAction = 'block' | 'fix' | 'report';
+
+/** Code review finding on generated files */
+export interface ReviewFinding {
+  category: ReviewFindingCategory;
+  severity: ReviewFindingSeverity;
+  action: ReviewFindingAction;
+  /** File the finding applies to, if any */
+  filePath?: string;
+  message: string;
+  suggestion?: string;
+}
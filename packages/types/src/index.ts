@@ -22,12 +22,15 @@ export type {
   ProjectJobResult,
   GenerationConfig,
   GenerationType,
+  CodebaseSource,
   GenerationJobData,
   GeneratedFile,
   GenerationJobResult,
   BuildJobData,
   BuildJobResult,
   DeploymentEnvironment,
+  DeploymentTargetKind,
+  DeploymentTargetSettings,
   DeployJobData,
   DeployJobResult,
   AITaskType,
@@ -43,6 +46,19 @@ export type {
   JobEvent,
 } from './queue';
 
+// Quota types
+export type {
+  QuotaTier,
+  QuotaResource,
+  QuotaLimits,
+  QuotaPlan,
+  QuotaUsageSource,
+  QuotaAllowance,
+  QuotaCheckResult,
+  QuotaErrorCode,
+  QuotaErrorBody,
+} from './quota';
+
 // User types
 export type {
   UserRole,
@@ -75,6 +91,12 @@ export type {
   ProjectCollaborator,
   Deployment,
   DeploymentSource,
+  SnapshotReason,
+  SnapshotFileEntry,
+  SnapshotManifest,
+  VersionBump,
+  VersionFileChange,
+  VersionDiff,
   BuildConfig,
   ProjectAnalytics,
   PageAnalytics,
@@ -123,6 +145,10 @@ export type {
   StreamEventType,
   StreamEvent,
   StreamEventData,
+  ReviewFindingCategory,
+  ReviewFindingSeverity,
+  ReviewFindingAction,
+  ReviewFinding,
 } from './agent';
 
 // API types
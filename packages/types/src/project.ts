@@ -2,6 +2,8 @@
  * Project-related types for NexusGen AI platform
  */
 
+import type { DeploymentTargetSettings } from './queue';
+
 /** Project visibility */
 export type ProjectVisibility = 'public' | 'private' | 'team';
 
@@ -68,6 +70,8 @@ export interface ProjectSettings {
   autoDeployEnabled: boolean;
   previewDeploymentsEnabled: boolean;
   productionBranch: string;
+  /** Where each environment is deployed to */
+  deploymentTargets?: DeploymentTargetSettings;
 }
 
 /** Project environment variables */
@@ -123,6 +127,40 @@ export interface DeploymentSource {
   pullRequestId?: string;
 }
 
+/** Why a sandbox snapshot was taken; `pre-restore` keeps the state a restore replaced */
+export type SnapshotReason = 'generation' | 'edit' | 'healing' | 'import' | 'pre-restore';
+
+/** A file in a sandbox snapshot; content is stored by hash */
+export interface SnapshotFileEntry {
+  path: string;
+  /** SHA-256 of the content */
+  hash: string;
+  size: number;
+}
+
+/** Contents of VersionSnapshot.snapshot, and of ProjectVersion.files */
+export interface SnapshotManifest {
+  files: SnapshotFileEntry[];
+}
+
+/** Part of a semantic version raised by a new project version */
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+/** A file that differs between two project versions */
+export interface VersionFileChange {
+  path: string;
+  status: 'added' | 'modified' | 'removed';
+  /** Unified diff; absent for binary and oversized files */
+  diff?: string;
+}
+
+/** Files that differ between two project versions */
+export interface VersionDiff {
+  from: { id: string; version: string };
+  to: { id: string; version: string };
+  changes: VersionFileChange[];
+}
+
 /** Build configuration */
 export interface BuildConfig {
   projectId: string;
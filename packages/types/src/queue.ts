@@ -4,6 +4,8 @@
  * Shared types for BullMQ job processing between web (producer) and worker (consumer)
  */
 
+import type { ReviewFinding } from './agent';
+
 // ============================================
 // Queue Names & Configuration
 // ============================================
@@ -110,7 +112,20 @@ export const QUEUE_CONFIGS: Record<QueueName, QueueConfiguration> = {
 /**
  * Project action types
  */
-export type ProjectAction = 'create' | 'update' | 'delete' | 'generate' | 'build' | 'deploy';
+export type ProjectAction =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'generate'
+  | 'build'
+  | 'deploy'
+  /** Reset the sandbox to a snapshot (payload.snapshotId) and rebuild */
+  | 'restore'
+  /**
+   * Make a version (payload.versionId) current and redeploy its files to
+   * payload.environment
+   */
+  | 'promote';
 
 /**
  * Project job data payload
@@ -188,7 +203,27 @@ export type GenerationType =
   | 'full-app'
   | 'refactor'
   | 'fix'
-  | 'documentation';
+  | 'documentation'
+  | 'import';
+
+/**
+ * Existing codebase an `import` generation starts from; the web app has
+ * already copied it into the project's sandbox
+ */
+export type CodebaseSource =
+  | {
+      type: 'git';
+      /** Repository URL or path, without credentials */
+      url: string;
+      branch?: string;
+      /** Commit the sandbox was cloned at */
+      commit?: string;
+    }
+  | {
+      type: 'archive';
+      /** Name the archive was uploaded under */
+      filename: string;
+    };
 
 /**
  * Generation job data payload
@@ -200,7 +235,7 @@ export interface GenerationJobData {
   projectId: string;
   /** User who initiated the generation */
   userId: string;
-  /** The prompt/description for generation */
+  /** The prompt/description for generation; optional notes on the codebase for `import` */
   prompt: string;
   /** Type of generation */
   type: GenerationType;
@@ -208,6 +243,8 @@ export interface GenerationJobData {
   assets?: string[];
   /** Generation configuration */
   config?: GenerationConfig;
+  /** Codebase the sandbox was seeded from, for `import` generations */
+  source?: CodebaseSource;
   /** Correlation ID for tracing */
   correlationId?: string;
   /** Priority (lower = higher priority) */
@@ -252,8 +289,12 @@ export interface GenerationJobResult {
     completionTokens: number;
     totalTokens: number;
   };
+  /** Cost of the generation's model calls in USD */
+  costUsd?: number;
   /** Model used for generation */
   modelUsed?: string;
+  /** Findings of the code review that did not block the generation */
+  reviewFindings?: ReviewFinding[];
   /** Processing duration in milliseconds */
   durationMs: number;
   /** Completion timestamp */
@@ -276,6 +317,8 @@ export interface BuildJobData {
   userId: string;
   /** Generation ID that triggered the build (optional) */
   generationId?: string;
+  /** Snapshot whose files are built, e.g. after a restore; the outcome is recorded on it */
+  snapshotId?: string;
   /** Build configuration */
   config: {
     /** Build command to run */
@@ -336,6 +379,20 @@ export interface BuildJobResult {
  */
 export type DeploymentEnvironment = 'preview' | 'staging' | 'production';
 
+/**
+ * Where a deployment runs
+ *
+ * - docker: a container on the worker's Docker daemon
+ * - static: the built site, served by a shared nginx
+ * - compose: a docker-compose bundle to run elsewhere
+ */
+export type DeploymentTargetKind = 'docker' | 'static' | 'compose';
+
+/**
+ * Deployment target per environment; environments without one use `docker`
+ */
+export type DeploymentTargetSettings = Partial<Record<DeploymentEnvironment, DeploymentTargetKind>>;
+
 /**
  * Deploy job data payload
  */
@@ -348,8 +405,17 @@ export interface DeployJobData {
   userId: string;
   /** Build ID to deploy */
   buildId: string;
+  /** Project version being deployed, recorded on the deployment */
+  versionId?: string;
+  /**
+   * Make versionId current and restore its files before building, once
+   * the deployment is allowed to run
+   */
+  promote?: boolean;
   /** Target environment */
   environment: DeploymentEnvironment;
+  /** Overrides the project's deployment target for this environment */
+  target?: DeploymentTargetKind;
   /** Domain configuration */
   domain?: {
     name: string;
@@ -379,6 +445,10 @@ export interface DeployJobResult {
   port?: number;
   /** Docker image ID used for deployment */
   imageId?: string;
+  /** Target the deployment ran on */
+  target?: DeploymentTargetKind;
+  /** Exported bundle (compose deployments) */
+  artifactPath?: string;
   /** Error message if failed */
   error?: string;
   /** Duration in milliseconds */
@@ -0,0 +1,89 @@
+/**
+ * Subscription quota types shared by the web API and the worker
+ *
+ * The checker and its Prisma-backed usage source live in @nexusgen/utils.
+ */
+
+// ============================================
+// Limits
+// ============================================
+
+/** Subscription tier (mirrors the SubscriptionTier enum) */
+export type QuotaTier = 'FREE' | 'STARTER' | 'PRO' | 'ENTERPRISE';
+
+/** Resources with a per-subscription limit */
+export type QuotaResource = 'projects' | 'deployments' | 'storage' | 'aiTokens';
+
+/** Limit per resource; a negative limit means unlimited */
+export type QuotaLimits = Record<QuotaResource, number>;
+
+/**
+ * A user's tier and limits for the current billing period
+ */
+export interface QuotaPlan {
+  tier: QuotaTier;
+  limits: QuotaLimits;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+/**
+ * Where the checker reads plans and current usage from
+ */
+export interface QuotaUsageSource {
+  /** The user's plan for the current period */
+  getPlan(userId: string): Promise<QuotaPlan>;
+  /** Current usage of a resource; periodic resources count from `plan.periodStart` */
+  getUsage(userId: string, resource: QuotaResource, plan: QuotaPlan): Promise<number>;
+}
+
+// ============================================
+// Results and Errors
+// ============================================
+
+/**
+ * Usage of one resource against its limit
+ */
+export interface QuotaAllowance {
+  resource: QuotaResource;
+  used: number;
+  /** Negative when unlimited */
+  limit: number;
+  /** Null when unlimited */
+  remaining: number | null;
+}
+
+/**
+ * Outcome of checking whether an amount of a resource may be used
+ */
+export interface QuotaCheckResult {
+  allowed: boolean;
+  tier: QuotaTier;
+  /** Allowance before the requested amount is used */
+  allowance: QuotaAllowance;
+  /** Whether using the amount crosses QUOTA_WARNING_THRESHOLD */
+  warning: boolean;
+  /** When periodic allowances reset (ISO 8601) */
+  resetsAt: string;
+}
+
+/** 402 when a subscription limit is reached, 429 when too many jobs are in flight */
+export type QuotaErrorCode = 'QUOTA_EXCEEDED' | 'RATE_LIMITED';
+
+/**
+ * Error body returned by API routes when a quota blocks a request
+ */
+export interface QuotaErrorBody {
+  success: false;
+  error: string;
+  code: QuotaErrorCode;
+  tier: QuotaTier;
+  /** The resource that blocked the request, for QUOTA_EXCEEDED */
+  resource?: QuotaResource;
+  /** Remaining allowances for every resource */
+  allowances: QuotaAllowance[];
+  /** When periodic allowances reset (ISO 8601) */
+  resetsAt?: string;
+  /** For RATE_LIMITED, how long until a job slot is likely free */
+  retryAfterSeconds?: number;
+}
@@ -122,6 +122,21 @@ export type {
   UploadResult,
 } from './storage';
 
+// Subscription quotas
+export {
+  AI_TOKENS_USAGE_TYPE,
+  DEFAULT_QUOTA_LIMITS,
+  QUOTA_WARNING_THRESHOLD,
+  QuotaExceededError,
+  QuotaService,
+  createQuotaUsageSource,
+  crossesQuotaWarning,
+  getBillingPeriod,
+  getQuotaWarning,
+} from './quota';
+
+export type { QuotaDatabase, QuotaWarning } from './quota';
+
 // Port Manager utilities
 export {
   PortManager,
@@ -0,0 +1,275 @@
+import type { QuotaPlan, QuotaResource, QuotaUsageSource } from '@nexusgen/types';
+import { describe, expect, it } from 'vitest';
+
+import {
+  AI_TOKENS_USAGE_TYPE,
+  DEFAULT_QUOTA_LIMITS,
+  QuotaExceededError,
+  QuotaService,
+  createQuotaUsageSource,
+  crossesQuotaWarning,
+  getBillingPeriod,
+  getQuotaWarning,
+  type QuotaDatabase,
+} from './quota';
+
+const PERIOD = {
+  periodStart: new Date('2026-10-01T00:00:00Z'),
+  periodEnd: new Date('2026-11-01T00:00:00Z'),
+};
+
+function source(
+  limits: Partial<QuotaPlan['limits']>,
+  usage: Partial<Record<QuotaResource, number>>
+): QuotaUsageSource {
+  return {
+    getPlan: async () => ({
+      tier: 'FREE',
+      limits: { ...DEFAULT_QUOTA_LIMITS, ...limits },
+      ...PERIOD,
+    }),
+    getUsage: async (_userId, resource) => usage[resource] ?? 0,
+  };
+}
+
+describe('crossesQuotaWarning', () => {
+  it('warns when the amount reaches the threshold exactly', () => {
+    expect(crossesQuotaWarning(79, 1, 100)).toBe(true);
+    expect(crossesQuotaWarning(78, 1, 100)).toBe(false);
+  });
+
+  it('warns only once, when usage first crosses the threshold', () => {
+    expect(crossesQuotaWarning(70, 30, 100)).toBe(true);
+    expect(crossesQuotaWarning(80, 1, 100)).toBe(false);
+  });
+
+  it('never warns for unlimited or zero limits', () => {
+    expect(crossesQuotaWarning(0, 1_000_000, -1)).toBe(false);
+    expect(crossesQuotaWarning(0, 1, 0)).toBe(false);
+  });
+});
+
+describe('getQuotaWarning', () => {
+  it('reports usage after the amount', async () => {
+    const before = await new QuotaService(source({ aiTokens: 1000 }, { aiTokens: 700 })).check(
+      'user',
+      'aiTokens',
+      150
+    );
+
+    expect(getQuotaWarning('aiTokens', before, 150)).toEqual({
+      title: 'You have used 80% of your aiTokens quota',
+      message:
+        '850 of 1000 aiTokens used on the FREE plan. Upgrade to keep building without interruption.',
+      metadata: {
+        resource: 'aiTokens',
+        used: 850,
+        limit: 1000,
+        resetsAt: PERIOD.periodEnd.toISOString(),
+      },
+    });
+  });
+
+  it('returns null below the threshold', async () => {
+    const before = await new QuotaService(source({ aiTokens: 1000 }, { aiTokens: 700 })).check(
+      'user',
+      'aiTokens'
+    );
+
+    expect(getQuotaWarning('aiTokens', before)).toBeNull();
+  });
+});
+
+describe('QuotaService', () => {
+  it('allows usage up to the limit exactly', async () => {
+    const quotas = new QuotaService(source({ projects: 3 }, { projects: 2 }));
+
+    expect(await quotas.check('user', 'projects')).toMatchObject({
+      allowed: true,
+      allowance: { used: 2, limit: 3, remaining: 1 },
+    });
+    expect((await quotas.check('user', 'projects', 2)).allowed).toBe(false);
+  });
+
+  it('treats a negative limit as unlimited', async () => {
+    const quotas = new QuotaService(source({ deployments: -1 }, { deployments: 1_000_000 }));
+
+    expect(await quotas.check('user', 'deployments', 1_000)).toMatchObject({
+      allowed: true,
+      warning: false,
+      allowance: { limit: -1, remaining: null },
+    });
+  });
+
+  it('flags the check that crosses the warning threshold', async () => {
+    const quotas = new QuotaService(source({ projects: 10 }, { projects: 7 }));
+
+    expect((await quotas.check('user', 'projects')).warning).toBe(true);
+    expect((await quotas.check('user', 'projects', 0)).warning).toBe(false);
+  });
+
+  it('throws a 402 with every allowance when a limit is reached', async () => {
+    const quotas = new QuotaService(source({ projects: 3 }, { projects: 3, aiTokens: 500 }));
+
+    const error = await quotas.assert('user', 'projects').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).status).toBe(402);
+    expect((error as QuotaExceededError).body).toEqual({
+      success: false,
+      error: "The FREE plan's projects limit of 3 has been reached",
+      code: 'QUOTA_EXCEEDED',
+      tier: 'FREE',
+      resource: 'projects',
+      allowances: [
+        { resource: 'projects', used: 3, limit: 3, remaining: 0 },
+        { resource: 'deployments', used: 0, limit: 100, remaining: 100 },
+        {
+          resource: 'storage',
+          used: 0,
+          limit: DEFAULT_QUOTA_LIMITS.storage,
+          remaining: DEFAULT_QUOTA_LIMITS.storage,
+        },
+        { resource: 'aiTokens', used: 500, limit: 10000, remaining: 9500 },
+      ],
+      resetsAt: PERIOD.periodEnd.toISOString(),
+    });
+  });
+
+  it('returns the check when the amount is allowed', async () => {
+    const quotas = new QuotaService(source({ projects: 3 }, { projects: 1 }));
+
+    await expect(quotas.assert('user', 'projects')).resolves.toMatchObject({ allowed: true });
+  });
+});
+
+describe('QuotaExceededError', () => {
+  it('uses 429 for rate limits', () => {
+    const error = new QuotaExceededError({
+      success: false,
+      error: 'Too many jobs',
+      code: 'RATE_LIMITED',
+      tier: 'FREE',
+      allowances: [],
+    });
+
+    expect(error.status).toBe(429);
+    expect(error.message).toBe('Too many jobs');
+  });
+});
+
+describe('getBillingPeriod', () => {
+  it("uses the subscription's billing period", () => {
+    expect(
+      getBillingPeriod({
+        currentPeriodStart: PERIOD.periodStart,
+        currentPeriodEnd: PERIOD.periodEnd,
+      })
+    ).toEqual(PERIOD);
+  });
+
+  it('falls back to the calendar month without a billing period', () => {
+    const now = new Date('2026-12-15T12:00:00Z');
+    const month = {
+      periodStart: new Date('2026-12-01T00:00:00Z'),
+      periodEnd: new Date('2027-01-01T00:00:00Z'),
+    };
+
+    expect(getBillingPeriod(null, now)).toEqual(month);
+    expect(getBillingPeriod({ currentPeriodStart: null, currentPeriodEnd: null }, now)).toEqual(
+      month
+    );
+    expect(
+      getBillingPeriod({ currentPeriodStart: PERIOD.periodStart, currentPeriodEnd: null }, now)
+    ).toEqual(month);
+  });
+});
+
+describe('createQuotaUsageSource', () => {
+  function database(
+    subscription: Awaited<ReturnType<QuotaDatabase['subscription']['findUnique']>>
+  ): QuotaDatabase & { tokenQueries: unknown[] } {
+    const tokenQueries: unknown[] = [];
+
+    return {
+      tokenQueries,
+      subscription: { findUnique: async () => subscription },
+      project: { count: async () => 2 },
+      deployment: { count: async () => 5 },
+      asset: { aggregate: async () => ({ _sum: { size: null } }) },
+      usageRecord: {
+        aggregate: async (args) => {
+          tokenQueries.push(args);
+          return { _sum: { quantity: 1234n } };
+        },
+      },
+    };
+  }
+
+  it('reads limits and the billing period from the subscription', async () => {
+    const usage = createQuotaUsageSource(
+      database({
+        tier: 'PRO',
+        projectLimit: -1,
+        deploymentLimit: 1000,
+        storageLimit: 10n * 1024n * 1024n * 1024n,
+        aiTokenLimit: 500000,
+        currentPeriodStart: PERIOD.periodStart,
+        currentPeriodEnd: PERIOD.periodEnd,
+      })
+    );
+
+    expect(await usage.getPlan('user')).toEqual({
+      tier: 'PRO',
+      limits: { projects: -1, deployments: 1000, storage: 10 * 1024 ** 3, aiTokens: 500000 },
+      ...PERIOD,
+    });
+  });
+
+  it('falls back to the free limits and the calendar month without a subscription', async () => {
+    const plan = await createQuotaUsageSource(database(null)).getPlan('user');
+
+    expect(plan.tier).toBe('FREE');
+    expect(plan.limits).toEqual(DEFAULT_QUOTA_LIMITS);
+    expect(plan.periodStart.getUTCDate()).toBe(1);
+    expect(plan.periodEnd.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('falls back to the calendar month when the subscription has no billing period', async () => {
+    const plan = await createQuotaUsageSource(
+      database({
+        tier: 'STARTER',
+        projectLimit: 10,
+        deploymentLimit: 100,
+        storageLimit: 1024n,
+        aiTokenLimit: 50000,
+        currentPeriodStart: null,
+        currentPeriodEnd: null,
+      })
+    ).getPlan('user');
+
+    expect(plan.tier).toBe('STARTER');
+    expect({ periodStart: plan.periodStart, periodEnd: plan.periodEnd }).toEqual(
+      getBillingPeriod(null)
+    );
+  });
+
+  it('counts AI tokens from the start of the period', async () => {
+    const db = database(null);
+    const usage = createQuotaUsageSource(db);
+    const plan: QuotaPlan = { tier: 'FREE', limits: DEFAULT_QUOTA_LIMITS, ...PERIOD };
+
+    expect(await usage.getUsage('user', 'aiTokens', plan)).toBe(1234);
+    expect(await usage.getUsage('user', 'storage', plan)).toBe(0);
+    expect(db.tokenQueries).toEqual([
+      {
+        where: {
+          userId: 'user',
+          type: AI_TOKENS_USAGE_TYPE,
+          periodStart: { gte: PERIOD.periodStart },
+        },
+        _sum: { quantity: true },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * @nexusgen/utils - Subscription quotas
+ * Quota checks, the Prisma-backed usage source and the warning rule,
+ * shared by the web API and the worker so both count the same usage
+ *
+ * The usage source takes the app's own Prisma client.
+ */
+
+import type {
+  QuotaAllowance,
+  QuotaCheckResult,
+  QuotaErrorBody,
+  QuotaLimits,
+  QuotaPlan,
+  QuotaResource,
+  QuotaTier,
+  QuotaUsageSource,
+} from '@nexusgen/types';
+
+// ============ Limits ============
+
+/**
+ * UsageRecord type of AI tokens used by generations
+ */
+export const AI_TOKENS_USAGE_TYPE = 'ai_tokens';
+
+/**
+ * Limits for users without a subscription row
+ *
+ * Mirrors the column defaults of the Subscription model.
+ */
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  projects: 3,
+  deployments: 100,
+  storage: 1024 * 1024 * 1024, // 1GB in bytes
+  aiTokens: 10000,
+};
+
+/** Share of a limit at which the user is warned */
+export const QUOTA_WARNING_THRESHOLD = 0.8;
+
+// ============ Errors ============
+
+/**
+ * Thrown when a quota or job rate limit blocks a request
+ */
+export class QuotaExceededError extends Error {
+  readonly status: 402 | 429;
+
+  constructor(readonly body: QuotaErrorBody) {
+    super(body.error);
+    this.name = 'QuotaExceededError';
+    this.status = body.code === 'RATE_LIMITED' ? 429 : 402;
+  }
+}
+
+// ============ Warnings ============
+
+/**
+ * Content of a QUOTA_WARNING notification
+ */
+export interface QuotaWarning {
+  title: string;
+  message: string;
+  metadata: {
+    resource: QuotaResource;
+    used: number;
+    limit: number;
+    resetsAt: string;
+  };
+}
+
+/**
+ * Whether adding `amount` to `used` crosses the warning threshold
+ */
+export function crossesQuotaWarning(used: number, amount: number, limit: number): boolean {
+  if (limit <= 0) {
+    return false;
+  }
+  const threshold = limit * QUOTA_WARNING_THRESHOLD;
+  return used < threshold && used + amount >= threshold;
+}
+
+/**
+ * The warning to send when using `amount` more of a resource crosses the
+ * threshold, reporting usage after the amount
+ *
+ * @param before - Check made before the amount was used
+ * @returns Null when no warning is due
+ */
+export function getQuotaWarning(
+  resource: QuotaResource,
+  before: QuotaCheckResult,
+  amount = 1
+): QuotaWarning | null {
+  const { used, limit } = before.allowance;
+
+  if (!crossesQuotaWarning(used, amount, limit)) {
+    return null;
+  }
+
+  return {
+    title: `You have used ${QUOTA_WARNING_THRESHOLD * 100}% of your ${resource} quota`,
+    message: `${used + amount} of ${limit} ${resource} used on the ${before.tier} plan. Upgrade to keep building without interruption.`,
+    metadata: { resource, used: used + amount, limit, resetsAt: before.resetsAt },
+  };
+}
+
+// ============ Usage Source ============
+
+/**
+ * The Prisma models the usage source reads
+ *
+ * Structurally matches a PrismaClient, so each app passes its own.
+ */
+export interface QuotaDatabase {
+  subscription: {
+    findUnique(args: { where: { userId: string } }): Promise<{
+      tier: QuotaTier;
+      projectLimit: number;
+      deploymentLimit: number;
+      storageLimit: bigint;
+      aiTokenLimit: number;
+      currentPeriodStart: Date | null;
+      currentPeriodEnd: Date | null;
+    } | null>;
+  };
+  project: {
+    count(args: { where: { userId: string; deletedAt: null } }): Promise<number>;
+  };
+  deployment: {
+    count(args: { where: { userId: string; createdAt: { gte: Date } } }): Promise<number>;
+  };
+  asset: {
+    aggregate(args: {
+      where: { userId: string; deletedAt: null };
+      _sum: { size: true };
+    }): Promise<{ _sum: { size: number | null } }>;
+  };
+  usageRecord: {
+    aggregate(args: {
+      where: { userId: string; type: string; periodStart: { gte: Date } };
+      _sum: { quantity: true };
+    }): Promise<{ _sum: { quantity: bigint | null } }>;
+  };
+}
+
+/**
+ * Billing period of a subscription, or the current calendar month when it
+ * has none
+ */
+export function getBillingPeriod(
+  subscription?: { currentPeriodStart: Date | null; currentPeriodEnd: Date | null } | null,
+  now: Date = new Date()
+): { periodStart: Date; periodEnd: Date } {
+  if (subscription?.currentPeriodStart && subscription.currentPeriodEnd) {
+    return {
+      periodStart: subscription.currentPeriodStart,
+      periodEnd: subscription.currentPeriodEnd,
+    };
+  }
+
+  return {
+    periodStart: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    periodEnd: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * Read plans from Subscription rows and usage from the rows each resource
+ * is counted by
+ */
+export function createQuotaUsageSource(db: QuotaDatabase): QuotaUsageSource {
+  return {
+    async getPlan(userId: string): Promise<QuotaPlan> {
+      const subscription = await db.subscription.findUnique({ where: { userId } });
+
+      if (!subscription) {
+        return { tier: 'FREE', limits: DEFAULT_QUOTA_LIMITS, ...getBillingPeriod() };
+      }
+
+      return {
+        tier: subscription.tier,
+        limits: {
+          projects: subscription.projectLimit,
+          deployments: subscription.deploymentLimit,
+          storage: Number(subscription.storageLimit),
+          aiTokens: subscription.aiTokenLimit,
+        },
+        ...getBillingPeriod(subscription),
+      };
+    },
+
+    async getUsage(userId: string, resource: QuotaResource, plan: QuotaPlan): Promise<number> {
+      switch (resource) {
+        case 'projects':
+          return db.project.count({ where: { userId, deletedAt: null } });
+
+        case 'deployments':
+          return db.deployment.count({
+            where: { userId, createdAt: { gte: plan.periodStart } },
+          });
+
+        case 'storage': {
+          const result = await db.asset.aggregate({
+            where: { userId, deletedAt: null },
+            _sum: { size: true },
+          });
+          return result._sum.size ?? 0;
+        }
+
+        case 'aiTokens': {
+          const result = await db.usageRecord.aggregate({
+            where: { userId, type: AI_TOKENS_USAGE_TYPE, periodStart: { gte: plan.periodStart } },
+            _sum: { quantity: true },
+          });
+          return Number(result._sum.quantity ?? 0);
+        }
+      }
+    },
+  };
+}
+
+// ============ Checker ============
+
+/**
+ * Checks subscription quotas against a usage source
+ */
+export class QuotaService {
+  constructor(private readonly source: QuotaUsageSource) {}
+
+  /**
+   * Check whether `amount` more of a resource may be used
+   */
+  async check(userId: string, resource: QuotaResource, amount = 1): Promise<QuotaCheckResult> {
+    const plan = await this.source.getPlan(userId);
+    const allowance = await this.getAllowance(userId, resource, plan);
+    const unlimited = allowance.limit < 0;
+
+    return {
+      allowed: unlimited || allowance.used + amount <= allowance.limit,
+      tier: plan.tier,
+      allowance,
+      warning: !unlimited && crossesQuotaWarning(allowance.used, amount, allowance.limit),
+      resetsAt: plan.periodEnd.toISOString(),
+    };
+  }
+
+  /**
+   * Check a resource, throwing a QuotaExceededError (402) when it is used up
+   */
+  async assert(userId: string, resource: QuotaResource, amount = 1): Promise<QuotaCheckResult> {
+    const result = await this.check(userId, resource, amount);
+
+    if (!result.allowed) {
+      throw new QuotaExceededError({
+        success: false,
+        error: `The ${result.tier} plan's ${resource} limit of ${result.allowance.limit} has been reached`,
+        code: 'QUOTA_EXCEEDED',
+        tier: result.tier,
+        resource,
+        allowances: await this.getAllowances(userId),
+        resetsAt: result.resetsAt,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Current allowance of every resource
+   */
+  async getAllowances(userId: string): Promise<QuotaAllowance[]> {
+    const plan = await this.source.getPlan(userId);
+    const resources = Object.keys(plan.limits) as QuotaResource[];
+
+    return Promise.all(resources.map((resource) => this.getAllowance(userId, resource, plan)));
+  }
+
+  private async getAllowance(
+    userId: string,
+    resource: QuotaResource,
+    plan: QuotaPlan
+  ): Promise<QuotaAllowance> {
+    const used = await this.source.getUsage(userId, resource, plan);
+    const limit = plan.limits[resource];
+
+    return {
+      resource,
+      used,
+      limit,
+      remaining: limit < 0 ? null : Math.max(0, limit - used),
+    };
+  }
+}